@@ -16,8 +16,10 @@ import GameAnalytics from "@/pages/GameAnalytics";
 import DealTemplate from "@/pages/deal-template";
 import DealPage from "@/pages/deal-page";
 import NotificationsPage from "@/pages/notifications";
+import WalletPage from "@/pages/wallet";
 import GameSchedulingTest from "@/pages/GameSchedulingTest";
 import DealVerificationTestPage from "@/pages/deal-verification-test";
+import StatusPage from "@/pages/status";
 import NotFound from "@/pages/not-found";
 import Test from "@/pages/test";
 
@@ -32,6 +34,7 @@ function Router() {
       return (
         <Switch>
           <Route path="/test" component={Test} />
+          <Route path="/status" component={StatusPage} />
           <Route path="/" component={Landing} />
           <Route path="/home" component={Home} />
           <Route path="/admin" component={Admin} />
@@ -43,6 +46,7 @@ function Router() {
           <Route path="/admin/deal-template" component={() => <DealTemplate />} />
           <Route path="/deal/:slug" component={DealPage} />
           <Route path="/notifications" component={NotificationsPage} />
+          <Route path="/wallet" component={WalletPage} />
           <Route path="/game-scheduling-test" component={GameSchedulingTest} />
           <Route path="/deal-verification-test" component={DealVerificationTestPage} />
           <Route component={NotFound} />
@@ -54,6 +58,8 @@ function Router() {
       <Switch>
         {/* Production routes with authentication */}
         <Route path="/test" component={Test} />
+        {/* Public status page, no sign-in required */}
+        <Route path="/status" component={StatusPage} />
         {isLoading || !isAuthenticated ? (
           <>
             <Route path="/" component={Landing} />
@@ -68,6 +74,7 @@ function Router() {
             <Route path="/deal-discovery" component={DealDiscovery} />
             <Route path="/analytics" component={GameAnalytics} />
             <Route path="/notifications" component={NotificationsPage} />
+            <Route path="/wallet" component={WalletPage} />
             <Route path="/game-scheduling-test" component={GameSchedulingTest} />
             <Route path="/deal-verification-test" component={DealVerificationTestPage} />
           </>
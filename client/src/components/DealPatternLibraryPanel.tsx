@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpen, Check, Pencil, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type PatternStatus = "active" | "proposed" | "dismissed" | "disabled";
+type TriggerType = "win" | "score" | "performance" | "occurrence";
+
+interface DealPattern {
+  id: string;
+  market: string;
+  restaurant: string;
+  team: string;
+  sport: string;
+  triggerType: TriggerType;
+  conditions: {
+    venue?: "home" | "away" | "any";
+    scoreThreshold?: number;
+    margin?: number;
+    occurrenceType?: string;
+  };
+  reward: { item: string; value: string; promoCode?: string };
+  patterns: string[];
+  confidence: number;
+  seasonalPattern: boolean;
+  status: PatternStatus;
+  sourceSiteId: number | null;
+  confirmedCount: number;
+  rejectedCount: number;
+  lastSeen?: string;
+}
+
+const PATTERNS_KEY = ["/api/admin/deal-patterns"];
+
+const EMPTY_PATTERN: DealPattern = {
+  id: "",
+  market: "los-angeles",
+  restaurant: "",
+  team: "",
+  sport: "MLB",
+  triggerType: "win",
+  conditions: {},
+  reward: { item: "", value: "" },
+  patterns: [],
+  confidence: 0.8,
+  seasonalPattern: true,
+  status: "active",
+  sourceSiteId: null,
+  confirmedCount: 0,
+  rejectedCount: 0,
+};
+
+function patternBody(pattern: DealPattern) {
+  return {
+    market: pattern.market,
+    restaurant: pattern.restaurant,
+    team: pattern.team,
+    sport: pattern.sport,
+    triggerType: pattern.triggerType,
+    conditions: pattern.conditions,
+    reward: {
+      item: pattern.reward.item,
+      value: pattern.reward.value,
+      promoCode: pattern.reward.promoCode || undefined,
+    },
+    patterns: pattern.patterns,
+    confidence: pattern.confidence,
+    seasonalPattern: pattern.seasonalPattern,
+    status: pattern.status,
+  };
+}
+
+function PatternDialog({ pattern, isNew, onClose }: { pattern: DealPattern; isNew: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DealPattern>(pattern);
+  const [phrases, setPhrases] = useState(pattern.patterns.join("\n"));
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const body = { ...patternBody(draft), patterns: phrases.split("\n").map(p => p.trim()).filter(Boolean) };
+      const response = isNew
+        ? await apiRequest("POST", "/api/admin/deal-patterns", { id: draft.id, ...body })
+        : await apiRequest("PUT", `/api/admin/deal-patterns/${draft.id}`, body);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PATTERNS_KEY });
+      toast({ title: isNew ? "Pattern added" : "Pattern saved" });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const set = (updates: Partial<DealPattern>) => setDraft(current => ({ ...current, ...updates }));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Add deal pattern" : `Edit ${pattern.id}`}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          {isNew && (
+            <div className="col-span-2">
+              <Label>Id</Label>
+              <Input value={draft.id} placeholder="restaurant-team-trigger" onChange={(e) => set({ id: e.target.value })} />
+            </div>
+          )}
+          <div>
+            <Label>Market</Label>
+            <Input value={draft.market} onChange={(e) => set({ market: e.target.value })} />
+          </div>
+          <div>
+            <Label>Sport</Label>
+            <Input value={draft.sport} onChange={(e) => set({ sport: e.target.value })} />
+          </div>
+          <div>
+            <Label>Restaurant</Label>
+            <Input value={draft.restaurant} onChange={(e) => set({ restaurant: e.target.value })} />
+          </div>
+          <div>
+            <Label>Team</Label>
+            <Input value={draft.team} placeholder="Dodgers" onChange={(e) => set({ team: e.target.value })} />
+          </div>
+          <div>
+            <Label>Trigger</Label>
+            <Select value={draft.triggerType} onValueChange={(value) => set({ triggerType: value as TriggerType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="win">Win</SelectItem>
+                <SelectItem value="score">Score</SelectItem>
+                <SelectItem value="performance">Performance</SelectItem>
+                <SelectItem value="occurrence">Occurrence</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Status</Label>
+            <Select value={draft.status} onValueChange={(value) => set({ status: value as PatternStatus })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="disabled">Disabled</SelectItem>
+                <SelectItem value="proposed">Proposed</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Reward</Label>
+            <Input
+              value={draft.reward.item}
+              placeholder="6pc Chicken McNuggets"
+              onChange={(e) => set({ reward: { ...draft.reward, item: e.target.value } })}
+            />
+          </div>
+          <div>
+            <Label>Value</Label>
+            <Input
+              value={draft.reward.value}
+              placeholder="free"
+              onChange={(e) => set({ reward: { ...draft.reward, value: e.target.value } })}
+            />
+          </div>
+          <div>
+            <Label>Promo code</Label>
+            <Input
+              value={draft.reward.promoCode ?? ""}
+              onChange={(e) => set({ reward: { ...draft.reward, promoCode: e.target.value } })}
+            />
+          </div>
+          <div>
+            <Label>Confidence</Label>
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.confidence}
+              onChange={(e) => set({ confidence: Number(e.target.value) })}
+            />
+          </div>
+          <div className="col-span-2">
+            <Label>Phrases (one per line, {"{placeholders}"} allowed)</Label>
+            <Textarea rows={5} value={phrases} onChange={(e) => setPhrases(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => save.mutate()} disabled={save.isPending || !draft.id}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function DealPatternLibraryPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<{ pattern: DealPattern; isNew: boolean } | null>(null);
+
+  const { data, isLoading } = useQuery<{ patterns: DealPattern[] }>({
+    queryKey: PATTERNS_KEY,
+  });
+
+  const patterns = data?.patterns || [];
+  const proposals = patterns.filter(p => p.status === "proposed");
+  const library = patterns.filter(p => p.status === "active" || p.status === "disabled");
+
+  const act = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "accept" | "dismiss" | "delete" }) => {
+      const response = action === "delete"
+        ? await apiRequest("DELETE", `/api/admin/deal-patterns/${id}`)
+        : await apiRequest("POST", `/api/admin/deal-patterns/${id}/${action}`);
+      return await response.json();
+    },
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: PATTERNS_KEY });
+      toast({ title: action === "accept" ? "Pattern accepted" : action === "dismiss" ? "Proposal dismissed" : "Pattern deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Deal Pattern Library
+          {proposals.length > 0 && <Badge variant="secondary">{proposals.length} proposed</Badge>}
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setEditing({ pattern: EMPTY_PATTERN, isNew: true })}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: PATTERNS_KEY })}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading patterns...</p>
+        ) : (
+          <>
+            {proposals.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Proposed from approved deals</h3>
+                {proposals.map(pattern => (
+                  <div key={pattern.id} className="border rounded-lg p-3 flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <div className="font-medium">
+                        {pattern.restaurant} · {pattern.team} · {pattern.triggerType}
+                      </div>
+                      <div className="text-sm text-gray-600">"{pattern.patterns[0]}"</div>
+                      <div className="text-xs text-gray-500">
+                        {pattern.reward.value} {pattern.reward.item}
+                        {pattern.sourceSiteId !== null && <> · from discovered site #{pattern.sourceSiteId}</>}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditing({ pattern, isNew: false })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" onClick={() => act.mutate({ id: pattern.id, action: "accept" })} disabled={act.isPending}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Accept
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => act.mutate({ id: pattern.id, action: "dismiss" })} disabled={act.isPending}>
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {library.length === 0 ? (
+              <p className="text-sm text-gray-500">No patterns in the library yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pattern</TableHead>
+                    <TableHead>Market</TableHead>
+                    <TableHead>Reward</TableHead>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead>Reviews</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {library.map(pattern => (
+                    <TableRow key={pattern.id}>
+                      <TableCell>
+                        <div className="font-medium">{pattern.id}</div>
+                        <div className="text-xs text-gray-500">{pattern.restaurant} · {pattern.team}</div>
+                        {pattern.status === "disabled" && <Badge variant="outline">disabled</Badge>}
+                      </TableCell>
+                      <TableCell>{pattern.market}</TableCell>
+                      <TableCell className="text-sm">
+                        {pattern.reward.value} {pattern.reward.item}
+                        {pattern.reward.promoCode && <div className="text-xs text-gray-500">code {pattern.reward.promoCode}</div>}
+                      </TableCell>
+                      <TableCell>{(pattern.confidence * 100).toFixed(0)}%</TableCell>
+                      <TableCell className="text-sm">
+                        <span className="text-green-700">+{pattern.confirmedCount}</span>
+                        {" / "}
+                        <span className="text-red-700">-{pattern.rejectedCount}</span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 justify-end">
+                          <Button size="sm" variant="outline" onClick={() => setEditing({ pattern, isNew: false })}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => act.mutate({ id: pattern.id, action: "delete" })}
+                            disabled={act.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+      {editing && (
+        <PatternDialog
+          key={editing.pattern.id || "new"}
+          pattern={editing.pattern}
+          isNew={editing.isNew}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Radio } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDealStream } from "@/hooks/useDealStream";
+
+interface LiveScore {
+  gameId: string;
+  home: { name: string; score: number };
+  away: { name: string; score: number };
+  status: string;
+  isFinal: boolean;
+  inning?: number;
+}
+
+// Scores for the user's teams as they change, plus a toast when a deal triggers or is about to expire
+export default function LiveGameScores() {
+  const { toast } = useToast();
+  const [scores, setScores] = useState<Record<string, LiveScore>>({});
+
+  useDealStream(message => {
+    if (message.type === "score_change") {
+      setScores(current => ({ ...current, [message.data.gameId]: message.data }));
+    } else if (message.type === "deal_triggered") {
+      toast({
+        title: "Deal triggered!",
+        description: message.data.title || "A deal for your team just became available.",
+      });
+    } else if (message.type === "deal_expiring") {
+      toast({
+        title: "Deal expiring soon",
+        description: `${message.data.title || "A deal"} expires at ${new Date(message.data.expiresAt).toLocaleTimeString()}.`,
+      });
+    }
+  });
+
+  const games = Object.values(scores);
+  if (games.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3 mb-6">
+      {games.map(game => (
+        <Card key={game.gameId}>
+          <CardContent className="pt-4 space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>{game.status}{!game.isFinal && game.inning ? ` · Inning ${game.inning}` : ""}</span>
+              {!game.isFinal && (
+                <Badge variant="destructive" className="gap-1">
+                  <Radio className="h-3 w-3" /> Live
+                </Badge>
+              )}
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>{game.away.name}</span>
+              <span className="font-semibold">{game.away.score}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>{game.home.name}</span>
+              <span className="font-semibold">{game.home.score}</span>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
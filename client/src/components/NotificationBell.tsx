@@ -6,15 +6,20 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Link } from "wouter";
+import { useDealStream } from "@/hooks/useDealStream";
 import type { AlertHistory } from "@/types/api";
 
 export default function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
 
-  const { data: unreadCount = 0 } = useQuery<number>({
+  // Triggered deals refresh the count and list below as they happen
+  useDealStream();
+
+  const { data: unread } = useQuery<{ count: number }>({
     queryKey: ["/api/notifications/unread"],
     retry: false,
   });
+  const unreadCount = unread?.count ?? 0;
 
   const { data: recentAlerts = [] } = useQuery<AlertHistory[]>({
     queryKey: ["/api/alert-history"],
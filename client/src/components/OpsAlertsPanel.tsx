@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BellOff, Check, Clock, RefreshCw, Siren, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ActiveAlert {
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  severity: "info" | "warning" | "critical";
+  metric: string;
+  currentValue: number;
+  threshold: number;
+  description: string;
+  occurrenceCount: number;
+  firstFired: string;
+  lastFired: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  snoozedUntil?: string;
+}
+
+interface PersistedAlert {
+  alertId: string;
+  ruleName: string;
+  severity: string;
+  status: string;
+  description: string | null;
+  occurrenceCount: number | null;
+  firstFiredAt: string;
+  resolvedAt: string | null;
+  resolutionReason: string | null;
+  resolvedBy: string | null;
+}
+
+interface AlertSilence {
+  ruleId: string;
+  silencedUntil: string;
+  reason?: string;
+  createdBy?: string;
+}
+
+interface AlertsResponse {
+  active: ActiveAlert[];
+  alerts: PersistedAlert[];
+  silences: AlertSilence[];
+  rules: Array<{ ruleId: string; name: string; severity: string; enabled: boolean }>;
+}
+
+const SILENCE_DURATIONS = [
+  { minutes: 60, label: "1 hour" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 720, label: "12 hours" },
+  { minutes: 1440, label: "24 hours" },
+];
+
+function severityVariant(severity: string): "destructive" | "default" | "secondary" {
+  if (severity === "critical") return "destructive";
+  if (severity === "warning") return "default";
+  return "secondary";
+}
+
+function formatTime(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export default function OpsAlertsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [silenceRuleId, setSilenceRuleId] = useState("");
+  const [silenceMinutes, setSilenceMinutes] = useState("60");
+  const [silenceReason, setSilenceReason] = useState("");
+
+  const { data, isLoading } = useQuery<AlertsResponse>({
+    queryKey: ["/api/admin/alerts"],
+    refetchInterval: 30000,
+  });
+
+  const alertAction = useMutation({
+    mutationFn: async ({ method, url, body }: { method: string; url: string; body?: unknown }) => {
+      const response = await apiRequest(method, url, body);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/alerts"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Alert action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acknowledge = (alertId: string) =>
+    alertAction.mutate({ method: "POST", url: `/api/admin/alerts/${encodeURIComponent(alertId)}/acknowledge` });
+
+  const snooze = (alertId: string) =>
+    alertAction.mutate({ method: "POST", url: `/api/admin/alerts/${encodeURIComponent(alertId)}/snooze`, body: { minutes: 60 } });
+
+  const resolve = (alertId: string) =>
+    alertAction.mutate({ method: "POST", url: `/api/admin/alerts/${encodeURIComponent(alertId)}/resolve`, body: {} });
+
+  const silence = () => {
+    alertAction.mutate(
+      {
+        method: "POST",
+        url: "/api/admin/alerts/silences",
+        body: { ruleId: silenceRuleId, minutes: Number(silenceMinutes), reason: silenceReason || undefined },
+      },
+      {
+        onSuccess: () => {
+          setSilenceRuleId("");
+          setSilenceReason("");
+        },
+      }
+    );
+  };
+
+  const unsilence = (ruleId: string) =>
+    alertAction.mutate({ method: "DELETE", url: `/api/admin/alerts/silences/${encodeURIComponent(ruleId)}` });
+
+  const active = data?.active || [];
+  const silences = data?.silences || [];
+  const history = (data?.alerts || []).filter(alert => alert.status === "resolved");
+  const ruleName = (ruleId: string) => data?.rules.find(rule => rule.ruleId === ruleId)?.name || ruleId;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Siren className="h-5 w-5" />
+          Ops Alerts
+          {active.length > 0 && <Badge variant="destructive">{active.length} firing</Badge>}
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/alerts"] })}
+        >
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading alerts...</p>
+        ) : active.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is firing.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Severity</TableHead>
+                <TableHead>Alert</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Firing since</TableHead>
+                <TableHead>State</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {active.map(alert => (
+                <TableRow key={alert.alertId}>
+                  <TableCell>
+                    <Badge variant={severityVariant(alert.severity)}>{alert.severity}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{alert.ruleName}</div>
+                    <div className="text-xs text-gray-500">{alert.description}</div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {alert.currentValue} / {alert.threshold}
+                    {alert.occurrenceCount > 1 && <div className="text-gray-500">×{alert.occurrenceCount}</div>}
+                  </TableCell>
+                  <TableCell className="text-xs">{formatTime(alert.firstFired)}</TableCell>
+                  <TableCell className="text-xs">
+                    {alert.acknowledgedAt && (
+                      <div>Acked{alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ""}</div>
+                    )}
+                    {alert.snoozedUntil && new Date(alert.snoozedUntil) > new Date() && (
+                      <div>Snoozed until {formatTime(alert.snoozedUntil)}</div>
+                    )}
+                    {silences.some(s => s.ruleId === alert.ruleId) && <div>Rule silenced</div>}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1 whitespace-nowrap">
+                    {!alert.acknowledgedAt && (
+                      <Button size="sm" variant="outline" onClick={() => acknowledge(alert.alertId)} disabled={alertAction.isPending}>
+                        <Check className="h-3 w-3 mr-1" />
+                        Ack
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => snooze(alert.alertId)} disabled={alertAction.isPending}>
+                      <Clock className="h-3 w-3 mr-1" />
+                      1h
+                    </Button>
+                    <Button size="sm" onClick={() => resolve(alert.alertId)} disabled={alertAction.isPending}>
+                      Resolve
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold flex items-center gap-2">
+            <BellOff className="h-4 w-4" />
+            Silenced Rules
+          </h3>
+          {silences.map(s => (
+            <div key={s.ruleId} className="flex items-center justify-between text-sm border rounded p-2">
+              <div>
+                <span className="font-medium">{ruleName(s.ruleId)}</span>
+                <span className="text-gray-500"> until {formatTime(s.silencedUntil)}</span>
+                {s.reason && <span className="text-gray-500"> — {s.reason}</span>}
+                {s.createdBy && <span className="text-gray-400"> ({s.createdBy})</span>}
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => unsilence(s.ruleId)} disabled={alertAction.isPending}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={silenceRuleId} onValueChange={setSilenceRuleId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Rule to silence" />
+              </SelectTrigger>
+              <SelectContent>
+                {(data?.rules || []).map(rule => (
+                  <SelectItem key={rule.ruleId} value={rule.ruleId}>{rule.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={silenceMinutes} onValueChange={setSilenceMinutes}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SILENCE_DURATIONS.map(d => (
+                  <SelectItem key={d.minutes} value={String(d.minutes)}>{d.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-64"
+              placeholder="Reason (optional)"
+              value={silenceReason}
+              onChange={(e) => setSilenceReason(e.target.value)}
+            />
+            <Button size="sm" onClick={silence} disabled={!silenceRuleId || alertAction.isPending}>
+              Silence
+            </Button>
+          </div>
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Recently Resolved</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Alert</TableHead>
+                  <TableHead>Fired</TableHead>
+                  <TableHead>Resolved</TableHead>
+                  <TableHead>Resolution</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.slice(0, 20).map(alert => (
+                  <TableRow key={alert.alertId}>
+                    <TableCell>
+                      <Badge variant={severityVariant(alert.severity)} className="mr-2">{alert.severity}</Badge>
+                      {alert.ruleName}
+                    </TableCell>
+                    <TableCell className="text-xs">{formatTime(alert.firstFiredAt)}</TableCell>
+                    <TableCell className="text-xs">{formatTime(alert.resolvedAt)}</TableCell>
+                    <TableCell className="text-xs">
+                      {alert.resolutionReason || "—"}
+                      {alert.resolvedBy && <span className="text-gray-500"> ({alert.resolvedBy})</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
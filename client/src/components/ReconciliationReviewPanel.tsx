@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw, Scale } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type FieldValue = string | number | boolean;
+
+interface SourceContribution {
+  source: string;
+  data: any;
+  weight: number;
+  weightedScore: number;
+  timestamp: string;
+  agrees: boolean;
+}
+
+interface ReconciliationReview {
+  id: number;
+  gameId: string;
+  promotionId: number | null;
+  status: "pending" | "resolved";
+  consensusStatus: string;
+  confidence: number | null;
+  decisionRationale: string | null;
+  sources: SourceContribution[];
+  disputedFields: string[];
+  resolution: Record<string, { source: string; value: FieldValue }> | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+interface FieldDecision {
+  source: string;
+  manual?: string;
+}
+
+const MANUAL = "manual";
+const PENDING_REVIEWS_KEY = ["/api/admin/reconciliation/reviews?status=pending"];
+
+// Every critical field is shown; context rows help judge which source is current
+const FIELD_LABELS: Record<string, string> = {
+  "teams.away.score": "Away score",
+  "teams.home.score": "Home score",
+  "status.isFinal": "Final",
+  "status.detailedState": "Status",
+  "inning": "Inning",
+};
+
+function getNestedValue(obj: any, path: string): any {
+  return path.split(".").reduce((current, key) => current?.[key], obj);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function ReviewCard({ review }: { review: ReconciliationReview }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [decisions, setDecisions] = useState<Record<string, FieldDecision>>({});
+  const [note, setNote] = useState("");
+
+  const sample = review.sources[0]?.data;
+  const matchup = sample ? `${sample.teams.away.name} @ ${sample.teams.home.name}` : `Game ${review.gameId}`;
+  const complete = review.disputedFields.every(field => {
+    const decision = decisions[field];
+    return decision && (decision.source !== MANUAL || (decision.manual ?? "") !== "");
+  });
+
+  const resolve = useMutation({
+    mutationFn: async () => {
+      const body = {
+        decisions: Object.fromEntries(review.disputedFields.map(field => {
+          const decision = decisions[field];
+          if (decision.source !== MANUAL) return [field, { source: decision.source }];
+          const value = field === "status.isFinal" ? decision.manual === "true" : Number(decision.manual);
+          return [field, { source: MANUAL, value }];
+        })),
+        note: note || undefined,
+      };
+      const response = await apiRequest("POST", `/api/admin/reconciliation/reviews/${review.id}/resolve`, body);
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: PENDING_REVIEWS_KEY });
+      const approved = result.execution?.approvedPromotions?.length > 0;
+      toast({
+        title: "Review resolved",
+        description: result.resumeError
+          ? `Decision saved, but the workflow could not resume: ${result.resumeError}`
+          : approved ? "The promotion triggered on the reviewed game state." : "The promotion did not trigger on the reviewed game state.",
+        variant: result.resumeError ? "destructive" : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Review failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const choose = (field: string, decision: FieldDecision) =>
+    setDecisions(current => ({ ...current, [field]: decision }));
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">{matchup}</div>
+          <div className="text-xs text-gray-500">
+            Game {review.gameId}
+            {review.promotionId !== null && <> · Promotion #{review.promotionId}</>}
+            {" · "}queued {new Date(review.createdAt).toLocaleString()}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="destructive">{review.consensusStatus}</Badge>
+          {review.confidence !== null && (
+            <Badge variant="secondary">{(review.confidence * 100).toFixed(1)}% confidence</Badge>
+          )}
+        </div>
+      </div>
+      {review.decisionRationale && <p className="text-sm text-gray-600">{review.decisionRationale}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            {review.sources.map(source => (
+              <TableHead key={source.source}>
+                {source.source}
+                <div className="text-xs font-normal text-gray-500">
+                  weight {source.weight} · score {source.weightedScore.toFixed(2)}
+                </div>
+              </TableHead>
+            ))}
+            <TableHead>Manual</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {Object.keys(FIELD_LABELS).map(field => {
+            const disputed = review.disputedFields.includes(field);
+            const decision = decisions[field];
+            return (
+              <TableRow key={field} className={disputed ? "bg-amber-50" : undefined}>
+                <TableCell className="font-medium">
+                  {FIELD_LABELS[field]}
+                  {disputed && <Badge variant="outline" className="ml-2 text-amber-700 border-amber-400">disputed</Badge>}
+                </TableCell>
+                {review.sources.map(source => {
+                  const value = getNestedValue(source.data, field);
+                  const selected = decision?.source === source.source;
+                  return (
+                    <TableCell key={source.source}>
+                      {disputed ? (
+                        <Button
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          onClick={() => choose(field, { source: source.source })}
+                        >
+                          {formatValue(value)}
+                        </Button>
+                      ) : (
+                        <span className="text-sm">{formatValue(value)}</span>
+                      )}
+                    </TableCell>
+                  );
+                })}
+                <TableCell>
+                  {disputed && (field === "status.isFinal" ? (
+                    <Select
+                      value={decision?.source === MANUAL ? decision.manual : ""}
+                      onValueChange={(manual) => choose(field, { source: MANUAL, manual })}
+                    >
+                      <SelectTrigger className="w-24">
+                        <SelectValue placeholder="—" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="true">Yes</SelectItem>
+                        <SelectItem value="false">No</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-24"
+                      value={decision?.source === MANUAL ? decision.manual : ""}
+                      onChange={(e) => choose(field, { source: MANUAL, manual: e.target.value })}
+                    />
+                  ))}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="flex-1 min-w-64"
+          placeholder="Note for the audit trail (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <Button onClick={() => resolve.mutate()} disabled={!complete || resolve.isPending}>
+          Resolve & resume
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function ReconciliationReviewPanel() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ reviews: ReconciliationReview[] }>({
+    queryKey: PENDING_REVIEWS_KEY,
+    refetchInterval: 30000,
+  });
+
+  const reviews = data?.reviews || [];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Consensus Review Queue
+          {reviews.length > 0 && <Badge variant="destructive">{reviews.length} waiting</Badge>}
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => queryClient.invalidateQueries({ queryKey: PENDING_REVIEWS_KEY })}
+        >
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading reviews...</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-gray-500">No consensus decisions are waiting for review.</p>
+        ) : (
+          reviews.map(review => <ReviewCard key={review.id} review={review} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Gauge, Pause, Play, Plus, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TermStatus = "active" | "paused" | "auto_paused";
+type StatusFilter = "all" | "active" | "paused";
+
+interface TrendPoint {
+  date: string;
+  successRate: number;
+  usageCount: number;
+  approvedDeals: number;
+}
+
+interface RankedTerm {
+  id: number;
+  term: string;
+  category: string;
+  origin: string;
+  status: TermStatus;
+  autoPause: boolean;
+  sourceDealPageId: number | null;
+  usageCount: number;
+  sitesFound: number;
+  approvedDeals: number;
+  rejectedSites: number;
+  successRate: number;
+  trendDelta: number | null;
+  trend: TrendPoint[];
+  lastUsed: string | null;
+  pauseReason: string | null;
+}
+
+interface LifecycleRun {
+  scored: number;
+  paused: Array<{ id: number; term: string; reason: string }>;
+  candidates: Array<{ id: number; term: string }>;
+}
+
+const TERMS_KEY = ["/api/admin/search-terms"];
+
+const CATEGORIES = ["restaurant_team", "general_promo", "sport_specific", "food_item"];
+
+const chartConfig = {
+  successRate: { label: "Success rate", color: "hsl(142, 71%, 45%)" },
+  approvedDeals: { label: "Approved deals", color: "hsl(217, 91%, 60%)" },
+} satisfies ChartConfig;
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function StatusBadge({ term }: { term: RankedTerm }) {
+  if (term.status === "active") {
+    return term.autoPause ? null : <Badge variant="outline">kept running</Badge>;
+  }
+  return (
+    <Badge variant="secondary" title={term.pauseReason || undefined}>
+      {term.status === "auto_paused" ? "auto-paused" : "paused"}
+    </Badge>
+  );
+}
+
+function TrendDelta({ delta }: { delta: number | null }) {
+  if (delta === null || delta === 0) return <span className="text-xs text-gray-400">–</span>;
+  const Icon = delta > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs ${delta > 0 ? "text-green-700" : "text-red-700"}`}>
+      <Icon className="h-3 w-3" />
+      {delta > 0 ? "+" : ""}{Math.round(delta * 100)}pt
+    </span>
+  );
+}
+
+function Sparkline({ points }: { points: TrendPoint[] }) {
+  if (points.length < 2) return <span className="text-xs text-gray-400">not enough data</span>;
+  return (
+    <LineChart width={96} height={28} data={points}>
+      <YAxis hide domain={[0, 1]} />
+      <Line type="monotone" dataKey="successRate" stroke="hsl(142, 71%, 45%)" strokeWidth={2} dot={false} isAnimationActive={false} />
+    </LineChart>
+  );
+}
+
+function TrendChart({ term }: { term: RankedTerm }) {
+  return (
+    <div className="border rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">"{term.term}" over time</h3>
+        <span className="text-xs text-gray-500">
+          {term.approvedDeals} approved · {term.rejectedSites} rejected · {term.sitesFound} found in {term.usageCount} searches
+        </span>
+      </div>
+      {term.trend.length === 0 ? (
+        <p className="text-sm text-gray-500">No scoring runs recorded for this term yet.</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+          <LineChart data={term.trend} margin={{ left: 4, right: 4 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} />
+            <YAxis yAxisId="rate" domain={[0, 1]} tickFormatter={percent} tickLine={false} axisLine={false} />
+            <YAxis yAxisId="deals" orientation="right" allowDecimals={false} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line yAxisId="rate" type="monotone" dataKey="successRate" stroke="var(--color-successRate)" strokeWidth={2} dot={false} />
+            <Line yAxisId="deals" type="stepAfter" dataKey="approvedDeals" stroke="var(--color-approvedDeals)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
+
+function AddTermDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [term, setTerm] = useState("");
+  const [category, setCategory] = useState(CATEGORIES[0]);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/search-terms", { term, category });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TERMS_KEY });
+      toast({ title: "Search term added" });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add search term</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label>Term</Label>
+            <Input value={term} placeholder="Panda Express Dodgers home win" onChange={(e) => setTerm(e.target.value)} />
+          </div>
+          <div>
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATEGORIES.map(c => <SelectItem key={c} value={c}>{c.replace(/_/g, " ")}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => save.mutate()} disabled={save.isPending || term.trim().length < 3}>
+            Add
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function SearchTermRankingPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<StatusFilter>("all");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  const { data, isLoading } = useQuery<{ terms: RankedTerm[] }>({
+    queryKey: TERMS_KEY,
+  });
+
+  const terms = data?.terms || [];
+  const pausedCount = terms.filter(t => t.status !== "active").length;
+  const shown = terms.filter(t => filter === "all" || (filter === "active" ? t.status === "active" : t.status !== "active"));
+  const selected = terms.find(t => t.id === selectedId);
+
+  const score = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/search-terms/score");
+      return (await response.json()).run as LifecycleRun;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: TERMS_KEY });
+      toast({
+        title: `Scored ${run.scored} terms`,
+        description: `${run.paused.length} paused, ${run.candidates.length} candidates added`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Scoring failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "pause" | "resume" | "auto-pause-on" | "auto-pause-off" }) => {
+      const response = action === "pause" || action === "resume"
+        ? await apiRequest("POST", `/api/admin/search-terms/${id}/${action}`)
+        : await apiRequest("PUT", `/api/admin/search-terms/${id}/auto-pause`, { autoPause: action === "auto-pause-on" });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TERMS_KEY });
+    },
+    onError: (error) => {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Search Term Effectiveness
+          {pausedCount > 0 && <Badge variant="secondary">{pausedCount} paused</Badge>}
+        </CardTitle>
+        <div className="flex gap-2">
+          <Select value={filter} onValueChange={(value) => setFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-28 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="paused">Paused</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => score.mutate()} disabled={score.isPending}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Score now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {selected && <TrendChart term={selected} />}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading search terms...</p>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-gray-500">No search terms to show.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Term</TableHead>
+                <TableHead>Success</TableHead>
+                <TableHead>Trend</TableHead>
+                <TableHead>Searches</TableHead>
+                <TableHead>Sites</TableHead>
+                <TableHead>Auto-pause</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map(term => (
+                <TableRow
+                  key={term.id}
+                  className={`cursor-pointer ${term.id === selectedId ? "bg-gray-100" : ""}`}
+                  onClick={() => setSelectedId(term.id === selectedId ? null : term.id)}
+                >
+                  <TableCell className="text-gray-500">{terms.indexOf(term) + 1}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{term.term}</div>
+                    <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                      {term.category.replace(/_/g, " ")}
+                      {term.origin === "candidate" && (
+                        <Badge variant="outline">candidate{term.sourceDealPageId !== null && <> · deal page #{term.sourceDealPageId}</>}</Badge>
+                      )}
+                      <StatusBadge term={term} />
+                    </div>
+                    {term.status !== "active" && term.pauseReason && (
+                      <div className="text-xs text-gray-500">{term.pauseReason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium">{percent(term.successRate)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Sparkline points={term.trend} />
+                      <TrendDelta delta={term.trendDelta} />
+                    </div>
+                  </TableCell>
+                  <TableCell>{term.usageCount}</TableCell>
+                  <TableCell className="text-sm">
+                    {term.sitesFound}
+                    <span className="text-xs text-gray-500">
+                      {" "}(<span className="text-green-700">+{term.approvedDeals}</span> / <span className="text-red-700">-{term.rejectedSites}</span>)
+                    </span>
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Switch
+                      checked={term.autoPause}
+                      disabled={update.isPending}
+                      onCheckedChange={(checked) => update.mutate({ id: term.id, action: checked ? "auto-pause-on" : "auto-pause-off" })}
+                    />
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <div className="flex justify-end">
+                      {term.status === "active" ? (
+                        <Button size="sm" variant="outline" onClick={() => update.mutate({ id: term.id, action: "pause" })} disabled={update.isPending}>
+                          <Pause className="h-4 w-4 mr-1" />
+                          Pause
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => update.mutate({ id: term.id, action: "resume" })} disabled={update.isPending}>
+                          <Play className="h-4 w-4 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {adding && <AddTermDialog onClose={() => setAdding(false)} />}
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { useEffect, useRef } from "react";
+import { subscribeToDealStream, type DealStreamMessage } from "@/lib/dealStream";
+
+// Keeps deal queries fresh from the live stream; pass a handler to react to messages too
+export function useDealStream(onMessage?: (message: DealStreamMessage) => void) {
+  const handler = useRef(onMessage);
+  handler.current = onMessage;
+
+  useEffect(() => {
+    return subscribeToDealStream(message => handler.current?.(message));
+  }, []);
+}
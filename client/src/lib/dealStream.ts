@@ -0,0 +1,55 @@
+import { queryClient } from "./queryClient";
+
+export type DealStreamMessageType = "ready" | "reset" | "deal_triggered" | "score_change" | "deal_expiring";
+
+export interface DealStreamMessage {
+  type: DealStreamMessageType;
+  data: any;
+}
+
+type Listener = (message: DealStreamMessage) => void;
+
+const MESSAGE_TYPES: DealStreamMessageType[] = ["ready", "reset", "deal_triggered", "score_change", "deal_expiring"];
+
+// Queries whose data a stream message makes stale
+const STALE_QUERIES: Partial<Record<DealStreamMessageType, string[]>> = {
+  reset: ["/api/active-deals", "/api/notifications/unread", "/api/alert-history"],
+  deal_triggered: ["/api/active-deals", "/api/notifications/unread", "/api/alert-history"],
+  deal_expiring: ["/api/active-deals"],
+};
+
+// One connection per tab, shared by every subscriber
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+
+function open() {
+  // EventSource reconnects on its own and sends Last-Event-ID so missed events are replayed
+  source = new EventSource("/api/stream/deals", { withCredentials: true });
+  for (const type of MESSAGE_TYPES) {
+    source.addEventListener(type, (event) => {
+      const message: DealStreamMessage = { type, data: JSON.parse((event as MessageEvent).data) };
+      for (const key of STALE_QUERIES[type] ?? []) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      listeners.forEach(listener => listener(message));
+    });
+  }
+}
+
+/**
+ * Listen to the live deal stream; the connection closes when the last listener leaves
+ */
+export function subscribeToDealStream(listener: Listener): () => void {
+  listeners.add(listener);
+  if (!source && typeof EventSource !== "undefined") {
+    open();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
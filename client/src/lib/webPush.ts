@@ -0,0 +1,60 @@
+import { apiRequest } from "./queryClient";
+
+// applicationServerKey must be the raw key bytes, the server hands it out base64url-encoded
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+export function isWebPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+export async function getWebPushSubscription(): Promise<PushSubscription | null> {
+  if (!isWebPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Ask for permission, subscribe this browser and register the subscription with the server
+ */
+export async function subscribeToWebPush(): Promise<void> {
+  if (!isWebPushSupported()) {
+    throw new Error("This browser does not support push notifications");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  const registration = await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+
+  const response = await fetch("/api/web-push/public-key");
+  if (!response.ok) {
+    throw new Error("Push notifications are not available right now");
+  }
+  const { publicKey } = await response.json();
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  });
+
+  await apiRequest("POST", "/api/web-push/subscribe", {
+    subscription: subscription.toJSON(),
+    deviceInfo: { model: navigator.userAgent.slice(0, 100) },
+  });
+}
+
+export async function unsubscribeFromWebPush(): Promise<void> {
+  const subscription = await getWebPushSubscription();
+  if (!subscription) return;
+
+  await apiRequest("DELETE", "/api/device-token/deregister", { deviceToken: subscription.endpoint });
+  await subscription.unsubscribe();
+}
@@ -1,6 +1,10 @@
 import React from "react";
 import { useAuth } from "@/hooks/useAuth";
 import SimpleDealReview from "@/components/SimpleDealReview";
+import OpsAlertsPanel from "@/components/OpsAlertsPanel";
+import ReconciliationReviewPanel from "@/components/ReconciliationReviewPanel";
+import DealPatternLibraryPanel from "@/components/DealPatternLibraryPanel";
+import SearchTermRankingPanel from "@/components/SearchTermRankingPanel";
 
 export default function AdminPage() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -27,6 +31,10 @@ export default function AdminPage() {
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-6xl mx-auto py-8 px-4">
+        <OpsAlertsPanel />
+        <ReconciliationReviewPanel />
+        <DealPatternLibraryPanel />
+        <SearchTermRankingPanel />
         <SimpleDealReview />
       </div>
     </div>
@@ -13,6 +13,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
 import { CalendarIcon, Save, Eye } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -37,6 +38,31 @@ const dealPageSchema = z.object({
 
 type DealPageFormData = z.infer<typeof dealPageSchema>;
 
+// How the extraction engines produced each field (see server/services/structuredData.ts)
+const PROVENANCE_LABELS: Record<string, { label: string; className: string }> = {
+  "json-ld": { label: "JSON-LD", className: "bg-green-100 text-green-800" },
+  microdata: { label: "Microdata", className: "bg-green-100 text-green-800" },
+  opengraph: { label: "OpenGraph", className: "bg-blue-100 text-blue-800" },
+  recipe: { label: "Recipe", className: "bg-blue-100 text-blue-800" },
+  text: { label: "Text", className: "bg-yellow-100 text-yellow-800" },
+  default: { label: "Default", className: "bg-gray-100 text-gray-700" },
+};
+
+function ProvenanceBadge({ method }: { method?: string }) {
+  const provenance = method ? PROVENANCE_LABELS[method] : undefined;
+  if (!provenance) return null;
+  return (
+    <Badge variant="outline" className={cn("ml-2 text-xs font-normal", provenance.className)} title="How this field was extracted">
+      {provenance.label}
+    </Badge>
+  );
+}
+
+function parseExtractedDate(value?: string): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
 interface DealTemplateProps {
   discoveredSiteId?: number;
   initialData?: Partial<DealPageFormData>;
@@ -65,6 +91,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
   const extractedDeal = siteData?.site?.dealExtracted 
     ? JSON.parse(siteData.site.dealExtracted) 
     : null;
+  const provenance: Record<string, string> = extractedDeal?.provenance || {};
 
   const form = useForm<DealPageFormData>({
     resolver: zodResolver(dealPageSchema),
@@ -78,6 +105,8 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
       promoCode: extractedDeal?.code || "",
       instructions: extractedDeal?.instructions || "",
       terms: extractedDeal?.terms || "",
+      validFrom: parseExtractedDate(extractedDeal?.validFrom),
+      validUntil: parseExtractedDate(extractedDeal?.validThrough),
       sourceUrl: siteData?.site?.url || "",
       imageUrl: extractedDeal?.imageUrl || "",
       ...initialData,
@@ -233,7 +262,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="title"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Deal Title</FormLabel>
+                    <FormLabel>Deal Title<ProvenanceBadge method={provenance["title"]} /></FormLabel>
                     <FormControl>
                       <Input placeholder="McDonald's Free Nuggets when Dodgers score 6+ runs" {...field} />
                     </FormControl>
@@ -263,7 +292,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="restaurant"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Restaurant</FormLabel>
+                    <FormLabel>Restaurant<ProvenanceBadge method={provenance["restaurant"]} /></FormLabel>
                     <FormControl>
                       <Input placeholder="McDonald's" {...field} />
                     </FormControl>
@@ -284,7 +313,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="offerDescription"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Offer Description</FormLabel>
+                    <FormLabel>Offer Description<ProvenanceBadge method={provenance["offerDescription"]} /></FormLabel>
                     <FormControl>
                       <Textarea 
                         placeholder="Get free 6-piece chicken nuggets with purchase of medium or large fries when the Dodgers score 6 or more runs in any game"
@@ -302,7 +331,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="triggerCondition"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Trigger Condition</FormLabel>
+                    <FormLabel>Trigger Condition<ProvenanceBadge method={provenance["triggerCondition"]} /></FormLabel>
                     <FormControl>
                       <Input placeholder="Dodgers score 6+ runs in any game" {...field} />
                     </FormControl>
@@ -318,7 +347,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                   name="dealValue"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Deal Value</FormLabel>
+                      <FormLabel>Deal Value<ProvenanceBadge method={provenance["dealValue"]} /></FormLabel>
                       <FormControl>
                         <Input placeholder="Free" {...field} />
                       </FormControl>
@@ -333,7 +362,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                   name="promoCode"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Promo Code</FormLabel>
+                      <FormLabel>Promo Code<ProvenanceBadge method={provenance["promoCode"]} /></FormLabel>
                       <FormControl>
                         <Input placeholder="DODGERS6" {...field} />
                       </FormControl>
@@ -356,7 +385,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="instructions"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>How to Claim</FormLabel>
+                    <FormLabel>How to Claim<ProvenanceBadge method={provenance["instructions"]} /></FormLabel>
                     <FormControl>
                       <Textarea 
                         placeholder="1. Open the McDonald's app&#10;2. Add medium or large fries to cart&#10;3. Nuggets will be automatically added for free&#10;4. Valid day after game through 11:59 PM"
@@ -374,7 +403,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="terms"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Terms & Conditions</FormLabel>
+                    <FormLabel>Terms & Conditions<ProvenanceBadge method={provenance["terms"]} /></FormLabel>
                     <FormControl>
                       <Textarea 
                         placeholder="Valid at participating locations only. Cannot be combined with other offers. One per customer per day."
@@ -400,7 +429,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                   name="validFrom"
                   render={({ field }) => (
                     <FormItem className="flex flex-col">
-                      <FormLabel>Valid From</FormLabel>
+                      <FormLabel>Valid From<ProvenanceBadge method={provenance["validFrom"]} /></FormLabel>
                       <Popover>
                         <PopoverTrigger asChild>
                           <FormControl>
@@ -442,7 +471,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                   name="validUntil"
                   render={({ field }) => (
                     <FormItem className="flex flex-col">
-                      <FormLabel>Valid Until</FormLabel>
+                      <FormLabel>Valid Until<ProvenanceBadge method={provenance["validThrough"]} /></FormLabel>
                       <Popover>
                         <PopoverTrigger asChild>
                           <FormControl>
@@ -500,7 +529,7 @@ export default function DealTemplate({ discoveredSiteId, initialData, onSuccess
                 name="imageUrl"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Image URL</FormLabel>
+                    <FormLabel>Image URL<ProvenanceBadge method={provenance["imageUrl"]} /></FormLabel>
                     <FormControl>
                       <Input placeholder="https://example.com/promo-image.jpg" {...field} />
                     </FormControl>
@@ -3,6 +3,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import EnhancedActiveDeals from "@/components/EnhancedActiveDeals";
 import AdminToggle from "@/components/AdminToggle";
+import NotificationBell from "@/components/NotificationBell";
+import LiveGameScores from "@/components/LiveGameScores";
 
 export default function Home() {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -53,6 +55,13 @@ export default function Home() {
               <span className="text-sm text-muted-foreground">
                 Welcome, {(user as any)?.firstName || 'Dev User'}!
               </span>
+              <NotificationBell />
+              <a
+                href="/wallet"
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                My Wallet
+              </a>
               <a
                 href="/admin"
                 className="text-sm text-blue-600 hover:text-blue-800"
@@ -77,6 +86,7 @@ export default function Home() {
       </nav>
 
       <div className="max-w-7xl mx-auto px-4 py-8">
+        <LiveGameScores />
         <EnhancedActiveDeals />
       </div>
     </div>
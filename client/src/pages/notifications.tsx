@@ -1,18 +1,37 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { getWebPushSubscription, isWebPushSupported, subscribeToWebPush, unsubscribeFromWebPush } from "@/lib/webPush";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { AlertTriangle, Bell, Check, Mail, MessageSquare, Settings, Target, Clock, X } from "lucide-react";
+import { AlertTriangle, Bell, Check, Mail, MessageSquare, Monitor, Settings, Target, Clock, X, Moon } from "lucide-react";
+
+interface NotificationSettings {
+  timezone: string;
+  quietHours: { enabled: boolean; start: string; end: string };
+  inQuietHours: boolean;
+  queued: number;
+}
+
+const TIMEZONES = [
+  { value: "America/Los_Angeles", label: "Pacific Time" },
+  { value: "America/Denver", label: "Mountain Time" },
+  { value: "America/Phoenix", label: "Arizona Time" },
+  { value: "America/Chicago", label: "Central Time" },
+  { value: "America/New_York", label: "Eastern Time" },
+  { value: "America/Anchorage", label: "Alaska Time" },
+  { value: "Pacific/Honolulu", label: "Hawaii Time" },
+];
 
 export default function NotificationsPage() {
   const { user } = useAuth();
@@ -24,6 +43,42 @@ export default function NotificationsPage() {
   const [alertTiming, setAlertTiming] = useState<string>("immediate");
   const [emailEnabled, setEmailEnabled] = useState(true);
   const [smsEnabled, setSmsEnabled] = useState(false);
+  const [timezone, setTimezone] = useState("America/Los_Angeles");
+  const [quietHours, setQuietHours] = useState({ enabled: true, start: "22:00", end: "08:00" });
+  const [webPushEnabled, setWebPushEnabled] = useState(false);
+
+  useEffect(() => {
+    getWebPushSubscription()
+      .then(subscription => setWebPushEnabled(!!subscription))
+      .catch(() => setWebPushEnabled(false));
+  }, []);
+
+  const webPushMutation = useMutation({
+    mutationFn: async (enable: boolean) => {
+      if (enable) {
+        await subscribeToWebPush();
+      } else {
+        await unsubscribeFromWebPush();
+      }
+      return enable;
+    },
+    onSuccess: (enabled) => {
+      setWebPushEnabled(enabled);
+      toast({
+        title: enabled ? "Browser Notifications On" : "Browser Notifications Off",
+        description: enabled
+          ? "You'll get a notification in this browser when your team unlocks a deal"
+          : "This browser will no longer receive deal alerts",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update browser notifications",
+        variant: "destructive",
+      });
+    },
+  });
 
   // Fetch data
   const { data: teams = [] } = useQuery<any[]>({
@@ -46,6 +101,57 @@ export default function NotificationsPage() {
     retry: false,
   });
 
+  const { data: notificationSettings } = useQuery<NotificationSettings>({
+    queryKey: ["/api/notifications/settings"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (notificationSettings) {
+      setTimezone(notificationSettings.timezone);
+      setQuietHours(notificationSettings.quietHours);
+    }
+  }, [notificationSettings]);
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timezoneOptions = TIMEZONES.some(tz => tz.value === timezone)
+    ? TIMEZONES
+    : [{ value: timezone, label: timezone }, ...TIMEZONES];
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/notifications/settings", { timezone, quietHours });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Quiet Hours Saved",
+        description: quietHours.enabled
+          ? `Notifications will wait until ${quietHours.end} during quiet hours`
+          : "Quiet hours are turned off",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/settings"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save quiet hours",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Test notification mutation
   const testNotificationMutation = useMutation({
     mutationFn: async (type: string) => {
@@ -131,6 +237,27 @@ export default function NotificationsPage() {
                 />
               </div>
               
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base flex items-center gap-2">
+                    <Monitor className="h-4 w-4" />
+                    Browser Notifications
+                  </Label>
+                  <p className="text-sm text-gray-600">
+                    {isWebPushSupported()
+                      ? "Get deal alerts in this browser, even when the site is closed"
+                      : "This browser doesn't support push notifications"}
+                  </p>
+                </div>
+                <Switch
+                  checked={webPushEnabled}
+                  onCheckedChange={enabled => webPushMutation.mutate(enabled)}
+                  disabled={!isWebPushSupported() || webPushMutation.isPending}
+                />
+              </div>
+
               <Separator />
               
               <div className="flex items-center justify-between">
@@ -189,6 +316,90 @@ export default function NotificationsPage() {
             </CardContent>
           </Card>
 
+          {/* Quiet Hours */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Moon className="h-5 w-5" />
+                Quiet Hours
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Your timezone</Label>
+                <Select value={timezone} onValueChange={setTimezone}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timezoneOptions.map(tz => (
+                      <SelectItem key={tz.value} value={tz.value}>
+                        {tz.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {browserTimezone && browserTimezone !== timezone && (
+                  <Button variant="link" className="h-auto p-0 text-sm" onClick={() => setTimezone(browserTimezone)}>
+                    Use this device's timezone ({browserTimezone})
+                  </Button>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Hold notifications overnight</Label>
+                  <p className="text-sm text-gray-600">
+                    Notifications during quiet hours are delivered when they end
+                  </p>
+                </div>
+                <Switch
+                  checked={quietHours.enabled}
+                  onCheckedChange={enabled => setQuietHours({ ...quietHours, enabled })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="quiet-start">Start</Label>
+                  <Input
+                    id="quiet-start"
+                    type="time"
+                    value={quietHours.start}
+                    disabled={!quietHours.enabled}
+                    onChange={e => setQuietHours({ ...quietHours, start: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiet-end">End</Label>
+                  <Input
+                    id="quiet-end"
+                    type="time"
+                    value={quietHours.end}
+                    disabled={!quietHours.enabled}
+                    onChange={e => setQuietHours({ ...quietHours, end: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {notificationSettings?.inQuietHours && notificationSettings.queued > 0 && (
+                <p className="text-sm text-gray-600 flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  {notificationSettings.queued} notification{notificationSettings.queued > 1 ? 's' : ''} waiting for quiet hours to end
+                </p>
+              )}
+
+              <Button
+                onClick={() => saveSettingsMutation.mutate()}
+                disabled={saveSettingsMutation.isPending || !quietHours.start || !quietHours.end}
+              >
+                {saveSettingsMutation.isPending ? "Saving..." : "Save Quiet Hours"}
+              </Button>
+            </CardContent>
+          </Card>
+
           {/* Current Subscriptions */}
           <Card>
             <CardHeader>
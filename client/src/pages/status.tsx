@@ -0,0 +1,191 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Activity, AlertTriangle, CheckCircle2, HelpCircle, XCircle } from "lucide-react";
+
+type ComponentStatus = "operational" | "degraded_performance" | "partial_outage" | "major_outage" | "unknown";
+
+interface StatusDay {
+  day: string;
+  uptime: number | null;
+  status: "operational" | "degraded" | "outage" | "no_data";
+}
+
+interface StatusComponent {
+  id: string;
+  name: string;
+  description: string;
+  status: ComponentStatus;
+  uptime: number | null;
+  history: StatusDay[];
+}
+
+interface Incident {
+  id: string;
+  title: string;
+  impact: "minor" | "major";
+  status: "investigating" | "identified" | "resolved";
+  components: string[];
+  startedAt: string;
+  resolvedAt?: string;
+}
+
+interface StatusResponse {
+  status: ComponentStatus;
+  updatedAt: string;
+  components: StatusComponent[];
+  incidents: Incident[];
+}
+
+const STATUS_LABELS: Record<ComponentStatus, string> = {
+  operational: "Operational",
+  degraded_performance: "Degraded performance",
+  partial_outage: "Partial outage",
+  major_outage: "Major outage",
+  unknown: "Status unknown",
+};
+
+const OVERALL_MESSAGES: Record<ComponentStatus, string> = {
+  operational: "All systems operational",
+  degraded_performance: "Some systems are slower than usual",
+  partial_outage: "Some systems are having problems",
+  major_outage: "We're experiencing a major outage",
+  unknown: "We're still checking on our systems",
+};
+
+const DAY_COLORS: Record<StatusDay["status"], string> = {
+  operational: "bg-green-500",
+  degraded: "bg-yellow-400",
+  outage: "bg-red-500",
+  no_data: "bg-gray-200",
+};
+
+function StatusIcon({ status, className }: { status: ComponentStatus; className?: string }) {
+  if (status === "operational") return <CheckCircle2 className={`text-green-600 ${className}`} />;
+  if (status === "degraded_performance") return <AlertTriangle className={`text-yellow-500 ${className}`} />;
+  if (status === "unknown") return <HelpCircle className={`text-gray-400 ${className}`} />;
+  return <XCircle className={`text-red-600 ${className}`} />;
+}
+
+function formatUptime(uptime: number | null): string {
+  return uptime === null ? "No data" : `${(uptime * 100).toFixed(2)}% uptime`;
+}
+
+export default function StatusPage() {
+  const { data, isLoading, isError } = useQuery<StatusResponse>({
+    queryKey: ["/api/status"],
+    refetchInterval: 60000,
+  });
+
+  const componentName = (id: string) => data?.components.find(c => c.id === id)?.name || id;
+  const openIncidents = (data?.incidents || []).filter(i => i.status !== "resolved");
+  const pastIncidents = (data?.incidents || []).filter(i => i.status === "resolved");
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-3xl mx-auto px-4 space-y-6">
+        <div className="flex items-center gap-2">
+          <Activity className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Free4All Status</h1>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Checking status...</p>
+        ) : isError || !data ? (
+          <Card>
+            <CardContent className="pt-6 text-sm text-gray-600">
+              Status is temporarily unavailable. Please try again in a minute.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="pt-6 flex items-center gap-3">
+                <StatusIcon status={data.status} className="h-8 w-8" />
+                <div>
+                  <div className="text-lg font-semibold">{OVERALL_MESSAGES[data.status]}</div>
+                  <div className="text-xs text-gray-500">Updated {new Date(data.updatedAt).toLocaleString()}</div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {openIncidents.map(incident => (
+              <Card key={incident.id} className={incident.impact === "major" ? "border-red-300" : "border-yellow-300"}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between">
+                    <div className="font-semibold">{incident.title}</div>
+                    <Badge variant={incident.impact === "major" ? "destructive" : "default"}>{incident.status}</Badge>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Since {new Date(incident.startedAt).toLocaleString()}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Components</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {data.components.map(component => (
+                  <div key={component.id} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{component.name}</div>
+                        <div className="text-xs text-gray-500">{component.description}</div>
+                      </div>
+                      <div className="flex items-center gap-1 text-sm">
+                        <StatusIcon status={component.status} className="h-4 w-4" />
+                        {STATUS_LABELS[component.status]}
+                      </div>
+                    </div>
+                    <div className="flex gap-px h-8">
+                      {component.history.map(day => (
+                        <div
+                          key={day.day}
+                          className={`flex-1 rounded-sm ${DAY_COLORS[day.status]}`}
+                          title={`${day.day}: ${formatUptime(day.uptime)}`}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>{component.history.length} days ago</span>
+                      <span>{formatUptime(component.uptime)}</span>
+                      <span>Today</span>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Recent Incidents</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {pastIncidents.length === 0 ? (
+                  <p className="text-sm text-gray-500">No recent incidents.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {pastIncidents.map(incident => (
+                      <div key={incident.id} className="border-b last:border-0 pb-3 last:pb-0">
+                        <div className="font-medium text-sm">{incident.title}</div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(incident.startedAt).toLocaleString()}
+                          {incident.resolvedAt && ` – resolved ${new Date(incident.resolvedAt).toLocaleString()}`}
+                          {" · "}
+                          {incident.components.map(componentName).join(", ")}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RestaurantLogo from "@/components/RestaurantLogo";
+import { Clock, Gift, Ticket, Wallet } from "lucide-react";
+
+interface WalletResponse {
+  claimed: any[];
+  unclaimed: any[];
+  serverTime: string;
+}
+
+// Ticks once a second, corrected for the difference between client and server clocks
+function useServerNow(serverTime?: string): number {
+  const [offset, setOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (serverTime) {
+      setOffset(new Date(serverTime).getTime() - Date.now());
+    }
+  }, [serverTime]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return now + offset;
+}
+
+function formatCountdown(expiresAt: string | null, now: number): string {
+  if (!expiresAt) return "No expiry";
+
+  const remaining = new Date(expiresAt).getTime() - now;
+  if (remaining <= 0) return "Expired";
+
+  const totalSeconds = Math.floor(remaining / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s left`;
+}
+
+function isExpired(expiresAt: string | null, now: number): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= now;
+}
+
+export default function WalletPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: wallet, isLoading } = useQuery<WalletResponse>({
+    queryKey: ["/api/wallet"],
+    retry: false,
+  });
+
+  const now = useServerNow(wallet?.serverTime);
+
+  const claimMutation = useMutation({
+    mutationFn: async (triggeredDealId: number) => {
+      const response = await apiRequest("POST", `/api/deals/${triggeredDealId}/claim`);
+      return await response.json();
+    },
+    onSuccess: (redemption) => {
+      toast({
+        title: "Deal Claimed",
+        description: `Show code ${redemption.claimCode} at checkout`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // apiRequest errors read "<status>: <json body>"
+      let description = "Failed to claim deal";
+      try {
+        description = JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || description;
+      } catch {}
+      toast({
+        title: "Could not claim deal",
+        description,
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const claimed = wallet?.claimed || [];
+  const unclaimed = (wallet?.unclaimed || []).filter(deal => !isExpired(deal.expiresAt, now));
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+          <Wallet className="h-7 w-7" />
+          My Wallet
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Claim deals your teams have unlocked and keep track of the ones you've claimed
+        </p>
+      </div>
+
+      <Tabs defaultValue="unclaimed" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="unclaimed">
+            <Gift className="h-4 w-4 mr-2" />
+            Available ({unclaimed.length})
+          </TabsTrigger>
+          <TabsTrigger value="claimed">
+            <Ticket className="h-4 w-4 mr-2" />
+            Claimed ({claimed.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="unclaimed" className="space-y-4">
+          {unclaimed.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-gray-500">
+                No deals to claim right now. We'll let you know when your team unlocks one!
+              </CardContent>
+            </Card>
+          ) : (
+            unclaimed.map(deal => (
+              <Card key={deal.id}>
+                <CardContent className="p-6 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <RestaurantLogo restaurantName={deal.restaurant?.name} className="h-10 w-10" />
+                    <div>
+                      <h3 className="font-semibold text-gray-900 dark:text-white">
+                        {deal.promotion?.title || deal.restaurant?.name}
+                      </h3>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {deal.promotion?.offerValue}
+                        {deal.team?.name && ` · ${deal.team.name}`}
+                      </p>
+                      <p className="text-sm text-orange-600 flex items-center gap-1 mt-1">
+                        <Clock className="h-3 w-3" />
+                        {formatCountdown(deal.expiresAt, now)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => claimMutation.mutate(deal.id)}
+                    disabled={claimMutation.isPending}
+                  >
+                    Claim
+                  </Button>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="claimed" className="space-y-4">
+          {claimed.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-gray-500">
+                You haven't claimed any deals yet
+              </CardContent>
+            </Card>
+          ) : (
+            claimed.map(redemption => {
+              const expired = isExpired(redemption.expiresAt, now) || redemption.isActive === false;
+              return (
+                <Card key={redemption.id} className={expired ? "opacity-60" : ""}>
+                  <CardContent className="p-6 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                      <RestaurantLogo restaurantName={redemption.restaurant?.name} className="h-10 w-10" />
+                      <div>
+                        <h3 className="font-semibold text-gray-900 dark:text-white">
+                          {redemption.promotion?.title || redemption.restaurant?.name}
+                        </h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {redemption.promotion?.redemptionInstructions || "Show this code at checkout"}
+                        </p>
+                        <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
+                          <Clock className="h-3 w-3" />
+                          {expired ? "Expired" : formatCountdown(redemption.expiresAt, now)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={expired ? "secondary" : "default"} className="font-mono text-base">
+                        {redemption.claimCode}
+                      </Badge>
+                      {redemption.promotion?.promoCode && (
+                        <p className="text-xs text-gray-500 mt-1">Promo: {redemption.promotion.promoCode}</p>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
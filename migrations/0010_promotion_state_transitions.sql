@@ -0,0 +1,42 @@
+-- Promotion State Transitions Migration
+-- Append-only audit trail for promotions.state, written by the promotion state machine
+
+CREATE TABLE IF NOT EXISTS promotion_state_transitions (
+  id SERIAL PRIMARY KEY,
+  promotion_id INTEGER NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  from_state VARCHAR(20), -- NULL for the initial state recorded at creation
+  to_state VARCHAR(20) NOT NULL,
+  actor VARCHAR(100) NOT NULL, -- user id or service name
+  reason TEXT NOT NULL,
+  evidence_hash VARCHAR(64), -- immutable_evidence.evidence_hash backing the move
+  metadata JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Only the documented lifecycle states may be recorded as a destination
+ALTER TABLE promotion_state_transitions
+ADD CONSTRAINT valid_to_state
+CHECK (to_state IN ('draft', 'approved', 'validating', 'validated', 'triggered', 'expired', 'archived'));
+
+-- Transitions are history: reject edits after the fact
+CREATE OR REPLACE FUNCTION prevent_state_transition_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Cannot modify promotion state transition history';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_state_transition_update_trigger
+  BEFORE UPDATE ON promotion_state_transitions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_state_transition_update();
+
+-- Indexes for history lookups
+CREATE INDEX IF NOT EXISTS idx_state_transitions_promotion ON promotion_state_transitions (promotion_id);
+CREATE INDEX IF NOT EXISTS idx_state_transitions_created ON promotion_state_transitions (created_at DESC);
+
+-- Backfill: record the current state of existing promotions as their starting point
+INSERT INTO promotion_state_transitions (promotion_id, from_state, to_state, actor, reason)
+SELECT id, NULL, COALESCE(state, 'approved'), 'migration', 'Initial state recorded by 0010_promotion_state_transitions'
+FROM promotions
+WHERE COALESCE(state, 'approved') IN ('draft', 'approved', 'validating', 'validated', 'triggered', 'expired', 'archived');
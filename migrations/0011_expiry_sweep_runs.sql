@@ -0,0 +1,26 @@
+-- Expiry Sweeper Migration
+-- Run log for the expiry sweeper plus indexes for its batch lookups
+
+CREATE TABLE IF NOT EXISTS expiry_sweep_runs (
+  id SERIAL PRIMARY KEY,
+  trigger VARCHAR(20) NOT NULL, -- scheduled, manual
+  started_at TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP,
+  triggered_deals_deactivated INTEGER DEFAULT 0,
+  deal_pages_deactivated INTEGER DEFAULT 0,
+  promotions_expired INTEGER DEFAULT 0,
+  promotions_archived INTEGER DEFAULT 0,
+  details JSONB, -- ids touched, per record type
+  errors JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expiry_sweep_runs_started ON expiry_sweep_runs (started_at DESC);
+
+-- Batch lookups only ever scan still-active rows
+CREATE INDEX IF NOT EXISTS idx_triggered_deals_active_expires
+  ON triggered_deals (expires_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_deal_pages_active_valid_until
+  ON deal_pages (valid_until) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_promotions_valid_until
+  ON promotions (valid_until) WHERE valid_until IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Redemptions Migration
+-- One row per user claim on a triggered deal; limits are enforced in the claim transaction
+
+CREATE TABLE IF NOT EXISTS redemptions (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  triggered_deal_id INTEGER NOT NULL REFERENCES triggered_deals(id),
+  promotion_id INTEGER REFERENCES promotions(id), -- NULL for discovered deal pages
+  claim_code VARCHAR(12) NOT NULL UNIQUE, -- shown at checkout
+  redemption_day DATE NOT NULL, -- local day in the promotion's timezone, for perDay limits
+  claimed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_redemptions_user ON redemptions (user_id);
+CREATE INDEX IF NOT EXISTS idx_redemptions_triggered_deal ON redemptions (triggered_deal_id);
+CREATE INDEX IF NOT EXISTS idx_redemptions_user_promotion_day ON redemptions (user_id, promotion_id, redemption_day);
+
+-- Users only ever see their own claims
+-- (claims are inserted by the server, which enforces the limits)
+ALTER TABLE public.redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own redemptions"
+ON public.redemptions FOR SELECT
+USING ((select auth.uid()::text) = user_id);
@@ -0,0 +1,21 @@
+-- Morning Digest Migration
+-- Per-user timezone and a delivery log that makes each user's daily digest send at most once
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) DEFAULT 'America/Los_Angeles';
+
+CREATE TABLE IF NOT EXISTS digest_deliveries (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  digest_date DATE NOT NULL, -- user's local date
+  deal_count INTEGER DEFAULT 0,
+  email_sent BOOLEAN DEFAULT false,
+  push_sent BOOLEAN DEFAULT false,
+  status VARCHAR(20) DEFAULT 'pending', -- pending, sent, empty, failed
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_digest_deliveries_user_date ON digest_deliveries (user_id, digest_date);
+
+-- Digest de-duplication looks up what a user was already sent per deal
+CREATE INDEX IF NOT EXISTS idx_alert_history_user_deal ON alert_history (user_id, triggered_deal_id);
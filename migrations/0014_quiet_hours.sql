@@ -0,0 +1,23 @@
+-- Quiet Hours Migration
+-- Per-user quiet hours evaluated in the user's timezone, and a queue for
+-- notifications held back until the window ends
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS quiet_hours_enabled BOOLEAN DEFAULT true;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS quiet_hours_start VARCHAR(5) DEFAULT '22:00';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS quiet_hours_end VARCHAR(5) DEFAULT '08:00';
+
+CREATE TABLE IF NOT EXISTS queued_notifications (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  kind VARCHAR(30) NOT NULL, -- pre_game
+  payload JSONB NOT NULL,
+  status VARCHAR(20) DEFAULT 'queued', -- queued, released, expired, failed
+  release_at TIMESTAMP NOT NULL,
+  expires_at TIMESTAMP,
+  released_at TIMESTAMP,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_queued_notifications_status_release ON queued_notifications (status, release_at);
+CREATE INDEX IF NOT EXISTS idx_queued_notifications_user ON queued_notifications (user_id);
@@ -0,0 +1,8 @@
+-- Web Push Migration
+-- Browser push subscriptions are stored as device tokens with platform 'web':
+-- the push service endpoint is the token and its encryption keys sit alongside
+
+-- Push service endpoints are URLs and regularly exceed 200 characters
+ALTER TABLE device_tokens ALTER COLUMN device_token TYPE VARCHAR(1024);
+
+ALTER TABLE device_tokens ADD COLUMN IF NOT EXISTS web_push_keys JSONB;
@@ -0,0 +1,29 @@
+-- Ops Alerts Migration
+-- Persisted alerts for the AlertManager's database channel, so operational
+-- alerts such as evidence-integrity failures are visible without tailing logs
+
+CREATE TABLE IF NOT EXISTS ops_alerts (
+  id SERIAL PRIMARY KEY,
+  alert_id VARCHAR(200) NOT NULL UNIQUE,
+  rule_id VARCHAR(100) NOT NULL,
+  rule_name VARCHAR(200) NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  severity VARCHAR(20) NOT NULL, -- info, warning, critical
+  status VARCHAR(20) NOT NULL, -- firing, resolved, suppressed
+  metric VARCHAR(100) NOT NULL,
+  current_value DOUBLE PRECISION,
+  threshold DOUBLE PRECISION,
+  description TEXT,
+  occurrence_count INTEGER DEFAULT 1,
+  evidence JSONB DEFAULT '[]',
+  deliveries JSONB DEFAULT '[]', -- per-channel delivery status
+  first_fired_at TIMESTAMP NOT NULL,
+  last_fired_at TIMESTAMP NOT NULL,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ops_alerts_status ON ops_alerts (status);
+CREATE INDEX IF NOT EXISTS idx_ops_alerts_rule ON ops_alerts (rule_id);
+CREATE INDEX IF NOT EXISTS idx_ops_alerts_first_fired ON ops_alerts (first_fired_at DESC);
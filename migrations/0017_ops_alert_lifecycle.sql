@@ -0,0 +1,19 @@
+-- Ops Alert Lifecycle Migration
+-- Every alert is now persisted through firing and resolution so restarts keep
+-- what is still open, with acknowledgement, snooze and rule-level silences
+-- for on-call handoffs
+
+ALTER TABLE ops_alerts ADD COLUMN IF NOT EXISTS resolution_reason TEXT;
+ALTER TABLE ops_alerts ADD COLUMN IF NOT EXISTS resolved_by VARCHAR;
+ALTER TABLE ops_alerts ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP;
+ALTER TABLE ops_alerts ADD COLUMN IF NOT EXISTS acknowledged_by VARCHAR;
+ALTER TABLE ops_alerts ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS ops_alert_silences (
+  id SERIAL PRIMARY KEY,
+  rule_id VARCHAR(100) NOT NULL UNIQUE,
+  silenced_until TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_by VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW()
+);
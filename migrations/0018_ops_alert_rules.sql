@@ -0,0 +1,17 @@
+-- Ops Alert Rules Migration
+-- User-defined AlertManager rules built from metric expressions such as
+-- "validationLatency.p95 > 2000 for 5m"; built-in rules stay in code
+
+CREATE TABLE IF NOT EXISTS ops_alert_rules (
+  id SERIAL PRIMARY KEY,
+  rule_id VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  expression TEXT NOT NULL,
+  severity VARCHAR(20) NOT NULL, -- info, warning, critical
+  enabled BOOLEAN DEFAULT TRUE,
+  channels JSONB DEFAULT '[]', -- channel types; empty uses the defaults
+  created_by VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,22 @@
+-- Recovery Playbooks Migration
+-- Audit trail for HealthCheckSystem recovery playbooks; recent attempts are
+-- also reloaded at startup so cooldowns and attempt limits survive restarts
+
+CREATE TABLE IF NOT EXISTS recovery_action_logs (
+  id SERIAL PRIMARY KEY,
+  action_id VARCHAR(200) NOT NULL UNIQUE,
+  playbook_id VARCHAR(100) NOT NULL,
+  component VARCHAR(100) NOT NULL,
+  action VARCHAR(50) NOT NULL, -- restart, reset_circuit_breaker, clear_cache, reset_rate_limiter, custom
+  trigger VARCHAR(20) NOT NULL, -- automatic, manual
+  result VARCHAR(20) NOT NULL, -- success, failure
+  requested_by VARCHAR,
+  reason TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  executed_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recovery_action_logs_playbook ON recovery_action_logs(playbook_id);
+CREATE INDEX IF NOT EXISTS idx_recovery_action_logs_executed ON recovery_action_logs(executed_at);
@@ -0,0 +1,15 @@
+-- Public Status Page Migration
+-- Daily per-component health sample counts for the 90-day uptime history on
+-- /status; components are public groupings, never internal service names
+
+CREATE TABLE IF NOT EXISTS status_daily_rollups (
+  id SERIAL PRIMARY KEY,
+  day DATE NOT NULL, -- UTC calendar day
+  component VARCHAR(50) NOT NULL, -- public component id, e.g. sports_data
+  checks INTEGER NOT NULL DEFAULT 0,
+  degraded_checks INTEGER NOT NULL DEFAULT 0,
+  outage_checks INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_status_daily_rollups_day_component ON status_daily_rollups(day, component);
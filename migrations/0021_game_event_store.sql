@@ -0,0 +1,35 @@
+-- Game Event Store Migration
+-- Persists GameMonitor events and checkpoints so unprocessed events are
+-- replayed after a restart (at-least-once delivery); event_id is derived from
+-- game state, so the same change detected twice is stored once
+
+CREATE TABLE IF NOT EXISTS game_events (
+  id SERIAL PRIMARY KEY,
+  event_id VARCHAR(200) NOT NULL UNIQUE,
+  game_id VARCHAR(100) NOT NULL,
+  event_type VARCHAR(20) NOT NULL, -- game_start, game_end, status_change, score_change
+  triggered BOOLEAN NOT NULL,
+  processing_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, processing, completed, failed
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  previous_state JSONB,
+  current_state JSONB NOT NULL,
+  evidence_hash VARCHAR(64),
+  error TEXT,
+  occurred_at TIMESTAMP NOT NULL,
+  processed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_events_game ON game_events(game_id);
+CREATE INDEX IF NOT EXISTS idx_game_events_processing_status ON game_events(processing_status);
+
+CREATE TABLE IF NOT EXISTS game_monitor_checkpoints (
+  id SERIAL PRIMARY KEY,
+  checkpoint_id VARCHAR(100) NOT NULL UNIQUE,
+  last_processed_event_id VARCHAR(200),
+  games_monitored JSONB DEFAULT '[]',
+  processing_stats JSONB NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_monitor_checkpoints_created ON game_monitor_checkpoints(created_at);
@@ -0,0 +1,6 @@
+-- Game Play Events Migration
+-- In-game plays (strikeouts, home runs, stolen bases, inning changes) are
+-- stored as game_events with event_type 'play' and the parsed play alongside
+-- the game state, so they replay like any other event
+
+ALTER TABLE game_events ADD COLUMN IF NOT EXISTS play JSONB;
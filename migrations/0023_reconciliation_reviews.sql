@@ -0,0 +1,30 @@
+-- Reconciliation Review Queue Migration
+-- Consensus decisions with status NEEDS_REVIEW wait here for a reviewer to
+-- pick the authoritative value of each disputed field (or enter one); the
+-- decision is stored as evidence and the waiting workflow resumes
+
+CREATE TABLE IF NOT EXISTS reconciliation_reviews (
+  id SERIAL PRIMARY KEY,
+  game_id VARCHAR(100) NOT NULL, -- external game id
+  promotion_id INTEGER REFERENCES promotions(id),
+  event_id VARCHAR(200),
+  execution_id VARCHAR(200),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, resolved
+  consensus_status VARCHAR(20) NOT NULL,
+  confidence DOUBLE PRECISION,
+  decision_rationale TEXT,
+  sources JSONB NOT NULL,
+  disputed_fields JSONB NOT NULL DEFAULT '[]',
+  proposed_game_data JSONB NOT NULL,
+  consensus_evidence_hash VARCHAR(64),
+  resolution JSONB,
+  resolved_game_data JSONB,
+  decision_evidence_hash VARCHAR(64),
+  review_note TEXT,
+  reviewed_by VARCHAR,
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_reviews_status ON reconciliation_reviews(status);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_reviews_game ON reconciliation_reviews(game_id);
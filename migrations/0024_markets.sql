@@ -0,0 +1,51 @@
+-- Markets Migration
+-- A market is a metro area: the teams playing there, the restaurant chains
+-- running local promotions, and the news, team and fan sites trusted to report
+-- them. Discovery, precision filtering and pattern matching run per market, so
+-- onboarding a city is a new row here. Seeds Los Angeles with the values that
+-- were previously hard-coded.
+
+CREATE TABLE IF NOT EXISTS markets (
+  id SERIAL PRIMARY KEY,
+  slug VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  region VARCHAR(50),
+  restaurants JSONB NOT NULL DEFAULT '[]', -- [{ "name": ..., "domain": ... }]
+  news_domains JSONB NOT NULL DEFAULT '[]',
+  team_sites JSONB NOT NULL DEFAULT '[]',
+  trusted_sources JSONB NOT NULL DEFAULT '[]',
+  location_keywords JSONB NOT NULL DEFAULT '[]',
+  excluded_keywords JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_markets_is_active ON markets(is_active);
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS market_id INTEGER REFERENCES markets(id);
+CREATE INDEX IF NOT EXISTS idx_teams_market_id ON teams(market_id);
+
+INSERT INTO markets (slug, name, region, restaurants, news_domains, team_sites, trusted_sources, location_keywords, excluded_keywords)
+VALUES (
+  'los-angeles',
+  'Los Angeles',
+  'CA',
+  '[
+    {"name": "Panda Express", "domain": "pandaexpress.com"},
+    {"name": "McDonald''s", "domain": "mcdonalds.com"},
+    {"name": "Jack in the Box", "domain": "jackinthebox.com"},
+    {"name": "ampm", "domain": "ampm.com"},
+    {"name": "Del Taco", "domain": "deltaco.com"}
+  ]',
+  '["latimes.com", "abc7.com", "nbclosangeles.com", "cbsla.com", "fox11la.com"]',
+  '["dodgers.com", "mlb.com/dodgers"]',
+  '["sbsun.com", "dailynews.com", "pasadenastarnews.com", "sgvtribune.com", "dodgersnation.com", "truebluela.com", "dodgersway.com", "thinkbluela.com"]',
+  '["los angeles", "la", "california", "ca", "southern california", "socal", "west coast", "echo park"]',
+  '["houston", "texas", "dallas", "austin", "san antonio", "astros", "rangers", "cowboys", "tx", "new york", "chicago", "boston", "philadelphia", "miami", "atlanta", "detroit", "seattle"]'
+)
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE teams
+SET market_id = (SELECT id FROM markets WHERE slug = 'los-angeles')
+WHERE market_id IS NULL AND city IN ('Los Angeles', 'Anaheim');
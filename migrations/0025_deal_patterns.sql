@@ -0,0 +1,70 @@
+-- Deal Pattern Library Migration
+-- Moves DealPatternMatcher's recurring deal patterns into the database so they
+-- survive deploys. Reviews of discovered deals adjust each pattern's
+-- confidence; approved deals no pattern recognised are stored as 'proposed'
+-- patterns until an admin accepts or dismisses them. Seeds the Los Angeles
+-- patterns that were previously hard-coded.
+
+CREATE TABLE IF NOT EXISTS deal_patterns (
+  id VARCHAR(100) PRIMARY KEY,
+  market_id INTEGER NOT NULL REFERENCES markets(id),
+  restaurant VARCHAR(100) NOT NULL,
+  team VARCHAR(100) NOT NULL, -- team nickname, e.g. Dodgers
+  sport VARCHAR(20) NOT NULL,
+  trigger_type VARCHAR(20) NOT NULL, -- win, score, performance, occurrence
+  conditions JSONB NOT NULL DEFAULT '{}',
+  reward JSONB NOT NULL,
+  phrases JSONB NOT NULL DEFAULT '[]',
+  confidence DOUBLE PRECISION NOT NULL,
+  seasonal_pattern BOOLEAN DEFAULT TRUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, proposed, dismissed, disabled
+  source_site_id INTEGER REFERENCES discovered_sites(id),
+  confirmed_count INTEGER NOT NULL DEFAULT 0,
+  rejected_count INTEGER NOT NULL DEFAULT 0,
+  last_seen TIMESTAMP,
+  reviewed_by VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_patterns_status ON deal_patterns(status);
+CREATE INDEX IF NOT EXISTS idx_deal_patterns_market ON deal_patterns(market_id);
+CREATE INDEX IF NOT EXISTS idx_deal_patterns_source_site ON deal_patterns(source_site_id);
+
+INSERT INTO deal_patterns (id, market_id, restaurant, team, sport, trigger_type, conditions, reward, phrases, confidence)
+SELECT seed.id, markets.id, seed.restaurant, seed.team, seed.sport, seed.trigger_type, seed.conditions::jsonb, seed.reward::jsonb, seed.phrases::jsonb, seed.confidence
+FROM markets
+CROSS JOIN (VALUES
+  ('mcdonalds-dodgers-6runs', 'McDonald''s', 'Dodgers', 'MLB', 'score',
+   '{"venue": "home", "scoreThreshold": 6}',
+   '{"item": "6pc McNuggets", "value": "free", "promoCode": "DODGERS6"}',
+   '["free {item} when dodgers score {score}+ runs", "free mcnuggets dodgers 6 runs home", "when the dodgers score 6 or more runs at home"]',
+   0.95),
+  ('pandaexpress-dodgers-homewin', 'Panda Express', 'Dodgers', 'MLB', 'win',
+   '{"venue": "home"}',
+   '{"item": "Panda Plate", "value": "$6", "promoCode": "DODGERSWIN"}',
+   '["$6 panda plate dodgers home win", "when dodgers win at home", "following any dodgers home victory"]',
+   0.90),
+  ('jackinthebox-lakers-20point', 'Jack in the Box', 'Lakers', 'NBA', 'performance',
+   '{"venue": "home", "margin": 20}',
+   '{"item": "Jumbo Jack", "value": "free", "promoCode": "LAKERS20"}',
+   '["free jumbo jack lakers win 20+ points", "when lakers win by 20 or more points at staples", "lakers 20 point victory free burger"]',
+   0.88),
+  ('jackinthebox-dodgers-strikeouts', 'Jack in the Box', 'Dodgers', 'MLB', 'occurrence',
+   '{"venue": "any", "occurrenceType": "7+ strikeouts"}',
+   '{"item": "Jumbo Jack", "value": "free"}',
+   '["free jumbo jack when dodgers pitchers strike out 7", "dodgers 7+ strikeouts free jumbo jack", "dodgers strikeout free jumbo jack"]',
+   0.90),
+  ('ampm-dodgers-stolenbase', 'ampm', 'Dodgers', 'MLB', 'occurrence',
+   '{"venue": "home", "occurrenceType": "stolen base"}',
+   '{"item": "Hot Dog + Drink", "value": "free", "promoCode": "STEALBASE"}',
+   '["free hot dog when dodgers steal base", "dodgers stolen base free hot dog", "steal a base get free hot dog"]',
+   0.85),
+  ('deltaco-rams-homewin', 'Del Taco', 'Rams', 'NFL', 'win',
+   '{"venue": "home"}',
+   '{"item": "Del Beef Taco", "value": "free", "promoCode": "RAMSWIN"}',
+   '["free del beef taco rams home win", "when rams win at sofi stadium", "rams victory free taco"]',
+   0.87)
+) AS seed(id, restaurant, team, sport, trigger_type, conditions, reward, phrases, confidence)
+WHERE markets.slug = 'los-angeles'
+ON CONFLICT (id) DO NOTHING;
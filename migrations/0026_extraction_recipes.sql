@@ -0,0 +1,62 @@
+-- Extraction Recipes Migration
+-- Declarative per-site extraction recipes (selectors, regexes, field templates
+-- and image rules keyed by domain or URL pattern) run by both the fetch-based
+-- and Puppeteer extraction engines, plus saved HTML snapshots for the recipe
+-- tester. Seeds recipes for the restaurant sites whose extraction was
+-- previously hard-coded; ampm and Del Taco only map their domain to the
+-- restaurant and use generic extraction.
+
+CREATE TABLE IF NOT EXISTS extraction_recipes (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  restaurant VARCHAR(100) NOT NULL,
+  domain VARCHAR(200), -- matches subdomains too
+  url_pattern TEXT, -- regex tested against the full URL
+  priority INTEGER NOT NULL DEFAULT 0,
+  fields JSONB NOT NULL DEFAULT '{}',
+  image JSONB,
+  required_fields JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK (domain IS NOT NULL OR url_pattern IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_recipes_domain ON extraction_recipes(domain);
+CREATE INDEX IF NOT EXISTS idx_extraction_recipes_is_active ON extraction_recipes(is_active);
+
+CREATE TABLE IF NOT EXISTS html_snapshots (
+  id SERIAL PRIMARY KEY,
+  url TEXT NOT NULL,
+  html TEXT NOT NULL,
+  captured_by VARCHAR,
+  captured_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_html_snapshots_url ON html_snapshots(url);
+
+INSERT INTO extraction_recipes (name, restaurant, domain, fields, image, required_fields)
+SELECT seed.name, seed.restaurant, seed.domain, seed.fields::jsonb, seed.image::jsonb, seed.required_fields::jsonb
+FROM (VALUES
+  ('Panda Express promotions', 'Panda Express', 'pandaexpress.com',
+   '{"title": {"selectors": ["h1", ".promo-title", ".hero-title", "[class*=\"title\"]", ".main-heading"], "fallback": "Panda Express Dodgers Win Deal"}, "offer": {"selectors": [".promo-description", ".offer-details", ".deal-text", ".content p"], "pattern": "(\\$\\d+(?:\\.\\d{2})?\\s+[^.]*?(?:plate|bowl|entree))", "fallback": "Special promotional offer"}, "trigger": {"selectors": [".trigger-condition", ".game-condition"], "pattern": "(?:for|when|after)\\s+((?:any|every|a)\\s+(?:LA\\s+)?dodgers?\\s+(?:home\\s+)?(?:win|victory))", "fallback": "Any Dodgers win"}, "value": {"selectors": [".price", ".deal-value", ".discount"], "pattern": "(\\$\\d+(?:\\.\\d{2})?)", "fallback": "Special Price"}, "code": {"selectors": [".promo-code", ".code", "[class*=\"code\"]"]}, "instructions": {"selectors": [".instructions", ".how-to", ".redemption", ".terms p:first-child"], "fallback": "Present this offer at participating locations"}, "terms": {"selectors": [".terms", ".fine-print", ".conditions", ".disclaimer"], "fallback": "Terms and conditions apply. Valid while supplies last."}}',
+   '{"selectors": [".hero-image img", ".promo-image img", ".main-image img", "img[src*=\"promo\"]", "img[src*=\"deal\"]"], "keywords": ["promo", "deal", "offer", "dodgers"]}',
+   '["value"]'),
+  ('McDonald''s promotions', 'McDonald''s', 'mcdonalds.com',
+   '{"title": {"selectors": ["h1", ".hero-title", ".promo-headline"], "fallback": "McDonald''s Dodgers Deal"}, "offer": {"selectors": [".offer-description", ".deal-details"], "pattern": "free\\s+([^,.!]+?)(?:\\s+when|\\s+with|\\s+if|[,.!]|$)", "template": "Free {1}", "fallback": "Special promotional offer"}, "trigger": {"selectors": [".game-condition"], "pattern": "(\\d+)\\+?\\s*(?:or more\\s+)?runs?", "template": "{1}+ runs scored by the Dodgers", "fallback": "Dodgers win"}, "value": {"pattern": "\\bfree\\b", "template": "Free", "fallback": "Special Price"}, "instructions": {"fallback": "Present this offer at participating locations"}, "terms": {"fallback": "Terms and conditions apply. Valid while supplies last."}}',
+   '{"selectors": [".hero-image img", ".promo-banner img", "img[src*=\"promo\"]"], "keywords": ["promo", "deal", "offer", "dodgers"]}',
+   '["offer"]'),
+  ('Jack in the Box promotions', 'Jack in the Box', 'jackinthebox.com',
+   '{"title": {"selectors": ["h1", ".promo-title", ".deal-headline"], "fallback": "Jack in the Box Dodgers Deal"}, "offer": {"selectors": [".deal-description", ".offer-text"], "pattern": "free\\s+([^,.!]+?)(?:\\s+when|\\s+if|[,.!]|$)", "template": "Free {1}", "fallback": "Free Jumbo Jack with large drink"}, "trigger": {"selectors": [".condition"], "pattern": "(\\d+)\\+?\\s*(?:or more\\s+)?strikeouts?", "template": "{1}+ strikeouts by Dodgers pitchers", "fallback": "Pitching performance"}, "value": {"pattern": "\\bfree\\b", "template": "Free", "fallback": "Special Price"}, "instructions": {"fallback": "Present this offer at participating locations"}, "terms": {"fallback": "Terms and conditions apply. Valid while supplies last."}}',
+   '{"selectors": [".promo-image img", ".hero-banner img"], "keywords": ["promo", "deal", "offer", "dodgers"]}',
+   '["offer"]'),
+  ('ampm', 'ampm', 'ampm.com',
+   '{}',
+   NULL,
+   '[]'),
+  ('Del Taco', 'Del Taco', 'deltaco.com',
+   '{}',
+   NULL,
+   '[]')
+) AS seed(name, restaurant, domain, fields, image, required_fields)
+WHERE NOT EXISTS (SELECT 1 FROM extraction_recipes existing WHERE existing.domain = seed.domain);
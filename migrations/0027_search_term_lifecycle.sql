@@ -0,0 +1,41 @@
+-- Search Term Lifecycle Migration
+-- Scores search terms by downstream outcomes: a term's success rate is the
+-- share of its reviewed discovered sites that became deal pages. Weak terms
+-- are paused automatically unless an admin keeps them running, candidate
+-- terms are generated from approved deals, and each scoring run stores a
+-- snapshot per term for the admin trend charts.
+--
+-- Discovery used to re-insert its default terms on every run; duplicates are
+-- merged into the oldest row before the term becomes unique.
+
+UPDATE discovered_sites ds
+SET search_term_id = keep.id
+FROM search_terms st
+JOIN (SELECT term, MIN(id) AS id FROM search_terms GROUP BY term) keep ON keep.term = st.term
+WHERE ds.search_term_id = st.id AND st.id <> keep.id;
+
+DELETE FROM search_terms st
+USING (SELECT term, MIN(id) AS id FROM search_terms GROUP BY term) keep
+WHERE keep.term = st.term AND st.id <> keep.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_terms_term ON search_terms(term);
+
+ALTER TABLE search_terms
+  ADD COLUMN IF NOT EXISTS origin VARCHAR(20) DEFAULT 'seed', -- seed, manual, candidate, social
+  ADD COLUMN IF NOT EXISTS source_deal_page_id INTEGER REFERENCES deal_pages(id),
+  ADD COLUMN IF NOT EXISTS auto_pause BOOLEAN DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS pause_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS search_term_stats (
+  id SERIAL PRIMARY KEY,
+  search_term_id INTEGER NOT NULL REFERENCES search_terms(id) ON DELETE CASCADE,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  sites_found INTEGER NOT NULL DEFAULT 0,
+  approved_deals INTEGER NOT NULL DEFAULT 0, -- discovered sites that became deal pages
+  rejected_sites INTEGER NOT NULL DEFAULT 0,
+  success_rate DECIMAL(3, 2) NOT NULL,
+  recorded_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_term_stats_term_recorded ON search_term_stats(search_term_id, recorded_at);
@@ -1,3 +1,4 @@
 export const config = {
-  DODGERS_TEAM_ID: 1,
+  // Market used when a request does not name one (see server/services/markets.ts)
+  DEFAULT_MARKET: process.env.DEFAULT_MARKET || 'los-angeles',
 };
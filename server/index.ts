@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { HTML_BODY_ROUTES, htmlJsonBody } from "./routes/extractionRecipes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +38,8 @@ app.use((req, res, next) => {
   next();
 });
 
+// Routes that take pasted page source parse their own larger bodies before the default 100 KB parser sees them
+app.use(HTML_BODY_ROUTES, htmlJsonBody);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -0,0 +1,139 @@
+/**
+ * OpenMetrics Text Format
+ *
+ * Minimal writer for the OpenMetrics 1.0 exposition format plus a cumulative
+ * histogram for latency observations. Families are written in the order they
+ * are added; `toString()` terminates the exposition with `# EOF`.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type MetricLabels = Record<string, string | number | undefined>;
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSnapshot {
+  buckets: Array<{ le: number; count: number }>; // cumulative, excluding +Inf
+  count: number;
+  sum: number;
+}
+
+// Seconds; covers fast cache hits through the 2s validation budget and slow upstream calls
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+/**
+ * Cumulative histogram; counts only ever grow, as scrapers expect
+ */
+export class Histogram {
+  private counts: number[];
+  private count = 0;
+  private sum = 0;
+
+  constructor(private readonly bounds: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.counts = bounds.map(() => 0);
+  }
+
+  observe(value: number): void {
+    if (!Number.isFinite(value)) return;
+
+    this.count++;
+    this.sum += value;
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+  }
+
+  snapshot(): HistogramSnapshot {
+    return {
+      buckets: this.bounds.map((le, i) => ({ le, count: this.counts[i] })),
+      count: this.count,
+      sum: this.sum
+    };
+  }
+}
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_:]/g, '_').replace(/^([0-9])/, '_$1');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels = {}): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${sanitizeName(key)}="${escapeLabelValue(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+export class OpenMetricsWriter {
+  private lines: string[] = [];
+  private families = new Set<string>();
+
+  gauge(name: string, help: string, samples: MetricSample[]): this {
+    return this.family(name, 'gauge', help, samples.map(sample => [name, sample.labels, sample.value]));
+  }
+
+  /**
+   * Counter family; samples get the required `_total` suffix
+   */
+  counter(name: string, help: string, samples: MetricSample[]): this {
+    const family = name.replace(/_total$/, '');
+    return this.family(family, 'counter', help, samples.map(sample => [`${family}_total`, sample.labels, sample.value]));
+  }
+
+  /**
+   * Info family, e.g. which sports a source covers; each sample has value 1
+   */
+  info(name: string, help: string, labelSets: MetricLabels[]): this {
+    const family = name.replace(/_info$/, '');
+    return this.family(family, 'info', help, labelSets.map(labels => [`${family}_info`, labels, 1]));
+  }
+
+  histogram(name: string, help: string, series: Array<{ labels?: MetricLabels; snapshot: HistogramSnapshot }>): this {
+    const samples: Array<[string, MetricLabels | undefined, number]> = [];
+    for (const { labels, snapshot } of series) {
+      for (const bucket of snapshot.buckets) {
+        samples.push([`${name}_bucket`, { ...labels, le: formatValue(bucket.le) }, bucket.count]);
+      }
+      samples.push([`${name}_bucket`, { ...labels, le: '+Inf' }, snapshot.count]);
+      samples.push([`${name}_count`, labels, snapshot.count]);
+      samples.push([`${name}_sum`, labels, snapshot.sum]);
+    }
+    return this.family(name, 'histogram', help, samples);
+  }
+
+  toString(): string {
+    return [...this.lines, '# EOF', ''].join('\n');
+  }
+
+  private family(
+    name: string,
+    type: string,
+    help: string,
+    samples: Array<[string, MetricLabels | undefined, number]>
+  ): this {
+    const family = sanitizeName(name);
+    // A family may only appear once per exposition, and empty families add nothing
+    if (this.families.has(family) || samples.length === 0) return this;
+    this.families.add(family);
+
+    this.lines.push(`# TYPE ${family} ${type}`);
+    this.lines.push(`# HELP ${family} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    for (const [sampleName, labels, value] of samples) {
+      this.lines.push(`${sanitizeName(sampleName)}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+    return this;
+  }
+}
@@ -278,16 +278,19 @@ export class RateLimiterManager {
   }
 }
 
+// Global rate limiter manager
+export const rateLimiters = new RateLimiterManager();
+
 /**
- * Pre-configured rate limiters for common external APIs
+ * Pre-configured rate limiters for common external APIs.
+ * The ESPN and MLB limiters are shared with the sports provider registry.
  */
 export const apiRateLimiters = {
   /**
    * ESPN API rate limiter
    * Conservative limits to avoid hitting their rate limits
    */
-  espn: createRateLimiter({
-    identifier: 'espn-api',
+  espn: rateLimiters.getLimiter('espn-api', {
     maxRequests: 100,
     windowMs: 60 * 1000, // 1 minute
     useTokenBucket: true,
@@ -298,8 +301,7 @@ export const apiRateLimiters = {
    * MLB API rate limiter
    * Higher limits as it's an official API
    */
-  mlb: createRateLimiter({
-    identifier: 'mlb-api',
+  mlb: rateLimiters.getLimiter('mlb-api', {
     maxRequests: 200,
     windowMs: 60 * 1000, // 1 minute
     useTokenBucket: true,
@@ -340,7 +342,4 @@ export const apiRateLimiters = {
     useTokenBucket: true,
     refillRate: 1 // 1 request per second
   })
-};
-
-// Global rate limiter manager
-export const rateLimiters = new RateLimiterManager();
\ No newline at end of file
+};
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * Timezone Helpers
+ *
+ * Per-user wall-clock calculations for scheduling that has to follow the
+ * user's timezone rather than the server's (morning digests, quiet hours).
+ */
+
+export const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The user's timezone if it is a valid IANA zone, otherwise the default
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Minutes past midnight for an HH:MM wall-clock time
+ */
+export function parseLocalTime(value: string): number {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid local time "${value}", expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) and minutes past midnight of `at` in `timezone`
+ */
+export function localClock(at: Date, timezone: string): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+/**
+ * Minutes from local time `from` forward to local time `to`, wrapping past midnight
+ */
+export function minutesUntil(from: number, to: number): number {
+  return (to - from + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
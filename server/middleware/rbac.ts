@@ -5,7 +5,7 @@
  * with role hierarchies and permission-based authorization.
  */
 
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { storage } from '../storage.js';
 
 export interface User {
@@ -157,9 +157,10 @@ export function requireRole(role: UserRole) {
 /**
  * Middleware to require specific permission
  */
-export function requirePermission(permission: Permission) {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
-    if (!req.user) {
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
       res.status(401).json({ 
         success: false, 
         error: 'Authentication required' 
@@ -167,7 +168,7 @@ export function requirePermission(permission: Permission) {
       return;
     }
 
-    if (!userHasPermission(req.user, permission)) {
+    if (!userHasPermission(user, permission)) {
       res.status(403).json({ 
         success: false, 
         error: `Permission '${permission}' required` 
@@ -182,9 +183,10 @@ export function requirePermission(permission: Permission) {
 /**
  * Middleware to require any of multiple permissions
  */
-export function requireAnyPermission(permissions: Permission[]) {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
-    if (!req.user) {
+export function requireAnyPermission(permissions: Permission[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
       res.status(401).json({ 
         success: false, 
         error: 'Authentication required' 
@@ -193,7 +195,7 @@ export function requireAnyPermission(permissions: Permission[]) {
     }
 
     const hasAnyPermission = permissions.some(permission => 
-      userHasPermission(req.user!, permission)
+      userHasPermission(user, permission)
     );
 
     if (!hasAnyPermission) {
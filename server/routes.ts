@@ -5,11 +5,13 @@ import { storage } from "./storage";
 import { setupAuth, isAuthenticated, isAdmin, csrfProtection } from "./clerkAuth";
 import { mlbApiService } from "./services/mlbApiService";
 import { gameProcessor } from "./services/gameProcessor";
+import { expirySweeper } from "./services/expirySweeper";
+import { morningDigestService } from "./services/morningDigestService";
 import { db } from "./supabaseDb";
-import { games, teams, promotions, restaurants, triggeredDeals } from "@shared/schema";
+import { games, teams, promotions, restaurants, triggeredDeals, PROMOTION_STATES, type DiscoveredSite } from "@shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 import { realTimeDealMonitor } from "./services/realTimeDealMonitor";
-import { dealPatternMatcher } from "./services/dealPatternMatcher";
+import { dealPatternMatcher, type DealReviewLearning } from "./services/dealPatternMatcher";
 import { dealMigrationService } from "./services/dealMigrationService";
 import path from "path";
 import fs from "fs";
@@ -20,11 +22,59 @@ import { gameScrapingService } from "./services/gameScrapingService";
 import { notificationService } from "./services/notificationService";
 import { registerNotificationRoutes } from "./routes/notifications";
 import { registerGameSchedulingRoutes } from "./routes/gameScheduling";
+import { registerOpsAlertRoutes } from "./routes/opsAlerts";
+import { registerMetricsRoutes } from "./routes/metrics";
+import { registerRecoveryPlaybookRoutes } from "./routes/recoveryPlaybooks";
+import { registerStatusRoutes } from "./routes/status";
+import { registerGameEventRoutes } from "./routes/gameEvents";
+import { registerStreamRoutes } from "./routes/stream";
+import { registerReconciliationRoutes } from "./routes/reconciliation";
+import { registerMarketRoutes } from "./routes/markets";
+import { registerDealPatternRoutes } from "./routes/dealPatterns";
+import { registerExtractionRecipeRoutes } from "./routes/extractionRecipes";
+import { registerSearchTermRoutes } from "./routes/searchTerms";
+import { alertManager } from "./services/alertManager";
+import { recoveryPlaybooks } from "./services/recoveryPlaybooks";
+import { statusPageService } from "./services/statusPage";
+import { dealStream } from "./services/dealStream";
 import { Server as SocketIOServer } from "socket.io";
 import { insertAlertPreferenceSchema, insertPromotionSchema, insertTeamSchema, insertRestaurantSchema } from "@shared/schema";
-import { config } from "./config";
+import { marketService, MarketError } from "./services/markets";
+import { TriggerConditionError } from "./services/triggers";
+import { RedemptionError, resolveRedemptionLimits } from "./services/redemptions";
+import {
+  promotionStateMachine,
+  PromotionTransitionError,
+  INITIAL_PROMOTION_STATES,
+  allowedTransitions,
+  currentState
+} from "./services/promotionStateMachine";
 import multer from 'multer';
 
+// Pattern learning never blocks a review; failures are logged and the review still succeeds
+async function learnFromDealReview(
+  site: DiscoveredSite,
+  approved: boolean,
+  dealDetails: { restaurant?: string; team?: string; offerTitle?: string; description?: string } | undefined,
+  reviewerId?: string,
+  previousStatus?: string | null
+): Promise<DealReviewLearning> {
+  try {
+    return await dealPatternMatcher.recordDealReview({
+      site,
+      approved,
+      restaurant: dealDetails?.restaurant,
+      team: dealDetails?.team,
+      dealText: [dealDetails?.offerTitle, dealDetails?.description].filter(Boolean).join('. ') || undefined,
+      reviewerId,
+      previousStatus
+    });
+  } catch (error) {
+    console.error('Error recording deal review for patterns:', (error as Error).message);
+    return {};
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -34,6 +84,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Register game scheduling routes
   registerGameSchedulingRoutes(app);
+
+  // Register ops alert routes
+  registerOpsAlertRoutes(app);
+
+  // Register OpenMetrics scrape endpoint
+  registerMetricsRoutes(app);
+
+  // Register recovery playbook routes
+  registerRecoveryPlaybookRoutes(app);
+
+  // Register public status routes
+  registerStatusRoutes(app);
+
+  // Register game event log routes
+  registerGameEventRoutes(app);
+
+  // Register live deal stream (SSE)
+  registerStreamRoutes(app);
+
+  // Register consensus reconciliation review queue
+  registerReconciliationRoutes(app);
+
+  // Register market (metro area) administration
+  registerMarketRoutes(app);
+
+  // Register deal pattern library administration
+  registerDealPatternRoutes(app);
+
+  // Register extraction recipe administration and the recipe tester
+  registerExtractionRecipeRoutes(app);
+
+  // Register search term ranking and lifecycle administration
+  registerSearchTermRoutes(app);
   
   // Agent routes removed - fake system eliminated
   
@@ -221,6 +304,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Protected routes - Deal claims and wallet
+  app.post('/api/deals/:triggeredDealId/claim', isAuthenticated, async (req: any, res) => {
+    try {
+      const { triggeredDealId } = z.object({
+        triggeredDealId: z.string().regex(/^\d+$/).transform(Number)
+      }).parse(req.params);
+
+      const redemption = await storage.claimTriggeredDeal(req.user.id, triggeredDealId);
+      res.status(201).json(redemption);
+    } catch (error) {
+      console.error("Error claiming deal:", (error as Error).message);
+      if (error instanceof RedemptionError) {
+        const status = error.code === 'NOT_FOUND' ? 404
+          : error.code === 'INACTIVE' || error.code === 'EXPIRED' ? 410
+          : 409;
+        return res.status(status).json({ message: error.message, code: error.code });
+      }
+      res.status(400).json({ message: "Failed to claim deal" });
+    }
+  });
+
+  app.get('/api/wallet', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const [claimed, activeDeals, preferences] = await Promise.all([
+        storage.getUserRedemptionsWithDetails(userId),
+        storage.getActiveTriggeredDealsWithDetails(),
+        storage.getUserAlertPreferences(userId)
+      ]);
+
+      // Unclaimed deals come from the user's followed teams, or every team if they follow none
+      const followedTeamIds = new Set(
+        preferences.filter(p => p.isActive !== false && p.teamId).map(p => p.teamId)
+      );
+      // A deal stays claimable until the user has used up its perUser limit
+      const claimCounts = new Map<number, number>();
+      for (const c of claimed) {
+        claimCounts.set(c.triggeredDealId, (claimCounts.get(c.triggeredDealId) ?? 0) + 1);
+      }
+      const now = Date.now();
+      const unclaimed = activeDeals.filter(deal =>
+        (claimCounts.get(deal.id) ?? 0) < resolveRedemptionLimits(deal.promotion).perUser &&
+        (!deal.expiresAt || new Date(deal.expiresAt).getTime() > now) &&
+        (followedTeamIds.size === 0 || followedTeamIds.has(deal.promotion?.teamId))
+      );
+
+      res.json({ claimed, unclaimed, serverTime: new Date(now).toISOString() });
+    } catch (error) {
+      console.error("Error fetching wallet:", (error as Error).message);
+      res.status(500).json({ message: "Failed to fetch wallet" });
+    }
+  });
+
   // Protected routes - Alert preferences
   app.get('/api/alert-preferences', isAuthenticated, async (req: any, res) => {
     try {
@@ -327,10 +463,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/admin/promotions', csrfProtection, isAdmin, async (req: any, res) => {
     try {
       const validatedData = insertPromotionSchema.parse(req.body);
-      const promotion = await storage.createPromotion(validatedData);
+      const initialState = validatedData.state ?? "approved";
+      if (!(INITIAL_PROMOTION_STATES as readonly string[]).includes(initialState)) {
+        return res.status(400).json({
+          message: `Promotions must be created as ${INITIAL_PROMOTION_STATES.join(" or ")}`,
+          state: initialState
+        });
+      }
+      const promotion = await storage.createPromotion(validatedData, req.user.id);
       res.json(promotion);
     } catch (error) {
       console.error("Error creating promotion:", (error as Error).message);
+      if (error instanceof TriggerConditionError) {
+        return res.status(400).json({ message: "Invalid trigger condition", error: error.message, position: error.position });
+      }
       res.status(400).json({ message: "Failed to create promotion" });
     }
   });
@@ -350,15 +496,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/admin/analytics', isAdmin, async (req: any, res) => {
     try {
+      const market = req.query.market
+        ? (await marketService.resolveMarkets(String(req.query.market)))[0]
+        : await marketService.getDefaultMarket();
       const activeDeals = await storage.getActiveTriggeredDeals();
-      const totalUsers = await storage.getUsersByTeamPreference(config.DODGERS_TEAM_ID);
+      const subscribers = new Set<string>();
+      for (const team of market.teams) {
+        (await storage.getUsersByTeamPreference(team.id)).forEach(userId => subscribers.add(userId));
+      }
       
       res.json({
+        market: market.slug,
         activeDeals: activeDeals.length,
-        totalSubscribers: totalUsers.length,
+        totalSubscribers: subscribers.size,
         // Add more analytics as needed
       });
     } catch (error) {
+      if (error instanceof MarketError) {
+        return res.status(404).json({ message: error.message });
+      }
       console.error("Error fetching analytics:", (error as Error).message);
       res.status(500).json({ message: "Failed to fetch analytics" });
     }
@@ -414,7 +570,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/mlb/games/today', isAdmin, async (req, res) => {
     try {
-      const recentGames = await storage.getRecentGames(config.DODGERS_TEAM_ID, 10);
+      // Most recent games across the default market's teams
+      const market = await marketService.getDefaultMarket();
+      const teamGames = await Promise.all(market.teams.map(team => storage.getRecentGames(team.id, 10)));
+      const recentGames = teamGames
+        .flat()
+        .sort((a, b) => new Date(b.gameDate).getTime() - new Date(a.gameDate).getTime())
+        .slice(0, 10);
       res.json(recentGames);
     } catch (error) {
       console.error('Error fetching today\'s games:', (error as Error).message);
@@ -432,6 +594,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/expiry-sweeper/status', isAdmin, async (req, res) => {
+    try {
+      const runs = await storage.getExpirySweepRuns(10);
+      res.json({ success: true, sweeper: expirySweeper.getStatus(), recentRuns: runs });
+    } catch (error) {
+      console.error('Error getting expiry sweeper status:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to get expiry sweeper status' });
+    }
+  });
+
+  app.post('/api/admin/expiry-sweeper/start', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      expirySweeper.start();
+      res.json({ success: true, message: 'Expiry sweeper started' });
+    } catch (error) {
+      console.error('Error starting expiry sweeper:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to start expiry sweeper' });
+    }
+  });
+
+  app.post('/api/admin/expiry-sweeper/stop', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      expirySweeper.stop();
+      res.json({ success: true, message: 'Expiry sweeper stopped' });
+    } catch (error) {
+      console.error('Error stopping expiry sweeper:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to stop expiry sweeper' });
+    }
+  });
+
+  // Reports what a sweep would deactivate, expire and archive without changing anything
+  app.post('/api/admin/expiry-sweeper/dry-run', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const report = await expirySweeper.sweep({ dryRun: true, trigger: 'manual' });
+      res.json({ success: true, report });
+    } catch (error) {
+      console.error('Error running expiry sweep dry run:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to run expiry sweep dry run' });
+    }
+  });
+
+  app.post('/api/admin/expiry-sweeper/run', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      if (expirySweeper.getStatus().isSweeping) {
+        return res.status(409).json({ error: 'Expiry sweep already in progress' });
+      }
+      const report = await expirySweeper.sweep({ trigger: 'manual' });
+      res.json({ success: true, report });
+    } catch (error) {
+      console.error('Error running expiry sweep:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to run expiry sweep' });
+    }
+  });
+
+  app.get('/api/admin/morning-digest/status', isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, digest: morningDigestService.getStatus() });
+    } catch (error) {
+      console.error('Error getting morning digest status:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to get morning digest status' });
+    }
+  });
+
+  app.post('/api/admin/morning-digest/start', isAdmin, async (req, res) => {
+    try {
+      morningDigestService.start();
+      res.json({ success: true, message: 'Morning digest started' });
+    } catch (error) {
+      console.error('Error starting morning digest:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to start morning digest' });
+    }
+  });
+
+  app.post('/api/admin/morning-digest/stop', isAdmin, async (req, res) => {
+    try {
+      morningDigestService.stop();
+      res.json({ success: true, message: 'Morning digest stopped' });
+    } catch (error) {
+      console.error('Error stopping morning digest:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to stop morning digest' });
+    }
+  });
+
+  // Sends digests that are due now; users already sent today are skipped
+  app.post('/api/admin/morning-digest/run', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      if (morningDigestService.getStatus().isSending) {
+        return res.status(409).json({ error: 'Morning digest already in progress' });
+      }
+      const report = await morningDigestService.runDigests({ trigger: 'manual' });
+      res.json({ success: true, report });
+    } catch (error) {
+      console.error('Error running morning digest:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to run morning digest' });
+    }
+  });
+
   app.get('/api/admin/promotions', isAdmin, async (req, res) => {
     try {
       const promotions = await storage.getActivePromotions();
@@ -448,6 +707,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/promotions/:id/history', isAdmin, async (req, res) => {
+    try {
+      const { id } = z.object({ id: z.string().regex(/^\d+$/).transform(Number) }).parse(req.params);
+      const promotion = await storage.getPromotion(id);
+      if (!promotion) {
+        return res.status(404).json({ message: 'Promotion not found' });
+      }
+
+      const state = currentState(promotion);
+      const transitions = await promotionStateMachine.getHistory(id);
+      res.json({
+        promotionId: id,
+        currentState: state,
+        allowedTransitions: allowedTransitions(state),
+        transitions
+      });
+    } catch (error) {
+      console.error('Error fetching promotion history:', (error as Error).message);
+      res.status(500).json({ message: 'Failed to fetch promotion history' });
+    }
+  });
+
+  app.post('/api/admin/promotions/:id/transition', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const { id } = z.object({ id: z.string().regex(/^\d+$/).transform(Number) }).parse(req.params);
+      const { toState, reason, evidenceHash } = z.object({
+        toState: z.enum(PROMOTION_STATES),
+        reason: z.string().min(1, 'A reason is required for every state change'),
+        evidenceHash: z.string().regex(/^[a-f0-9]{64}$/).optional()
+      }).parse(req.body);
+
+      const promotion = await promotionStateMachine.transition(id, toState, {
+        actor: req.user.id,
+        reason,
+        evidenceHash
+      });
+      res.json(promotion);
+    } catch (error) {
+      console.error('Error transitioning promotion:', (error as Error).message);
+      if (error instanceof PromotionTransitionError) {
+        const status = error.code === 'NOT_FOUND' ? 404 : 409;
+        return res.status(status).json({ message: error.message, code: error.code, from: error.from, to: error.to });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transition request', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to transition promotion' });
+    }
+  });
+
   // Apple Push Notifications Management
   app.post('/api/device-token/register', async (req, res) => {
     try {
@@ -528,6 +837,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Web Push (VAPID) Management
+  app.get('/api/web-push/public-key', async (req, res) => {
+    const { webPushService } = await import('./services/webPushService');
+    const publicKey = webPushService.getPublicKey();
+    if (!publicKey) {
+      return res.status(503).json({ error: 'Web push is not configured' });
+    }
+    res.json({ publicKey });
+  });
+
+  app.post('/api/web-push/subscribe', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.auth?.userId;
+      if (!userId) {
+        return res.status(401).json({ error: 'User ID not found in auth context' });
+      }
+
+      const { subscription, deviceInfo } = z.object({
+        subscription: z.object({
+          endpoint: z.string().url('Subscription endpoint must be a URL').max(1024),
+          keys: z.object({
+            p256dh: z.string().min(1),
+            auth: z.string().min(1)
+          })
+        }),
+        deviceInfo: z.object({
+          model: z.string().optional(),
+          osVersion: z.string().optional(),
+          appVersion: z.string().optional()
+        }).optional()
+      }).parse(req.body);
+
+      await storage.saveWebPushSubscription(userId, subscription, deviceInfo);
+
+      console.log(`Web push subscription registered for user ${userId}: ${new URL(subscription.endpoint).host}`);
+
+      res.json({
+        success: true,
+        message: 'Web push subscription registered successfully',
+        platform: 'web'
+      });
+    } catch (error) {
+      console.error('Error registering web push subscription:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Invalid request data',
+          details: error.errors
+        });
+      }
+      res.status(500).json({ error: 'Failed to register web push subscription' });
+    }
+  });
+
   app.get('/api/device-tokens/my-devices', isAuthenticated, async (req, res) => {
     try {
       const userId = req.auth?.userId;
@@ -590,7 +952,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         userPreferences: preferences,
         serviceStatus: status,
-        canReceivePushNotifications: preferences.pushNotifications && status.apns.configured
+        canReceivePushNotifications: preferences.pushNotifications && status.apns.configured,
+        canReceiveWebPushNotifications: preferences.webPushNotifications && status.webPush.configured
       });
     } catch (error) {
       console.error('Error fetching notification status:', error);
@@ -785,7 +1148,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // NEW: Enhanced Discovery Engine with Integrated Social Media Search
   app.post("/api/admin/discovery/run", isAdmin, async (req, res) => {
     try {
-      console.log('🚀 Starting enhanced discovery engine with social media integration...');
+      // Optional market slug; every active market is searched when omitted
+      const market = typeof req.body?.market === 'string' ? req.body.market : undefined;
+      if (market) {
+        await marketService.resolveMarkets(market);
+      }
+      console.log(`🚀 Starting enhanced discovery engine with social media integration (${market || 'all markets'})...`);
       
       // Run both standard discovery and social media discovery simultaneously
       const { dealDiscoveryEngine } = await import("./services/dealDiscoveryEngine");
@@ -793,11 +1161,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Execute both discovery methods in parallel for maximum coverage
       const [standardResults, socialResults] = await Promise.all([
-        dealDiscoveryEngine.runDiscovery().catch(err => {
+        dealDiscoveryEngine.runDiscovery(market).catch(err => {
           console.error('Standard discovery error:', (err as Error).message);
           return [];
         }),
-        socialMediaDiscovery.discoverDealsLikeHuman().catch(err => {
+        socialMediaDiscovery.discoverDealsLikeHuman(market).catch(err => {
           console.error('Social media discovery error:', (err as Error).message);
           return [];
         })
@@ -813,6 +1181,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         includesSocialMedia: true
       });
     } catch (error) {
+      if (error instanceof MarketError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
       console.error("Discovery engine error:", (error as Error).message);
       res.status(500).json({
         success: false,
@@ -870,6 +1241,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("User:", req.user?.email);
       
       // Update discovered site as approved
+      const previousSite = await storage.getDiscoveredSite(id);
       const updatedSite = await storage.updateDiscoveredSite(id, { 
         status: 'approved',
         reviewedAt: new Date(),
@@ -900,12 +1272,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Feed the review back into the pattern library: confirm a matching pattern or propose a new one
+      const patternLearning = await learnFromDealReview(updatedSite, true, dealDetails, req.user?.id || 'admin', previousSite?.status);
+      
       console.log("=== APPROVAL COMPLETE ===");
       
       res.json({
         success: true,
         message: 'Deal approved successfully',
-        site: updatedSite
+        site: updatedSite,
+        patternLearning
       });
     } catch (error) {
       console.error("Error approving deal:", (error as Error).message);
@@ -920,16 +1296,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = z.object({ id: z.string().regex(/^\d+$/).transform(Number) }).parse(req.params);
       
+      const previousSite = await storage.getDiscoveredSite(id);
       const updatedSite = await storage.updateDiscoveredSite(id, { 
         status: 'rejected',
         reviewedAt: new Date(),
         reviewedBy: 'admin'
       });
       
+      // A rejected deal lowers the confidence of any pattern that vouched for it
+      const patternLearning = await learnFromDealReview(updatedSite, false, undefined, 'admin', previousSite?.status);
+      
       res.json({
         success: true,
         message: 'Deal rejected successfully',
-        site: updatedSite
+        site: updatedSite,
+        patternLearning
       });
     } catch (error) {
       console.error("Error rejecting deal:", (error as Error).message);
@@ -1138,7 +1519,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/admin/deal-monitor/status', isAdmin, async (req, res) => {
     try {
       const status = realTimeDealMonitor.getStatus();
-      const performance = realTimeDealMonitor.getPerformanceMetrics();
+      const performance = await realTimeDealMonitor.getPerformanceMetrics();
+      await dealPatternMatcher.ensureLoaded();
       const patternStats = dealPatternMatcher.getPatternStats();
       
       res.json({
@@ -1232,6 +1614,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(dealPage);
     } catch (error) {
       console.error("Error creating deal page:", (error as Error).message);
+      if (error instanceof TriggerConditionError) {
+        return res.status(400).json({ error: "Invalid trigger condition", details: error.message, position: error.position });
+      }
       res.status(500).json({ error: "Failed to create deal page" });
     }
   });
@@ -1277,6 +1662,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(dealPage);
     } catch (error) {
       console.error("Error updating deal page:", (error as Error).message);
+      if (error instanceof TriggerConditionError) {
+        return res.status(400).json({ error: "Invalid trigger condition", details: error.message, position: error.position });
+      }
       res.status(500).json({ error: "Failed to update deal page" });
     }
   });
@@ -1313,6 +1701,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error("Error approving and creating deal:", (error as Error).message);
+      if (error instanceof TriggerConditionError) {
+        return res.status(400).json({ error: "Invalid trigger condition", details: error.message, position: error.position });
+      }
       res.status(500).json({ error: "Failed to approve and create deal page" });
     }
   });
@@ -1454,13 +1845,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ success: false, error: `Team not found: ${dealDetails.team}` });
       }
       
+      // Translate the form's condition rows into a trigger DSL expression
+      const triggerCondition = dealDetails.triggerConditions.map((c: any) => {
+        const clauses: string[] = [];
+        if (c.gameLocation === 'home' || c.gameLocation === 'away') clauses.push(c.gameLocation);
+        if (c.stat === 'game_outcome') {
+          clauses.push(Number(c.value) === 1 ? 'win' : 'loss');
+        } else {
+          clauses.push(`${c.stat} ${c.operator} ${c.value}`);
+        }
+        return clauses.length > 1 ? `(${clauses.join(' AND ')})` : clauses[0];
+      }).join(` ${dealDetails.triggerLogic === 'OR' ? 'OR' : 'AND'} `);
+
       const payload = {
         teamId: team.id,
         restaurantId: restaurant.id,
         title: dealDetails.offerTitle,
-        triggerCondition: `${dealDetails.triggerType}: ${dealDetails.triggerConditions.map(c => 
-          `${c.stat} ${c.operator} ${c.value} (${c.gameLocation} games)`
-        ).join(` ${dealDetails.triggerLogic} `)}`,
+        triggerCondition,
         source: "manual",
         validUntil: dealDetails.expirationDate || undefined,
         promoCode: dealDetails.promoCode || undefined,
@@ -1488,9 +1889,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         teamId: team.id,
         restaurantId: restaurant.id,
         title: dealDetails.offerTitle,
-        triggerCondition: `${dealDetails.triggerType}: ${dealDetails.triggerConditions.map(c => 
-          `${c.stat} ${c.operator} ${c.value} (${c.gameLocation} games)`
-        ).join(` ${dealDetails.triggerLogic} `)}`
+        triggerCondition
       };
       
       // Only add optional fields if they have values (no dates)
@@ -1503,7 +1902,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Promotion data being sent:", JSON.stringify(promotionData, null, 2));
       
-      const promotion = await storage.createPromotion(promotionData);
+      const promotion = await storage.createPromotion(promotionData, promotionData.approvedBy);
       
       console.log("Created promotion:", promotion.id);
       console.log("=== MANUAL DEAL CREATION COMPLETE ===");
@@ -1520,6 +1919,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error("Error creating manual deal:", (error as Error).message);
+      if (error instanceof TriggerConditionError) {
+        return res.status(400).json({ success: false, error: error.message, position: error.position });
+      }
       res.status(500).json({
         success: false,
         error: (error as Error).message
@@ -2017,10 +2419,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/admin/rate-limits', isAdmin, async (req: any, res) => {
     try {
       const { apiRateLimiters } = await import('./lib/rateLimiter.js');
+      const { sportsProviders } = await import('./services/sports/providers/index.js');
       
       const rateLimiterStatus = {
-        espn: apiRateLimiters.espn.getStatus(),
-        mlb: apiRateLimiters.mlb.getStatus(),
+        ...sportsProviders.getRateLimitStatus(),
         google: apiRateLimiters.google.getStatus(),
         twitter: apiRateLimiters.twitter.getStatus()
       };
@@ -2114,6 +2516,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Start the game processor on server startup
   // gameProcessor.start(); // Temporarily disabled for testing
 
+  // Keep expired deals out of /api/active-deals without manual deactivation
+  expirySweeper.start();
+
+  // Batch deals for morning and both alert timings into one send per user
+  morningDigestService.start();
+
+  // Send notifications held back by quiet hours once each user's window ends
+  notificationService.startQueueRelease();
+
+  // Evaluate ops alert rules; alerts still open from before the restart are restored first
+  alertManager.start().catch(error => {
+    console.error('Failed to start alert manager:', error);
+  });
+
+  // Reload recent recovery runs so playbook cooldowns and attempt limits survive restarts
+  recoveryPlaybooks.start().catch(error => {
+    console.error('Failed to start recovery playbooks:', error);
+  });
+
+  // Sample component health into the public status page's uptime history
+  statusPageService.start();
+
+  // Push score changes, triggered deals and expiry warnings to connected clients
+  dealStream.start();
+
   const httpServer = createServer(app);
   
   // WebSocket support for real-time features (agent monitoring removed)
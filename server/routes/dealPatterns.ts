@@ -0,0 +1,111 @@
+import type { Express, Response } from "express";
+import { dealPatternMatcher, DealPatternError } from "../services/dealPatternMatcher";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const STATUSES = ['active', 'proposed', 'dismissed', 'disabled'] as const;
+
+const dealPatternBodySchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Id must be lowercase words separated by hyphens').max(100),
+  market: z.string().min(1).max(50),
+  restaurant: z.string().trim().min(1).max(100),
+  team: z.string().trim().min(1).max(100),
+  sport: z.string().trim().min(1).max(20),
+  triggerType: z.enum(['win', 'score', 'performance', 'occurrence']),
+  conditions: z.object({
+    venue: z.enum(['home', 'away', 'any']).optional(),
+    scoreThreshold: z.number().int().min(0).optional(),
+    margin: z.number().int().min(0).optional(),
+    occurrenceType: z.string().max(50).optional(),
+  }).default({}),
+  reward: z.object({
+    item: z.string().trim().min(1).max(200),
+    value: z.string().trim().min(1).max(100),
+    promoCode: z.string().trim().max(50).optional(),
+  }),
+  // Phrases the deal is announced with; {placeholders} are allowed
+  patterns: z.array(z.string().trim().min(3).max(300)).min(1).max(20),
+  confidence: z.number().min(0).max(1).default(0.8),
+  seasonalPattern: z.boolean().default(true),
+  status: z.enum(STATUSES).default('active'),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(STATUSES).optional(),
+  market: z.string().max(50).optional(),
+});
+
+function actor(req: any): string {
+  return req.user?.email || req.user?.id;
+}
+
+function dealPatternErrorStatus(error: DealPatternError): number {
+  return error.code === 'NOT_FOUND' ? 404 : error.code === 'DUPLICATE' || error.code === 'NOT_PROPOSED' ? 409 : 400;
+}
+
+function handleError(res: Response, error: unknown, action: string, verb: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid deal pattern', errors: error.errors });
+  }
+  if (error instanceof DealPatternError) {
+    return res.status(dealPatternErrorStatus(error)).json({ error: error.message, code: error.code });
+  }
+  console.error(`Error ${action} deal pattern:`, (error as Error).message);
+  res.status(500).json({ error: `Failed to ${verb} deal pattern` });
+}
+
+export function registerDealPatternRoutes(app: Express) {
+  // Library patterns, including proposals learned from approved deals
+  app.get('/api/admin/deal-patterns', isAdmin, async (req, res) => {
+    try {
+      const { status, market } = listQuerySchema.parse(req.query);
+      res.json({ success: true, patterns: await dealPatternMatcher.listPatterns(status, market) });
+    } catch (error) {
+      handleError(res, error, 'fetching', 'fetch');
+    }
+  });
+
+  app.post('/api/admin/deal-patterns', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const input = dealPatternBodySchema.parse(req.body ?? {});
+      res.status(201).json({ success: true, pattern: await dealPatternMatcher.createPattern(input, actor(req)) });
+    } catch (error) {
+      handleError(res, error, 'creating', 'create');
+    }
+  });
+
+  app.put('/api/admin/deal-patterns/:id', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const updates = dealPatternBodySchema.omit({ id: true }).partial().parse(req.body ?? {});
+      res.json({ success: true, pattern: await dealPatternMatcher.updatePattern(req.params.id, updates, actor(req)) });
+    } catch (error) {
+      handleError(res, error, 'updating', 'update');
+    }
+  });
+
+  app.delete('/api/admin/deal-patterns/:id', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      await dealPatternMatcher.deletePattern(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, 'deleting', 'delete');
+    }
+  });
+
+  // One-click review of a proposed pattern
+  app.post('/api/admin/deal-patterns/:id/accept', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, pattern: await dealPatternMatcher.acceptProposal(req.params.id, actor(req)) });
+    } catch (error) {
+      handleError(res, error, 'accepting', 'accept');
+    }
+  });
+
+  app.post('/api/admin/deal-patterns/:id/dismiss', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, pattern: await dealPatternMatcher.dismissProposal(req.params.id, actor(req)) });
+    } catch (error) {
+      handleError(res, error, 'dismissing', 'dismiss');
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { dealVerificationService } from '../services/dealVerificationService';
 import { storage } from '../storage';
+import { compileTriggerCondition, evaluateTriggerConditions, TriggerConditionError } from '../services/triggers';
 
 const router = Router();
 
@@ -187,18 +188,27 @@ router.post('/parse-condition', async (req, res) => {
       }
     };
 
-    // Test the condition parsing using our verification service
-    const service = dealVerificationService as any;
-    const result = await service.evaluateTriggerCondition(condition, mockGame);
+    // Compile with the trigger DSL and evaluate against the mock game
+    const compiled = compileTriggerCondition(condition);
+    const { isTriggered, matchedClauses } = evaluateTriggerConditions(compiled, mockGame as any);
     
     res.json({
       success: true,
       condition,
+      compiled,
       mockGame,
-      triggered: result,
-      explanation: `Condition "${condition}" ${result ? 'would be' : 'would NOT be'} triggered by this mock game`
+      triggered: isTriggered,
+      matchedClauses,
+      explanation: `Condition "${condition}" ${isTriggered ? 'would be' : 'would NOT be'} triggered by this mock game`
     });
   } catch (error) {
+    if (error instanceof TriggerConditionError) {
+      return res.status(400).json({
+        error: 'Invalid trigger condition',
+        message: error.message,
+        position: error.position
+      });
+    }
     console.error('Error parsing condition:', error);
     res.status(500).json({ 
       error: 'Failed to parse condition',
@@ -0,0 +1,139 @@
+import express, { type Express, type Response } from "express";
+import { extractionRecipeService, RecipeError } from "../services/extractionRecipes";
+import { insertExtractionRecipeSchema, RECIPE_FIELDS } from "@shared/schema";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const selectorList = z.array(z.string().trim().min(1).max(300)).max(20);
+
+const fieldRuleSchema = z.object({
+  selectors: selectorList.optional(),
+  pattern: z.string().min(1).max(500).optional(),
+  template: z.string().max(300).optional(),
+  fallback: z.string().max(500).optional(),
+});
+
+const recipeBodySchema = insertExtractionRecipeSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  restaurant: z.string().trim().min(1).max(100),
+  domain: z.string().trim().toLowerCase().min(3).max(200).nullable().optional(),
+  urlPattern: z.string().min(1).max(500).nullable().optional(),
+  priority: z.number().int().min(-100).max(100).default(0),
+  fields: z.record(z.enum(RECIPE_FIELDS), fieldRuleSchema).default({}),
+  image: z.object({
+    selectors: selectorList.optional(),
+    attribute: z.string().max(50).optional(),
+    keywords: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  }).nullable().optional(),
+  requiredFields: z.array(z.enum(RECIPE_FIELDS)).default([]),
+});
+
+// Pasted page source is far over the app-wide 100 KB JSON limit; the extra
+// megabyte leaves room for JSON escaping of a maximum-length page
+export const htmlJsonBody = express.json({ limit: '6mb' });
+export const HTML_BODY_ROUTES = ['/api/admin/extraction-recipes/snapshots', '/api/admin/extraction-recipes/test'];
+
+const snapshotBodySchema = z.object({
+  url: z.string().url(),
+  // Pasted page source; fetched from the URL when omitted
+  html: z.string().max(5_000_000).optional(),
+});
+
+const testBodySchema = z.object({
+  recipeId: z.number().int().positive().optional(),
+  recipe: recipeBodySchema.partial({ name: true }).optional(),
+  snapshotId: z.number().int().positive().optional(),
+  html: z.string().max(5_000_000).optional(),
+  url: z.string().url().optional(),
+});
+
+function actor(req: any): string {
+  return req.user?.email || req.user?.id;
+}
+
+function recipeErrorStatus(error: RecipeError): number {
+  if (error.code === 'NOT_FOUND' || error.code === 'SNAPSHOT_NOT_FOUND') return 404;
+  return error.code === 'FETCH_FAILED' ? 502 : 400;
+}
+
+function handleError(res: Response, error: unknown, action: string, verb: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid extraction recipe request', errors: error.errors });
+  }
+  if (error instanceof RecipeError) {
+    return res.status(recipeErrorStatus(error)).json({ error: error.message, code: error.code });
+  }
+  console.error(`Error ${action}:`, (error as Error).message);
+  res.status(500).json({ error: `Failed to ${verb}` });
+}
+
+export function registerExtractionRecipeRoutes(app: Express) {
+  // Every recipe, including inactive ones being prepared
+  app.get('/api/admin/extraction-recipes', isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, recipes: await extractionRecipeService.getRecipes(true) });
+    } catch (error) {
+      handleError(res, error, 'fetching extraction recipes', 'fetch extraction recipes');
+    }
+  });
+
+  app.post('/api/admin/extraction-recipes', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const recipe = recipeBodySchema.parse(req.body ?? {});
+      res.status(201).json({ success: true, recipe: await extractionRecipeService.createRecipe(recipe) });
+    } catch (error) {
+      handleError(res, error, 'creating extraction recipe', 'create extraction recipe');
+    }
+  });
+
+  app.put('/api/admin/extraction-recipes/:id', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { id } = z.object({ id: z.string().regex(/^\d+$/).transform(Number) }).parse(req.params);
+      const updates = recipeBodySchema.partial().parse(req.body ?? {});
+      res.json({ success: true, recipe: await extractionRecipeService.updateRecipe(id, updates) });
+    } catch (error) {
+      handleError(res, error, 'updating extraction recipe', 'update extraction recipe');
+    }
+  });
+
+  app.delete('/api/admin/extraction-recipes/:id', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { id } = z.object({ id: z.string().regex(/^\d+$/).transform(Number) }).parse(req.params);
+      await extractionRecipeService.deleteRecipe(id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, 'deleting extraction recipe', 'delete extraction recipe');
+    }
+  });
+
+  // Saved page HTML to test recipes against (listing omits the HTML)
+  app.get('/api/admin/extraction-recipes/snapshots', isAdmin, async (req, res) => {
+    try {
+      const { limit } = z.object({ limit: z.coerce.number().int().min(1).max(200).default(50) }).parse(req.query);
+      res.json({ success: true, snapshots: await extractionRecipeService.getSnapshots(limit) });
+    } catch (error) {
+      handleError(res, error, 'fetching HTML snapshots', 'fetch HTML snapshots');
+    }
+  });
+
+  app.post('/api/admin/extraction-recipes/snapshots', htmlJsonBody, csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { url, html } = snapshotBodySchema.parse(req.body ?? {});
+      const snapshot = await extractionRecipeService.captureSnapshot(url, html, actor(req));
+      res.status(201).json({ success: true, snapshot: { id: snapshot.id, url: snapshot.url, capturedAt: snapshot.capturedAt, length: snapshot.html.length } });
+    } catch (error) {
+      handleError(res, error, 'capturing HTML snapshot', 'capture HTML snapshot');
+    }
+  });
+
+  // Recipe tester: run a saved or draft recipe against a snapshot or pasted HTML; nothing is stored
+  app.post('/api/admin/extraction-recipes/test', htmlJsonBody, csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const input = testBodySchema.parse(req.body ?? {});
+      const recipe = input.recipe ? { name: 'Draft recipe', ...input.recipe } : undefined;
+      res.json({ success: true, result: await extractionRecipeService.testRecipe({ ...input, recipe }) });
+    } catch (error) {
+      handleError(res, error, 'testing extraction recipe', 'test extraction recipe');
+    }
+  });
+}
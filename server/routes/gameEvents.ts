@@ -0,0 +1,65 @@
+import type { Express } from "express";
+import { gameMonitor } from "../services/gameMonitor";
+import { workflowOrchestrator } from "../services/workflowOrchestrator";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const replaySchema = z.object({
+  eventId: z.string().max(200).optional(),
+  eventTypes: z.array(z.enum(['game_start', 'game_end', 'status_change', 'score_change', 'play'])).optional(),
+  includeUntriggered: z.boolean().default(false),
+});
+
+export function registerGameEventRoutes(app: Express) {
+  // Stored event log for a game, oldest first
+  app.get('/api/admin/games/:gameId/events', isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, events: await gameMonitor.getGameEvents(req.params.gameId) });
+    } catch (error) {
+      console.error('Error fetching game events:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch game events' });
+    }
+  });
+
+  // Debugging aid: runs stored events through the workflow again, one at a time, in order.
+  // A dry run: followers get no notifications, no reviews are queued and stored statuses stay as they are.
+  app.post('/api/admin/games/:gameId/events/replay', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const { eventId, eventTypes, includeUntriggered } = replaySchema.parse(req.body ?? {});
+      const events = (await gameMonitor.getGameEvents(req.params.gameId)).filter(event =>
+        (!eventId || event.eventId === eventId) &&
+        (!eventTypes || eventTypes.includes(event.eventType)) &&
+        (includeUntriggered || event.triggered)
+      );
+
+      if (eventId && events.length === 0) {
+        return res.status(404).json({ error: 'Game event not found' });
+      }
+
+      const executions = [];
+      for (const event of events) {
+        const execution = await workflowOrchestrator.triggerWorkflow(event, { dryRun: true });
+        executions.push({
+          eventId: event.eventId,
+          eventType: event.eventType,
+          executionId: execution.executionId,
+          status: execution.status,
+          approvedPromotions: execution.approvedPromotions,
+          rejectedPromotions: execution.rejectedPromotions,
+          failedPromotions: execution.failedPromotions,
+          pendingReviewPromotions: execution.pendingReviewPromotions,
+          processingTime: execution.processingTime,
+          error: execution.error
+        });
+      }
+
+      res.json({ success: true, replayed: executions.length, executions });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid game event replay', errors: error.errors });
+      }
+      console.error('Error replaying game events:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to replay game events' });
+    }
+  });
+}
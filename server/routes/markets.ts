@@ -0,0 +1,86 @@
+import type { Express } from "express";
+import { marketService, MarketError } from "../services/markets";
+import { insertMarketSchema } from "@shared/schema";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const domainList = z.array(z.string().trim().toLowerCase().min(3).max(200)).max(100);
+const keywordList = z.array(z.string().trim().toLowerCase().min(1).max(100)).max(200);
+
+const marketBodySchema = insertMarketSchema.extend({
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase words separated by hyphens').max(50),
+  name: z.string().trim().min(1).max(100),
+  restaurants: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    domain: z.string().trim().toLowerCase().min(3).max(200),
+  })).max(100).default([]),
+  newsDomains: domainList.default([]),
+  teamSites: domainList.default([]),
+  trustedSources: domainList.default([]),
+  locationKeywords: keywordList.default([]),
+  excludedKeywords: keywordList.default([]),
+  // Teams that belong to the market; on update this replaces the current list
+  teamIds: z.array(z.number().int().positive()).max(50).optional(),
+});
+
+function marketErrorStatus(error: MarketError): number {
+  return error.code === 'NOT_FOUND' ? 404 : error.code === 'DUPLICATE_SLUG' ? 409 : 400;
+}
+
+export function registerMarketRoutes(app: Express) {
+  // Every market with its teams, including inactive ones being prepared
+  app.get('/api/admin/markets', isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, markets: await marketService.getMarkets(true) });
+    } catch (error) {
+      console.error('Error fetching markets:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch markets' });
+    }
+  });
+
+  app.get('/api/admin/markets/:slug', isAdmin, async (req, res) => {
+    try {
+      const market = await marketService.getMarket(req.params.slug);
+      if (!market) {
+        return res.status(404).json({ error: 'Market not found' });
+      }
+      res.json({ success: true, market });
+    } catch (error) {
+      console.error('Error fetching market:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch market' });
+    }
+  });
+
+  // Onboard a city: its restaurants, trusted domains, location keywords and teams
+  app.post('/api/admin/markets', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { teamIds, ...market } = marketBodySchema.parse(req.body ?? {});
+      res.status(201).json({ success: true, market: await marketService.createMarket(market, teamIds) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid market', errors: error.errors });
+      }
+      if (error instanceof MarketError) {
+        return res.status(marketErrorStatus(error)).json({ error: error.message, code: error.code });
+      }
+      console.error('Error creating market:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to create market' });
+    }
+  });
+
+  app.put('/api/admin/markets/:slug', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { teamIds, ...updates } = marketBodySchema.partial().parse(req.body ?? {});
+      res.json({ success: true, market: await marketService.updateMarket(req.params.slug, updates, teamIds) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid market', errors: error.errors });
+      }
+      if (error instanceof MarketError) {
+        return res.status(marketErrorStatus(error)).json({ error: error.message, code: error.code });
+      }
+      console.error('Error updating market:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to update market' });
+    }
+  });
+}
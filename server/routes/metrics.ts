@@ -0,0 +1,37 @@
+import type { Express, Request } from "express";
+import crypto from "crypto";
+import { metricsExporter } from "../services/metricsExporter";
+import { OPENMETRICS_CONTENT_TYPE } from "../lib/openMetrics";
+
+// Constant-time comparison of the bearer token against METRICS_SCRAPE_TOKEN
+function hasScrapeToken(req: Request, expected: string): boolean {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+}
+
+export function registerMetricsRoutes(app: Express) {
+  // OpenMetrics scrape endpoint; Prometheus authenticates with `authorization: { credentials: <token> }`
+  app.get('/metrics', async (req, res) => {
+    const scrapeToken = process.env.METRICS_SCRAPE_TOKEN;
+    if (!scrapeToken) {
+      return res.status(503).json({ error: 'Metrics scraping is not configured' });
+    }
+    if (!hasScrapeToken(req, scrapeToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ error: 'Invalid scrape token' });
+    }
+
+    try {
+      const body = await metricsExporter.render();
+      res.setHeader('Content-Type', OPENMETRICS_CONTENT_TYPE);
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(body);
+    } catch (error) {
+      console.error('Error rendering metrics:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to render metrics' });
+    }
+  });
+}
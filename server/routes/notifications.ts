@@ -2,6 +2,20 @@ import type { Express } from "express";
 import { storage } from "../storage";
 import { emailService } from "../services/emailService";
 import { isAuthenticated } from "../clerkAuth";
+import { z } from "zod";
+import { isValidTimezone } from "../lib/timezone";
+import { isQuietHours } from "../services/quietHours";
+
+const localTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const notificationSettingsSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: localTimeSchema,
+    end: localTimeSchema,
+  }).optional(),
+});
 
 export function registerNotificationRoutes(app: Express) {
   // Use standard authentication middleware
@@ -120,6 +134,48 @@ export function registerNotificationRoutes(app: Express) {
     }
   });
 
+  // Get timezone and quiet hours, plus how many notifications are being held
+  app.get('/api/notifications/settings', authMiddleware, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const preferences = await storage.getUserNotificationPreferences(userId);
+      const queued = await storage.countQueuedNotifications(userId);
+
+      res.json({
+        timezone: preferences.timezone,
+        quietHours: preferences.quietHours,
+        inQuietHours: isQuietHours(preferences.quietHours, preferences.timezone),
+        queued
+      });
+    } catch (error) {
+      console.error("Error fetching notification settings:", error);
+      res.status(500).json({ message: "Failed to fetch notification settings" });
+    }
+  });
+
+  // Update timezone and quiet hours
+  app.put('/api/notifications/settings', authMiddleware, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const settings = notificationSettingsSchema.parse(req.body);
+
+      await storage.updateUserNotificationSettings(userId, settings);
+      const preferences = await storage.getUserNotificationPreferences(userId);
+
+      res.json({
+        success: true,
+        timezone: preferences.timezone,
+        quietHours: preferences.quietHours
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification settings", errors: error.errors });
+      }
+      console.error("Error updating notification settings:", error);
+      res.status(500).json({ message: "Failed to update notification settings" });
+    }
+  });
+
   // Get unread notifications count
   app.get('/api/notifications/unread', authMiddleware, async (req: any, res) => {
     try {
@@ -0,0 +1,242 @@
+import type { Express } from "express";
+import { alertManager, AlertRuleError, type Alert, type AlertRule } from "../services/alertManager";
+import { AlertExpressionError } from "../services/alertExpressions";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const MAX_MUTE_MINUTES = 7 * 24 * 60;
+
+const alertQuerySchema = z.object({
+  status: z.enum(["firing", "resolved"]).optional(),
+  ruleId: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const snoozeSchema = z.object({
+  minutes: z.number().int().min(1).max(MAX_MUTE_MINUTES),
+});
+
+const resolveSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+const silenceSchema = z.object({
+  ruleId: z.string().min(1).max(100),
+  minutes: z.number().int().min(1).max(MAX_MUTE_MINUTES),
+  reason: z.string().trim().max(500).optional(),
+});
+
+const channelTypeSchema = z.enum(["console", "email", "slack", "webhook", "database"]);
+
+const alertRuleSchema = z.object({
+  ruleId: z.string().regex(/^[a-z0-9_]{1,100}$/, "Lowercase letters, digits and underscores").optional(),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).optional(),
+  expression: z.string().trim().min(1).max(500),
+  severity: z.enum(["info", "warning", "critical"]),
+  enabled: z.boolean().optional(),
+  channels: z.array(channelTypeSchema).max(5).optional(),
+});
+
+const alertRuleUpdateSchema = alertRuleSchema.omit({ ruleId: true }).partial();
+
+const testExpressionSchema = z.object({
+  expression: z.string().trim().min(1).max(500),
+});
+
+// Maps validation and rule errors to responses; returns false for anything unexpected
+function sendRuleError(res: any, error: unknown): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Invalid alert rule', errors: error.errors });
+  } else if (error instanceof AlertExpressionError) {
+    res.status(400).json({ error: error.message });
+  } else if (error instanceof AlertRuleError) {
+    res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+  } else {
+    return false;
+  }
+  return true;
+}
+
+function publicRule({ channels, ...rule }: AlertRule) {
+  return { ...rule, channels: channels.map(channel => channel.type), builtIn: !rule.expression };
+}
+
+// Channel configs can hold webhook URLs and secrets; keep them out of responses
+function publicAlert({ channels, ...alert }: Alert) {
+  return alert;
+}
+
+function actor(req: any): string | undefined {
+  return req.user?.email || req.user?.id;
+}
+
+export function registerOpsAlertRoutes(app: Express) {
+  // Open alerts for on-call handoff, plus persisted history and active silences
+  app.get('/api/admin/alerts', isAdmin, async (req, res) => {
+    try {
+      const filters = alertQuerySchema.parse(req.query);
+      const { config, ...status } = alertManager.getStatus();
+
+      res.json({
+        success: true,
+        active: alertManager.getActiveAlerts().map(publicAlert),
+        alerts: await alertManager.queryAlerts(filters),
+        silences: alertManager.getSilences(),
+        rules: alertManager.getAlertRules().map(({ ruleId, name, severity, enabled }) => ({ ruleId, name, severity, enabled })),
+        status
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid alert query', errors: error.errors });
+      }
+      console.error('Error fetching alerts:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  });
+
+  app.post('/api/admin/alerts/:alertId/acknowledge', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const alert = await alertManager.acknowledgeAlert(req.params.alertId, actor(req));
+      if (!alert) {
+        return res.status(404).json({ error: 'Active alert not found' });
+      }
+      res.json({ success: true, alert: publicAlert(alert) });
+    } catch (error) {
+      console.error('Error acknowledging alert:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to acknowledge alert' });
+    }
+  });
+
+  app.post('/api/admin/alerts/:alertId/snooze', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { minutes } = snoozeSchema.parse(req.body);
+      const alert = await alertManager.snoozeAlert(req.params.alertId, new Date(Date.now() + minutes * 60000));
+      if (!alert) {
+        return res.status(404).json({ error: 'Active alert not found' });
+      }
+      res.json({ success: true, alert: publicAlert(alert) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid snooze', errors: error.errors });
+      }
+      console.error('Error snoozing alert:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to snooze alert' });
+    }
+  });
+
+  app.post('/api/admin/alerts/:alertId/resolve', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const { reason } = resolveSchema.parse(req.body ?? {});
+      const resolved = await alertManager.resolveAlert(req.params.alertId, reason, actor(req));
+      if (!resolved) {
+        return res.status(404).json({ error: 'Active alert not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid resolution', errors: error.errors });
+      }
+      console.error('Error resolving alert:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to resolve alert' });
+    }
+  });
+
+  // Silence a rule: its alerts are still recorded but not notified until the silence ends
+  app.post('/api/admin/alerts/silences', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const { ruleId, minutes, reason } = silenceSchema.parse(req.body);
+      if (!alertManager.getAlertRules().some(rule => rule.ruleId === ruleId)) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      const silence = await alertManager.silenceRule(ruleId, new Date(Date.now() + minutes * 60000), reason, actor(req));
+      res.json({ success: true, silence });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid silence', errors: error.errors });
+      }
+      console.error('Error silencing alert rule:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to silence alert rule' });
+    }
+  });
+
+  app.delete('/api/admin/alerts/silences/:ruleId', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const removed = await alertManager.unsilenceRule(req.params.ruleId);
+      if (!removed) {
+        return res.status(404).json({ error: 'Silence not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing alert silence:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to remove alert silence' });
+    }
+  });
+
+  app.get('/api/admin/alert-rules', isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, rules: alertManager.getAlertRules().map(publicRule) });
+    } catch (error) {
+      console.error('Error fetching alert rules:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch alert rules' });
+    }
+  });
+
+  app.post('/api/admin/alert-rules', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const input = alertRuleSchema.parse(req.body);
+      const rule = await alertManager.createRule(input, actor(req));
+      res.status(201).json({ success: true, rule: publicRule(rule) });
+    } catch (error) {
+      if (sendRuleError(res, error)) return;
+      console.error('Error creating alert rule:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to create alert rule' });
+    }
+  });
+
+  // Evaluates a draft expression against current metrics without saving or firing
+  app.post('/api/admin/alert-rules/test', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { expression } = testExpressionSchema.parse(req.body);
+      res.json({ success: true, result: await alertManager.testExpression(expression) });
+    } catch (error) {
+      if (sendRuleError(res, error)) return;
+      console.error('Error testing alert expression:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to test alert expression' });
+    }
+  });
+
+  app.put('/api/admin/alert-rules/:ruleId', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const changes = alertRuleUpdateSchema.parse(req.body);
+      const rule = await alertManager.updateRule(req.params.ruleId, changes);
+      res.json({ success: true, rule: publicRule(rule) });
+    } catch (error) {
+      if (sendRuleError(res, error)) return;
+      console.error('Error updating alert rule:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  app.delete('/api/admin/alert-rules/:ruleId', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      await alertManager.deleteRule(req.params.ruleId, actor(req));
+      res.json({ success: true });
+    } catch (error) {
+      if (sendRuleError(res, error)) return;
+      console.error('Error deleting alert rule:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  // Evaluates a saved rule against current metrics without firing it
+  app.post('/api/admin/alert-rules/:ruleId/test', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, result: await alertManager.testRule(req.params.ruleId) });
+    } catch (error) {
+      if (sendRuleError(res, error)) return;
+      console.error('Error testing alert rule:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to test alert rule' });
+    }
+  });
+}
@@ -0,0 +1,88 @@
+import type { Express } from "express";
+import { reconciliationQueue, ReconciliationError, MANUAL_SOURCE } from "../services/reconciliationQueue";
+import { isAuthenticated, csrfProtection } from "../clerkAuth";
+import { validationAuth } from "../middleware/rbac";
+import { z } from "zod";
+
+const reviewQuerySchema = z.object({
+  status: z.enum(['pending', 'resolved']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const resolveReviewSchema = z.object({
+  // Disputed field path -> the source whose value is authoritative, or 'manual' with the value to use
+  decisions: z.record(z.object({
+    source: z.string().min(1).max(50),
+    value: z.union([z.number(), z.boolean(), z.string().max(100)]).optional(),
+  })).refine(decisions => Object.values(decisions).every(d => d.source !== MANUAL_SOURCE || d.value !== undefined), {
+    message: 'Manual decisions need a value',
+  }),
+  note: z.string().trim().max(1000).optional(),
+});
+
+function actor(req: any): string {
+  return req.user?.email || req.user?.id;
+}
+
+export function registerReconciliationRoutes(app: Express) {
+  // Consensus decisions waiting on (or settled by) a reviewer, with every source's contribution
+  app.get('/api/admin/reconciliation/reviews', isAuthenticated, validationAuth.reviewValidation, async (req, res) => {
+    try {
+      const { status, limit } = reviewQuerySchema.parse(req.query);
+      res.json({ success: true, reviews: await reconciliationQueue.list(status, limit) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid review query', errors: error.errors });
+      }
+      console.error('Error fetching reconciliation reviews:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch reconciliation reviews' });
+    }
+  });
+
+  app.get('/api/admin/reconciliation/reviews/:id', isAuthenticated, validationAuth.reviewValidation, async (req, res) => {
+    try {
+      const review = await reconciliationQueue.get(Number(req.params.id));
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      res.json({ success: true, review });
+    } catch (error) {
+      console.error('Error fetching reconciliation review:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch reconciliation review' });
+    }
+  });
+
+  // Settle every disputed field; the decision is stored as evidence and the workflow resumes
+  app.post('/api/admin/reconciliation/reviews/:id/resolve', csrfProtection, isAuthenticated, validationAuth.reviewValidation, async (req: any, res) => {
+    try {
+      const { decisions, note } = resolveReviewSchema.parse(req.body ?? {});
+      const outcome = await reconciliationQueue.resolve(Number(req.params.id), {
+        decisions,
+        note,
+        reviewerId: actor(req)
+      });
+      res.json({
+        success: true,
+        review: outcome.review,
+        execution: outcome.execution && {
+          executionId: outcome.execution.executionId,
+          status: outcome.execution.status,
+          approvedPromotions: outcome.execution.approvedPromotions,
+          rejectedPromotions: outcome.execution.rejectedPromotions,
+          error: outcome.execution.error
+        },
+        resumeError: outcome.resumeError
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid review decision', errors: error.errors });
+      }
+      if (error instanceof ReconciliationError) {
+        const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'ALREADY_RESOLVED' ? 409 : 400;
+        return res.status(status).json({ error: error.message, code: error.code });
+      }
+      console.error('Error resolving reconciliation review:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to resolve reconciliation review' });
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import type { Express } from "express";
+import { recoveryPlaybooks, RecoveryPlaybookError } from "../services/recoveryPlaybooks";
+import { healthCheckSystem } from "../services/healthCheckSystem";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const auditQuerySchema = z.object({
+  playbookId: z.string().max(100).optional(),
+  component: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const runPlaybookSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+  force: z.boolean().optional(),
+});
+
+function actor(req: any): string | undefined {
+  return req.user?.email || req.user?.id;
+}
+
+export function registerRecoveryPlaybookRoutes(app: Express) {
+  // Playbooks with their policy state, plus the latest health report they act on
+  app.get('/api/admin/recovery/playbooks', isAdmin, async (req, res) => {
+    try {
+      res.json({
+        success: true,
+        playbooks: recoveryPlaybooks.list(),
+        health: healthCheckSystem.getSystemHealth() ?? null
+      });
+    } catch (error) {
+      console.error('Error fetching recovery playbooks:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch recovery playbooks' });
+    }
+  });
+
+  app.get('/api/admin/recovery/actions', isAdmin, async (req, res) => {
+    try {
+      const filters = auditQuerySchema.parse(req.query);
+      res.json({ success: true, actions: await recoveryPlaybooks.getAuditTrail(filters) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid recovery action query', errors: error.errors });
+      }
+      console.error('Error fetching recovery actions:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to fetch recovery actions' });
+    }
+  });
+
+  // Manual run; `force` skips cooldown and attempt limits but never overlaps a run in progress
+  app.post('/api/admin/recovery/playbooks/:playbookId/run', csrfProtection, isAdmin, async (req: any, res) => {
+    try {
+      const { reason, force } = runPlaybookSchema.parse(req.body ?? {});
+      const action = await recoveryPlaybooks.run(req.params.playbookId, {
+        trigger: 'manual',
+        requestedBy: actor(req),
+        reason,
+        force
+      });
+      res.status(action.result === 'success' ? 200 : 502).json({ success: action.result === 'success', action });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid playbook run', errors: error.errors });
+      }
+      if (error instanceof RecoveryPlaybookError) {
+        return res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({
+          error: error.message,
+          code: error.code,
+          retryAfterMs: error.retryAfterMs
+        });
+      }
+      console.error('Error running recovery playbook:', (error as Error).message);
+      res.status(500).json({ error: 'Failed to run recovery playbook' });
+    }
+  });
+}
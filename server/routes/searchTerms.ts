@@ -0,0 +1,92 @@
+import type { Express, Response } from "express";
+import { searchTermLifecycle, SearchTermError } from "../services/searchTermLifecycle";
+import { isAdmin, csrfProtection } from "../clerkAuth";
+import { z } from "zod";
+
+const CATEGORIES = ['restaurant_team', 'general_promo', 'sport_specific', 'food_item', 'precision_social', 'social_discovery'] as const;
+
+const searchTermBodySchema = z.object({
+  term: z.string().trim().min(3).max(200),
+  category: z.enum(CATEGORIES),
+  teamId: z.number().int().positive().nullable().optional(),
+  restaurantId: z.number().int().positive().nullable().optional(),
+});
+
+const rankingQuerySchema = z.object({
+  days: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1).max(365)).optional(),
+});
+
+const idParamsSchema = z.object({ id: z.string().regex(/^\d+$/).transform(Number) });
+
+function actor(req: any): string {
+  return req.user?.email || req.user?.id;
+}
+
+function handleError(res: Response, error: unknown, action: string, verb: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid search term', errors: error.errors });
+  }
+  if (error instanceof SearchTermError) {
+    return res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+  }
+  console.error(`Error ${action} search term:`, (error as Error).message);
+  res.status(500).json({ error: `Failed to ${verb} search term` });
+}
+
+export function registerSearchTermRoutes(app: Express) {
+  // Terms ranked by success rate, with daily trend points
+  app.get('/api/admin/search-terms', isAdmin, async (req, res) => {
+    try {
+      const { days } = rankingQuerySchema.parse(req.query);
+      res.json({ success: true, terms: await searchTermLifecycle.getRanking(days) });
+    } catch (error) {
+      handleError(res, error, 'ranking', 'rank');
+    }
+  });
+
+  app.post('/api/admin/search-terms', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const input = searchTermBodySchema.parse(req.body ?? {});
+      res.status(201).json({ success: true, term: await searchTermLifecycle.createTerm(input) });
+    } catch (error) {
+      handleError(res, error, 'creating', 'create');
+    }
+  });
+
+  // Score terms now instead of waiting for the next discovery run
+  app.post('/api/admin/search-terms/score', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, run: await searchTermLifecycle.runLifecycle() });
+    } catch (error) {
+      handleError(res, error, 'scoring', 'score');
+    }
+  });
+
+  app.post('/api/admin/search-terms/:id/pause', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { id } = idParamsSchema.parse(req.params);
+      res.json({ success: true, term: await searchTermLifecycle.pauseTerm(id, actor(req) || 'admin') });
+    } catch (error) {
+      handleError(res, error, 'pausing', 'pause');
+    }
+  });
+
+  app.post('/api/admin/search-terms/:id/resume', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { id } = idParamsSchema.parse(req.params);
+      res.json({ success: true, term: await searchTermLifecycle.resumeTerm(id) });
+    } catch (error) {
+      handleError(res, error, 'resuming', 'resume');
+    }
+  });
+
+  app.put('/api/admin/search-terms/:id/auto-pause', csrfProtection, isAdmin, async (req, res) => {
+    try {
+      const { id } = idParamsSchema.parse(req.params);
+      const { autoPause } = z.object({ autoPause: z.boolean() }).parse(req.body ?? {});
+      res.json({ success: true, term: await searchTermLifecycle.setAutoPause(id, autoPause) });
+    } catch (error) {
+      handleError(res, error, 'updating', 'update');
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import type { Express } from "express";
+import { statusPageService } from "../services/statusPage";
+
+export function registerStatusRoutes(app: Express) {
+  // Public, unauthenticated and embeddable from other origins; the payload is already redacted
+  app.get('/api/status', async (req, res) => {
+    try {
+      const status = await statusPageService.getStatus();
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Cache-Control', 'public, max-age=30');
+      res.json(status);
+    } catch (error) {
+      console.error('Error building public status:', (error as Error).message);
+      res.status(503).json({ error: 'Status is temporarily unavailable' });
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../clerkAuth";
+import { dealStream, formatServerSentEvent } from "../services/dealStream";
+
+// Comment lines keep proxies from closing idle connections between game events
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 5000;
+
+export function registerStreamRoutes(app: Express) {
+  // Live deal triggers, score changes and expiry warnings for the user's followed teams
+  app.get('/api/stream/deals', isAuthenticated, async (req: any, res) => {
+    let teamIds: number[];
+    try {
+      const preferences = await storage.getUserAlertPreferences(req.user.id);
+      teamIds = Array.from(new Set(
+        preferences
+          .filter(p => p.isActive !== false && p.teamId !== null)
+          .map(p => p.teamId as number)
+      ));
+    } catch (error) {
+      console.error('Error loading deal stream preferences:', (error as Error).message);
+      return res.status(500).json({ message: 'Failed to open deal stream' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    // EventSource sends Last-Event-ID on reconnect; the query param covers manual reconnects
+    const lastEventId = req.get('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+    const subscription = dealStream.subscribe(teamIds, event => {
+      res.write(formatServerSentEvent(event));
+    }, lastEventId);
+
+    res.write(formatServerSentEvent({ type: 'ready', data: { teamIds } }));
+    if (subscription.reset) {
+      res.write(formatServerSentEvent({ type: 'reset', data: {} }));
+    }
+    for (const event of subscription.replay) {
+      res.write(formatServerSentEvent(event));
+    }
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    });
+  });
+}
@@ -1,6 +1,7 @@
 import { db } from "./supabaseDb";
 import { teams, restaurants, promotions, leagues } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { compileTriggerCondition } from "./services/triggers";
 
 export async function seedMLBData() {
   console.log("Seeding MLB teams and promotions...");
@@ -107,7 +108,7 @@ export async function seedMLBData() {
         title: "Free Big Mac on Dodgers Home Win",
         description: "Get a free Big Mac when the Dodgers win at home and score 6+ runs",
         offerValue: "Free Big Mac",
-        triggerCondition: "home win and 6+ runs scored",
+        triggerCondition: "home AND win AND runs >= 6",
         redemptionInstructions: "Show this offer in the McDonald's app within 24 hours of the game ending",
         promoCode: null,
         validUntil: new Date("2025-10-31"), // End of season
@@ -120,7 +121,7 @@ export async function seedMLBData() {
         title: "Free Coffee on Dodgers Win",
         description: "Get a free medium coffee when the Dodgers win any home game",
         offerValue: "Free Medium Coffee",
-        triggerCondition: "home win",
+        triggerCondition: "home AND win",
         redemptionInstructions: "Show this notification at any ampm location. Valid until midnight the day after the game.",
         promoCode: "DODGERS2025",
         validUntil: new Date("2025-10-31"),
@@ -133,7 +134,7 @@ export async function seedMLBData() {
         title: "Free Curly Fries on 7+ Strikeouts",
         description: "Get free curly fries when Dodgers pitchers record 7+ strikeouts in a home game",
         offerValue: "Free Curly Fries",
-        triggerCondition: "home game and 7+ strikeouts",
+        triggerCondition: "home AND pitching.strikeouts >= 7",
         redemptionInstructions: "Use the Jack in the Box app with code STRIKEOUT. Valid next day only.",
         promoCode: "STRIKEOUT",
         validUntil: new Date("2025-10-31"),
@@ -143,7 +144,10 @@ export async function seedMLBData() {
     ];
 
     for (const promotion of promotions_data) {
-      await db.insert(promotions).values(promotion)
+      await db.insert(promotions).values({
+        ...promotion,
+        triggerConditions: compileTriggerCondition(promotion.triggerCondition)
+      })
         .onConflictDoNothing();
     }
 
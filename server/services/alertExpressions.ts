@@ -0,0 +1,142 @@
+/**
+ * Alert Rule Expressions
+ *
+ * Parses metric expressions for user-defined alert rules such as:
+ *   validationLatency.p95 > 2000 for 5m
+ *   errorRates.api >= 0.05
+ *   apiLatency.mlb.errorRate > 0.1 for 30s
+ *   health.summary.unhealthyCount > 0 for 2m
+ *
+ * Paths are read from PerformanceMonitor.getPerformanceMetrics(), or from
+ * HealthCheckSystem.getSystemHealth() when prefixed with `health.`. The
+ * optional `for` clause is how long the condition must hold continuously
+ * before the rule fires. Anything the grammar does not understand throws an
+ * AlertExpressionError.
+ *
+ * Grammar:
+ *   expression := path op number [ 'for' duration ]
+ *   path       := segment ( '.' segment )*
+ *   op         := '>' | '>=' | '<' | '<=' | '==' | '!='
+ *   duration   := integer ( 's' | 'm' | 'h' )
+ */
+
+export type ComparisonOperator =
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'equals'
+  | 'not_equals';
+
+export type MetricSource = 'performance' | 'health';
+
+export interface AlertExpression {
+  source: MetricSource;
+  path: string[];
+  operator: ComparisonOperator;
+  threshold: number;
+  forDurationMs: number;
+}
+
+export class AlertExpressionError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(`${message} in "${expression}"`);
+    this.name = 'AlertExpressionError';
+  }
+}
+
+const OPERATORS: Record<string, ComparisonOperator> = {
+  '>': 'greater_than',
+  '>=': 'greater_than_or_equal',
+  '<': 'less_than',
+  '<=': 'less_than_or_equal',
+  '==': 'equals',
+  '!=': 'not_equals'
+};
+
+// Top-level keys of PerformanceMetrics; catches typos at save time rather than as a silent never-firing rule
+const PERFORMANCE_ROOTS = ['validationLatency', 'apiLatency', 'throughput', 'errorRates', 'resources'];
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60000, h: 3600000 };
+
+const EXPRESSION_PATTERN = /^([A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)(?:\s+for\s+(\d+)\s*([smh]))?$/i;
+
+export function parseAlertExpression(expression: string): AlertExpression {
+  const source = expression.trim();
+  const match = EXPRESSION_PATTERN.exec(source);
+  if (!match) {
+    throw new AlertExpressionError('Expected "<metric path> <op> <number> [for <n>s|m|h]"', source);
+  }
+
+  const [, rawPath, symbol, threshold, duration, unit] = match;
+  let segments = rawPath.split('.');
+  let metricSource: MetricSource = 'performance';
+
+  if (segments[0] === 'health') {
+    metricSource = 'health';
+    segments = segments.slice(1);
+  } else if (segments[0] === 'performance') {
+    segments = segments.slice(1);
+  }
+
+  if (segments.length === 0) {
+    throw new AlertExpressionError('Metric path is empty', source);
+  }
+  if (metricSource === 'performance' && !PERFORMANCE_ROOTS.includes(segments[0])) {
+    throw new AlertExpressionError(
+      `Unknown metric "${segments[0]}", expected one of ${PERFORMANCE_ROOTS.join(', ')} or health.*`,
+      source
+    );
+  }
+
+  const forDurationMs = duration ? Number(duration) * DURATION_UNITS_MS[unit.toLowerCase()] : 0;
+
+  return {
+    source: metricSource,
+    path: segments,
+    operator: OPERATORS[symbol],
+    threshold: Number(threshold),
+    forDurationMs
+  };
+}
+
+/**
+ * Dotted metric name for display and storage, e.g. "health.summary.unhealthyCount"
+ */
+export function metricName(expression: AlertExpression): string {
+  return (expression.source === 'health' ? ['health', ...expression.path] : expression.path).join('.');
+}
+
+/**
+ * Read the expression's metric, or undefined when the path is missing or not a number
+ */
+export function resolveMetric(
+  expression: AlertExpression,
+  sources: { performance?: unknown; health?: unknown }
+): number | undefined {
+  let value: unknown = sources[expression.source];
+  for (const segment of expression.path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+export function compare(operator: ComparisonOperator, value: number, threshold: number): boolean {
+  switch (operator) {
+    case 'greater_than':
+      return value > threshold;
+    case 'greater_than_or_equal':
+      return value >= threshold;
+    case 'less_than':
+      return value < threshold;
+    case 'less_than_or_equal':
+      return value <= threshold;
+    case 'equals':
+      return value === threshold;
+    case 'not_equals':
+      return value !== threshold;
+    default:
+      return false;
+  }
+}
@@ -8,9 +8,20 @@
  * - Performance degradation notifications to ops channel
  */
 
+import crypto from 'crypto';
 import { performanceMonitor, type PerformanceAlert } from './performanceMonitor.js';
 import { healthCheckSystem } from './healthCheckSystem.js';
 import { putImmutable } from './evidence/storage.js';
+import { emailService, type OpsAlertEmail } from './emailService.js';
+import { storage, type IStorage, type OpsAlertFilters } from '../storage.js';
+import type { OpsAlert, InsertOpsAlert, OpsAlertRule } from '@shared/schema';
+import {
+  parseAlertExpression,
+  resolveMetric,
+  compare,
+  metricName,
+  type ComparisonOperator
+} from './alertExpressions.js';
 
 export interface AlertRule {
   ruleId: string;
@@ -18,13 +29,44 @@ export interface AlertRule {
   description: string;
   type: 'latency' | 'error_rate' | 'evidence_integrity' | 'health' | 'custom';
   metric: string;
-  operator: 'greater_than' | 'less_than' | 'equals' | 'not_equals';
+  operator: ComparisonOperator;
   threshold: number;
   windowDurationMs: number;
   minimumOccurrences?: number;
   severity: 'info' | 'warning' | 'critical';
   enabled: boolean;
   channels: AlertChannel[];
+  // User-defined rules are evaluated from a metric expression and persisted
+  expression?: string;
+  // How long the condition must hold continuously before firing
+  forDurationMs?: number;
+}
+
+export interface AlertRuleInput {
+  ruleId?: string;
+  name: string;
+  description?: string;
+  expression: string;
+  severity: AlertRule['severity'];
+  enabled?: boolean;
+  channels?: AlertChannel['type'][];
+}
+
+/**
+ * Result of evaluating a rule against current metrics without firing it
+ */
+export interface AlertRuleTestResult {
+  ruleId?: string;
+  expression?: string;
+  metric: string;
+  currentValue: number | null;
+  operator: ComparisonOperator;
+  threshold: number;
+  conditionMet: boolean;
+  forDurationMs: number;
+  heldForMs: number;
+  wouldFire: boolean;
+  description?: string;
 }
 
 export interface AlertChannel {
@@ -46,10 +88,80 @@ export interface Alert {
   firstFired: string;
   lastFired: string;
   resolvedAt?: string;
+  resolutionReason?: string;
+  resolvedBy?: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  snoozedUntil?: string;
   occurrenceCount: number;
   description: string;
   evidence: string[];
   channels: AlertChannel[];
+  deliveries: AlertDeliveryStatus[];
+}
+
+/**
+ * Rule-level silence: the rule keeps firing and recording alerts, but nothing is notified
+ */
+export interface AlertSilence {
+  ruleId: string;
+  silencedUntil: string;
+  reason?: string;
+  createdBy?: string;
+}
+
+export interface AlertDeliveryStatus {
+  channel: AlertChannel['type'];
+  status: 'delivered' | 'failed';
+  attempts: number;
+  lastAttemptAt: string;
+  error?: string;
+}
+
+export interface AlertDeliveryRetryConfig {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Persistence and delivery dependencies, injectable for tests
+ */
+export interface AlertManagerDeps {
+  store: Pick<
+    IStorage,
+    | 'upsertOpsAlert'
+    | 'getOpsAlerts'
+    | 'deleteResolvedOpsAlertsBefore'
+    | 'getActiveOpsAlertSilences'
+    | 'upsertOpsAlertSilence'
+    | 'deleteOpsAlertSilence'
+    | 'getOpsAlertRules'
+    | 'upsertOpsAlertRule'
+    | 'deleteOpsAlertRule'
+  >;
+  email: { sendOpsAlert(to: string, alert: OpsAlertEmail): Promise<void> };
+  fetch: typeof fetch;
+  sleep: (ms: number) => Promise<void>;
+}
+
+/**
+ * Delivery failure; non-retryable failures (bad config, 4xx) skip the remaining attempts
+ */
+export class AlertDeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+  }
+}
+
+export type AlertRuleErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'BUILT_IN';
+
+export class AlertRuleError extends Error {
+  constructor(message: string, public readonly code: AlertRuleErrorCode) {
+    super(message);
+    this.name = 'AlertRuleError';
+  }
 }
 
 export interface AlertManagerConfig {
@@ -59,6 +171,8 @@ export interface AlertManagerConfig {
   maxActiveAlerts: number;
   alertRetentionDays: number;
   defaultChannels: AlertChannel[];
+  deliveryRetry: AlertDeliveryRetryConfig;
+  webhookTimeoutMs: number;
 }
 
 export interface AlertManagerMetrics {
@@ -71,32 +185,71 @@ export interface AlertManagerMetrics {
   channelFailures: number;
 }
 
+/**
+ * Console always; email, Slack and webhook when their env vars are set.
+ * Every alert is persisted regardless of channels.
+ */
+function defaultAlertChannels(): AlertChannel[] {
+  const channels: AlertChannel[] = [
+    { type: 'console', config: { logLevel: 'warn' }, enabled: true }
+  ];
+
+  if (process.env.OPS_ALERT_EMAIL) {
+    channels.push({ type: 'email', config: {}, enabled: true });
+  }
+  if (process.env.SLACK_WEBHOOK_URL) {
+    channels.push({ type: 'slack', config: {}, enabled: true });
+  }
+  if (process.env.ALERT_WEBHOOK_URL) {
+    channels.push({ type: 'webhook', config: {}, enabled: true });
+  }
+
+  return channels;
+}
+
+function slugifyRuleId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80);
+  return `custom_${slug || Date.now()}`;
+}
+
 export class AlertManager {
   private config: AlertManagerConfig;
   private alertRules: Map<string, AlertRule> = new Map();
   private activeAlerts: Map<string, Alert> = new Map();
   private alertHistory: Alert[] = [];
+  private silences: Map<string, AlertSilence> = new Map();
+  // When each rule's condition started holding, for rules with a `for` duration
+  private pendingSince: Map<string, number> = new Map();
   private metrics: AlertManagerMetrics;
   private isRunning = false;
   private evaluationTimer?: NodeJS.Timeout;
+  private deps: AlertManagerDeps;
 
-  constructor(config: Partial<AlertManagerConfig> = {}) {
+  constructor(config: Partial<AlertManagerConfig> = {}, deps: Partial<AlertManagerDeps> = {}) {
     this.config = {
       enableAlerting: true,
       evaluationIntervalMs: 30000, // 30 seconds
       suppressionTimeMs: 300000, // 5 minutes
       maxActiveAlerts: 100,
       alertRetentionDays: 7,
-      defaultChannels: [
-        {
-          type: 'console',
-          config: { logLevel: 'warn' },
-          enabled: true
-        }
-      ],
+      defaultChannels: defaultAlertChannels(),
+      deliveryRetry: {
+        maxAttempts: 3,
+        initialDelayMs: 1000,
+        maxDelayMs: 30000
+      },
+      webhookTimeoutMs: 10000,
       ...config
     };
 
+    this.deps = {
+      store: storage,
+      email: emailService,
+      fetch: (...args) => fetch(...args),
+      sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+      ...deps
+    };
+
     this.metrics = {
       totalAlertsGenerated: 0,
       activeAlerts: 0,
@@ -124,6 +277,9 @@ export class AlertManager {
     try {
       this.isRunning = true;
 
+      // Pick up alerts still open and silences from before the restart
+      await this.restore();
+
       // Start periodic rule evaluation
       this.evaluationTimer = setInterval(() => {
         this.evaluateAlertRules().catch(error => {
@@ -169,13 +325,15 @@ export class AlertManager {
     metrics: AlertManagerMetrics;
     rulesCount: number;
     activeAlertsCount: number;
+    silencesCount: number;
   } {
     return {
       isRunning: this.isRunning,
       config: { ...this.config },
       metrics: { ...this.metrics },
       rulesCount: this.alertRules.size,
-      activeAlertsCount: this.activeAlerts.size
+      activeAlertsCount: this.activeAlerts.size,
+      silencesCount: this.getSilences().length
     };
   }
 
@@ -192,6 +350,7 @@ export class AlertManager {
    */
   removeAlertRule(ruleId: string): boolean {
     const removed = this.alertRules.delete(ruleId);
+    this.pendingSince.delete(ruleId);
     if (removed) {
       console.log(`📋 Alert rule removed: ${ruleId}`);
     }
@@ -205,6 +364,107 @@ export class AlertManager {
     return Array.from(this.alertRules.values());
   }
 
+  /**
+   * Create and persist a user-defined rule from a metric expression
+   */
+  async createRule(input: AlertRuleInput, createdBy?: string): Promise<AlertRule> {
+    const ruleId = input.ruleId || slugifyRuleId(input.name);
+    if (this.alertRules.has(ruleId)) {
+      throw new AlertRuleError(`Alert rule ${ruleId} already exists`, 'CONFLICT');
+    }
+
+    const expression = input.expression.trim();
+    parseAlertExpression(expression);
+
+    const row = await this.deps.store.upsertOpsAlertRule({
+      ruleId,
+      name: input.name,
+      description: input.description ?? null,
+      expression,
+      severity: input.severity,
+      enabled: input.enabled ?? true,
+      channels: input.channels ?? [],
+      createdBy: createdBy ?? null
+    });
+
+    const rule = this.fromOpsAlertRuleRow(row);
+    this.addAlertRule(rule);
+    return rule;
+  }
+
+  /**
+   * Update a user-defined rule; built-in rules cannot be changed
+   */
+  async updateRule(ruleId: string, changes: Partial<Omit<AlertRuleInput, 'ruleId'>>): Promise<AlertRule> {
+    const existing = this.getUserRule(ruleId);
+
+    const expression = changes.expression?.trim() ?? existing.expression!;
+    parseAlertExpression(expression);
+
+    const row = await this.deps.store.upsertOpsAlertRule({
+      ruleId,
+      name: changes.name ?? existing.name,
+      description: changes.description ?? existing.description,
+      expression,
+      severity: changes.severity ?? existing.severity,
+      enabled: changes.enabled ?? existing.enabled,
+      channels: changes.channels ?? existing.channels.map(channel => channel.type)
+    });
+
+    const rule = this.fromOpsAlertRuleRow(row);
+    this.alertRules.set(ruleId, rule);
+    this.pendingSince.delete(ruleId);
+    console.log(`📋 Alert rule updated: ${rule.name} (${rule.expression})`);
+    return rule;
+  }
+
+  /**
+   * Delete a user-defined rule and resolve anything it still has open
+   */
+  async deleteRule(ruleId: string, deletedBy?: string): Promise<void> {
+    this.getUserRule(ruleId);
+
+    await this.deps.store.deleteOpsAlertRule(ruleId);
+    this.removeAlertRule(ruleId);
+
+    for (const alert of this.getActiveAlerts().filter(alert => alert.ruleId === ruleId)) {
+      await this.resolveAlert(alert.alertId, 'Rule deleted', deletedBy);
+    }
+  }
+
+  /**
+   * Evaluate a rule against current metrics without firing or changing its pending state
+   */
+  async testRule(ruleId: string): Promise<AlertRuleTestResult> {
+    const rule = this.alertRules.get(ruleId);
+    if (!rule) {
+      throw new AlertRuleError(`Alert rule ${ruleId} not found`, 'NOT_FOUND');
+    }
+    return this.testAgainstCurrentMetrics(rule);
+  }
+
+  /**
+   * Evaluate a draft expression against current metrics, e.g. before saving a rule
+   */
+  async testExpression(expression: string): Promise<AlertRuleTestResult> {
+    const parsed = parseAlertExpression(expression);
+    return this.testAgainstCurrentMetrics({
+      ruleId: '',
+      name: 'Draft rule',
+      description: '',
+      type: 'custom',
+      metric: metricName(parsed),
+      operator: parsed.operator,
+      threshold: parsed.threshold,
+      windowDurationMs: parsed.forDurationMs,
+      forDurationMs: parsed.forDurationMs,
+      severity: 'info',
+      enabled: true,
+      channels: [],
+      expression: expression.trim()
+    });
+  }
+
   /**
    * Get active alerts
    */
@@ -219,6 +479,20 @@ export class AlertManager {
     return this.alertHistory.slice(-limit);
   }
 
+  /**
+   * Query persisted alerts, including those from before the last restart
+   */
+  async queryAlerts(filters: OpsAlertFilters = {}): Promise<OpsAlert[]> {
+    return this.deps.store.getOpsAlerts(filters);
+  }
+
+  /**
+   * Get rule silences that have not yet expired
+   */
+  getSilences(now = new Date()): AlertSilence[] {
+    return Array.from(this.silences.values()).filter(silence => new Date(silence.silencedUntil) > now);
+  }
+
   /**
    * Manually trigger alert evaluation
    */
@@ -263,7 +537,8 @@ export class AlertManager {
       occurrenceCount: 1,
       description,
       evidence: [],
-      channels: rule.channels.length > 0 ? rule.channels : this.config.defaultChannels
+      channels: rule.channels.length > 0 ? rule.channels : this.config.defaultChannels,
+      deliveries: []
     };
 
     this.activeAlerts.set(alertId, alert);
@@ -271,8 +546,9 @@ export class AlertManager {
     this.metrics.totalAlertsGenerated++;
     this.metrics.activeAlerts++;
 
-    await this.deliverAlert(alert);
     await this.storeAlertEvidence(alert);
+    await this.notify(alert);
+    await this.persistAlert(alert);
 
     console.log(`🚨 Alert fired: ${alert.ruleName} (${alert.severity})`);
 
@@ -282,7 +558,7 @@ export class AlertManager {
   /**
    * Resolve an alert
    */
-  async resolveAlert(alertId: string, reason = 'Manual resolution'): Promise<boolean> {
+  async resolveAlert(alertId: string, reason = 'Manual resolution', resolvedBy?: string): Promise<boolean> {
     const alert = this.activeAlerts.get(alertId);
     if (!alert) {
       return false;
@@ -290,18 +566,90 @@ export class AlertManager {
 
     alert.status = 'resolved';
     alert.resolvedAt = new Date().toISOString();
+    alert.resolutionReason = reason;
+    alert.resolvedBy = resolvedBy;
 
     this.activeAlerts.delete(alertId);
     this.metrics.activeAlerts--;
     this.metrics.resolvedAlerts++;
 
     await this.storeAlertEvidence(alert);
+    await this.persistAlert(alert);
 
     console.log(`✅ Alert resolved: ${alert.ruleName} - ${reason}`);
 
     return true;
   }
 
+  /**
+   * Acknowledge an active alert; it stays open but is no longer re-notified
+   */
+  async acknowledgeAlert(alertId: string, acknowledgedBy?: string): Promise<Alert | undefined> {
+    const alert = this.activeAlerts.get(alertId);
+    if (!alert) {
+      return undefined;
+    }
+
+    alert.acknowledgedAt = new Date().toISOString();
+    alert.acknowledgedBy = acknowledgedBy;
+    await this.persistAlert(alert);
+
+    console.log(`👀 Alert acknowledged: ${alert.ruleName}${acknowledgedBy ? ` by ${acknowledgedBy}` : ''}`);
+
+    return alert;
+  }
+
+  /**
+   * Hold back re-notifications for an active alert until `until`
+   */
+  async snoozeAlert(alertId: string, until: Date): Promise<Alert | undefined> {
+    const alert = this.activeAlerts.get(alertId);
+    if (!alert) {
+      return undefined;
+    }
+
+    alert.snoozedUntil = until.toISOString();
+    await this.persistAlert(alert);
+
+    console.log(`😴 Alert snoozed: ${alert.ruleName} until ${alert.snoozedUntil}`);
+
+    return alert;
+  }
+
+  /**
+   * Silence every alert from a rule until `until`
+   */
+  async silenceRule(ruleId: string, until: Date, reason?: string, createdBy?: string): Promise<AlertSilence> {
+    if (!this.alertRules.has(ruleId)) {
+      throw new Error(`Alert rule ${ruleId} not found`);
+    }
+
+    const silence: AlertSilence = { ruleId, silencedUntil: until.toISOString(), reason, createdBy };
+    await this.deps.store.upsertOpsAlertSilence({
+      ruleId,
+      silencedUntil: until,
+      reason: reason ?? null,
+      createdBy: createdBy ?? null
+    });
+    this.silences.set(ruleId, silence);
+
+    console.log(`🔇 Alert rule silenced: ${ruleId} until ${silence.silencedUntil}`);
+
+    return silence;
+  }
+
+  /**
+   * Lift a rule silence
+   */
+  async unsilenceRule(ruleId: string): Promise<boolean> {
+    const removed = await this.deps.store.deleteOpsAlertSilence(ruleId);
+    this.silences.delete(ruleId);
+    if (removed) {
+      console.log(`🔔 Alert rule unsilenced: ${ruleId}`);
+    }
+    return removed;
+  }
+
   /**
    * Initialize default alert rules
    */
@@ -417,9 +765,14 @@ export class AlertManager {
         const shouldFire = await this.evaluateRule(rule, performanceMetrics, systemHealth);
         
         if (shouldFire.fire) {
+          // Rules with a `for` duration stay pending until the condition has held long enough
+          if (this.heldForMs(rule, true) < (rule.forDurationMs ?? 0)) {
+            continue;
+          }
+
           const existingAlert = this.findActiveAlert(rule.ruleId);
           
-          if (!existingAlert || this.shouldUpdateAlert(existingAlert)) {
+          if (!existingAlert) {
             await this.fireAlert(
               rule.ruleId,
               rule.metric,
@@ -427,8 +780,17 @@ export class AlertManager {
               shouldFire.description || rule.description
             );
             firedAlerts++;
+          } else if (this.shouldUpdateAlert(existingAlert)) {
+            await this.refireAlert(
+              existingAlert,
+              shouldFire.currentValue || 0,
+              shouldFire.description || rule.description
+            );
+            firedAlerts++;
           }
         } else {
+          this.heldForMs(rule, false);
+
           // Check if we should resolve existing alerts
           const existingAlert = this.findActiveAlert(rule.ruleId);
           if (existingAlert && existingAlert.status === 'firing') {
@@ -439,7 +801,7 @@ export class AlertManager {
       }
 
       // Cleanup old alerts
-      this.cleanupOldAlerts();
+      await this.cleanupOldAlerts();
 
     } catch (error) {
       console.error('Error evaluating alert rules:', error);
@@ -459,6 +821,20 @@ export class AlertManager {
     let currentValue: number;
     let description: string;
 
+    if (rule.expression) {
+      const expression = parseAlertExpression(rule.expression);
+      const value = resolveMetric(expression, { performance: performanceMetrics, health: systemHealth });
+      // A missing metric (e.g. no health check has run yet) never fires
+      if (value === undefined) {
+        return { fire: false };
+      }
+      return {
+        fire: compare(expression.operator, value, expression.threshold),
+        currentValue: value,
+        description: `${rule.name}: ${metricName(expression)} = ${value} (${rule.expression})`
+      };
+    }
+
     switch (rule.metric) {
       case 'validation_latency_p95':
         currentValue = performanceMetrics?.validationLatency?.p95 || 0;
@@ -476,6 +852,10 @@ export class AlertManager {
         break;
 
       case 'system_health_ratio':
+        // No health check has run yet; an empty summary is not an outage
+        if (!systemHealth?.summary) {
+          return { fire: false };
+        }
         const healthyCount = systemHealth?.summary?.healthyCount || 0;
         const totalCount = systemHealth?.summary?.totalComponents || 1;
         currentValue = healthyCount / totalCount;
@@ -504,18 +884,22 @@ export class AlertManager {
    * Evaluate threshold condition
    */
   private evaluateThreshold(rule: AlertRule, currentValue: number): boolean {
-    switch (rule.operator) {
-      case 'greater_than':
-        return currentValue > rule.threshold;
-      case 'less_than':
-        return currentValue < rule.threshold;
-      case 'equals':
-        return currentValue === rule.threshold;
-      case 'not_equals':
-        return currentValue !== rule.threshold;
-      default:
-        return false;
+    return compare(rule.operator, currentValue, rule.threshold);
+  }
+
+  /**
+   * Track how long a rule's condition has held continuously; resets when it stops holding
+   */
+  private heldForMs(rule: AlertRule, conditionMet: boolean, now = Date.now()): number {
+    if (!conditionMet) {
+      this.pendingSince.delete(rule.ruleId);
+      return 0;
+    }
+
+    if (!this.pendingSince.has(rule.ruleId)) {
+      this.pendingSince.set(rule.ruleId, now);
     }
+    return now - this.pendingSince.get(rule.ruleId)!;
   }
 
   /**
@@ -533,27 +917,277 @@ export class AlertManager {
     return timeSinceLastFired > this.config.suppressionTimeMs;
   }
 
+  private async testAgainstCurrentMetrics(rule: AlertRule): Promise<AlertRuleTestResult> {
+    const performanceMetrics = await performanceMonitor.getPerformanceMetrics();
+    const systemHealth = healthCheckSystem.getSystemHealth();
+    const result = await this.evaluateRule(rule, performanceMetrics, systemHealth);
+
+    const forDurationMs = rule.forDurationMs ?? 0;
+    const pendingSince = this.pendingSince.get(rule.ruleId);
+    // Time held across scheduled evaluations; testing never starts the clock
+    const heldForMs = result.fire && pendingSince !== undefined ? Date.now() - pendingSince : 0;
+
+    return {
+      ruleId: rule.ruleId || undefined,
+      expression: rule.expression,
+      metric: rule.metric,
+      currentValue: result.currentValue ?? null,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      conditionMet: result.fire,
+      forDurationMs,
+      heldForMs,
+      wouldFire: result.fire && heldForMs >= forDurationMs,
+      description: result.description
+    };
+  }
+
+  private getUserRule(ruleId: string): AlertRule {
+    const rule = this.alertRules.get(ruleId);
+    if (!rule) {
+      throw new AlertRuleError(`Alert rule ${ruleId} not found`, 'NOT_FOUND');
+    }
+    if (!rule.expression) {
+      throw new AlertRuleError(`Alert rule ${ruleId} is built in and cannot be changed`, 'BUILT_IN');
+    }
+    return rule;
+  }
+
+  private fromOpsAlertRuleRow(row: OpsAlertRule): AlertRule {
+    const expression = parseAlertExpression(row.expression);
+    const channelTypes = (row.channels ?? []) as AlertChannel['type'][];
+
+    return {
+      ruleId: row.ruleId,
+      name: row.name,
+      description: row.description ?? row.expression,
+      type: 'custom',
+      metric: metricName(expression),
+      operator: expression.operator,
+      threshold: expression.threshold,
+      windowDurationMs: expression.forDurationMs,
+      forDurationMs: expression.forDurationMs,
+      severity: row.severity as AlertRule['severity'],
+      enabled: row.enabled ?? true,
+      // Channel settings come from the environment, as for the defaults
+      channels: channelTypes.map(type => ({ type, config: {}, enabled: true })),
+      expression: row.expression
+    };
+  }
+
   /**
-   * Deliver alert through configured channels
+   * Record a repeat of an open alert and re-notify unless it is muted
    */
-  private async deliverAlert(alert: Alert): Promise<void> {
-    for (const channel of alert.channels) {
-      if (!channel.enabled) {
-        continue;
+  private async refireAlert(alert: Alert, currentValue: number, description: string): Promise<void> {
+    alert.currentValue = currentValue;
+    alert.description = description;
+    alert.lastFired = new Date().toISOString();
+    alert.occurrenceCount++;
+
+    await this.notify(alert);
+    await this.persistAlert(alert);
+
+    console.log(`🚨 Alert still firing: ${alert.ruleName} (occurrence ${alert.occurrenceCount})`);
+  }
+
+  /**
+   * Acknowledged, snoozed and rule-silenced alerts are recorded but not delivered
+   */
+  private isMuted(alert: Alert, now = new Date()): boolean {
+    if (alert.acknowledgedAt) return true;
+    if (alert.snoozedUntil && new Date(alert.snoozedUntil) > now) return true;
+
+    const silence = this.silences.get(alert.ruleId);
+    return !!silence && new Date(silence.silencedUntil) > now;
+  }
+
+  private async notify(alert: Alert): Promise<void> {
+    if (this.isMuted(alert)) {
+      this.metrics.suppressedAlerts++;
+      return;
+    }
+    await this.deliverAlert(alert);
+  }
+
+  /**
+   * Persist the alert's current lifecycle state; failures are logged so a
+   * database outage never stops alerts from being delivered
+   */
+  private async persistAlert(alert: Alert): Promise<void> {
+    try {
+      await this.deps.store.upsertOpsAlert(this.toOpsAlertRow(alert));
+    } catch (error) {
+      console.error(`Failed to persist alert ${alert.alertId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Reload user-defined rules, open alerts, recent history and active silences from the store
+   */
+  private async restore(): Promise<void> {
+    try {
+      // Rules first so restored alerts pick up their rule's channels
+      for (const row of await this.deps.store.getOpsAlertRules()) {
+        try {
+          this.addAlertRule(this.fromOpsAlertRuleRow(row));
+        } catch (error) {
+          console.error(`Skipping stored alert rule ${row.ruleId}:`, (error as Error).message);
+        }
       }
 
+      const [open, recent, silences] = await Promise.all([
+        this.deps.store.getOpsAlerts({ status: 'firing', limit: this.config.maxActiveAlerts }),
+        this.deps.store.getOpsAlerts({ limit: 200 }),
+        this.deps.store.getActiveOpsAlertSilences()
+      ]);
+
+      for (const row of open) {
+        if (!this.activeAlerts.has(row.alertId)) {
+          this.activeAlerts.set(row.alertId, this.fromOpsAlertRow(row));
+        }
+      }
+      this.metrics.activeAlerts = this.activeAlerts.size;
+
+      const known = new Set(this.alertHistory.map(alert => alert.alertId));
+      const restored = recent
+        .filter(row => !known.has(row.alertId))
+        .map(row => this.activeAlerts.get(row.alertId) ?? this.fromOpsAlertRow(row))
+        .reverse();
+      this.alertHistory = [...restored, ...this.alertHistory];
+
+      for (const silence of silences) {
+        this.silences.set(silence.ruleId, {
+          ruleId: silence.ruleId,
+          silencedUntil: silence.silencedUntil.toISOString(),
+          reason: silence.reason ?? undefined,
+          createdBy: silence.createdBy ?? undefined
+        });
+      }
+
+      console.log(`🚨 Restored ${open.length} open alerts and ${silences.length} rule silences`);
+
+    } catch (error) {
+      console.error('Failed to restore persisted alerts:', (error as Error).message);
+    }
+  }
+
+  private toOpsAlertRow(alert: Alert): InsertOpsAlert {
+    return {
+      alertId: alert.alertId,
+      ruleId: alert.ruleId,
+      ruleName: alert.ruleName,
+      type: alert.type,
+      severity: alert.severity,
+      status: alert.status,
+      metric: alert.metric,
+      currentValue: alert.currentValue,
+      threshold: alert.threshold,
+      description: alert.description,
+      occurrenceCount: alert.occurrenceCount,
+      evidence: alert.evidence,
+      deliveries: alert.deliveries,
+      firstFiredAt: new Date(alert.firstFired),
+      lastFiredAt: new Date(alert.lastFired),
+      resolvedAt: alert.resolvedAt ? new Date(alert.resolvedAt) : null,
+      resolutionReason: alert.resolutionReason ?? null,
+      resolvedBy: alert.resolvedBy ?? null,
+      acknowledgedAt: alert.acknowledgedAt ? new Date(alert.acknowledgedAt) : null,
+      acknowledgedBy: alert.acknowledgedBy ?? null,
+      snoozedUntil: alert.snoozedUntil ? new Date(alert.snoozedUntil) : null
+    };
+  }
+
+  private fromOpsAlertRow(row: OpsAlert): Alert {
+    const rule = this.alertRules.get(row.ruleId);
+
+    return {
+      alertId: row.alertId,
+      ruleId: row.ruleId,
+      ruleName: row.ruleName,
+      type: row.type,
+      severity: row.severity as Alert['severity'],
+      metric: row.metric,
+      currentValue: row.currentValue ?? 0,
+      threshold: row.threshold ?? 0,
+      status: row.status as Alert['status'],
+      firstFired: row.firstFiredAt.toISOString(),
+      lastFired: row.lastFiredAt.toISOString(),
+      resolvedAt: row.resolvedAt?.toISOString(),
+      resolutionReason: row.resolutionReason ?? undefined,
+      resolvedBy: row.resolvedBy ?? undefined,
+      acknowledgedAt: row.acknowledgedAt?.toISOString(),
+      acknowledgedBy: row.acknowledgedBy ?? undefined,
+      snoozedUntil: row.snoozedUntil?.toISOString(),
+      occurrenceCount: row.occurrenceCount ?? 1,
+      description: row.description ?? '',
+      evidence: row.evidence ?? [],
+      channels: rule && rule.channels.length > 0 ? rule.channels : this.config.defaultChannels,
+      deliveries: (row.deliveries ?? []) as AlertDeliveryStatus[]
+    };
+  }
+
+  /**
+   * Deliver alert through configured channels. The database channel goes
+   * last so the persisted record carries every other channel's outcome.
+   */
+  private async deliverAlert(alert: Alert): Promise<void> {
+    const channels = alert.channels
+      .filter(channel => channel.enabled)
+      .sort((a, b) => Number(a.type === 'database') - Number(b.type === 'database'));
+
+    for (const channel of channels) {
+      await this.deliverWithRetry(alert, channel);
+    }
+  }
+
+  /**
+   * Deliver to one channel with exponential backoff and record the outcome on the alert
+   */
+  private async deliverWithRetry(alert: Alert, channel: AlertChannel): Promise<AlertDeliveryStatus> {
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.config.deliveryRetry;
+    let attempts = 0;
+    let lastError: Error | undefined;
+
+    while (attempts < maxAttempts) {
+      attempts++;
       try {
         await this.deliverToChannel(alert, channel);
-        this.metrics.channelDeliveries++;
+        lastError = undefined;
+        break;
       } catch (error) {
-        console.error(`Failed to deliver alert ${alert.alertId} to ${channel.type}:`, error);
-        this.metrics.channelFailures++;
+        lastError = error as Error;
+        if (error instanceof AlertDeliveryError && !error.retryable) {
+          break;
+        }
+        if (attempts < maxAttempts) {
+          await this.deps.sleep(Math.min(initialDelayMs * 2 ** (attempts - 1), maxDelayMs));
+        }
       }
     }
+
+    const status: AlertDeliveryStatus = {
+      channel: channel.type,
+      status: lastError ? 'failed' : 'delivered',
+      attempts,
+      lastAttemptAt: new Date().toISOString(),
+      ...(lastError && { error: lastError.message })
+    };
+
+    // One status per channel type, replaced on redelivery
+    alert.deliveries = [...alert.deliveries.filter(d => d.channel !== channel.type), status];
+
+    if (lastError) {
+      console.error(`Failed to deliver alert ${alert.alertId} to ${channel.type} after ${attempts} attempts:`, lastError.message);
+      this.metrics.channelFailures++;
+    } else {
+      this.metrics.channelDeliveries++;
+    }
+
+    return status;
   }
 
   /**
-   * Deliver alert to specific channel
+   * Deliver alert to specific channel; throws on failure
    */
   private async deliverToChannel(alert: Alert, channel: AlertChannel): Promise<void> {
     switch (channel.type) {
@@ -562,28 +1196,123 @@ export class AlertManager {
         break;
 
       case 'email':
-        // Would integrate with email service
-        console.log(`📧 EMAIL ALERT: ${alert.ruleName} - ${alert.description}`);
+        await this.deliverToEmail(alert, channel);
         break;
 
-      case 'slack':
-        // Would integrate with Slack API
-        console.log(`💬 SLACK ALERT: ${alert.ruleName} - ${alert.description}`);
+      case 'slack': {
+        const url = channel.config.webhookUrl || process.env.SLACK_WEBHOOK_URL;
+        await this.postWebhook(url, this.buildWebhookPayload(alert), channel.config.secret);
         break;
+      }
 
-      case 'webhook':
-        // Would make HTTP POST to webhook URL
-        console.log(`🔗 WEBHOOK ALERT: ${alert.ruleName} - ${alert.description}`);
+      case 'webhook': {
+        const url = channel.config.url || process.env.ALERT_WEBHOOK_URL;
+        const secret = channel.config.secret || process.env.ALERT_WEBHOOK_SECRET;
+        await this.postWebhook(url, this.buildWebhookPayload(alert), secret);
         break;
+      }
 
       case 'database':
-        // Store alert in database for dashboard
-        console.log(`💾 DATABASE ALERT: ${alert.ruleName} - ${alert.description}`);
+        await this.deliverToDatabase(alert);
         break;
 
       default:
-        console.log(`❓ UNKNOWN CHANNEL: ${channel.type}`);
+        throw new AlertDeliveryError(`Unknown alert channel: ${channel.type}`, false);
+    }
+  }
+
+  private async deliverToEmail(alert: Alert, channel: AlertChannel): Promise<void> {
+    const configured = channel.config.to || process.env.OPS_ALERT_EMAIL;
+    const recipients: string[] = (Array.isArray(configured) ? configured : String(configured || '').split(','))
+      .map((address: string) => address.trim())
+      .filter(Boolean);
+
+    if (recipients.length === 0) {
+      throw new AlertDeliveryError('No recipients configured for email alerts (set config.to or OPS_ALERT_EMAIL)', false);
+    }
+
+    for (const to of recipients) {
+      await this.deps.email.sendOpsAlert(to, alert);
+    }
+  }
+
+  /**
+   * Slack-compatible payload (text + attachments); the raw alert rides along
+   * for webhook consumers that want structured fields
+   */
+  private buildWebhookPayload(alert: Alert): Record<string, unknown> {
+    const emoji = alert.status === 'resolved' ? '✅' : alert.severity === 'critical' ? '🔥' : alert.severity === 'warning' ? '⚠️' : 'ℹ️';
+    const color = alert.status === 'resolved' ? 'good' : alert.severity === 'critical' ? 'danger' : alert.severity === 'warning' ? 'warning' : '#439FE0';
+
+    return {
+      text: `${emoji} [${alert.severity.toUpperCase()}] ${alert.status === 'resolved' ? 'Resolved: ' : ''}${alert.ruleName}`,
+      attachments: [
+        {
+          color,
+          title: alert.ruleName,
+          text: alert.description,
+          fields: [
+            { title: 'Status', value: alert.status, short: true },
+            { title: 'Metric', value: alert.metric, short: true },
+            { title: 'Current', value: String(alert.currentValue), short: true },
+            { title: 'Threshold', value: String(alert.threshold), short: true }
+          ],
+          footer: `Alert ${alert.alertId}`,
+          ts: Math.floor(new Date(alert.lastFired).getTime() / 1000)
+        }
+      ],
+      alert: {
+        alertId: alert.alertId,
+        ruleId: alert.ruleId,
+        type: alert.type,
+        severity: alert.severity,
+        status: alert.status,
+        metric: alert.metric,
+        currentValue: alert.currentValue,
+        threshold: alert.threshold,
+        firstFired: alert.firstFired,
+        lastFired: alert.lastFired,
+        resolvedAt: alert.resolvedAt
+      }
+    };
+  }
+
+  /**
+   * POST JSON to a webhook. With a secret, the body is signed as
+   * HMAC-SHA256(secret, "<timestamp>.<body>") so receivers can verify
+   * the sender and reject replays.
+   */
+  private async postWebhook(url: string | undefined, payload: Record<string, unknown>, secret?: string): Promise<void> {
+    if (!url) {
+      throw new AlertDeliveryError('No webhook URL configured', false);
     }
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Alert-Timestamp'] = timestamp;
+      headers['X-Alert-Signature'] = `sha256=${signature}`;
+    }
+
+    const response = await this.deps.fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.config.webhookTimeoutMs)
+    });
+
+    if (!response.ok) {
+      // Client errors other than rate limiting will not succeed on retry
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new AlertDeliveryError(`Webhook responded ${response.status} ${response.statusText}`, retryable);
+    }
+  }
+
+  private async deliverToDatabase(alert: Alert): Promise<void> {
+    await this.deps.store.upsertOpsAlert(this.toOpsAlertRow(alert));
   }
 
   /**
@@ -641,17 +1370,33 @@ export class AlertManager {
   }
 
   /**
-   * Cleanup old alerts and history
+   * Cleanup old alerts and history, in memory and in the store
    */
-  private cleanupOldAlerts(): void {
+  private async cleanupOldAlerts(): Promise<void> {
     const cutoff = Date.now() - (this.config.alertRetentionDays * 24 * 60 * 60 * 1000);
     
     // Remove old alerts from history
     this.alertHistory = this.alertHistory.filter(alert => {
       const alertTime = new Date(alert.firstFired).getTime();
-      return alertTime > cutoff;
+      return alertTime > cutoff || alert.status !== 'resolved';
     });
 
+    // Drop expired silences
+    for (const [ruleId, silence] of this.silences) {
+      if (new Date(silence.silencedUntil).getTime() <= Date.now()) {
+        this.silences.delete(ruleId);
+      }
+    }
+
+    try {
+      const purged = await this.deps.store.deleteResolvedOpsAlertsBefore(new Date(cutoff));
+      if (purged > 0) {
+        console.log(`🧹 Purged ${purged} resolved alerts older than ${this.config.alertRetentionDays} days`);
+      }
+    } catch (error) {
+      console.error('Failed to purge old alerts:', (error as Error).message);
+    }
+
     // Check if we have too many active alerts
     if (this.activeAlerts.size > this.config.maxActiveAlerts) {
       console.warn(`⚠️ Too many active alerts (${this.activeAlerts.size}), cleanup may be needed`);
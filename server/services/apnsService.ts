@@ -32,6 +32,12 @@ interface PreGameAlertPayload {
   }>;
 }
 
+interface DigestAlertPayload {
+  dealIds: number[];
+  restaurants: string[];
+  teamNames: string[];
+}
+
 interface APNsResult {
   successful: string[];
   failed: Array<{ deviceToken: string; error: string }>;
@@ -219,6 +225,48 @@ export class APNsService {
     }
   }
 
+  async sendDigestAlert(userId: string, digest: DigestAlertPayload): Promise<APNsResult> {
+    if (!this.isConfigured || !this.provider) {
+      console.log(`APNs disabled - would send morning digest to user ${userId}: ${digest.dealIds.length} deals`);
+      return { successful: [], failed: [] };
+    }
+
+    try {
+      const deviceTokens = await storage.getUserDeviceTokens(userId, 'ios');
+
+      if (deviceTokens.length === 0) {
+        return { successful: [], failed: [] };
+      }
+
+      const notification = new apn.Notification();
+
+      notification.topic = process.env.APNS_BUNDLE_ID!;
+      notification.badge = digest.dealIds.length;
+      notification.sound = 'deal-alert.caf';
+      notification.category = 'DEAL_ALERT';
+
+      notification.title = `☀️ ${digest.dealIds.length} Deal${digest.dealIds.length > 1 ? 's' : ''} This Morning`;
+      notification.subtitle = digest.teamNames.join(' & ');
+      notification.body = digest.restaurants.length > 1
+        ? `${digest.restaurants[0]} + ${digest.restaurants.length - 1} more`
+        : digest.restaurants[0];
+
+      notification.payload = {
+        type: 'morning_digest',
+        dealIds: digest.dealIds,
+        deepLink: 'free4all://wallet'
+      };
+
+      const results = await this.provider.send(notification, deviceTokens);
+
+      return this.processAPNsResults(results, deviceTokens);
+
+    } catch (error) {
+      console.error('Error sending APNs morning digest:', error);
+      return { successful: [], failed: [] };
+    }
+  }
+
   async sendSilentUpdate(userId: string, contentUpdate: any): Promise<APNsResult> {
     if (!this.isConfigured || !this.provider) {
       return { successful: [], failed: [] };
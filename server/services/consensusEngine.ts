@@ -2,7 +2,7 @@
  * Consensus Engine - Phase 1.2
  * 
  * Implements deterministic consensus algorithm with exact expert specifications:
- * - Source weights: ESPN=0.6, MLB=0.4
+ * - Source weights: declared per provider in the registry (ESPN=0.6, MLB=0.4)
  * - Quality factors: (isFinal ? 1 : 0.8) * recencyFactor  
  * - Agreement rules: CONFIRMED/PROVISIONAL/NEEDS_REVIEW
  * - Evidence storage integration for audit trails
@@ -12,6 +12,12 @@ import { enhancedSportsApi, type GameData, type SourceResponse } from './enhance
 import { putImmutable } from './evidence/storage.ts';
 import { createEvidenceIntegrity } from './evidence/hash.ts';
 import { generateValidationIdempotencyKey } from '../middleware/idempotency.ts';
+import { sportsProviders } from './sports/providers/index.ts';
+
+/**
+ * Fields every source must agree on; a disagreement on any of them is a contradiction
+ */
+export const CONSENSUS_CRITICAL_FIELDS = ['teams.home.score', 'teams.away.score', 'status.isFinal'] as const;
 
 export interface ConsensusResult {
   status: 'CONFIRMED' | 'PROVISIONAL' | 'NEEDS_REVIEW';
@@ -25,7 +31,7 @@ export interface ConsensusResult {
 }
 
 export interface SourceContribution {
-  source: 'ESPN' | 'MLB';
+  source: string;
   data: GameData;
   weight: number;
   qualityFactor: number;
@@ -42,17 +48,10 @@ export interface ConsensusMetrics {
   provisionalDecisions: number;
   needsReviewDecisions: number;
   averageConfidence: number;
-  sourceReliability: {
-    espn: { uptime: number; averageResponseTime: number };
-    mlb: { uptime: number; averageResponseTime: number };
-  };
+  sourceReliability: Record<string, { uptime: number; averageResponseTime: number }>;
 }
 
 export class ConsensusEngine {
-  // Expert-specified source weights
-  private readonly ESPN_WEIGHT = 0.6;
-  private readonly MLB_WEIGHT = 0.4;
-  
   // Quality and confidence thresholds
   private readonly PROVISIONAL_CONFIDENCE_THRESHOLD = 0.8;
   private readonly RECENCY_WINDOW_SECONDS = 60;
@@ -65,10 +64,7 @@ export class ConsensusEngine {
     provisionalDecisions: 0,
     needsReviewDecisions: 0,
     averageConfidence: 0,
-    sourceReliability: {
-      espn: { uptime: 0, averageResponseTime: 0 },
-      mlb: { uptime: 0, averageResponseTime: 0 }
-    }
+    sourceReliability: this.emptySourceReliability()
   };
 
   /**
@@ -139,6 +135,14 @@ export class ConsensusEngine {
     }
   }
 
+  /**
+   * Evaluate consensus over already-fetched sources without storing evidence
+   * (used by offline fixture runs and tests)
+   */
+  evaluateSources(sources: SourceResponse[], gameId: string): Omit<ConsensusResult, 'evidenceHash' | 'timestamp'> {
+    return this.calculateConsensus(sources, gameId);
+  }
+
   /**
    * Calculate consensus using deterministic algorithm with expert specifications
    */
@@ -235,14 +239,10 @@ export class ConsensusEngine {
   }
 
   /**
-   * Get source weight per expert specifications
+   * Get source weight declared by the provider (unknown sources get minimal weight)
    */
-  private getSourceWeight(source: 'ESPN' | 'MLB'): number {
-    switch (source) {
-      case 'ESPN': return this.ESPN_WEIGHT;
-      case 'MLB': return this.MLB_WEIGHT;
-      default: return 0.1; // Unknown sources get minimal weight
-    }
+  private getSourceWeight(source: string): number {
+    return sportsProviders.getWeight(source);
   }
 
   /**
@@ -278,9 +278,7 @@ export class ConsensusEngine {
     const agreementFields: string[] = [];
 
     // Check critical fields for agreement
-    const criticalFields = ['teams.home.score', 'teams.away.score', 'status.isFinal'];
-    
-    for (const field of criticalFields) {
+    for (const field of CONSENSUS_CRITICAL_FIELDS) {
       const values = contributions.map(c => this.getNestedValue(c.data, field));
       const uniqueValues = [...new Set(values)];
       
@@ -315,14 +313,14 @@ export class ConsensusEngine {
       throw new Error('No contributions available for primary data selection');
     }
 
-    // Expert tie-break rule: Prefer MLB when both final, else freshest timestamp
+    // Expert tie-break rule: Prefer the authoritative feed (MLB) when both final, else freshest timestamp
     const finalContributions = contributions.filter(c => c.data.status.isFinal);
     
     if (finalContributions.length > 1) {
-      // Multiple final sources - prefer MLB per expert specifications
-      const mlbFinal = finalContributions.find(c => c.source === 'MLB');
-      if (mlbFinal) {
-        return mlbFinal.data;
+      // Multiple final sources - prefer the official feed per expert specifications
+      const authoritativeFinal = finalContributions.find(c => sportsProviders.findBySource(c.source)?.authoritative);
+      if (authoritativeFinal) {
+        return authoritativeFinal.data;
       }
     }
 
@@ -361,6 +359,15 @@ export class ConsensusEngine {
     return majorityValue;
   }
 
+  /**
+   * Blank reliability entry for every registered provider
+   */
+  private emptySourceReliability(): ConsensusMetrics['sourceReliability'] {
+    return Object.fromEntries(
+      sportsProviders.list().map(provider => [provider.id, { uptime: 0, averageResponseTime: 0 }])
+    );
+  }
+
   /**
    * Update consensus metrics
    */
@@ -401,10 +408,7 @@ export class ConsensusEngine {
       provisionalDecisions: 0,
       needsReviewDecisions: 0,
       averageConfidence: 0,
-      sourceReliability: {
-        espn: { uptime: 0, averageResponseTime: 0 },
-        mlb: { uptime: 0, averageResponseTime: 0 }
-      }
+      sourceReliability: this.emptySourceReliability()
     };
   }
 
@@ -1,5 +1,7 @@
 import { storage } from "../storage";
 import type { DiscoverySource, SearchTerm, DiscoveredSite, Restaurant, Team } from "@shared/schema";
+import { marketService, mentionsAny, teamKeywords, teamNickname, type MarketProfile } from "./markets";
+import { searchTermLifecycle } from "./searchTermLifecycle";
 
 /*
 COST ANALYSIS FOR API INTEGRATIONS:
@@ -26,6 +28,8 @@ export interface SearchResult {
 export class DealDiscoveryEngine {
   private activeSources: DiscoverySource[] = [];
   private activeSearchTerms: SearchTerm[] = [];
+  // Market the current discovery pass is searching; confidence scoring reads its locations, teams and restaurants
+  private currentMarket: MarketProfile | null = null;
   
   // Fine-tuning parameters for precision control - ADMIN REVIEW ONLY
   private readonly CONFIDENCE_THRESHOLDS = {
@@ -36,8 +40,17 @@ export class DealDiscoveryEngine {
   
   private readonly DISCOVERY_LIMITS = {
     MAX_RESULTS_PER_TERM: 5,    // Limit to top 5 per search term
-    MAX_DAILY_DEALS: 20,        // Maximum 20 deals per day (realistic for LA)
-    SEARCH_TERMS_ACTIVE: 8      // Use only top 8 most successful terms
+    MAX_DAILY_DEALS: 20,        // Maximum 20 deals per day per market
+    SEARCH_TERMS_ACTIVE: 8,     // Use only top 8 most successful terms
+    MARKET_SOCIAL_TERMS: 6      // Generated team + restaurant terms per market
+  };
+
+  // Promotional terms for a team's sport, on top of the general team terms
+  private readonly SPORT_TERM_TEMPLATES: Record<string, string[]> = {
+    MLB: ['{team} strikeout deal', '{team} runs scored free'],
+    NBA: ['{team} points free food', '{team} three pointers deal'],
+    NFL: ['{team} touchdown deal', '{team} points scored free'],
+    NHL: ['{team} goals free food', '{team} shutout deal']
   };
 
   async initialize(): Promise<void> {
@@ -47,6 +60,13 @@ export class DealDiscoveryEngine {
     await this.initializeDefaultSources();
     await this.initializeDefaultSearchTerms();
     
+    // Score terms by their outcomes so weak ones are paused before this run spends searches on them
+    try {
+      await searchTermLifecycle.runLifecycle();
+    } catch (error) {
+      console.error('Error scoring search terms:', (error as Error).message);
+    }
+    
     // Load active sources and terms
     this.activeSources = await storage.getActiveDiscoverySources();
     this.activeSearchTerms = await storage.getActiveSearchTerms();
@@ -107,65 +127,57 @@ export class DealDiscoveryEngine {
   }
 
   private async initializeDefaultSearchTerms(): Promise<void> {
-    // FOCUSED ON LA DODGERS ONLY - Core app scope
+    // Terms for every team in every active market
     const restaurants = await storage.getRestaurants();
-    const dodgers = await storage.getTeams().then(teams => teams.find(t => t.name.includes('Dodgers')));
+    const markets = await marketService.getMarkets();
     
     const defaultTerms = [];
     
-    // Restaurant + Dodgers combinations (primary focus)
-    for (const restaurant of restaurants) {
-      if (dodgers) {
-        defaultTerms.push(
-          { restaurantId: restaurant.id, teamId: dodgers.id, term: `${restaurant.name} Dodgers`, category: 'restaurant_team' as const },
-          { restaurantId: restaurant.id, teamId: dodgers.id, term: `${restaurant.name} Dodgers free`, category: 'restaurant_team' as const },
-          { restaurantId: restaurant.id, teamId: dodgers.id, term: `${restaurant.name} Dodgers home win`, category: 'restaurant_team' as const },
-          { restaurantId: restaurant.id, teamId: dodgers.id, term: `${restaurant.name} Dodgers promotion`, category: 'restaurant_team' as const },
-          { restaurantId: restaurant.id, teamId: dodgers.id, term: `${restaurant.name} Dodgers deal`, category: 'restaurant_team' as const }
-        );
+    for (const market of markets) {
+      const marketRestaurants = restaurants.filter(restaurant =>
+        market.restaurants.some(r => r.name === restaurant.name)
+      );
+      
+      for (const team of market.teams) {
+        const nickname = teamNickname(team);
+        
+        // Restaurant + team combinations (primary focus)
+        for (const restaurant of marketRestaurants) {
+          defaultTerms.push(
+            { restaurantId: restaurant.id, teamId: team.id, term: `${restaurant.name} ${nickname}`, category: 'restaurant_team' as const },
+            { restaurantId: restaurant.id, teamId: team.id, term: `${restaurant.name} ${nickname} free`, category: 'restaurant_team' as const },
+            { restaurantId: restaurant.id, teamId: team.id, term: `${restaurant.name} ${nickname} home win`, category: 'restaurant_team' as const },
+            { restaurantId: restaurant.id, teamId: team.id, term: `${restaurant.name} ${nickname} promotion`, category: 'restaurant_team' as const },
+            { restaurantId: restaurant.id, teamId: team.id, term: `${restaurant.name} ${nickname} deal`, category: 'restaurant_team' as const }
+          );
+        }
+        
+        // Team-specific promotional terms
+        const teamTerms = [
+          `${nickname} win free food`,
+          `${nickname} home win promotion`,
+          `${nickname} game day deals`,
+          `${nickname} victory celebration deals`,
+          `${market.name} ${nickname} restaurant promotion`,
+          `${team.name} free food`,
+          ...(this.SPORT_TERM_TEMPLATES[team.sport] || []).map(template => template.replace('{team}', nickname))
+        ];
+        
+        for (const term of teamTerms) {
+          defaultTerms.push({
+            term,
+            category: 'sport_specific',
+            isActive: true,
+            restaurantId: null,
+            teamId: team.id
+          });
+        }
       }
     }
-    
-    // Dodgers-specific promotional terms
-    const dodgersTerms = [
-      { term: 'Dodgers win free food', category: 'sport_specific' },
-      { term: 'Dodgers home win promotion', category: 'sport_specific' },
-      { term: 'Dodgers strikeout deal', category: 'sport_specific' },
-      { term: 'Dodgers runs scored free', category: 'sport_specific' },
-      { term: 'LA Dodgers restaurant promotion', category: 'sport_specific' },
-      { term: 'Dodgers game day deals', category: 'sport_specific' },
-      { term: 'Los Angeles Dodgers free food', category: 'sport_specific' },
-      { term: 'Dodgers victory celebration deals', category: 'sport_specific' }
-    ];
-    
-    for (const termData of dodgersTerms) {
-      defaultTerms.push({
-        ...termData,
-        isActive: true,
-        restaurantId: null,
-        teamId: dodgers?.id || null
-      });
-    }
-    
-    // Baseball-specific deal terms focused on Dodgers triggers
-    const baseballTerms = [
-      { term: 'strikeout free tacos Dodgers', category: 'sport_specific' },
-      { term: 'home run promotion LA', category: 'sport_specific' },
-      { term: 'Dodgers 6 runs Big Mac', category: 'sport_specific' },
-      { term: 'baseball win free coffee', category: 'sport_specific' }
-    ];
-    
-    for (const termData of baseballTerms) {
-      defaultTerms.push({
-        ...termData,
-        isActive: true,
-        restaurantId: null,
-        teamId: dodgers?.id || null
-      });
-    }
 
+    // Existing terms keep their history and lifecycle state, including pauses
     for (const term of defaultTerms) {
-      await storage.createSearchTerm(term);
+      await storage.findOrCreateSearchTerm(term);
     }
   }
 
@@ -403,21 +415,11 @@ export class DealDiscoveryEngine {
   private async searchOfficialWebsites(searchTerm: string): Promise<SearchResult[]> {
     console.log(`🏢 Searching official websites for: "${searchTerm}"`);
     
-    // Official website URLs for LA teams and major restaurants
-    const officialSites = [
-      // LA Dodgers
-      'site:mlb.com/dodgers',
-      'site:dodgers.com',
-      
-      // Major restaurant chains in LA
-      'site:mcdonalds.com',
-      'site:pandaexpress.com', 
-      'site:jackinthebox.com',
-      'site:deltaco.com',
-      'site:ampm.com',
-      'site:subway.com',
-      'site:tacobell.com'
-    ];
+    // Official websites of the market's teams and restaurant chains
+    const market = this.currentMarket;
+    const officialSites = market
+      ? [...market.teamSites, ...market.restaurants.map(r => r.domain)].map(domain => `site:${domain}`)
+      : [];
     
     const allResults: SearchResult[] = [];
     
@@ -452,47 +454,22 @@ export class DealDiscoveryEngine {
     // STRICT FILTERING: Start with 0, must earn confidence through specific patterns
     let score = 0;
     
-    // === LOCATION FILTERING: Must be LA/California focused ===
-    const wrongLocationPatterns = [
-      /houston/i,
-      /texas/i,
-      /dallas/i,
-      /austin/i,
-      /san antonio/i,
-      /astros/i,
-      /rangers/i,
-      /cowboys/i,
-      /\btx\b/i,
-      /new york/i,
-      /chicago/i,
-      /boston/i,
-      /philadelphia/i,
-      /miami/i,
-      /atlanta/i,
-      /detroit/i,
-      /seattle/i
-    ];
+    const market = this.currentMarket;
+    if (!market) {
+      return 0;
+    }
+    const marketTeamKeywords = market.teams.flatMap(team => teamKeywords(team));
+    
+    // === LOCATION FILTERING: Must be focused on the market being searched ===
     
-    // IMMEDIATE REJECTION for wrong geographic areas
-    if (wrongLocationPatterns.some(pattern => pattern.test(lowerContent))) {
+    // IMMEDIATE REJECTION for other geographic areas
+    if (mentionsAny(lowerContent, market.excludedKeywords)) {
       console.log(`   ❌ REJECTED: Wrong geographic location detected`);
       return 0;
     }
     
-    // BOOST for LA/California content
-    const laLocationPatterns = [
-      /los angeles/i,
-      /\bla\b/i,
-      /california/i,
-      /\bca\b/i,
-      /southern california/i,
-      /socal/i,
-      /west coast/i,
-      /dodgers/i,
-      /angels/i
-    ];
-    
-    const hasLALocation = laLocationPatterns.some(pattern => pattern.test(lowerContent));
+    // BOOST for content placed in the market (its places or its teams)
+    const hasLocalContext = mentionsAny(lowerContent, [...market.locationKeywords, ...marketTeamKeywords]);
     
     // === TIER 1: PERFECT MATCHES (90-100% confidence) ===
     
@@ -510,29 +487,28 @@ export class DealDiscoveryEngine {
     }
     
     // Pattern 2: Specific team + restaurant + sports trigger
-    const teamKeywords = ['dodgers', 'dodger', 'la dodgers', 'los angeles dodgers', 'angels', 'la angels'];
-    const restaurantKeywords = ['mcdonalds', 'mcdonald\'s', 'panda express', 'jack in the box', 'del taco', 'ampm', 'subway', 'taco bell'];
+    const restaurantKeywords = market.restaurants.flatMap(r => [r.name.toLowerCase(), r.name.toLowerCase().replace(/'/g, '')]);
     const sportsTriggersExact = ['score', 'scores', 'runs', 'home run', 'strikeout', 'strikeouts', 'win', 'wins', 'victory'];
     
-    const hasTeam = teamKeywords.some(team => lowerContent.includes(team));
+    const hasTeam = marketTeamKeywords.some(team => lowerContent.includes(team));
     const hasRestaurant = restaurantKeywords.some(restaurant => lowerContent.includes(restaurant));
     const hasSportsTrigger = sportsTriggersExact.some(trigger => lowerContent.includes(trigger));
     const hasFreeWord = lowerContent.includes('free');
     
-    // Perfect combination: Team + Restaurant + Sports Trigger + Free + LA Location
-    if (hasTeam && hasRestaurant && hasSportsTrigger && hasFreeWord && hasLALocation) {
-      score = 0.95; // Near-perfect for specific LA deals
-      console.log(`   🎯 TIER 1: Perfect LA sports deal combo detected - 95% confidence`);
+    // Perfect combination: Team + Restaurant + Sports Trigger + Free + Local context
+    if (hasTeam && hasRestaurant && hasSportsTrigger && hasFreeWord && hasLocalContext) {
+      score = 0.95; // Near-perfect for specific local deals
+      console.log(`   🎯 TIER 1: Perfect ${market.name} sports deal combo detected - 95% confidence`);
       return score;
     }
     
     // === TIER 2: ADMIN REVIEW READY (90%+ confidence) ===
     
-    // Pattern 3: Team + Restaurant + Promotional details + LA Location required
+    // Pattern 3: Team + Restaurant + Promotional details + Local context required
     if (hasTeam && hasRestaurant && (hasFreeWord || lowerContent.includes('deal'))) {
-      // MUST have LA location context for restaurant deals to avoid other cities
-      if (!hasLALocation) {
-        console.log(`   ❌ REJECTED: Team/restaurant deal without LA location context`);
+      // MUST have local context for restaurant deals to avoid other cities
+      if (!hasLocalContext) {
+        console.log(`   ❌ REJECTED: Team/restaurant deal without ${market.name} location context`);
         return 0;
       }
       
@@ -550,13 +526,13 @@ export class DealDiscoveryEngine {
       
       if (promotionalIndicators.some(pattern => pattern.test(originalContent))) {
         score = 0.95;
-        console.log(`   🎯 TIER 2: Complete LA promotional deal - 95% confidence`);
+        console.log(`   🎯 TIER 2: Complete ${market.name} promotional deal - 95% confidence`);
         return score;
       }
       
-      // Must have team AND restaurant AND LA location to get 90%
+      // Must have team AND restaurant AND local context to get 90%
       score = 0.90;
-      console.log(`   🎯 TIER 2: LA team restaurant combination - 90% confidence`);
+      console.log(`   🎯 TIER 2: ${market.name} team restaurant combination - 90% confidence`);
       return score;
     }
     
@@ -695,41 +671,58 @@ export class DealDiscoveryEngine {
     return false;
   }
 
-  async runDiscovery(): Promise<DiscoveredSite[]> {
+  // Run discovery for one market, or for every active market in turn
+  async runDiscovery(market?: string): Promise<DiscoveredSite[]> {
     console.log('🚀 Starting enhanced deal discovery process with social media integration...');
     
     await this.initialize();
     
     const allResults: DiscoveredSite[] = [];
     
-    // Enhanced search terms prioritizing LA geographic targeting
-    const socialMediaTerms = [
-      'los angeles dodgers panda express',
-      'la dodgers mcdonalds', 
-      'dodgers jack in the box california',
-      'dodgers ampm los angeles',
-      'dodgers del taco la'
-    ];
+    for (const marketProfile of await marketService.resolveMarkets(market)) {
+      this.currentMarket = marketProfile;
+      try {
+        await this.runMarketDiscovery(marketProfile, allResults);
+      } finally {
+        this.currentMarket = null;
+      }
+    }
     
-    // Use only the most effective search terms for precision
-    const topTerms = this.activeSearchTerms.slice(0, this.DISCOVERY_LIMITS.SEARCH_TERMS_ACTIVE);
-    const precisionSocialTerms = [
-      'los angeles dodgers panda express free',
-      'la dodgers mcdonalds deal',
-      'dodgers home run free food california',
-      'la dodgers win promotion los angeles',
-      'dodgers stadium area food deals',
-      'echo park dodgers restaurant promotions'
-    ];
+    console.log(`\n✅ Enhanced discovery complete: ${allResults.length} sites discovered (including social media)`);
+    return allResults;
+  }
+
+  private async runMarketDiscovery(market: MarketProfile, allResults: DiscoveredSite[]): Promise<void> {
+    console.log(`\n🗺️ Discovering deals in ${market.name}...`);
+    
+    // Use only the most effective search terms for this market's teams; among equal
+    // success rates the least used go first, so new candidates get their trial runs.
+    // Social discovery terms label posts found on social media and are never searched.
+    const marketTeamIds = new Set(market.teams.map(team => team.id));
+    const topTerms = this.activeSearchTerms
+      .filter(term => term.category !== 'social_discovery' && term.teamId !== null && marketTeamIds.has(term.teamId))
+      .sort((a, b) => Number(b.successRate || 0) - Number(a.successRate || 0) || (a.usageCount || 0) - (b.usageCount || 0))
+      .slice(0, this.DISCOVERY_LIMITS.SEARCH_TERMS_ACTIVE);
+    
+    // Geographically targeted team + restaurant terms, stored so they are scored and paused like any other
+    const precisionSocialTerms: SearchTerm[] = [];
+    for (const team of market.teams) {
+      for (const restaurant of market.restaurants) {
+        if (precisionSocialTerms.length >= this.DISCOVERY_LIMITS.MARKET_SOCIAL_TERMS) break;
+        const term = await storage.findOrCreateSearchTerm({
+          term: `${market.name} ${teamNickname(team)} ${restaurant.name} free`.toLowerCase(),
+          category: 'precision_social',
+          origin: 'social',
+          teamId: team.id,
+          restaurantId: null
+        });
+        if (term.isActive !== false) {
+          precisionSocialTerms.push(term);
+        }
+      }
+    }
     
-    const combinedTerms = [...topTerms, ...precisionSocialTerms.map(term => ({
-      id: 0,
-      term,
-      category: 'precision_social',
-      successRate: '95%',
-      usageCount: 0,
-      isActive: true
-    }))];
+    const combinedTerms = [...topTerms, ...precisionSocialTerms.filter(term => !topTerms.some(top => top.id === term.id))];
     
     for (const searchTerm of combinedTerms) {
       console.log(`\n🔍 Processing search term: "${searchTerm.term}" (${searchTerm.category || 'api'})`);
@@ -785,33 +778,21 @@ export class DealDiscoveryEngine {
         }
       }
       
-      // Update search term usage for API terms
-      if (searchTerm.id > 0) {
-        await storage.updateSearchTermUsage(searchTerm.id);
-      }
+      // Update search term usage
+      await storage.updateSearchTermUsage(searchTerm.id);
       
       // Rate limiting pause
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
-    
-    console.log(`\n✅ Enhanced discovery complete: ${allResults.length} sites discovered (including social media)`);
-    return allResults;
   }
 
   private async saveDiscoveredSite(result: SearchResult, searchTerm: SearchTerm): Promise<DiscoveredSite> {
     const source = this.activeSources.find(s => s.type === result.source);
     
-    // Handle search terms with id=0 (social media terms) by using a valid fallback
-    let searchTermId = searchTerm.id;
-    if (searchTermId === 0) {
-      // Use the first valid search term ID as fallback for social media searches
-      searchTermId = this.activeSearchTerms[0]?.id || 331;
-    }
-    
     const siteData = {
       url: result.url,
       sourceId: source?.id || 1,
-      searchTermId: searchTermId,
+      searchTermId: searchTerm.id,
       title: result.title,
       content: result.content,
       rawData: JSON.stringify(result.rawData),
@@ -1,5 +1,12 @@
+import { storage, type IStorage } from '../storage';
+import { marketService, teamNickname, type MarketService, type MarketProfile } from './markets';
+import type { DealPatternRecord, DiscoveredSite } from '@shared/schema';
+
+export type DealPatternStatus = 'active' | 'proposed' | 'dismissed' | 'disabled';
+
 export interface DealPattern {
   id: string;
+  market: string; // market slug, e.g. 'los-angeles'
   restaurant: string;
   team: string;
   sport: string;
@@ -19,129 +26,112 @@ export interface DealPattern {
   confidence: number;
   seasonalPattern: boolean;
   lastSeen?: Date;
+  status?: DealPatternStatus;
+  sourceSiteId?: number | null;
+  confirmedCount?: number;
+  rejectedCount?: number;
+}
+
+/** Fields an admin sets when adding or editing a library pattern */
+export type DealPatternInput = Omit<DealPattern, 'lastSeen' | 'confirmedCount' | 'rejectedCount' | 'sourceSiteId'>;
+
+/** A reviewed discovered deal, as the approve/reject endpoints see it */
+export interface DealReview {
+  site: DiscoveredSite;
+  approved: boolean;
+  restaurant?: string;
+  team?: string;
+  /** Reviewer's wording of the deal (offer title and description); preferred over the raw page text for proposals */
+  dealText?: string;
+  reviewerId?: string;
+  /** Site status before this review; a repeated decision is ignored and a changed one reverses the earlier one */
+  previousStatus?: string | null;
+}
+
+export interface DealReviewLearning {
+  matchedPatternId?: string;
+  confidence?: number;
+  proposedPatternId?: string;
+}
+
+export type DealPatternErrorCode = 'NOT_FOUND' | 'DUPLICATE' | 'UNKNOWN_MARKET' | 'NOT_PROPOSED';
+
+export class DealPatternError extends Error {
+  constructor(message: string, public readonly code: DealPatternErrorCode) {
+    super(message);
+    this.name = 'DealPatternError';
+  }
 }
 
+export interface DealPatternMatcherConfig {
+  /** How long the active pattern cache is used before it is reloaded */
+  cacheTtlMs: number;
+}
+
+/**
+ * Persistence hooks, injectable for tests
+ */
+export interface DealPatternMatcherDeps {
+  store: Pick<
+    IStorage,
+    | 'getDealPatterns'
+    | 'getDealPattern'
+    | 'getDealPatternsBySourceSite'
+    | 'createDealPattern'
+    | 'updateDealPattern'
+    | 'deleteDealPattern'
+    | 'recordDealPatternFeedback'
+  >;
+  markets: Pick<MarketService, 'getMarkets'>;
+}
+
+const DEFAULT_CONFIG: DealPatternMatcherConfig = {
+  cacheTtlMs: 5 * 60 * 1000
+};
+
 export class DealPatternMatcher {
-  
-  // Known recurring patterns from major LA sports deals
-  private knownPatterns: DealPattern[] = [
-    {
-      id: 'mcdonalds-dodgers-6runs',
-      restaurant: "McDonald's",
-      team: 'Dodgers',
-      sport: 'MLB',
-      triggerType: 'score',
-      conditions: {
-        venue: 'home',
-        scoreThreshold: 6
-      },
-      reward: {
-        item: '6pc McNuggets',
-        value: 'free',
-        promoCode: 'DODGERS6'
-      },
-      patterns: [
-        'free {item} when dodgers score {score}+ runs',
-        'free mcnuggets dodgers 6 runs home',
-        'when the dodgers score 6 or more runs at home'
-      ],
-      confidence: 0.95,
-      seasonalPattern: true
-    },
-    {
-      id: 'pandaexpress-dodgers-homewin',
-      restaurant: 'Panda Express',
-      team: 'Dodgers',
-      sport: 'MLB',
-      triggerType: 'win',
-      conditions: {
-        venue: 'home'
-      },
-      reward: {
-        item: 'Panda Plate',
-        value: '$6',
-        promoCode: 'DODGERSWIN'
-      },
-      patterns: [
-        '$6 panda plate dodgers home win',
-        'when dodgers win at home',
-        'following any dodgers home victory'
-      ],
-      confidence: 0.90,
-      seasonalPattern: true
-    },
-    {
-      id: 'jackinthebox-lakers-20point',
-      restaurant: 'Jack in the Box',
-      team: 'Lakers',
-      sport: 'NBA',
-      triggerType: 'performance',
-      conditions: {
-        venue: 'home',
-        margin: 20
-      },
-      reward: {
-        item: 'Jumbo Jack',
-        value: 'free',
-        promoCode: 'LAKERS20'
-      },
-      patterns: [
-        'free jumbo jack lakers win 20+ points',
-        'when lakers win by 20 or more points at staples',
-        'lakers 20 point victory free burger'
-      ],
-      confidence: 0.88,
-      seasonalPattern: true
-    },
-    {
-      id: 'ampm-dodgers-stolenbase',
-      restaurant: 'ampm',
-      team: 'Dodgers',
-      sport: 'MLB',
-      triggerType: 'occurrence',
-      conditions: {
-        venue: 'home',
-        occurrenceType: 'stolen base'
-      },
-      reward: {
-        item: 'Hot Dog + Drink',
-        value: 'free',
-        promoCode: 'STEALBASE'
-      },
-      patterns: [
-        'free hot dog when dodgers steal base',
-        'dodgers stolen base free hot dog',
-        'steal a base get free hot dog'
-      ],
-      confidence: 0.85,
-      seasonalPattern: true
-    },
-    {
-      id: 'deltaco-rams-homewin',
-      restaurant: 'Del Taco',
-      team: 'Rams',
-      sport: 'NFL',
-      triggerType: 'win',
-      conditions: {
-        venue: 'home'
-      },
-      reward: {
-        item: 'Del Beef Taco',
-        value: 'free',
-        promoCode: 'RAMSWIN'
-      },
-      patterns: [
-        'free del beef taco rams home win',
-        'when rams win at sofi stadium',
-        'rams victory free taco'
-      ],
-      confidence: 0.87,
-      seasonalPattern: true
-    }
-  ];
+  private config: DealPatternMatcherConfig;
+  private deps: DealPatternMatcherDeps;
+
+  // Active patterns from the library; matching is synchronous, so callers load them with ensureLoaded()
+  private knownPatterns: DealPattern[] = [];
+  private loadedAt = 0;
+
+  constructor(config: Partial<DealPatternMatcherConfig> = {}, deps: Partial<DealPatternMatcherDeps> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.deps = {
+      store: storage,
+      markets: marketService,
+      ...deps
+    };
+  }
+
+  // Reload the active patterns when the cache is older than the TTL
+  async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt > this.config.cacheTtlMs) {
+      await this.refresh();
+    }
+  }
+
+  async refresh(): Promise<void> {
+    const [records, markets] = await Promise.all([
+      this.deps.store.getDealPatterns('active'),
+      this.deps.markets.getMarkets(true)
+    ]);
+    const slugs = new Map(markets.map(market => [market.id, market.slug]));
+    this.knownPatterns = records
+      .filter(record => slugs.has(record.marketId))
+      .map(record => this.toPattern(record, slugs.get(record.marketId)!));
+    this.loadedAt = Date.now();
+  }
+
+  // Patterns for one market, or every market when none is given
+  getPatterns(market?: string): DealPattern[] {
+    return market ? this.knownPatterns.filter(p => p.market === market) : this.knownPatterns;
+  }
 
   // Advanced pattern matching using fuzzy matching and NLP techniques
-  matchDealPattern(text: string, restaurant: string, team: string): {
+  matchDealPattern(text: string, restaurant: string, team: string, market?: string): {
     pattern: DealPattern | null;
     confidence: number;
     extractedData: any;
@@ -151,8 +141,8 @@ export class DealPatternMatcher {
     let bestConfidence = 0;
     let extractedData = {};
 
-    for (const pattern of this.knownPatterns) {
-      if (pattern.restaurant !== restaurant || pattern.team !== team) continue;
+    for (const pattern of this.getPatterns(market)) {
+      if (pattern.restaurant !== restaurant || !this.isSameTeam(pattern.team, team)) continue;
 
       const matchResult = this.calculatePatternMatch(cleanText, pattern);
       
@@ -170,6 +160,13 @@ export class DealPatternMatcher {
     };
   }
 
+  // Patterns name teams without their city ('Dodgers'); callers may pass either form
+  private isSameTeam(patternTeam: string, team: string): boolean {
+    const a = patternTeam.toLowerCase();
+    const b = team.toLowerCase();
+    return a === b || b.endsWith(` ${a}`) || a.endsWith(` ${b}`);
+  }
+
   private calculatePatternMatch(text: string, pattern: DealPattern): {
     confidence: number;
     extractedData: any;
@@ -331,7 +328,7 @@ export class DealPatternMatcher {
   }
 
   // Generate new pattern from successful deal discovery
-  generatePatternFromDeal(dealText: string, restaurant: string, team: string, sport: string): DealPattern | null {
+  generatePatternFromDeal(dealText: string, restaurant: string, team: string, sport: string, market: string): DealPattern | null {
     const cleanText = this.normalizeText(dealText);
     
     // Extract key components
@@ -343,6 +340,7 @@ export class DealPatternMatcher {
 
     return {
       id: `generated-${Date.now()}`,
+      market,
       restaurant,
       team,
       sport,
@@ -414,31 +412,225 @@ export class DealPatternMatcher {
     return conditions;
   }
 
-  // Update pattern confidence based on validation
-  updatePatternConfidence(patternId: string, wasCorrect: boolean): void {
+  // Update pattern confidence based on validation; persisted so it carries across deploys and seasons.
+  // With undo, an earlier validation is taken back instead.
+  async updatePatternConfidence(patternId: string, wasCorrect: boolean, undo = false): Promise<DealPattern | undefined> {
+    const record = await this.deps.store.recordDealPatternFeedback(patternId, wasCorrect, undo);
     const pattern = this.knownPatterns.find(p => p.id === patternId);
-    if (pattern) {
-      if (wasCorrect) {
-        pattern.confidence = Math.min(pattern.confidence + 0.05, 1.0);
-      } else {
-        pattern.confidence = Math.max(pattern.confidence - 0.1, 0.5);
-      }
-      pattern.lastSeen = new Date();
+    if (record && pattern) {
+      pattern.confidence = record.confidence;
+      pattern.lastSeen = record.lastSeen ?? new Date();
+      pattern.confirmedCount = record.confirmedCount;
+      pattern.rejectedCount = record.rejectedCount;
     }
+    return pattern;
   }
 
-  getPatternStats(): { patterns: number; avgConfidence: number; lastUpdated: Date } {
-    const avgConfidence = this.knownPatterns.reduce((sum, p) => sum + p.confidence, 0) / this.knownPatterns.length;
-    const lastUpdated = this.knownPatterns
+  getPatternStats(market?: string): { patterns: number; avgConfidence: number; lastUpdated: Date } {
+    const patterns = this.getPatterns(market);
+    const avgConfidence = patterns.length > 0 ? patterns.reduce((sum, p) => sum + p.confidence, 0) / patterns.length : 0;
+    const lastUpdated = patterns
       .filter(p => p.lastSeen)
       .reduce((latest, p) => p.lastSeen! > latest ? p.lastSeen! : latest, new Date(0));
     
     return {
-      patterns: this.knownPatterns.length,
+      patterns: patterns.length,
       avgConfidence: Math.round(avgConfidence * 100) / 100,
       lastUpdated
     };
   }
+
+  /**
+   * Learn from a reviewed discovered deal. A pattern that recognises the deal
+   * gains confidence on approval and loses it on rejection; an approved deal
+   * no pattern recognised is proposed as a new pattern (once per site).
+   * Reviewing a site again with the same decision changes nothing; reversing
+   * the decision takes back the earlier adjustment before applying the new one.
+   */
+  async recordDealReview(review: DealReview): Promise<DealReviewLearning> {
+    const { site, approved } = review;
+    const previousDecision = review.previousStatus === 'approved' ? true : review.previousStatus === 'rejected' ? false : undefined;
+    if (previousDecision === approved) {
+      return {};
+    }
+    const restaurant = review.restaurant || site.restaurantDetected?.split(',')[0].trim();
+    const teamName = review.team || site.teamDetected;
+    if (!restaurant || !teamName) {
+      return {};
+    }
+
+    await this.ensureLoaded();
+    const markets = await this.deps.markets.getMarkets(true);
+    const market = markets.find(m => m.teams.some(team => this.isSameTeam(team.name, teamName)));
+    const text = [review.dealText, site.title, site.content].filter(Boolean).join(' ');
+
+    const match = this.matchDealPattern(text, restaurant, teamName, market?.slug);
+    if (match.pattern) {
+      if (previousDecision !== undefined) {
+        await this.updatePatternConfidence(match.pattern.id, previousDecision, true);
+      }
+      const pattern = await this.updatePatternConfidence(match.pattern.id, approved);
+      console.log(`📈 Pattern ${match.pattern.id} ${approved ? 'confirmed' : 'contradicted'} by site ${site.id}`);
+      return { matchedPatternId: match.pattern.id, confidence: pattern?.confidence };
+    }
+
+    if (!approved) {
+      if (previousDecision) {
+        // Withdraw a proposal made from the earlier approval while it still awaits review
+        const proposals = await this.deps.store.getDealPatternsBySourceSite(site.id);
+        for (const proposal of proposals.filter(p => p.status === 'proposed')) {
+          await this.deps.store.deleteDealPattern(proposal.id);
+          console.log(`🗑️ Withdrew proposed pattern ${proposal.id} after site ${site.id} was rejected`);
+        }
+      }
+      return {};
+    }
+    if (!market) {
+      return {};
+    }
+    const existing = await this.deps.store.getDealPatternsBySourceSite(site.id);
+    if (existing.length > 0) {
+      return { proposedPatternId: existing[0].id };
+    }
+
+    const team = market.teams.find(t => this.isSameTeam(t.name, teamName))!;
+    const candidate = this.generatePatternFromDeal(
+      review.dealText || site.title || '',
+      restaurant,
+      teamNickname(team),
+      team.sport,
+      market.slug
+    );
+    if (!candidate) {
+      return {};
+    }
+
+    await this.deps.store.createDealPattern({
+      ...this.toRecord(candidate, market.id),
+      status: 'proposed',
+      sourceSiteId: site.id
+    });
+    console.log(`💡 Proposed pattern ${candidate.id} from approved site ${site.id}`);
+    return { proposedPatternId: candidate.id };
+  }
+
+  // Every library pattern (any status), for the admin UI
+  async listPatterns(status?: DealPatternStatus, market?: string): Promise<DealPattern[]> {
+    const [records, markets] = await Promise.all([
+      this.deps.store.getDealPatterns(status),
+      this.deps.markets.getMarkets(true)
+    ]);
+    const slugs = new Map(markets.map(m => [m.id, m.slug]));
+    return records
+      .map(record => this.toPattern(record, slugs.get(record.marketId) ?? ''))
+      .filter(pattern => !market || pattern.market === market);
+  }
+
+  async createPattern(input: DealPatternInput, reviewerId?: string): Promise<DealPattern> {
+    if (await this.deps.store.getDealPattern(input.id)) {
+      throw new DealPatternError(`Pattern ${input.id} already exists`, 'DUPLICATE');
+    }
+    const market = await this.resolveMarket(input.market);
+    await this.deps.store.createDealPattern({ ...this.toRecord(input, market.id), reviewedBy: reviewerId ?? null });
+    await this.refresh();
+    return (await this.getPattern(input.id))!;
+  }
+
+  async updatePattern(id: string, updates: Partial<Omit<DealPatternInput, 'id'>>, reviewerId?: string): Promise<DealPattern> {
+    const existing = await this.getPattern(id);
+    if (!existing) {
+      throw new DealPatternError(`Pattern ${id} not found`, 'NOT_FOUND');
+    }
+    const merged = { ...existing, ...updates };
+    const market = await this.resolveMarket(merged.market);
+    await this.deps.store.updateDealPattern(id, { ...this.toRecord(merged, market.id), reviewedBy: reviewerId ?? null });
+    await this.refresh();
+    return (await this.getPattern(id))!;
+  }
+
+  async deletePattern(id: string): Promise<void> {
+    if (!await this.deps.store.deleteDealPattern(id)) {
+      throw new DealPatternError(`Pattern ${id} not found`, 'NOT_FOUND');
+    }
+    await this.refresh();
+  }
+
+  // One-click acceptance of a proposed pattern; it starts matching straight away
+  async acceptProposal(id: string, reviewerId?: string): Promise<DealPattern> {
+    return this.settleProposal(id, 'active', reviewerId);
+  }
+
+  async dismissProposal(id: string, reviewerId?: string): Promise<DealPattern> {
+    return this.settleProposal(id, 'dismissed', reviewerId);
+  }
+
+  private async settleProposal(id: string, status: DealPatternStatus, reviewerId?: string): Promise<DealPattern> {
+    const pattern = await this.getPattern(id);
+    if (!pattern) {
+      throw new DealPatternError(`Pattern ${id} not found`, 'NOT_FOUND');
+    }
+    if (pattern.status !== 'proposed') {
+      throw new DealPatternError(`Pattern ${id} is not a proposal`, 'NOT_PROPOSED');
+    }
+    await this.deps.store.updateDealPattern(id, { status, reviewedBy: reviewerId ?? null });
+    await this.refresh();
+    return (await this.getPattern(id))!;
+  }
+
+  private async getPattern(id: string): Promise<DealPattern | undefined> {
+    const record = await this.deps.store.getDealPattern(id);
+    if (!record) {
+      return undefined;
+    }
+    const markets = await this.deps.markets.getMarkets(true);
+    return this.toPattern(record, markets.find(m => m.id === record.marketId)?.slug ?? '');
+  }
+
+  private async resolveMarket(slug: string): Promise<MarketProfile> {
+    const market = (await this.deps.markets.getMarkets(true)).find(m => m.slug === slug);
+    if (!market) {
+      throw new DealPatternError(`Market ${slug} not found`, 'UNKNOWN_MARKET');
+    }
+    return market;
+  }
+
+  private toPattern(record: DealPatternRecord, market: string): DealPattern {
+    return {
+      id: record.id,
+      market,
+      restaurant: record.restaurant,
+      team: record.team,
+      sport: record.sport,
+      triggerType: record.triggerType as DealPattern['triggerType'],
+      conditions: record.conditions,
+      reward: record.reward,
+      patterns: record.phrases,
+      confidence: record.confidence,
+      seasonalPattern: record.seasonalPattern ?? true,
+      lastSeen: record.lastSeen ?? undefined,
+      status: record.status as DealPatternStatus,
+      sourceSiteId: record.sourceSiteId,
+      confirmedCount: record.confirmedCount,
+      rejectedCount: record.rejectedCount
+    };
+  }
+
+  private toRecord(pattern: DealPatternInput, marketId: number) {
+    return {
+      id: pattern.id,
+      marketId,
+      restaurant: pattern.restaurant,
+      team: pattern.team,
+      sport: pattern.sport,
+      triggerType: pattern.triggerType,
+      conditions: pattern.conditions,
+      reward: pattern.reward,
+      phrases: pattern.patterns,
+      confidence: pattern.confidence,
+      seasonalPattern: pattern.seasonalPattern,
+      status: pattern.status ?? 'active'
+    };
+  }
 }
 
 export const dealPatternMatcher = new DealPatternMatcher();
\ No newline at end of file
@@ -0,0 +1,267 @@
+/**
+ * Live Deal Stream
+ *
+ * Fan-out hub behind GET /api/stream/deals. Game Monitor score changes,
+ * triggered deals from the Workflow Orchestrator and promotion processing,
+ * and deals about to expire are published here once and delivered to every
+ * connected client that follows one of the event's teams.
+ *
+ * Recent events are kept in a ring buffer so a client reconnecting with
+ * Last-Event-ID gets what it missed. Event ids carry a per-process stream id;
+ * an id from before a restart (or older than the buffer) gets a reset instead,
+ * telling the client to refetch rather than trust a partial replay.
+ */
+
+import { gameMonitor, isPlayEvent, type GameEvent, type GameMonitor } from './gameMonitor.js';
+import { storage, type IStorage } from '../storage.js';
+
+export type DealStreamEventType = 'deal_triggered' | 'score_change' | 'deal_expiring';
+
+export interface DealStreamEvent {
+  id: string;
+  type: DealStreamEventType;
+  /** Teams the event concerns; clients receive it when they follow any of them */
+  teamIds: number[];
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface DealStreamSubscription {
+  /** Buffered events after Last-Event-ID, oldest first */
+  replay: DealStreamEvent[];
+  /** Last-Event-ID could not be resumed from; the client should refetch */
+  reset: boolean;
+  unsubscribe: () => void;
+}
+
+export interface DealStreamConfig {
+  bufferSize: number;
+  expiringWindowMs: number;
+  expiringCheckIntervalMs: number;
+}
+
+/**
+ * Event sources, injectable for tests
+ */
+export interface DealStreamDeps {
+  store: Pick<IStorage, 'getGameByExternalId' | 'getActiveTeams' | 'getTriggeredDealsExpiringBetween'>;
+  monitor: Pick<GameMonitor, 'addEventListener' | 'removeEventListener'>;
+  now: () => number;
+}
+
+const SCORE_EVENTS: GameEvent['eventType'][] = ['game_start', 'score_change', 'game_end'];
+
+/**
+ * Serialize an event in text/event-stream framing
+ */
+export function formatServerSentEvent(event: { id?: string; type: string; data: unknown }): string {
+  const id = event.id ? `id: ${event.id}\n` : '';
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+export class DealStreamService {
+  private config: DealStreamConfig;
+  private deps: DealStreamDeps;
+  private readonly streamId: string;
+  private sequence = 0;
+  private buffer: DealStreamEvent[] = [];
+  private subscribers = new Set<{ teamIds: Set<number>; listener: (event: DealStreamEvent) => void }>();
+  private gameTeams = new Map<string, number[]>();
+  private announcedExpiring = new Map<number, number>(); // triggered deal id -> expiresAt
+  private expiringTimer?: NodeJS.Timeout;
+  private readonly gameEventListener = (event: GameEvent) => {
+    this.handleGameEvent(event).catch(error => {
+      console.error('Failed to stream game event:', (error as Error).message);
+    });
+  };
+
+  constructor(config: Partial<DealStreamConfig> = {}, deps: Partial<DealStreamDeps> = {}) {
+    this.config = {
+      bufferSize: 500,
+      expiringWindowMs: 60 * 60 * 1000, // warn an hour ahead
+      expiringCheckIntervalMs: 60 * 1000,
+      ...config
+    };
+    this.deps = {
+      store: storage,
+      monitor: gameMonitor,
+      now: () => Date.now(),
+      ...deps
+    };
+    this.streamId = this.deps.now().toString(36);
+  }
+
+  start(): void {
+    if (this.expiringTimer) return;
+
+    this.deps.monitor.addEventListener(this.gameEventListener);
+    this.expiringTimer = setInterval(() => {
+      this.checkExpiringDeals().catch(error => {
+        console.error('Failed to check expiring deals:', (error as Error).message);
+      });
+    }, this.config.expiringCheckIntervalMs);
+
+    console.log('📡 Deal stream started');
+  }
+
+  stop(): void {
+    if (this.expiringTimer) {
+      clearInterval(this.expiringTimer);
+      this.expiringTimer = undefined;
+    }
+    this.deps.monitor.removeEventListener(this.gameEventListener);
+  }
+
+  /**
+   * Buffer an event and deliver it to matching subscribers
+   */
+  publish(type: DealStreamEventType, teamIds: number[], data: Record<string, unknown>): DealStreamEvent {
+    const event: DealStreamEvent = {
+      id: `${this.streamId}-${++this.sequence}`,
+      type,
+      teamIds: Array.from(new Set(teamIds)),
+      data,
+      createdAt: new Date(this.deps.now()).toISOString()
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.config.bufferSize) {
+      this.buffer = this.buffer.slice(-this.config.bufferSize);
+    }
+
+    for (const subscriber of Array.from(this.subscribers)) {
+      if (!event.teamIds.some(teamId => subscriber.teamIds.has(teamId))) continue;
+      try {
+        subscriber.listener(event);
+      } catch (error) {
+        console.error('Error in deal stream subscriber:', (error as Error).message);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Follow events for the given teams, resuming after lastEventId when possible
+   */
+  subscribe(teamIds: number[], listener: (event: DealStreamEvent) => void, lastEventId?: string): DealStreamSubscription {
+    const subscriber = { teamIds: new Set(teamIds), listener };
+    this.subscribers.add(subscriber);
+
+    let replay: DealStreamEvent[] = [];
+    let reset = false;
+    if (lastEventId) {
+      const [streamId, seq] = lastEventId.split('-');
+      const lastSequence = Number(seq);
+      const oldestSequence = this.buffer.length > 0 ? Number(this.buffer[0].id.split('-')[1]) : this.sequence + 1;
+
+      if (streamId !== this.streamId || !Number.isInteger(lastSequence) || lastSequence > this.sequence || lastSequence < oldestSequence - 1) {
+        reset = true;
+      } else {
+        replay = this.buffer.filter(event =>
+          Number(event.id.split('-')[1]) > lastSequence &&
+          event.teamIds.some(teamId => subscriber.teamIds.has(teamId))
+        );
+      }
+    }
+
+    return {
+      replay,
+      reset,
+      unsubscribe: () => {
+        this.subscribers.delete(subscriber);
+      }
+    };
+  }
+
+  getStatus(): { subscribers: number; buffered: number; lastEventId?: string } {
+    return {
+      subscribers: this.subscribers.size,
+      buffered: this.buffer.length,
+      lastEventId: this.buffer[this.buffer.length - 1]?.id
+    };
+  }
+
+  /**
+   * Announce active triggered deals entering the expiry window, once each
+   */
+  async checkExpiringDeals(): Promise<number> {
+    const now = this.deps.now();
+    const deals = await this.deps.store.getTriggeredDealsExpiringBetween(
+      new Date(now),
+      new Date(now + this.config.expiringWindowMs)
+    );
+
+    for (const [dealId, expiresAt] of Array.from(this.announcedExpiring)) {
+      if (expiresAt < now) this.announcedExpiring.delete(dealId);
+    }
+
+    let announced = 0;
+    for (const deal of deals) {
+      if (this.announcedExpiring.has(deal.id) || deal.teamId === null) continue;
+      this.announcedExpiring.set(deal.id, deal.expiresAt.getTime());
+      this.publish('deal_expiring', [deal.teamId], {
+        triggeredDealId: deal.id,
+        promotionId: deal.promotionId,
+        dealPageId: deal.dealPageId,
+        title: deal.title,
+        expiresAt: deal.expiresAt.toISOString()
+      });
+      announced++;
+    }
+    return announced;
+  }
+
+  private async handleGameEvent(event: GameEvent): Promise<void> {
+    if (!SCORE_EVENTS.includes(event.eventType) || isPlayEvent(event)) {
+      return;
+    }
+
+    const teamIds = await this.teamsForGame(event);
+    if (teamIds.length === 0) {
+      return;
+    }
+
+    const { teams, status, inning } = event.currentState;
+    this.publish('score_change', teamIds, {
+      gameId: event.gameId,
+      eventType: event.eventType,
+      home: { name: teams.home.name, score: teams.home.score },
+      away: { name: teams.away.name, score: teams.away.score },
+      status: status.detailedState,
+      isFinal: status.isFinal,
+      inning
+    });
+  }
+
+  /**
+   * Our team ids for a monitored game: the stored game's team plus any active
+   * team named on either side of the feed
+   */
+  private async teamsForGame(event: GameEvent): Promise<number[]> {
+    const cached = this.gameTeams.get(event.gameId);
+    if (cached) {
+      return cached;
+    }
+
+    const teamIds = new Set<number>();
+    const game = await this.deps.store.getGameByExternalId(event.gameId);
+    if (game?.teamId) {
+      teamIds.add(game.teamId);
+    }
+    const { home, away } = event.currentState.teams;
+    for (const team of await this.deps.store.getActiveTeams()) {
+      if (home.name?.includes(team.name) || away.name?.includes(team.name)) {
+        teamIds.add(team.id);
+      }
+    }
+
+    const result = Array.from(teamIds);
+    if (result.length > 0) {
+      this.gameTeams.set(event.gameId, result);
+    }
+    return result;
+  }
+}
+
+// Global deal stream instance
+export const dealStream = new DealStreamService();
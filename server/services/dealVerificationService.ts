@@ -1,5 +1,6 @@
 import { storage } from '../storage';
 import { promotionService } from './promotionService';
+import { compileTriggerCondition, evaluateTriggerConditions } from './triggers';
 import type { Game, DealPage } from '@shared/schema';
 
 /**
@@ -85,114 +86,21 @@ export class DealVerificationService {
   }
 
   /**
-   * Enhanced trigger condition evaluation
-   * Handles both simple and complex deal conditions
+   * Compile the deal page's trigger DSL and evaluate it against the game.
+   * Conditions that fail to parse are rejected rather than guessed at.
    */
   private async evaluateTriggerCondition(condition: string, game: Game): Promise<boolean> {
-    const lowerCondition = condition.toLowerCase();
-    const gameStats = game.gameStats as any || {};
-    
-    // Basic game result data
-    const didWin = game.teamScore !== null && game.opponentScore !== null && game.teamScore > game.opponentScore;
-    const didLose = game.teamScore !== null && game.opponentScore !== null && game.teamScore < game.opponentScore;
-    const runsScored = game.teamScore || 0;
-
-    console.log(`Evaluating condition: "${condition}" for game with stats:`, {
-      isHome: game.isHome,
-      didWin,
-      runsScored,
-      strikeOuts: gameStats.strikeOuts,
-      pitchingStrikeOuts: gameStats.pitchingStrikeOuts,
-      stolenBases: gameStats.stolenBases
-    });
-
-    // Complex conditions (order matters - check most specific first)
-    
-    // McDonald's style: "Home win + 6 runs"
-    if (lowerCondition.includes('home') && lowerCondition.includes('win') && 
-        (lowerCondition.includes('6') || lowerCondition.includes('run'))) {
-      const runsMatch = condition.match(/(\d+)\s*\+?\s*runs?/i);
-      const requiredRuns = runsMatch ? parseInt(runsMatch[1]) : 6;
-      return game.isHome && didWin && runsScored >= requiredRuns;
-    }
-
-    // Win conditions
-    if (lowerCondition.includes('win')) {
-      if (lowerCondition.includes('home')) {
-        return game.isHome && didWin;
-      }
-      return didWin; // Any win
-    }
-
-    // Loss conditions (for consolation deals)
-    if (lowerCondition.includes('loss') || lowerCondition.includes('lose')) {
-      if (lowerCondition.includes('home')) {
-        return game.isHome && didLose;
-      }
-      return didLose;
-    }
-
-    // Runs/score based
-    if (lowerCondition.includes('run') || lowerCondition.includes('score')) {
-      const runsMatch = condition.match(/(\d+)\s*\+?\s*runs?/i);
-      const requiredRuns = runsMatch ? parseInt(runsMatch[1]) : 6;
-      return runsScored >= requiredRuns;
-    }
-
-    // Strikeout based
-    if (lowerCondition.includes('strikeout') || lowerCondition.includes('strike out')) {
-      const strikeoutMatch = condition.match(/(\d+)\s*\+?\s*strikeouts?/i);
-      const requiredStrikeouts = strikeoutMatch ? parseInt(strikeoutMatch[1]) : 7;
-      
-      // Check if this refers to pitching strikeouts
-      if (lowerCondition.includes('pitch') || lowerCondition.includes('record')) {
-        return (gameStats.pitchingStrikeOuts || 0) >= requiredStrikeouts;
-      }
-      
-      // Default to batting strikeouts
-      return (gameStats.strikeOuts || 0) >= requiredStrikeouts;
-    }
-
-    // Stolen base conditions
-    if (lowerCondition.includes('steal') || lowerCondition.includes('stolen')) {
-      const stolenBases = gameStats.stolenBases || 0;
-      
-      if (lowerCondition.includes('home')) {
-        return game.isHome && stolenBases > 0;
-      }
-      
-      return stolenBases > 0;
-    }
-
-    // NEW: Margin of victory conditions
-    if (lowerCondition.includes('win by') || lowerCondition.includes('blowout')) {
-      const marginMatch = condition.match(/win by (\d+)\s*\+?\s*(?:runs?|points?)/i);
-      const requiredMargin = marginMatch ? parseInt(marginMatch[1]) : 5;
-      
-      const winMargin = didWin ? (game.teamScore - game.opponentScore) : 0;
-      return didWin && winMargin >= requiredMargin;
-    }
-
-    // NEW: Home run conditions  
-    if (lowerCondition.includes('home run') || lowerCondition.includes('homer')) {
-      const hrMatch = condition.match(/(\d+)\s*\+?\s*home runs?/i);
-      const requiredHRs = hrMatch ? parseInt(hrMatch[1]) : 1;
-      return (gameStats.homeRuns || 0) >= requiredHRs;
-    }
-
-    // NEW: Extra innings conditions
-    if (lowerCondition.includes('extra inning')) {
-      return (gameStats.innings || 9) > 9;
-    }
-
-    // NEW: Walk-off victory conditions
-    if (lowerCondition.includes('walk-off') || lowerCondition.includes('walkoff')) {
-      return didWin && game.isHome && (gameStats.walkOff === true);
+    let conditions;
+    try {
+      conditions = compileTriggerCondition(condition);
+    } catch (error) {
+      console.warn(`Rejecting deal condition: ${(error as Error).message}`);
+      return false;
     }
 
-    // Default: treat unknown conditions as "any win"
-    console.warn(`Unknown deal condition: "${condition}", defaulting to any win`);
-    return didWin;
+    const { isTriggered, matchedClauses } = evaluateTriggerConditions(conditions, game);
+    console.log(`Evaluated condition "${condition}": ${isTriggered ? `matched ${matchedClauses.join(', ')}` : 'not met'}`);
+    return isTriggered;
   }
 
   /**
@@ -3,6 +3,32 @@ import fetch from 'node-fetch';
 import { storage } from '../storage';
 import type { TriggeredDeal, User, Promotion, Restaurant, Team } from '@shared/schema';
 
+export interface DigestDeal {
+  id: number;
+  expiresAt: Date | string | null;
+  promotion: {
+    title: string;
+    offerValue: string | null;
+    triggerCondition: string;
+    redemptionInstructions: string | null;
+    promoCode: string | null;
+  };
+  restaurant: { name: string };
+  team: { name: string };
+}
+
+export interface OpsAlertEmail {
+  alertId: string;
+  ruleName: string;
+  severity: 'info' | 'warning' | 'critical';
+  status: string;
+  metric: string;
+  currentValue: number;
+  threshold: number;
+  description: string;
+  firstFired: string;
+}
+
 interface EmailConfig {
   from: string;
   service?: string;
@@ -314,6 +340,160 @@ class EmailService {
     return text;
   }
 
+  /**
+   * One combined email for everything a morning-digest user's teams triggered since the last digest
+   */
+  async sendMorningDigest(user: User, deals: DigestDeal[]): Promise<void> {
+    if (!user.email) {
+      throw new Error('User has no email address');
+    }
+
+    const teamNames = Array.from(new Set(deals.map(d => d.team.name)));
+    const subject = `☀️ Your Morning Deals: ${deals.length} Free Food Deal${deals.length > 1 ? 's' : ''} from ${teamNames.join(' & ')}`;
+
+    await this.sendEmailWithRetry({
+      from: process.env.EMAIL_FROM || 'alerts@free4all.com',
+      to: user.email,
+      subject,
+      html: this.generateMorningDigestHTML(user, deals, teamNames),
+      text: this.generateMorningDigestText(user, deals),
+    });
+
+    console.log(`Morning digest delivered to ${user.email} with ${deals.length} deals`);
+  }
+
+  private generateMorningDigestHTML(user: User, deals: DigestDeal[], teamNames: string[]): string {
+    const appUrl = process.env.APP_URL || 'https://free4all.com';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your Morning Deals</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #f3f4f6; }
+          .container { max-width: 600px; margin: 0 auto; background-color: white; }
+          .header { background: linear-gradient(135deg, #f59e0b, #f97316); color: white; padding: 32px 24px; text-align: center; }
+          .header h1 { margin: 0; font-size: 28px; font-weight: bold; }
+          .header p { margin: 16px 0 0 0; font-size: 16px; opacity: 0.9; }
+          .content { padding: 32px 24px; }
+          .team-heading { font-size: 16px; font-weight: 600; color: #374151; margin: 24px 0 12px 0; }
+          .deal-card { border: 1px solid #e5e7eb; border-radius: 12px; padding: 20px; margin-bottom: 16px; background: #f9fafb; }
+          .deal-title { font-size: 20px; font-weight: bold; color: #111827; margin-bottom: 8px; }
+          .deal-offer { font-size: 18px; font-weight: 600; color: #059669; margin-bottom: 12px; }
+          .deal-details { font-size: 14px; color: #6b7280; line-height: 1.5; }
+          .deal-code { background: #fef3c7; color: #92400e; padding: 8px 12px; border-radius: 6px; font-family: monospace; font-weight: bold; margin-top: 12px; display: inline-block; }
+          .cta-button { background: #1e40af; color: white; padding: 16px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; display: inline-block; margin: 24px 0; }
+          .footer { background: #f9fafb; padding: 24px; text-align: center; font-size: 12px; color: #6b7280; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>☀️ Good Morning!</h1>
+            <p>Your teams earned you ${deals.length} deal${deals.length > 1 ? 's' : ''} since yesterday's digest</p>
+          </div>
+
+          <div class="content">
+            <p>Hi ${user.firstName || 'there'},</p>
+            ${teamNames.map(teamName => `
+              <div class="team-heading">${teamName}</div>
+              ${deals.filter(d => d.team.name === teamName).map(({ promotion, restaurant, expiresAt }) => `
+                <div class="deal-card">
+                  <div class="deal-title">${restaurant.name}</div>
+                  <div class="deal-offer">${promotion.offerValue || promotion.title}</div>
+                  <div class="deal-details">
+                    <strong>Trigger:</strong> ${promotion.triggerCondition}<br>
+                    <strong>How to redeem:</strong> ${promotion.redemptionInstructions || 'Show this email in-store'}
+                    ${expiresAt ? `<br><strong>Expires:</strong> ${new Date(expiresAt).toLocaleString('en-US', { timeZone: user.timezone || 'America/Los_Angeles' })}` : ''}
+                  </div>
+                  ${promotion.promoCode ? `<div class="deal-code">Code: ${promotion.promoCode}</div>` : ''}
+                </div>
+              `).join('')}
+            `).join('')}
+
+            <div style="text-align: center;">
+              <a href="${appUrl}/wallet" class="cta-button">
+                Open My Wallet
+              </a>
+            </div>
+          </div>
+
+          <div class="footer">
+            <p>You're receiving this morning digest because of your alert timing preference.</p>
+            <p>Free4All • Never miss a great deal!</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateMorningDigestText(user: User, deals: DigestDeal[]): string {
+    let text = `☀️ GOOD MORNING!\n\n`;
+    text += `Hi ${user.firstName || 'there'},\n\n`;
+    text += `Your teams earned you ${deals.length} deal${deals.length > 1 ? 's' : ''} since yesterday's digest:\n\n`;
+
+    deals.forEach(({ promotion, restaurant, team }) => {
+      text += `${restaurant.name} (${team.name})\n`;
+      text += `${promotion.offerValue || promotion.title}\n`;
+      text += `How to redeem: ${promotion.redemptionInstructions || 'Show this email in-store'}\n`;
+      if (promotion.promoCode) {
+        text += `Code: ${promotion.promoCode}\n`;
+      }
+      text += `\n`;
+    });
+
+    text += `Open your wallet: ${process.env.APP_URL || 'https://free4all.com'}/wallet\n\n`;
+    text += `Free4All • Never miss a great deal!`;
+
+    return text;
+  }
+
+  /**
+   * Operational alert from the AlertManager's email channel
+   */
+  async sendOpsAlert(to: string, alert: OpsAlertEmail): Promise<void> {
+    const subject = `[${alert.severity.toUpperCase()}] ${alert.status === 'resolved' ? 'Resolved: ' : ''}${alert.ruleName}`;
+    const color = alert.severity === 'critical' ? '#dc2626' : alert.severity === 'warning' ? '#d97706' : '#2563eb';
+
+    const rows: Array<[string, string]> = [
+      ['Status', alert.status],
+      ['Metric', alert.metric],
+      ['Current value', String(alert.currentValue)],
+      ['Threshold', String(alert.threshold)],
+      ['First fired', alert.firstFired],
+      ['Alert ID', alert.alertId],
+    ];
+
+    await this.sendEmailWithRetry({
+      from: process.env.EMAIL_FROM || 'alerts@free4all.com',
+      to,
+      subject,
+      html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px;">
+          <div style="background: ${color}; color: white; padding: 16px 24px; border-radius: 8px 8px 0 0;">
+            <h2 style="margin: 0;">${subject}</h2>
+          </div>
+          <div style="border: 1px solid #e5e7eb; border-top: none; padding: 24px; border-radius: 0 0 8px 8px;">
+            <p style="margin-top: 0;">${alert.description}</p>
+            <table style="border-collapse: collapse; font-size: 14px;">
+              ${rows.map(([label, value]) => `
+                <tr>
+                  <td style="padding: 4px 16px 4px 0; color: #6b7280;">${label}</td>
+                  <td style="padding: 4px 0; font-family: monospace;">${value}</td>
+                </tr>
+              `).join('')}
+            </table>
+          </div>
+        </div>
+      `,
+      text: `${subject}\n\n${alert.description}\n\n${rows.map(([label, value]) => `${label}: ${value}`).join('\n')}`,
+    });
+  }
+
   async sendWelcomeEmail(user: User): Promise<void> {
     try {
       if (!user.email) return;
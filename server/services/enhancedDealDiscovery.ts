@@ -4,6 +4,7 @@ import puppeteer from 'puppeteer';
 import * as Tesseract from 'tesseract.js';
 import { createHash } from 'crypto';
 import { dealPatternMatcher } from './dealPatternMatcher';
+import { extractItemKeywords, generateSearchTerms } from './searchTermLifecycle';
 import fs from 'fs';
 import path from 'path';
 
@@ -102,6 +103,7 @@ export class EnhancedDealDiscoveryService {
     const teams = await storage.getActiveTeams();
     const existingPromotions = await storage.getPromotions();
     const allDeals: DiscoveredDeal[] = [];
+    await dealPatternMatcher.ensureLoaded();
 
     // Analyze existing deals to understand patterns we should look for
     console.log('📊 Analyzing existing deal patterns to improve discovery...');
@@ -195,7 +197,7 @@ export class EnhancedDealDiscoveryService {
                 teamName: team.name,
                 dealText: mention,
                 sourceUrl: restaurantConfig.website,
-                triggerCondition: this.extractTriggerCondition(mention),
+                triggerCondition: this.extractTriggerCondition(mention, team, restaurant),
                 confidence,
                 status: 'pending',
                 discoveredAt: new Date(),
@@ -280,7 +282,7 @@ export class EnhancedDealDiscoveryService {
                   teamName: team.name,
                   dealText: cleanText,
                   sourceUrl: image.src,
-                  triggerCondition: this.extractTriggerCondition(cleanText),
+                  triggerCondition: this.extractTriggerCondition(cleanText, team, restaurant),
                   confidence,
                   status: 'pending',
                   discoveredAt: new Date(),
@@ -387,10 +389,10 @@ export class EnhancedDealDiscoveryService {
         const pattern = {
           restaurantName: restaurant.name,
           teamName: team.name,
-          itemKeywords: this.extractItemKeywords(promo.title),
+          itemKeywords: extractItemKeywords(promo.title),
           triggerKeywords: this.extractTriggerKeywords(promo.triggerCondition),
           dealType: this.categorizePromotion(promo.title, promo.triggerCondition),
-          searchTerms: this.generateSearchTerms(restaurant.name, team.name, promo.title, promo.triggerCondition)
+          searchTerms: generateSearchTerms(restaurant.name, team.name, promo.title, promo.triggerCondition)
         };
         
         patterns.push(pattern);
@@ -401,24 +403,6 @@ export class EnhancedDealDiscoveryService {
     return patterns;
   }
 
-  private extractItemKeywords(title: string): string[] {
-    const keywords = [];
-    const lowerTitle = title.toLowerCase();
-    
-    // Food items
-    const foodItems = ['big mac', 'mcnuggets', 'fries', 'coffee', 'curly fries', 'taco', 'burger', 'drink', 'plate', 'chicken'];
-    foodItems.forEach(item => {
-      if (lowerTitle.includes(item)) keywords.push(item);
-    });
-    
-    // Free item indicators
-    if (lowerTitle.includes('free')) keywords.push('free');
-    if (lowerTitle.includes('discount')) keywords.push('discount');
-    if (lowerTitle.includes('special')) keywords.push('special');
-    
-    return keywords;
-  }
-
   private extractTriggerKeywords(triggerCondition: string): string[] {
     const keywords = [];
     const lowerCondition = triggerCondition.toLowerCase();
@@ -448,41 +432,6 @@ export class EnhancedDealDiscoveryService {
     return 'general_sports_promo';
   }
 
-  private generateSearchTerms(restaurantName: string, teamName: string, title: string, triggerCondition: string): string[] {
-    const terms = [];
-    
-    // Core search combinations
-    terms.push(`${restaurantName} ${teamName} deal`);
-    terms.push(`${restaurantName} ${teamName} promotion`);
-    terms.push(`${restaurantName} ${teamName} free`);
-    terms.push(`${restaurantName} sports deal`);
-    
-    // Specific trigger-based searches
-    if (triggerCondition.includes('home win')) {
-      terms.push(`${restaurantName} ${teamName} home win`);
-      terms.push(`${restaurantName} home game special`);
-    }
-    
-    if (triggerCondition.includes('runs') || triggerCondition.includes('score')) {
-      terms.push(`${restaurantName} ${teamName} score`);
-      terms.push(`${restaurantName} runs promotion`);
-    }
-    
-    if (triggerCondition.includes('strikeout')) {
-      terms.push(`${restaurantName} ${teamName} strikeout`);
-      terms.push(`${restaurantName} pitcher performance`);
-    }
-    
-    // Item-specific searches
-    const itemKeywords = this.extractItemKeywords(title);
-    itemKeywords.forEach(item => {
-      terms.push(`${restaurantName} free ${item} ${teamName}`);
-      terms.push(`${restaurantName} ${item} deal sports`);
-    });
-    
-    return Array.from(new Set(terms)); // Remove duplicates
-  }
-
   private generatePatternBasedDeals(restaurant: Restaurant, teams: Team[], pattern: any): DiscoveredDeal[] {
     const deals: DiscoveredDeal[] = [];
     
@@ -608,10 +557,9 @@ export class EnhancedDealDiscoveryService {
     return this.promoKeywords.some(keyword => text.includes(keyword));
   }
 
-  private extractTriggerCondition(text: string): string {
+  private extractTriggerCondition(text: string, team: Team, restaurant: Restaurant): string {
     // First try pattern matching for precise trigger extraction
-    const teams = [{ name: 'Dodgers', abbreviation: 'LAD', city: 'Los Angeles' }]; // Simplified for pattern matching
-    const patternMatch = dealPatternMatcher.matchDealPattern(text, 'McDonald\'s', 'Dodgers'); // Use as example
+    const patternMatch = dealPatternMatcher.matchDealPattern(text, restaurant.name, team.name);
     
     if (patternMatch.pattern) {
       const pattern = patternMatch.pattern;
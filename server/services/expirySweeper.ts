@@ -0,0 +1,309 @@
+import { storage, type IStorage } from "../storage";
+import {
+  promotionStateMachine,
+  PROMOTION_TRANSITIONS,
+  type PromotionStateMachine
+} from "./promotionStateMachine";
+import type { PromotionState } from "@shared/schema";
+
+/**
+ * Expiry Sweeper
+ * Deactivates triggered deals and deal pages past their expiry, moves
+ * promotions past validUntil to expired, and archives long-expired ones.
+ * Works in keyset batches so a backlog never loads every row at once.
+ */
+
+export interface ExpirySweeperConfig {
+  intervalMs: number;
+  batchSize: number;
+  /** Upper bound on batches per record type in a single run */
+  maxBatches: number;
+  /** Expired promotions are archived once validUntil is this many days old */
+  archiveAfterDays: number;
+}
+
+export interface ExpirySweepOptions {
+  dryRun?: boolean;
+  now?: Date;
+  trigger?: "scheduled" | "manual";
+}
+
+export interface ExpirySweepReport {
+  dryRun: boolean;
+  trigger: "scheduled" | "manual";
+  startedAt: string;
+  completedAt: string;
+  triggeredDealIds: number[];
+  dealPageIds: number[];
+  expiredPromotionIds: number[];
+  archivedPromotionIds: number[];
+  errors: string[];
+  runId?: number;
+}
+
+type ExpirySweeperStore = Pick<
+  IStorage,
+  | "getExpiredTriggeredDeals"
+  | "deactivateTriggeredDeals"
+  | "getExpiredDealPages"
+  | "deactivateDealPages"
+  | "getPromotionsValidBefore"
+  | "updatePromotion"
+  | "createExpirySweepRun"
+>;
+
+const ACTOR = "expiry_sweeper";
+
+// Promotions can only be expired from states with a direct edge to expired
+const EXPIRABLE_STATES = (Object.keys(PROMOTION_TRANSITIONS) as PromotionState[])
+  .filter(state => PROMOTION_TRANSITIONS[state].includes("expired"));
+
+const DEFAULT_CONFIG: ExpirySweeperConfig = {
+  intervalMs: 60 * 60 * 1000, // hourly
+  batchSize: 100,
+  maxBatches: 50,
+  archiveAfterDays: 30
+};
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class ExpirySweeper {
+  private config: ExpirySweeperConfig;
+  private isSweeping = false;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private lastRun: ExpirySweepReport | null = null;
+
+  constructor(
+    config: Partial<ExpirySweeperConfig> = {},
+    private readonly store: ExpirySweeperStore = storage,
+    private readonly stateMachine: Pick<PromotionStateMachine, "transition"> = promotionStateMachine
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the sweeper; runs once immediately, then every intervalMs
+   */
+  start(): void {
+    if (this.sweepInterval) {
+      console.log("Expiry sweeper already running");
+      return;
+    }
+
+    console.log("Starting expiry sweeper...");
+    this.runScheduled();
+    this.sweepInterval = setInterval(() => {
+      this.runScheduled();
+    }, this.config.intervalMs);
+  }
+
+  /**
+   * Stop the sweeper
+   */
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+    console.log("Expiry sweeper stopped");
+  }
+
+  isRunning(): boolean {
+    return this.sweepInterval !== null;
+  }
+
+  getStatus(): {
+    isRunning: boolean;
+    isSweeping: boolean;
+    config: ExpirySweeperConfig;
+    lastRun: ExpirySweepReport | null;
+  } {
+    return {
+      isRunning: this.isRunning(),
+      isSweeping: this.isSweeping,
+      config: { ...this.config },
+      lastRun: this.lastRun
+    };
+  }
+
+  /**
+   * Run one sweep. Dry runs only report what would change and are never
+   * recorded; real runs are written to expiry_sweep_runs.
+   */
+  async sweep(options: ExpirySweepOptions = {}): Promise<ExpirySweepReport> {
+    const dryRun = options.dryRun ?? false;
+
+    if (!dryRun && this.isSweeping) {
+      throw new Error("Expiry sweep already in progress");
+    }
+
+    if (!dryRun) this.isSweeping = true;
+
+    const now = options.now ?? new Date();
+    const report: ExpirySweepReport = {
+      dryRun,
+      trigger: options.trigger ?? "manual",
+      startedAt: new Date().toISOString(),
+      completedAt: "",
+      triggeredDealIds: [],
+      dealPageIds: [],
+      expiredPromotionIds: [],
+      archivedPromotionIds: [],
+      errors: []
+    };
+
+    try {
+      report.triggeredDealIds = await this.sweepBatches(
+        "triggered deals",
+        report,
+        afterId => this.store.getExpiredTriggeredDeals(now, afterId, this.config.batchSize),
+        batch => dryRun
+          ? Promise.resolve(batch.map(deal => deal.id))
+          : this.store.deactivateTriggeredDeals(batch.map(deal => deal.id))
+      );
+
+      report.dealPageIds = await this.sweepBatches(
+        "deal pages",
+        report,
+        afterId => this.store.getExpiredDealPages(now, afterId, this.config.batchSize),
+        batch => dryRun
+          ? Promise.resolve(batch.map(page => page.id))
+          : this.store.deactivateDealPages(batch.map(page => page.id))
+      );
+
+      // validUntil is a DATE and stays valid through that day
+      const today = toDateString(now);
+      report.expiredPromotionIds = await this.sweepBatches(
+        "promotions to expire",
+        report,
+        afterId => this.store.getPromotionsValidBefore(today, EXPIRABLE_STATES, afterId, this.config.batchSize),
+        batch => this.movePromotions(batch, "expired", dryRun, report, promotion => `validUntil ${promotion.validUntil} has passed`)
+      );
+
+      const archiveBefore = toDateString(new Date(now.getTime() - this.config.archiveAfterDays * 24 * 60 * 60 * 1000));
+      report.archivedPromotionIds = await this.sweepBatches(
+        "promotions to archive",
+        report,
+        afterId => this.store.getPromotionsValidBefore(archiveBefore, ["expired"], afterId, this.config.batchSize),
+        batch => this.movePromotions(batch, "archived", dryRun, report, promotion =>
+          `Expired more than ${this.config.archiveAfterDays} days ago (validUntil ${promotion.validUntil})`)
+      );
+    } finally {
+      report.completedAt = new Date().toISOString();
+      if (!dryRun) {
+        this.isSweeping = false;
+        await this.recordRun(report);
+        this.lastRun = report;
+      }
+    }
+
+    console.log(
+      `🧹 Expiry sweep${dryRun ? " (dry run)" : ""}: ` +
+      `${report.triggeredDealIds.length} triggered deals, ${report.dealPageIds.length} deal pages, ` +
+      `${report.expiredPromotionIds.length} promotions expired, ${report.archivedPromotionIds.length} archived`
+    );
+
+    return report;
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.isSweeping) {
+      console.log("Expiry sweep already in progress, skipping...");
+      return;
+    }
+
+    try {
+      await this.sweep({ trigger: "scheduled" });
+    } catch (error) {
+      console.error("Error during expiry sweep:", error);
+    }
+  }
+
+  /**
+   * Page through matching rows by id and hand each batch to `handle`,
+   * which returns the ids it actually changed
+   */
+  private async sweepBatches<T extends { id: number }>(
+    label: string,
+    report: ExpirySweepReport,
+    fetch: (afterId: number) => Promise<T[]>,
+    handle: (batch: T[]) => Promise<number[]>
+  ): Promise<number[]> {
+    const changed: number[] = [];
+    let afterId = 0;
+
+    for (let i = 0; i < this.config.maxBatches; i++) {
+      const batch = await fetch(afterId);
+      if (batch.length === 0) break;
+
+      try {
+        changed.push(...await handle(batch));
+      } catch (error) {
+        report.errors.push(`${label} batch after id ${afterId}: ${(error as Error).message}`);
+      }
+
+      afterId = batch[batch.length - 1].id;
+      if (batch.length < this.config.batchSize) break;
+
+      if (i === this.config.maxBatches - 1) {
+        report.errors.push(`${label}: stopped after ${this.config.maxBatches} batches, remainder left for the next run`);
+      }
+    }
+
+    return changed;
+  }
+
+  private async movePromotions<T extends { id: number; validUntil: string | null }>(
+    batch: T[],
+    to: "expired" | "archived",
+    dryRun: boolean,
+    report: ExpirySweepReport,
+    reason: (promotion: T) => string
+  ): Promise<number[]> {
+    if (dryRun) {
+      return batch.map(promotion => promotion.id);
+    }
+
+    const moved: number[] = [];
+    for (const promotion of batch) {
+      try {
+        await this.stateMachine.transition(promotion.id, to, { actor: ACTOR, reason: reason(promotion) });
+        if (to === "expired") {
+          await this.store.updatePromotion(promotion.id, { isActive: false });
+        }
+        moved.push(promotion.id);
+      } catch (error) {
+        report.errors.push(`promotion ${promotion.id} → ${to}: ${(error as Error).message}`);
+      }
+    }
+    return moved;
+  }
+
+  private async recordRun(report: ExpirySweepReport): Promise<void> {
+    try {
+      const run = await this.store.createExpirySweepRun({
+        trigger: report.trigger,
+        startedAt: new Date(report.startedAt),
+        completedAt: new Date(report.completedAt),
+        triggeredDealsDeactivated: report.triggeredDealIds.length,
+        dealPagesDeactivated: report.dealPageIds.length,
+        promotionsExpired: report.expiredPromotionIds.length,
+        promotionsArchived: report.archivedPromotionIds.length,
+        details: {
+          triggeredDealIds: report.triggeredDealIds,
+          dealPageIds: report.dealPageIds,
+          expiredPromotionIds: report.expiredPromotionIds,
+          archivedPromotionIds: report.archivedPromotionIds
+        },
+        errors: report.errors
+      });
+      report.runId = run.id;
+    } catch (error) {
+      console.error("Failed to record expiry sweep run:", error);
+    }
+  }
+}
+
+export const expirySweeper = new ExpirySweeper();
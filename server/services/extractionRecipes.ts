@@ -0,0 +1,407 @@
+/**
+ * Extraction Recipes
+ *
+ * Declarative per-site rules for pulling a deal out of a page: CSS selectors,
+ * regexes and field templates, plus image rules, keyed by domain or URL
+ * pattern and stored in the database. The fetch-based and Puppeteer engines
+ * both run recipes through runRecipe(), so supporting a new restaurant site is
+ * a data change, and a recipe can be tried against a saved HTML snapshot
+ * before it goes live.
+ */
+
+import { storage, type IStorage } from '../storage.js';
+import { StaticHtmlDocument, parseSelector, UnsupportedSelectorError, type RecipeDocument } from './staticHtmlDocument.js';
+import {
+  RECIPE_FIELDS,
+  type ExtractionRecipe,
+  type InsertExtractionRecipe,
+  type HtmlSnapshot,
+  type RecipeField,
+  type RecipeFieldRule,
+  type RecipeImageRule
+} from '@shared/schema';
+
+/**
+ * Where an extracted field came from: structured data on the page (see
+ * structuredData.ts), a site recipe, text heuristics, or a placeholder
+ * default nothing on the page supported
+ */
+export type ExtractionMethod = 'json-ld' | 'microdata' | 'opengraph' | 'recipe' | 'text' | 'default';
+
+export interface ExtractedDeal {
+  title: string;
+  restaurant: string;
+  offerDescription: string;
+  triggerCondition: string;
+  dealValue: string;
+  promoCode?: string;
+  instructions?: string;
+  terms?: string;
+  imageUrl?: string;
+  validFrom?: string; // ISO 8601, as published
+  validThrough?: string;
+  offerUrl?: string; // canonical offer page, when the page names one
+  sourceUrl: string;
+  confidence: number;
+  provenance?: DealProvenance;
+}
+
+export type DealField = Exclude<keyof ExtractedDeal, 'sourceUrl' | 'confidence' | 'provenance'>;
+export type DealProvenance = Partial<Record<DealField, ExtractionMethod>>;
+
+/** How one field got its value, for the recipe tester */
+export interface FieldTrace {
+  value: string | null;
+  matched: boolean; // false when the value is the rule's fallback (or missing)
+  selector?: string; // selector whose element supplied the text
+  source: 'selector' | 'page' | 'fallback' | 'none';
+}
+
+export interface RecipeRun {
+  deal: ExtractedDeal | null; // null when a required field did not match
+  fields: Record<RecipeField, FieldTrace>;
+  image: { url: string | null; selector?: string };
+  missingRequired: RecipeField[];
+}
+
+/** A recipe as runRecipe needs it; drafts being tested have no id yet */
+export type RecipeDefinition = Pick<ExtractionRecipe, 'restaurant' | 'fields'> &
+  Partial<Pick<ExtractionRecipe, 'name' | 'image' | 'requiredFields'>>;
+
+export type RecipeErrorCode = 'NOT_FOUND' | 'SNAPSHOT_NOT_FOUND' | 'INVALID_RECIPE' | 'FETCH_FAILED';
+
+export class RecipeError extends Error {
+  constructor(message: string, public readonly code: RecipeErrorCode) {
+    super(message);
+    this.name = 'RecipeError';
+  }
+}
+
+/**
+ * Persistence hooks, injectable for tests
+ */
+export interface ExtractionRecipeServiceDeps {
+  store: Pick<
+    IStorage,
+    | 'getExtractionRecipes'
+    | 'getExtractionRecipe'
+    | 'createExtractionRecipe'
+    | 'updateExtractionRecipe'
+    | 'deleteExtractionRecipe'
+    | 'createHtmlSnapshot'
+    | 'getHtmlSnapshot'
+    | 'getHtmlSnapshots'
+  >;
+  fetchHtml: (url: string) => Promise<string>;
+}
+
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Connection': 'keep-alive',
+  'Upgrade-Insecure-Requests': '1',
+};
+
+/** Fetch a page the way a desktop browser would; throws FETCH_FAILED on HTTP errors */
+export async function fetchPageHtml(url: string): Promise<string> {
+  const response = await fetch(url, { headers: BROWSER_HEADERS });
+  if (!response.ok) {
+    throw new RecipeError(`HTTP ${response.status} fetching ${url}`, 'FETCH_FAILED');
+  }
+  return await response.text();
+}
+
+// Extraction confidence: each field that matched (rather than fell back) adds its weight
+const CONFIDENCE_BASE = 0.3;
+const CONFIDENCE_WEIGHTS: Partial<Record<RecipeField | 'image', number>> = {
+  title: 0.2,
+  offer: 0.2,
+  trigger: 0.15,
+  value: 0.1,
+  image: 0.05
+};
+
+/** Whether the recipe applies to the URL: its domain (or a subdomain), or its URL pattern */
+export function recipeMatchesUrl(recipe: Pick<ExtractionRecipe, 'domain' | 'urlPattern'>, url: string): boolean {
+  let host = '';
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const domain = recipe.domain?.toLowerCase();
+  if (domain && (host === domain || host.endsWith(`.${domain}`))) {
+    return true;
+  }
+  return !!recipe.urlPattern && new RegExp(recipe.urlPattern, 'i').test(url);
+}
+
+function applyTemplate(match: RegExpMatchArray, template?: string): string {
+  if (template) {
+    return template.replace(/\{(\d)\}/g, (_, group: string) => match[Number(group)] ?? '');
+  }
+  return match[1] ?? match[0];
+}
+
+async function runField(doc: RecipeDocument, rule: RecipeFieldRule | undefined, pageText: string): Promise<FieldTrace> {
+  if (!rule) {
+    return { value: null, matched: false, source: 'none' };
+  }
+  const pattern = rule.pattern ? new RegExp(rule.pattern, 'i') : null;
+
+  // With a pattern, the first selected text the pattern matches wins; otherwise the first non-empty text
+  for (const selector of rule.selectors ?? []) {
+    const element = (await doc.select(selector)).find(el => el.text.length > 0 && (!pattern || pattern.test(el.text)));
+    if (element) {
+      const match = pattern ? element.text.match(pattern) : null;
+      return { value: match ? applyTemplate(match, rule.template).trim() : element.text, matched: true, selector, source: 'selector' };
+    }
+  }
+
+  const match = pattern ? pageText.match(pattern) : null;
+  if (match) {
+    return { value: applyTemplate(match, rule.template).trim(), matched: true, source: 'page' };
+  }
+  if (rule.fallback) {
+    return { value: rule.fallback, matched: false, source: 'fallback' };
+  }
+  return { value: null, matched: false, source: 'none' };
+}
+
+async function runImage(doc: RecipeDocument, rule: RecipeImageRule | null | undefined, url: string): Promise<{ url: string | null; selector?: string }> {
+  if (!rule) {
+    return { url: null };
+  }
+  const attribute = rule.attribute || 'src';
+  const absolute = (src: string) => {
+    try {
+      return new URL(src, url).href;
+    } catch {
+      return null;
+    }
+  };
+
+  for (const selector of rule.selectors ?? []) {
+    const src = (await doc.select(selector)).map(el => el.attributes[attribute]).find(Boolean);
+    if (src && absolute(src)) {
+      return { url: absolute(src), selector };
+    }
+  }
+  if (rule.keywords?.length) {
+    const keywords = rule.keywords.map(k => k.toLowerCase());
+    for (const img of await doc.select('img')) {
+      const markup = Object.values(img.attributes).join(' ').toLowerCase();
+      const src = img.attributes[attribute];
+      if (src && keywords.some(k => markup.includes(k)) && absolute(src)) {
+        return { url: absolute(src) };
+      }
+    }
+  }
+  return { url: null };
+}
+
+/**
+ * Run a recipe against a page. Fields that matched count towards confidence;
+ * fallbacks fill the deal but do not.
+ */
+export async function runRecipe(recipe: RecipeDefinition, doc: RecipeDocument, url: string): Promise<RecipeRun> {
+  const pageText = await doc.text();
+  const fields = {} as Record<RecipeField, FieldTrace>;
+  for (const field of RECIPE_FIELDS) {
+    fields[field] = await runField(doc, recipe.fields[field], pageText);
+  }
+  const image = await runImage(doc, recipe.image, url);
+
+  const missingRequired = (recipe.requiredFields ?? []).filter(field => !fields[field].matched);
+  if (missingRequired.length > 0) {
+    return { deal: null, fields, image, missingRequired };
+  }
+
+  let confidence = CONFIDENCE_BASE;
+  for (const field of RECIPE_FIELDS) {
+    if (fields[field].matched) confidence += CONFIDENCE_WEIGHTS[field] ?? 0;
+  }
+  if (image.url) confidence += CONFIDENCE_WEIGHTS.image ?? 0;
+
+  const value = (field: RecipeField) => fields[field].value ?? undefined;
+  const method = (field: RecipeField): ExtractionMethod => fields[field].matched ? 'recipe' : 'default';
+  const deal: ExtractedDeal = {
+    title: value('title') || `${recipe.restaurant} Deal`,
+    restaurant: recipe.restaurant,
+    offerDescription: value('offer') || 'Special promotional offer',
+    triggerCondition: value('trigger') || 'Team performance',
+    dealValue: value('value') || 'Special Price',
+    promoCode: value('code'),
+    instructions: value('instructions') || 'Present this offer at participating locations',
+    terms: value('terms') || 'Terms and conditions apply. Valid while supplies last.',
+    imageUrl: image.url ?? undefined,
+    sourceUrl: url,
+    confidence: Math.round(Math.min(confidence, 1.0) * 100) / 100,
+    provenance: {
+      title: method('title'),
+      restaurant: 'recipe',
+      offerDescription: method('offer'),
+      triggerCondition: method('trigger'),
+      dealValue: method('value'),
+      ...(fields.code.value ? { promoCode: method('code') } : {}),
+      instructions: method('instructions'),
+      terms: method('terms'),
+      ...(image.url ? { imageUrl: 'recipe' as const } : {})
+    }
+  };
+  return { deal, fields, image, missingRequired };
+}
+
+/** Whether the recipe has any field or image rules, or only maps a domain to its restaurant */
+export function recipeHasRules(recipe: RecipeDefinition): boolean {
+  return Object.keys(recipe.fields).length > 0 || !!recipe.image;
+}
+
+/**
+ * Check everything both engines will execute: regexes compile and selectors
+ * stay within the subset the static engine supports
+ */
+export function validateRecipe(recipe: Partial<InsertExtractionRecipe>): void {
+  const fail = (message: string) => {
+    throw new RecipeError(message, 'INVALID_RECIPE');
+  };
+  const checkRegex = (pattern: string, where: string) => {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      fail(`Invalid regex in ${where}: ${(error as Error).message}`);
+    }
+  };
+  const checkSelectors = (selectors: string[] | undefined, where: string) => {
+    for (const selector of selectors ?? []) {
+      try {
+        parseSelector(selector);
+      } catch (error) {
+        if (error instanceof UnsupportedSelectorError) fail(`${error.message} in ${where}`);
+        throw error;
+      }
+    }
+  };
+
+  if (recipe.urlPattern) checkRegex(recipe.urlPattern, 'urlPattern');
+  for (const [field, rule] of Object.entries(recipe.fields ?? {})) {
+    if (!RECIPE_FIELDS.includes(field as RecipeField)) fail(`Unknown field ${field}`);
+    if (rule?.pattern) checkRegex(rule.pattern, field);
+    checkSelectors(rule?.selectors, field);
+  }
+  checkSelectors(recipe.image?.selectors ?? undefined, 'image');
+}
+
+export class ExtractionRecipeService {
+  private deps: ExtractionRecipeServiceDeps;
+
+  constructor(deps: Partial<ExtractionRecipeServiceDeps> = {}) {
+    this.deps = {
+      store: storage,
+      fetchHtml: fetchPageHtml,
+      ...deps
+    };
+  }
+
+  async getRecipes(includeInactive: boolean = false): Promise<ExtractionRecipe[]> {
+    const recipes = await this.deps.store.getExtractionRecipes();
+    return recipes.filter(recipe => includeInactive || recipe.isActive !== false);
+  }
+
+  /** Highest-priority active recipe for the URL */
+  async findRecipe(url: string): Promise<ExtractionRecipe | undefined> {
+    return (await this.getRecipes()).find(recipe => recipeMatchesUrl(recipe, url));
+  }
+
+  async createRecipe(input: InsertExtractionRecipe): Promise<ExtractionRecipe> {
+    if (!input.domain && !input.urlPattern) {
+      throw new RecipeError('A recipe needs a domain or a URL pattern', 'INVALID_RECIPE');
+    }
+    validateRecipe(input);
+    const recipe = await this.deps.store.createExtractionRecipe(input);
+    console.log(`🧾 Created extraction recipe ${recipe.id} (${recipe.name}) for ${recipe.domain || recipe.urlPattern}`);
+    return recipe;
+  }
+
+  async updateRecipe(id: number, updates: Partial<InsertExtractionRecipe>): Promise<ExtractionRecipe> {
+    const existing = await this.deps.store.getExtractionRecipe(id);
+    if (!existing) {
+      throw new RecipeError(`Recipe ${id} not found`, 'NOT_FOUND');
+    }
+    const merged = { ...existing, ...updates };
+    if (!merged.domain && !merged.urlPattern) {
+      throw new RecipeError('A recipe needs a domain or a URL pattern', 'INVALID_RECIPE');
+    }
+    validateRecipe(merged);
+    return (await this.deps.store.updateExtractionRecipe(id, updates))!;
+  }
+
+  async deleteRecipe(id: number): Promise<void> {
+    if (!await this.deps.store.deleteExtractionRecipe(id)) {
+      throw new RecipeError(`Recipe ${id} not found`, 'NOT_FOUND');
+    }
+  }
+
+  /** Save a page's HTML for testing recipes; fetched when not supplied */
+  async captureSnapshot(url: string, html?: string, capturedBy?: string): Promise<HtmlSnapshot> {
+    const pageHtml = html ?? await this.deps.fetchHtml(url);
+    return await this.deps.store.createHtmlSnapshot({ url, html: pageHtml, capturedBy: capturedBy ?? null });
+  }
+
+  async getSnapshots(limit: number = 50): Promise<Omit<HtmlSnapshot, 'html'>[]> {
+    return await this.deps.store.getHtmlSnapshots(limit);
+  }
+
+  /**
+   * Run a saved recipe (recipeId) or a draft (recipe) against a saved snapshot
+   * (snapshotId) or pasted HTML. Nothing is stored.
+   */
+  async testRecipe(input: {
+    recipeId?: number;
+    recipe?: RecipeDefinition & Partial<InsertExtractionRecipe>;
+    snapshotId?: number;
+    html?: string;
+    url?: string;
+  }): Promise<RecipeRun & { recipeMatchesUrl: boolean | null }> {
+    let recipe: RecipeDefinition & Partial<InsertExtractionRecipe>;
+    if (input.recipeId !== undefined) {
+      const saved = await this.deps.store.getExtractionRecipe(input.recipeId);
+      if (!saved) {
+        throw new RecipeError(`Recipe ${input.recipeId} not found`, 'NOT_FOUND');
+      }
+      recipe = saved;
+    } else if (input.recipe) {
+      validateRecipe(input.recipe);
+      recipe = input.recipe;
+    } else {
+      throw new RecipeError('Give a recipeId or a draft recipe', 'INVALID_RECIPE');
+    }
+
+    let html = input.html;
+    let url = input.url;
+    if (input.snapshotId !== undefined) {
+      const snapshot = await this.deps.store.getHtmlSnapshot(input.snapshotId);
+      if (!snapshot) {
+        throw new RecipeError(`Snapshot ${input.snapshotId} not found`, 'SNAPSHOT_NOT_FOUND');
+      }
+      html = snapshot.html;
+      url = url ?? snapshot.url;
+    }
+    if (html === undefined) {
+      throw new RecipeError('Give a snapshotId or the HTML to test against', 'INVALID_RECIPE');
+    }
+
+    const pageUrl = url ?? 'https://example.com/';
+    const run = await runRecipe(recipe, new StaticHtmlDocument(html), pageUrl);
+    const keyed = recipe.domain !== undefined || recipe.urlPattern !== undefined;
+    return {
+      ...run,
+      recipeMatchesUrl: url && keyed ? recipeMatchesUrl({ domain: recipe.domain ?? null, urlPattern: recipe.urlPattern ?? null }, url) : null
+    };
+  }
+}
+
+// Global extraction recipe service instance
+export const extractionRecipeService = new ExtractionRecipeService();
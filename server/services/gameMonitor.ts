@@ -6,16 +6,20 @@
  * - Replay buffer & checkpoint persistence
  * - Event sourcing with immutable evidence trails
  * - Integration with Phase 1 Enhanced Sports API
+ * - Play-by-play events (strikeouts, home runs, steals, inning changes) for in-game triggers
  */
 
+import crypto from 'crypto';
 import { enhancedSportsApi, type GameData, type SourceResponse } from './enhancedSportsApiService.js';
 import { putImmutable } from './evidence/storage.js';
-import { storage } from '../storage.js';
+import { storage, type IStorage } from '../storage.js';
+import { mlbPlayFeed, type GamePlay, type PlayFeed } from './sports/playByPlay.js';
+import type { GameEventRecord } from '@shared/schema';
 
 export interface GameEvent {
   eventId: string;
   gameId: string;
-  eventType: 'game_start' | 'game_end' | 'status_change' | 'score_change';
+  eventType: 'game_start' | 'game_end' | 'status_change' | 'score_change' | 'play';
   timestamp: string;
   previousState?: GameData;
   currentState: GameData;
@@ -25,6 +29,18 @@ export interface GameEvent {
   evidenceHash?: string;
 }
 
+/**
+ * A single in-game play, delivered between the state events of its game
+ */
+export interface PlayEvent extends GameEvent {
+  eventType: 'play';
+  play: GamePlay;
+}
+
+export function isPlayEvent(event: GameEvent): event is PlayEvent {
+  return event.eventType === 'play' && 'play' in event;
+}
+
 export interface GameMonitorCheckpoint {
   checkpointId: string;
   timestamp: string;
@@ -43,9 +59,67 @@ export interface GameMonitorConfig {
   replayBufferSize: number;
   maxRetryAttempts: number;
   checkpointIntervalMs: number;
+  checkpointRetentionMs: number;
   enableRealtimeMode: boolean;
 }
 
+/**
+ * Immutable evidence stored for every detected event; its hash is kept on the event
+ */
+export interface GameEventEvidence {
+  type: 'game_event';
+  eventId: string;
+  gameId: string;
+  eventType: GameEvent['eventType'];
+  timestamp: string;
+  previousState?: GameData;
+  currentState: GameData;
+  play?: GamePlay;
+  triggered: boolean;
+  metadata: {
+    monitorVersion: string;
+    detectedAt: string;
+  };
+}
+
+/**
+ * Everything the monitor stores as immutable evidence: detected events and checkpoints
+ */
+export type GameMonitorEvidence =
+  | GameEventEvidence
+  | { type: 'game_monitor_checkpoint'; checkpoint: GameMonitorCheckpoint; timestamp: string };
+
+/**
+ * Outcome a consumer reports for a delivered event
+ */
+export interface GameEventAcknowledgement {
+  status: 'completed' | 'failed';
+  processingTimeMs?: number;
+  error?: string;
+}
+
+/**
+ * Event store, sports data and evidence dependencies, injectable for tests
+ */
+export interface GameMonitorDeps {
+  store: Pick<
+    IStorage,
+    | 'getActiveTeams'
+    | 'insertGameEvent'
+    | 'updateGameEvent'
+    | 'getGameEvents'
+    | 'getLatestGameEvent'
+    | 'getGamePlayIds'
+    | 'getReplayableGameEvents'
+    | 'createGameMonitorCheckpoint'
+    | 'getLatestGameMonitorCheckpoint'
+    | 'deleteGameMonitorCheckpointsBefore'
+  >;
+  sportsApi: Pick<typeof enhancedSportsApi, 'getGameData'>;
+  playFeed: PlayFeed;
+  putEvidence: (evidence: GameMonitorEvidence) => Promise<{ hash: string }>;
+}
+
 export class GameMonitor {
   private config: GameMonitorConfig;
   private isRunning = false;
@@ -55,16 +129,30 @@ export class GameMonitor {
   private pollTimer?: NodeJS.Timeout;
   private checkpointTimer?: NodeJS.Timeout;
   private eventListeners: ((event: GameEvent) => void)[] = [];
-
-  constructor(config: Partial<GameMonitorConfig> = {}) {
+  private consumer?: (event: GameEvent) => void;
+  private gameStates = new Map<string, GameData>();
+  private seenPlayIds = new Map<string, Set<string>>();
+  private lastProcessedEventId = '';
+  private stats = { eventsProcessed: 0, eventsSkipped: 0, eventsFailed: 0, averageProcessingTime: 0 };
+  private deps: GameMonitorDeps;
+
+  constructor(config: Partial<GameMonitorConfig> = {}, deps: Partial<GameMonitorDeps> = {}) {
     this.config = {
       pollIntervalMs: 30000, // 30 seconds
       replayBufferSize: 1000,
       maxRetryAttempts: 3,
       checkpointIntervalMs: 60000, // 1 minute
+      checkpointRetentionMs: 24 * 60 * 60 * 1000, // 1 day
       enableRealtimeMode: true,
       ...config
     };
+    this.deps = {
+      store: storage,
+      sportsApi: enhancedSportsApi,
+      playFeed: mlbPlayFeed,
+      putEvidence: putImmutable,
+      ...deps
+    };
   }
 
   /**
@@ -145,6 +233,22 @@ export class GameMonitor {
     this.eventListeners.push(listener);
   }
 
+  /**
+   * Register the consumer that acknowledges events. It receives live events
+   * like any listener, and stored events nobody acknowledged are replayed to
+   * it alone, since only an acknowledgement settles them.
+   */
+  async registerConsumer(consumer: (event: GameEvent) => void): Promise<void> {
+    if (this.consumer) {
+      this.removeEventListener(this.consumer);
+    }
+    this.consumer = consumer;
+    this.addEventListener(consumer);
+
+    // Redeliver events no consumer acknowledged before the last shutdown
+    await this.replayUnprocessedEvents(consumer);
+  }
+
   /**
    * Remove event listener
    */
@@ -153,6 +257,9 @@ export class GameMonitor {
     if (index > -1) {
       this.eventListeners.splice(index, 1);
     }
+    if (listener === this.consumer) {
+      this.consumer = undefined;
+    }
   }
 
   /**
@@ -166,6 +273,50 @@ export class GameMonitor {
     await this.checkGameState(gameId);
   }
 
+  /**
+   * Record a consumer's outcome for a delivered event. Events stay replayable
+   * until acknowledged as completed or they fail maxRetryAttempts times.
+   */
+  async acknowledgeEvent(eventId: string, ack: GameEventAcknowledgement): Promise<void> {
+    const event = this.eventBuffer.find(e => e.eventId === eventId);
+
+    if (ack.status === 'completed') {
+      this.stats.eventsProcessed++;
+      this.lastProcessedEventId = eventId;
+      if (ack.processingTimeMs !== undefined) {
+        this.stats.averageProcessingTime +=
+          (ack.processingTimeMs - this.stats.averageProcessingTime) / this.stats.eventsProcessed;
+      }
+      await this.deps.store.updateGameEvent(eventId, {
+        processingStatus: 'completed',
+        error: null,
+        processedAt: new Date()
+      });
+    } else {
+      this.stats.eventsFailed++;
+      const stored = await this.deps.store.updateGameEvent(eventId, {
+        processingStatus: 'failed',
+        error: ack.error ?? null,
+        processedAt: new Date()
+      });
+      if (stored && stored.retryCount >= this.config.maxRetryAttempts) {
+        console.error(`❌ Game event ${eventId} failed ${stored.retryCount} deliveries; no further replays`);
+      }
+    }
+
+    if (event) {
+      event.processingStatus = ack.status;
+    }
+  }
+
+  /**
+   * Stored events for a game, oldest first
+   */
+  async getGameEvents(gameId: string): Promise<GameEvent[]> {
+    const records = await this.deps.store.getGameEvents(gameId);
+    return records.map(record => this.fromRecord(record));
+  }
+
   /**
    * Get current monitoring status
    */
@@ -220,7 +371,7 @@ export class GameMonitor {
   private async checkGameState(gameId: string): Promise<GameEvent[]> {
     try {
       // Get current game state from enhanced sports API
-      const currentStateResult = await enhancedSportsApi.getGameData(gameId, {
+      const currentStateResult = await this.deps.sportsApi.getGameData(gameId, {
         useConditionalRequest: true,
         timeout: 5000
       });
@@ -240,21 +391,33 @@ export class GameMonitor {
       // Find previous state from our database/cache
       const previousState = await this.getPreviousGameState(gameId);
       
-      // Detect changes
-      const events = this.detectGameStateChanges(gameId, previousState, currentConsensus.gameData);
+      // Detect changes; plays go after the start and before the end so a
+      // walk-off home run is delivered ahead of game_end
+      const stateEvents = this.detectGameStateChanges(gameId, previousState, currentConsensus.gameData);
+      const playEvents = previousState?.status.isFinal
+        ? []
+        : await this.detectPlays(gameId, previousState, currentConsensus.gameData);
+      const events = [
+        ...stateEvents.filter(e => e.eventType !== 'game_end'),
+        ...playEvents,
+        ...stateEvents.filter(e => e.eventType === 'game_end')
+      ];
       
-      // Store events with evidence
+      // Store events with evidence; a change already stored is not delivered again
+      const stored: GameEvent[] = [];
       for (const event of events) {
-        await this.storeGameEvent(event);
-        this.notifyEventListeners(event);
+        if (await this.storeGameEvent(event)) {
+          stored.push(event);
+          this.notifyEventListeners(event);
+        }
       }
 
       // Update stored game state
-      if (events.length > 0) {
+      if (stateEvents.length > 0) {
         await this.updateStoredGameState(gameId, currentConsensus.gameData);
       }
 
-      return events;
+      return stored;
 
     } catch (error) {
       console.error(`Error checking game state for ${gameId}:`, error);
@@ -272,11 +435,15 @@ export class GameMonitor {
   ): GameEvent[] {
     const events: GameEvent[] = [];
     const timestamp = new Date().toISOString();
+    // Event ids are derived from the state change itself, so the same change seen
+    // twice (overlapping polls, a restart) produces the same id and is stored once
+    const scoreKey = `${currentState.teams.away.score}-${currentState.teams.home.score}`;
+    const statusKey = crypto.createHash('sha256').update(JSON.stringify(currentState.status)).digest('hex').slice(0, 12);
 
     // Game just started
     if (!previousState && currentState.status && !currentState.status.isFinal) {
       events.push({
-        eventId: `${gameId}_start_${Date.now()}`,
+        eventId: `${gameId}_start`,
         gameId,
         eventType: 'game_start',
         timestamp,
@@ -290,7 +457,7 @@ export class GameMonitor {
     // Game just ended
     if (previousState && !previousState.status.isFinal && currentState.status.isFinal) {
       events.push({
-        eventId: `${gameId}_end_${Date.now()}`,
+        eventId: `${gameId}_end`,
         gameId,
         eventType: 'game_end',
         timestamp,
@@ -305,7 +472,7 @@ export class GameMonitor {
     // Score changed
     if (previousState && this.hasScoreChanged(previousState, currentState)) {
       events.push({
-        eventId: `${gameId}_score_${Date.now()}`,
+        eventId: `${gameId}_score_${scoreKey}`,
         gameId,
         eventType: 'score_change',
         timestamp,
@@ -322,7 +489,7 @@ export class GameMonitor {
         previousState.status.isFinal === currentState.status.isFinal &&
         JSON.stringify(previousState.status) !== JSON.stringify(currentState.status)) {
       events.push({
-        eventId: `${gameId}_status_${Date.now()}`,
+        eventId: `${gameId}_status_${statusKey}`,
         gameId,
         eventType: 'status_change',
         timestamp,
@@ -337,6 +504,48 @@ export class GameMonitor {
     return events;
   }
 
+  /**
+   * Plays not yet seen for this game, by play id. Seen ids are loaded from the
+   * stored play events the first time a game is polled, so plays stored before
+   * a restart are not detected again.
+   */
+  private async detectPlays(gameId: string, previousState: GameData | null, currentState: GameData): Promise<PlayEvent[]> {
+    let plays: GamePlay[] | null;
+    try {
+      plays = await this.deps.playFeed.getPlays(gameId);
+    } catch (error) {
+      console.error(`Error fetching plays for game ${gameId}:`, (error as Error).message);
+      return [];
+    }
+    if (!plays) {
+      return [];
+    }
+
+    // Feeds can fill in or reorder plays between polls, so a position is not enough
+    let seen = this.seenPlayIds.get(gameId);
+    if (!seen) {
+      // Start from the stored plays, or a restart would re-detect (and re-store evidence for) all of them
+      seen = new Set(await this.deps.store.getGamePlayIds(gameId));
+      this.seenPlayIds.set(gameId, seen);
+    }
+    const newPlays = plays.filter(play => !seen.has(play.playId));
+    newPlays.forEach(play => seen.add(play.playId));
+    const timestamp = new Date().toISOString();
+
+    return newPlays.map(play => ({
+      eventId: `${gameId}_play_${play.playId}`,
+      gameId,
+      eventType: 'play' as const,
+      timestamp,
+      previousState: previousState ?? undefined,
+      currentState,
+      play,
+      triggered: true,
+      processingStatus: 'pending' as const,
+      retryCount: 0
+    }));
+  }
+
   /**
    * Check if score has changed between states
    */
@@ -348,12 +557,17 @@ export class GameMonitor {
   }
 
   /**
-   * Store game event with evidence
+   * Store game event with evidence; returns false when the eventId was already stored
    */
-  private async storeGameEvent(event: GameEvent): Promise<void> {
+  private async storeGameEvent(event: GameEvent): Promise<boolean> {
+    if (this.eventBuffer.some(e => e.eventId === event.eventId)) {
+      this.stats.eventsSkipped++;
+      return false;
+    }
+
     try {
       // Create event evidence
-      const eventEvidence = {
+      const eventEvidence: GameEventEvidence = {
         type: 'game_event',
         eventId: event.eventId,
         gameId: event.gameId,
@@ -361,6 +575,7 @@ export class GameMonitor {
         timestamp: event.timestamp,
         previousState: event.previousState,
         currentState: event.currentState,
+        play: isPlayEvent(event) ? event.play : undefined,
         triggered: event.triggered,
         metadata: {
           monitorVersion: '2.1.1',
@@ -368,13 +583,38 @@ export class GameMonitor {
         }
       };
 
-      const evidenceResult = await putImmutable(eventEvidence);
+      const evidenceResult = await this.deps.putEvidence(eventEvidence);
       event.evidenceHash = evidenceResult.hash;
 
+      // Nothing consumes non-triggering events, so they need no acknowledgement
+      if (!event.triggered) {
+        event.processingStatus = 'completed';
+      }
+
+      const inserted = await this.deps.store.insertGameEvent({
+        eventId: event.eventId,
+        gameId: event.gameId,
+        eventType: event.eventType,
+        triggered: event.triggered,
+        processingStatus: event.processingStatus,
+        retryCount: event.retryCount,
+        previousState: event.previousState ?? null,
+        currentState: event.currentState,
+        play: isPlayEvent(event) ? event.play : null,
+        evidenceHash: event.evidenceHash,
+        occurredAt: new Date(event.timestamp)
+      });
+      if (!inserted) {
+        this.stats.eventsSkipped++;
+        console.log(`⏭️ Skipping duplicate ${event.eventType} event ${event.eventId}`);
+        return false;
+      }
+
       // Add to replay buffer
       this.addToReplayBuffer(event);
 
       console.log(`📝 Stored ${event.eventType} event for game ${event.gameId} (evidence: ${evidenceResult.hash})`);
+      return true;
 
     } catch (error) {
       console.error(`Failed to store game event ${event.eventId}:`, error);
@@ -382,6 +622,53 @@ export class GameMonitor {
     }
   }
 
+  /**
+   * Redeliver stored events that were never acknowledged, or failed under the
+   * retry limit, to the acknowledging consumer in the order they were detected
+   */
+  private async replayUnprocessedEvents(consumer: (event: GameEvent) => void): Promise<void> {
+    const records = await this.deps.store.getReplayableGameEvents(this.config.maxRetryAttempts);
+    if (records.length === 0) {
+      return;
+    }
+
+    console.log(`🔁 Replaying ${records.length} unprocessed game events after ${this.lastProcessedEventId || 'the start of the log'}`);
+    for (const record of records) {
+      const event = this.fromRecord(record);
+      event.retryCount++;
+      event.processingStatus = 'processing';
+      await this.deps.store.updateGameEvent(event.eventId, {
+        processingStatus: 'processing',
+        retryCount: event.retryCount
+      });
+      this.addToReplayBuffer(event);
+      try {
+        consumer(event);
+      } catch (error) {
+        console.error('Error in event consumer:', error);
+      }
+    }
+  }
+
+  private fromRecord(record: GameEventRecord): GameEvent {
+    const event: GameEvent = {
+      eventId: record.eventId,
+      gameId: record.gameId,
+      eventType: record.eventType as GameEvent['eventType'],
+      timestamp: record.occurredAt.toISOString(),
+      previousState: (record.previousState as GameData | null) ?? undefined,
+      currentState: record.currentState as GameData,
+      triggered: record.triggered,
+      processingStatus: record.processingStatus as GameEvent['processingStatus'],
+      retryCount: record.retryCount,
+      evidenceHash: record.evidenceHash ?? undefined
+    };
+    if (record.play) {
+      return { ...event, eventType: 'play', play: record.play as GamePlay } as PlayEvent;
+    }
+    return event;
+  }
+
   /**
    * Add event to replay buffer with size management
    */
@@ -413,7 +700,7 @@ export class GameMonitor {
   private async loadActiveGames(): Promise<void> {
     try {
       // Get all active teams
-      const teams = await storage.getActiveTeams();
+      const teams = await this.deps.store.getActiveTeams();
       
       // For now, we'll monitor recent/live games
       // In production, this would connect to a live game feed
@@ -435,17 +722,27 @@ export class GameMonitor {
    * Get previous game state from storage
    */
   private async getPreviousGameState(gameId: string): Promise<GameData | null> {
-    // This would typically query a cache or database
-    // For now, return null to trigger initial events
-    return null;
+    const cached = this.gameStates.get(gameId);
+    if (cached) {
+      return cached;
+    }
+
+    // The latest stored event carries the last state we acted on
+    const latest = await this.deps.store.getLatestGameEvent(gameId);
+    if (!latest) {
+      return null;
+    }
+    const state = latest.currentState as GameData;
+    this.gameStates.set(gameId, state);
+    return state;
   }
 
   /**
    * Update stored game state
    */
   private async updateStoredGameState(gameId: string, gameData: GameData): Promise<void> {
-    // Store the current game state for future comparisons
-    // This would typically go to a fast cache (Redis) or database
+    // Durable copy lives in the event store; this cache saves a query per poll
+    this.gameStates.set(gameId, gameData);
     console.log(`💾 Updated stored state for game ${gameId}`);
   }
 
@@ -453,35 +750,54 @@ export class GameMonitor {
    * Load last checkpoint from storage
    */
   private async loadLastCheckpoint(): Promise<void> {
-    // This would load from persistent storage
-    // For now, start fresh
     console.log('📂 Loading last checkpoint...');
+
+    const record = await this.deps.store.getLatestGameMonitorCheckpoint();
+    if (!record) {
+      console.log('📂 No checkpoint found, starting fresh');
+      return;
+    }
+
+    this.lastCheckpoint = {
+      checkpointId: record.checkpointId,
+      timestamp: record.createdAt.toISOString(),
+      lastProcessedEventId: record.lastProcessedEventId || '',
+      gamesMonitored: record.gamesMonitored || [],
+      processingStats: record.processingStats
+    };
+    this.lastProcessedEventId = this.lastCheckpoint.lastProcessedEventId;
+    this.lastCheckpoint.gamesMonitored.forEach(gameId => this.monitoredGames.add(gameId));
+
+    console.log(`📂 Resumed from ${record.checkpointId} (last processed: ${this.lastProcessedEventId || 'none'})`);
   }
 
   /**
    * Save checkpoint to persistent storage
    */
   private async saveCheckpoint(): Promise<void> {
-    if (!this.isRunning) return;
-
     const checkpoint: GameMonitorCheckpoint = {
       checkpointId: `checkpoint_${Date.now()}`,
       timestamp: new Date().toISOString(),
-      lastProcessedEventId: this.eventBuffer[this.eventBuffer.length - 1]?.eventId || '',
+      lastProcessedEventId: this.lastProcessedEventId,
       gamesMonitored: Array.from(this.monitoredGames),
-      processingStats: {
-        eventsProcessed: this.eventBuffer.length,
-        eventsSkipped: 0,
-        eventsFailed: 0,
-        averageProcessingTime: 0
-      }
+      processingStats: { ...this.stats }
     };
 
     this.lastCheckpoint = checkpoint;
     
-    // Store checkpoint as evidence
+    // Persist the checkpoint and store it as evidence
     try {
-      await putImmutable({
+      await this.deps.store.createGameMonitorCheckpoint({
+        checkpointId: checkpoint.checkpointId,
+        lastProcessedEventId: checkpoint.lastProcessedEventId || null,
+        gamesMonitored: checkpoint.gamesMonitored,
+        processingStats: checkpoint.processingStats
+      });
+      await this.deps.store.deleteGameMonitorCheckpointsBefore(
+        new Date(Date.now() - this.config.checkpointRetentionMs)
+      );
+
+      await this.deps.putEvidence({
         type: 'game_monitor_checkpoint',
         checkpoint,
         timestamp: new Date().toISOString()
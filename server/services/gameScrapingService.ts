@@ -95,7 +95,7 @@ class GameScrapingService {
       teamScore: teamScore || 0,
       opponentScore: opponentScore || 0,
       isComplete: gameData.isComplete,
-      gameStats: gameData.stats || {},
+      gameStats: gameData.teamStats?.[isHome ? 'home' : 'away'] || gameData.stats || {},
       externalId: gameData.id
     };
   }
@@ -3,13 +3,14 @@
  * 
  * Comprehensive health monitoring across all Phase 1 and Phase 2.1 components:
  * - Circuit breaker coordination for degraded mode
- * - Automated recovery scripts for common failure modes
+ * - Automated recovery playbooks for common failure modes (see recoveryPlaybooks.ts)
  * - Deep integration health checks
  * - Performance threshold monitoring
  */
 
 import { circuitBreakers } from '../lib/circuitBreaker.js';
 import { apiRateLimiters } from '../lib/rateLimiter.js';
+import { sportsProviders } from './sports/providers/index.js';
 import { checkStorageHealth } from './evidence/storage.js';
 import { consensusEngine } from './consensusEngine.js';
 import { gameMonitor } from './gameMonitor.js';
@@ -19,6 +20,7 @@ import { enhancedSportsApi } from './enhancedSportsApiService.js';
 import { validationService } from './validationService.js';
 import { storage } from '../storage.js';
 import { putImmutable } from './evidence/storage.js';
+import { recoveryPlaybooks, RecoveryPlaybookError, type RecoveryTrigger } from './recoveryPlaybooks.js';
 
 export interface ComponentHealth {
   component: string;
@@ -71,6 +73,11 @@ export interface RecoveryAction {
   executedAt?: string;
   result?: 'success' | 'failure';
   error?: string;
+  playbookId?: string;
+  trigger?: RecoveryTrigger;
+  requestedBy?: string;
+  reason?: string;
+  durationMs?: number;
 }
 
 export class HealthCheckSystem {
@@ -78,7 +85,6 @@ export class HealthCheckSystem {
   private checkTimer?: NodeJS.Timeout;
   private isRunning = false;
   private lastSystemHealth?: SystemHealth;
-  private recoveryActions: RecoveryAction[] = [];
 
   constructor(config: Partial<HealthCheckConfig> = {}) {
     this.config = {
@@ -157,7 +163,7 @@ export class HealthCheckSystem {
    * Get recent recovery actions
    */
   getRecoveryActions(): RecoveryAction[] {
-    return [...this.recoveryActions];
+    return recoveryPlaybooks.getRecentActions();
   }
 
   /**
@@ -171,19 +177,19 @@ export class HealthCheckSystem {
   /**
    * Manually trigger recovery for a component
    */
-  async triggerRecovery(component: string, actionType: RecoveryAction['action']): Promise<RecoveryAction> {
+  async triggerRecovery(
+    component: string,
+    actionType: RecoveryAction['action'],
+    requestedBy?: string
+  ): Promise<RecoveryAction> {
     console.log(`🔧 Manual recovery triggered for ${component}: ${actionType}`);
-    
-    const action: RecoveryAction = {
-      actionId: `manual_${component}_${actionType}_${Date.now()}`,
-      component,
-      action: actionType,
-      description: `Manual ${actionType} for ${component}`,
-      automatable: true,
-      executed: false
-    };
 
-    return this.executeRecoveryAction(action);
+    const playbook = recoveryPlaybooks.find(component, actionType);
+    if (!playbook) {
+      throw new RecoveryPlaybookError(`No ${actionType} playbook for ${component}`, 'NOT_FOUND');
+    }
+
+    return recoveryPlaybooks.run(playbook.playbookId, { trigger: 'manual', requestedBy });
   }
 
   /**
@@ -374,8 +380,7 @@ export class HealthCheckSystem {
     
     try {
       const rateLimiterStatus = {
-        espn: apiRateLimiters.espn.getStatus(),
-        mlb: apiRateLimiters.mlb.getStatus(),
+        ...sportsProviders.getRateLimitStatus(),
         google: apiRateLimiters.google.getStatus(),
         twitter: apiRateLimiters.twitter.getStatus()
       };
@@ -750,11 +755,18 @@ export class HealthCheckSystem {
 
       // This will likely fail, but we're testing that the API structure is working
       const responseTime = Date.now() - startTime;
+      const sourceHealth = await enhancedSportsApi.getSourceHealth();
       
       let status: ComponentHealth['status'];
       const issues: string[] = [];
       const recommendations: string[] = [];
 
+      const unavailable = Object.values(sourceHealth.sources).filter(source => !source.available);
+      if (unavailable.length > 0) {
+        issues.push(`Providers unavailable: ${unavailable.map(source => source.name).join(', ')}`);
+        recommendations.push('Check provider circuit breakers');
+      }
+
       // Since this is a test with fake game ID, we expect it to fail gracefully
       if (responseTime < this.config.responseTimeThreshold) {
         status = 'healthy';
@@ -768,6 +780,10 @@ export class HealthCheckSystem {
         recommendations.push('Check API connectivity');
       }
 
+      if (unavailable.length > 0 && status === 'healthy') {
+        status = unavailable.length === Object.keys(sourceHealth.sources).length ? 'unhealthy' : 'degraded';
+      }
+
       return {
         component: 'Enhanced Sports API',
         status,
@@ -780,7 +796,8 @@ export class HealthCheckSystem {
             success: testResult.success,
             sourcesCount: testResult.sources?.length || 0,
             error: testResult.error
-          }
+          },
+          providers: sourceHealth.sources
         },
         issues,
         recommendations
@@ -958,7 +975,7 @@ export class HealthCheckSystem {
   }
 
   /**
-   * Trigger automatic recovery actions
+   * Trigger automatic recovery playbooks for unhealthy components
    */
   private async triggerAutomaticRecovery(systemHealth: SystemHealth): Promise<void> {
     console.log('🔧 Triggering automatic recovery actions...');
@@ -966,123 +983,12 @@ export class HealthCheckSystem {
     const unhealthyComponents = systemHealth.components.filter(c => c.status === 'unhealthy');
     
     for (const component of unhealthyComponents) {
-      const recoveryActions = this.determineRecoveryActions(component);
+      const actions = await recoveryPlaybooks.runAutomatic(component);
       
-      for (const action of recoveryActions) {
-        if (action.automatable) {
-          await this.executeRecoveryAction(action);
-        } else {
-          console.log(`⚠️ Manual intervention required for ${component.component}: ${action.description}`);
-        }
-      }
-    }
-  }
-
-  /**
-   * Determine recovery actions for a component
-   */
-  private determineRecoveryActions(component: ComponentHealth): RecoveryAction[] {
-    const actions: RecoveryAction[] = [];
-    const timestamp = Date.now();
-
-    switch (component.component) {
-      case 'Circuit Breakers':
-        if (component.issues.some(i => i.includes('services failed'))) {
-          actions.push({
-            actionId: `reset_cb_${timestamp}`,
-            component: component.component,
-            action: 'reset_circuit_breaker',
-            description: 'Reset failed circuit breakers',
-            automatable: true,
-            executed: false
-          });
-        }
-        break;
-
-      case 'Rate Limiters':
-        if (component.issues.some(i => i.includes('exhausted'))) {
-          actions.push({
-            actionId: `reset_rl_${timestamp}`,
-            component: component.component,
-            action: 'reset_rate_limiter',
-            description: 'Reset exhausted rate limiters',
-            automatable: true,
-            executed: false
-          });
-        }
-        break;
-
-      case 'Game Monitor':
-        if (component.issues.some(i => i.includes('not running'))) {
-          actions.push({
-            actionId: `restart_gm_${timestamp}`,
-            component: component.component,
-            action: 'restart',
-            description: 'Restart game monitor service',
-            automatable: false, // Requires manual intervention
-            executed: false
-          });
-        }
-        break;
-
-      default:
-        actions.push({
-          actionId: `investigate_${component.component.toLowerCase().replace(/\s+/g, '_')}_${timestamp}`,
-          component: component.component,
-          action: 'custom',
-          description: `Investigate ${component.component} issues`,
-          automatable: false,
-          executed: false
-        });
-    }
-
-    return actions;
-  }
-
-  /**
-   * Execute a recovery action
-   */
-  private async executeRecoveryAction(action: RecoveryAction): Promise<RecoveryAction> {
-    console.log(`🔧 Executing recovery action: ${action.description}`);
-    
-    action.executed = true;
-    action.executedAt = new Date().toISOString();
-
-    try {
-      switch (action.action) {
-        case 'reset_circuit_breaker':
-          circuitBreakers.forceAllClosed();
-          action.result = 'success';
-          break;
-
-        case 'reset_rate_limiter':
-          // Note: Current rate limiter doesn't have reset method
-          // This would be implemented based on rate limiter capabilities
-          action.result = 'success';
-          break;
-
-        case 'clear_cache':
-          // Implement cache clearing if needed
-          action.result = 'success';
-          break;
-
-        default:
-          action.result = 'success';
-          console.log(`ℹ️ Recovery action ${action.action} completed (no-op)`);
+      if (actions.length === 0) {
+        console.log(`⚠️ Manual intervention required for ${component.component}: ${component.issues.join('; ')}`);
       }
-
-      this.recoveryActions.push(action);
-      console.log(`✅ Recovery action completed: ${action.description}`);
-
-    } catch (error) {
-      action.result = 'failure';
-      action.error = error instanceof Error ? error.message : 'Unknown error';
-      
-      this.recoveryActions.push(action);
-      console.error(`❌ Recovery action failed: ${action.description} - ${action.error}`);
     }
-
-    return action;
   }
 }
 
@@ -12,6 +12,8 @@ import { workflowOrchestrator, type WorkflowExecution } from './workflowOrchestr
 import { gameMonitor } from './gameMonitor.js';
 import { storage } from '../storage.js';
 import { putImmutable } from './evidence/storage.js';
+import { promotionStateMachine, currentState } from './promotionStateMachine.js';
+import type { PromotionState } from '@shared/schema';
 
 export interface IntegrationConfig {
   enableAutomaticProcessing: boolean;
@@ -227,9 +229,10 @@ export class IntegrationBridge {
         const validationResult = execution.validationResults.find(v => v.promotionId === promotionId);
         const reason = validationResult?.validation.rationale || 'Rejected by validation system';
         
+        // Back to approved so the next game can be checked; the rejection stays in the history
         await this.updatePromotionStatus(
           promotionId,
-          'validation_failed',
+          'approved',
           `Rejected: ${reason}`
         );
       }
@@ -243,11 +246,11 @@ export class IntegrationBridge {
   }
 
   /**
-   * Update promotion status in database
+   * Move the promotion through the state machine, backed by immutable evidence
    */
   private async updatePromotionStatus(
     promotionId: number,
-    newStatus: string,
+    newStatus: PromotionState,
     reason: string
   ): Promise<PromotionStatusUpdate> {
     try {
@@ -257,16 +260,10 @@ export class IntegrationBridge {
         throw new Error(`Promotion ${promotionId} not found`);
       }
 
-      const previousStatus = promotion.state || 'unknown';
+      const previousStatus = currentState(promotion);
       const updatedAt = new Date().toISOString();
 
-      // Update promotion status
-      await storage.updatePromotion(promotionId, {
-        state: newStatus,
-        updatedAt: new Date()
-      });
-
-      // Create status update evidence
+      // Store evidence first so every recorded transition can point at it
       const statusUpdateEvidence = {
         type: 'promotion_status_update',
         promotionId,
@@ -282,6 +279,22 @@ export class IntegrationBridge {
 
       const evidenceResult = await putImmutable(statusUpdateEvidence);
 
+      // The validation workflow ran, so record it where the promotion could enter
+      // validation: passes reach validated before triggering, failures show the check
+      if (previousStatus === 'approved' || previousStatus === 'validating') {
+        await promotionStateMachine.advance(promotionId, newStatus === 'triggered' ? 'validated' : 'validating', {
+          actor: 'validation_system',
+          reason,
+          evidenceHash: evidenceResult.hash
+        });
+      }
+
+      await promotionStateMachine.advance(promotionId, newStatus, {
+        actor: 'validation_system',
+        reason,
+        evidenceHash: evidenceResult.hash
+      });
+
       const statusUpdate: PromotionStatusUpdate = {
         promotionId,
         previousStatus,
@@ -407,7 +420,7 @@ export class IntegrationBridge {
       }
 
       // Get users who should be notified for this team
-      const userIds = await storage.getUsersByTeamPreference(team.id);
+      const userIds = await storage.getUsersByTeamPreference(team.id, ['immediate', 'both']);
 
       console.log(`📱 Sending notifications to ${userIds.length} users for ${team.name} promotion`);
 
@@ -523,13 +536,14 @@ export class IntegrationBridge {
           approvedPromotions: [promotionId],
           rejectedPromotions: [],
           failedPromotions: [],
+          pendingReviewPromotions: [],
           processingTime: 0,
           evidenceChain: []
         };
 
         await this.processApprovedPromotion(promotionId, mockExecution);
       } else {
-        await this.updatePromotionStatus(promotionId, 'manual_rejection', reason);
+        await this.updatePromotionStatus(promotionId, 'approved', `Manual rejection: ${reason}`);
       }
 
       console.log(`✅ Manual integration completed for promotion ${promotionId}`);
@@ -0,0 +1,180 @@
+/**
+ * Markets
+ *
+ * A market is a metro area: the teams playing there (teams.marketId), the
+ * restaurant chains running local promotions, and the news, team and fan
+ * sites trusted to report them. Discovery, precision filtering and pattern
+ * matching take a market instead of hard-coding one city, so onboarding a new
+ * city is a data change.
+ */
+
+import { storage, type IStorage } from '../storage.js';
+import { config } from '../config.js';
+import type { InsertMarket, Market, Team } from '@shared/schema';
+
+/** A market with the teams that belong to it */
+export interface MarketProfile extends Market {
+  teams: Team[];
+}
+
+export type MarketErrorCode = 'NOT_FOUND' | 'DUPLICATE_SLUG' | 'UNKNOWN_TEAM';
+
+export class MarketError extends Error {
+  constructor(message: string, public readonly code: MarketErrorCode) {
+    super(message);
+    this.name = 'MarketError';
+  }
+}
+
+/**
+ * Persistence hooks, injectable for tests
+ */
+export interface MarketServiceDeps {
+  store: Pick<IStorage, 'getMarkets' | 'getMarketBySlug' | 'createMarket' | 'updateMarket' | 'getTeams' | 'updateTeam'>;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Team name without its city: "Los Angeles Dodgers" -> "Dodgers". Falls back
+ * to the last word when the city is missing or not a prefix of the name.
+ */
+export function teamNickname(team: Pick<Team, 'name' | 'city'>): string {
+  if (team.city && team.name.toLowerCase().startsWith(`${team.city.toLowerCase()} `)) {
+    return team.name.slice(team.city.length + 1);
+  }
+  return team.name.split(' ').pop() || team.name;
+}
+
+/** Lower-cased names a post may use for the team */
+export function teamKeywords(team: Pick<Team, 'name' | 'city'>): string[] {
+  return Array.from(new Set([team.name.toLowerCase(), teamNickname(team).toLowerCase()]));
+}
+
+/** Whole-word, case-insensitive check that the text mentions any keyword */
+export function mentionsAny(text: string, keywords: string[]): boolean {
+  return keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(text));
+}
+
+/** Whether the URL belongs to one of the domains (or domain paths, e.g. mlb.com/dodgers) */
+export function matchesDomain(url: string, domains: string[]): boolean {
+  const lowerUrl = url.toLowerCase();
+  return domains.some(domain => lowerUrl.includes(domain.toLowerCase()));
+}
+
+export class MarketService {
+  private deps: MarketServiceDeps;
+
+  constructor(deps: Partial<MarketServiceDeps> = {}) {
+    this.deps = {
+      store: storage,
+      ...deps
+    };
+  }
+
+  async getMarkets(includeInactive: boolean = false): Promise<MarketProfile[]> {
+    const [markets, teams] = await Promise.all([this.deps.store.getMarkets(), this.deps.store.getTeams()]);
+    return markets
+      .filter(market => includeInactive || market.isActive !== false)
+      .map(market => this.withTeams(market, teams));
+  }
+
+  async getMarket(slug: string): Promise<MarketProfile | undefined> {
+    const market = await this.deps.store.getMarketBySlug(slug);
+    if (!market) {
+      return undefined;
+    }
+    return this.withTeams(market, await this.deps.store.getTeams());
+  }
+
+  /** Market the app serves when a request does not name one */
+  async getDefaultMarket(): Promise<MarketProfile> {
+    const market = await this.getMarket(config.DEFAULT_MARKET);
+    if (!market) {
+      throw new MarketError(`Default market ${config.DEFAULT_MARKET} not found`, 'NOT_FOUND');
+    }
+    return market;
+  }
+
+  /**
+   * Markets a run should cover: the named one (active or not, so a market can
+   * be tried before it goes live), or every active market
+   */
+  async resolveMarkets(slug?: string): Promise<MarketProfile[]> {
+    if (!slug) {
+      return this.getMarkets();
+    }
+    const market = await this.getMarket(slug);
+    if (!market) {
+      throw new MarketError(`Market ${slug} not found`, 'NOT_FOUND');
+    }
+    return [market];
+  }
+
+  async getMarketForTeam(teamId: number): Promise<MarketProfile | undefined> {
+    const markets = await this.getMarkets(true);
+    return markets.find(market => market.teams.some(team => team.id === teamId));
+  }
+
+  /**
+   * Onboard a city. Teams listed in teamIds move into the new market.
+   */
+  async createMarket(input: InsertMarket, teamIds: number[] = []): Promise<MarketProfile> {
+    if (await this.deps.store.getMarketBySlug(input.slug)) {
+      throw new MarketError(`Market ${input.slug} already exists`, 'DUPLICATE_SLUG');
+    }
+    await this.checkTeams(teamIds);
+
+    const market = await this.deps.store.createMarket(input);
+    await this.assignTeams(market.id, teamIds);
+    console.log(`🗺️ Created market ${market.slug} with ${teamIds.length} teams`);
+    return (await this.getMarket(market.slug))!;
+  }
+
+  /**
+   * Edit a market's data. When teamIds is given it replaces the market's
+   * teams; teams dropped from the list leave the market.
+   */
+  async updateMarket(slug: string, updates: Partial<InsertMarket>, teamIds?: number[]): Promise<MarketProfile> {
+    const existing = await this.getMarket(slug);
+    if (!existing) {
+      throw new MarketError(`Market ${slug} not found`, 'NOT_FOUND');
+    }
+    if (updates.slug && updates.slug !== slug && await this.deps.store.getMarketBySlug(updates.slug)) {
+      throw new MarketError(`Market ${updates.slug} already exists`, 'DUPLICATE_SLUG');
+    }
+
+    const market = await this.deps.store.updateMarket(existing.id, updates);
+    if (teamIds) {
+      await this.checkTeams(teamIds);
+      for (const team of existing.teams.filter(team => !teamIds.includes(team.id))) {
+        await this.deps.store.updateTeam(team.id, { marketId: null });
+      }
+      await this.assignTeams(market.id, teamIds);
+    }
+    return (await this.getMarket(market.slug))!;
+  }
+
+  private withTeams(market: Market, teams: Team[]): MarketProfile {
+    return { ...market, teams: teams.filter(team => team.marketId === market.id) };
+  }
+
+  private async checkTeams(teamIds: number[]): Promise<void> {
+    const known = new Set((await this.deps.store.getTeams()).map(team => team.id));
+    const unknown = teamIds.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new MarketError(`Unknown teams: ${unknown.join(', ')}`, 'UNKNOWN_TEAM');
+    }
+  }
+
+  private async assignTeams(marketId: number, teamIds: number[]): Promise<void> {
+    for (const teamId of teamIds) {
+      await this.deps.store.updateTeam(teamId, { marketId });
+    }
+  }
+}
+
+// Global market service instance
+export const marketService = new MarketService();
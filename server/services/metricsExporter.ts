@@ -0,0 +1,257 @@
+/**
+ * Metrics Exporter
+ *
+ * Renders every subsystem's in-process metrics in OpenMetrics text format
+ * for Prometheus-compatible scrapers. All families share the `free4all_`
+ * prefix, latencies are in seconds, and labels are consistent across
+ * subsystems:
+ *   source  - sports provider id (espn, mlb, ...)
+ *   sport   - sport a source covers (join via free4all_source_info)
+ *   breaker - circuit breaker name
+ *   limiter - rate limiter identifier
+ *   queue   - job queue name
+ *
+ * Each subsystem is collected independently with a timeout, and reports
+ * free4all_metrics_collector_up so a failing subsystem shows up as 0
+ * instead of breaking the whole scrape.
+ */
+
+import { OpenMetricsWriter, type MetricSample } from '../lib/openMetrics.js';
+import { circuitBreakers, CircuitState, type CircuitBreakerManager } from '../lib/circuitBreaker.js';
+import { rateLimiters, type RateLimiterManager } from '../lib/rateLimiter.js';
+import { consensusEngine, type ConsensusEngine } from './consensusEngine.js';
+import { validationService, type ValidationService } from './validationService.js';
+import { performanceMonitor, type PerformanceMonitor } from './performanceMonitor.js';
+import { realTimeDealMonitor, type RealTimeDealMonitor } from './realTimeDealMonitor.js';
+import { sportsProviders } from './sports/providers/index.js';
+
+type QueueCounts = { waiting: number; active: unknown; completed: unknown; failed: unknown };
+
+export interface MetricsSources {
+  consensus: Pick<ConsensusEngine, 'getMetrics'>;
+  validation: Pick<ValidationService, 'getValidationMetrics'>;
+  performance: Pick<PerformanceMonitor, 'getPerformanceMetrics' | 'getSourceReliabilityMetrics' | 'getLatencyHistograms'>;
+  circuitBreakers: Pick<CircuitBreakerManager, 'getAllStats'>;
+  rateLimiters: Pick<RateLimiterManager, 'getAllStatus'>;
+  dealMonitor: Pick<RealTimeDealMonitor, 'getStatus' | 'getPerformanceMetrics'>;
+  providers: Pick<typeof sportsProviders, 'list' | 'breakerName'>;
+  // Null when no queue backend is configured
+  queueStats: () => Promise<Record<string, QueueCounts> | null>;
+}
+
+// getQueueStats() keys mapped to the BullMQ queue names
+const QUEUE_NAMES: Record<string, string> = {
+  validation: 'validation',
+  sourceFetch: 'source-fetch',
+  consensus: 'consensus',
+  notification: 'notification'
+};
+
+/**
+ * The queue module connects to Redis on import, so only load it when Redis is configured
+ */
+async function loadQueueStats(): Promise<Record<string, QueueCounts> | null> {
+  if (!process.env.REDIS_HOST && !process.env.REDIS_URL) {
+    return null;
+  }
+  const { queueManager } = await import('./queue/index.js');
+  return queueManager.getQueueStats();
+}
+
+const defaultSources: MetricsSources = {
+  consensus: consensusEngine,
+  validation: validationService,
+  performance: performanceMonitor,
+  circuitBreakers,
+  rateLimiters,
+  dealMonitor: realTimeDealMonitor,
+  providers: sportsProviders,
+  queueStats: loadQueueStats
+};
+
+// BullMQ returns job arrays for some states and counts for others
+function jobCount(value: unknown): number {
+  return Array.isArray(value) ? value.length : Number(value) || 0;
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${label} collector timed out after ${ms}ms`)), ms);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class MetricsExporter {
+  constructor(
+    private readonly sources: MetricsSources = defaultSources,
+    private readonly collectorTimeoutMs = 5000
+  ) {}
+
+  async render(): Promise<string> {
+    const writer = new OpenMetricsWriter();
+    const up: MetricSample[] = [];
+    const durations: MetricSample[] = [];
+
+    const collectors: Array<[string, (writer: OpenMetricsWriter) => void | Promise<void>]> = [
+      ['sources', w => this.collectSources(w)],
+      ['consensus', w => this.collectConsensus(w)],
+      ['validation', w => this.collectValidation(w)],
+      ['performance', w => this.collectPerformance(w)],
+      ['circuit_breakers', w => this.collectCircuitBreakers(w)],
+      ['rate_limiters', w => this.collectRateLimiters(w)],
+      ['queues', w => this.collectQueues(w)],
+      ['deal_monitor', w => this.collectDealMonitor(w)]
+    ];
+
+    for (const [collector, collect] of collectors) {
+      const startedAt = Date.now();
+      try {
+        await withTimeout(Promise.resolve().then(() => collect(writer)), this.collectorTimeoutMs, collector);
+        up.push({ labels: { collector }, value: 1 });
+      } catch (error) {
+        console.error(`Metrics collector ${collector} failed:`, (error as Error).message);
+        up.push({ labels: { collector }, value: 0 });
+      }
+      durations.push({ labels: { collector }, value: (Date.now() - startedAt) / 1000 });
+    }
+
+    writer
+      .gauge('free4all_metrics_collector_up', 'Whether the subsystem collector succeeded on this scrape', up)
+      .gauge('free4all_metrics_collector_duration_seconds', 'Time spent collecting each subsystem', durations);
+
+    return writer.toString();
+  }
+
+  private collectSources(writer: OpenMetricsWriter): void {
+    const providers = this.sources.providers.list();
+    writer
+      .info('free4all_source', 'Sports data sources and the sports they cover',
+        providers.flatMap(provider => provider.sports.map(sport => ({ source: provider.id, sport }))))
+      .gauge('free4all_source_consensus_weight', 'Consensus weight of each source',
+        providers.map(provider => ({ labels: { source: provider.id }, value: provider.weight })));
+  }
+
+  private collectConsensus(writer: OpenMetricsWriter): void {
+    const metrics = this.sources.consensus.getMetrics();
+    const reliability = Object.entries(metrics.sourceReliability);
+
+    writer
+      .counter('free4all_consensus_evaluations', 'Consensus evaluations performed', [{ value: metrics.totalEvaluations }])
+      .counter('free4all_consensus_decisions', 'Consensus decisions by outcome', [
+        { labels: { decision: 'confirmed' }, value: metrics.confirmedDecisions },
+        { labels: { decision: 'provisional' }, value: metrics.provisionalDecisions },
+        { labels: { decision: 'needs_review' }, value: metrics.needsReviewDecisions }
+      ])
+      .gauge('free4all_consensus_average_confidence', 'Running average consensus confidence (0-1)', [{ value: metrics.averageConfidence }])
+      .gauge('free4all_consensus_source_uptime_ratio', 'Source uptime as seen by consensus (0-1)',
+        reliability.map(([source, stats]) => ({ labels: { source }, value: stats.uptime })))
+      .gauge('free4all_consensus_source_response_time_seconds', 'Average source response time as seen by consensus',
+        reliability.map(([source, stats]) => ({ labels: { source }, value: stats.averageResponseTime / 1000 })));
+  }
+
+  private collectValidation(writer: OpenMetricsWriter): void {
+    const metrics = this.sources.validation.getValidationMetrics();
+    writer.gauge('free4all_validation_approval_threshold', 'Consensus confidence required to approve a validation',
+      [{ value: metrics.validationService.approvalThreshold }]);
+  }
+
+  private async collectPerformance(writer: OpenMetricsWriter): Promise<void> {
+    const metrics = await this.sources.performance.getPerformanceMetrics();
+    const histograms = this.sources.performance.getLatencyHistograms();
+    const reliability = this.sources.performance.getSourceReliabilityMetrics();
+
+    writer
+      .histogram('free4all_validation_duration_seconds', 'Validation latency by pipeline phase',
+        histograms.validation.map(({ phase, snapshot }) => ({ labels: { phase }, snapshot })))
+      .histogram('free4all_source_request_duration_seconds', 'Sports data API call latency by source',
+        histograms.api.map(({ source, snapshot }) => ({ labels: { source }, snapshot })))
+      .gauge('free4all_error_ratio', 'Recent error rate by subsystem (0-1)',
+        Object.entries(metrics.errorRates).map(([subsystem, value]) => ({ labels: { subsystem }, value })))
+      .gauge('free4all_validation_throughput_per_second', 'Recent validations per second',
+        [{ value: metrics.throughput.validationsPerSecond }])
+      .gauge('free4all_source_availability_ratio', 'Source availability (0-1)',
+        reliability.map(source => ({ labels: { source: source.source }, value: source.availability })))
+      .gauge('free4all_source_error_ratio', 'Source error rate (0-1)',
+        reliability.map(source => ({ labels: { source: source.source }, value: source.errorRate })))
+      .gauge('free4all_source_failures_24h', 'Source failures in the last 24 hours',
+        reliability.map(source => ({ labels: { source: source.source }, value: source.failureCount24h })))
+      .gauge('free4all_process_heap_used_bytes', 'Process heap in use',
+        [{ value: Math.round(metrics.resources.memoryUsage * 1024 * 1024) }])
+      .gauge('free4all_evidence_storage_files', 'Files in evidence storage',
+        [{ value: metrics.resources.evidenceStorageSize }])
+      .gauge('free4all_evidence_storage_health', 'Evidence storage health (1 healthy, 0.5 degraded)',
+        [{ value: metrics.resources.evidenceStorageHealth }]);
+  }
+
+  private collectCircuitBreakers(writer: OpenMetricsWriter): void {
+    const stats = Object.entries(this.sources.circuitBreakers.getAllStats());
+    const labels = (breaker: string) => ({ breaker, source: this.sourceForIdentifier(breaker) });
+
+    writer
+      .gauge('free4all_circuit_breaker_state', 'Circuit breaker state; 1 for the current state',
+        stats.flatMap(([breaker, s]) => Object.values(CircuitState).map(state => ({
+          labels: { ...labels(breaker), state: state.toLowerCase() },
+          value: s.state === state ? 1 : 0
+        }))))
+      .counter('free4all_circuit_breaker_requests', 'Requests made through the circuit breaker',
+        stats.map(([breaker, s]) => ({ labels: labels(breaker), value: s.totalRequests })))
+      .counter('free4all_circuit_breaker_failures', 'Failed requests through the circuit breaker',
+        stats.map(([breaker, s]) => ({ labels: labels(breaker), value: s.totalFailures })))
+      .gauge('free4all_circuit_breaker_response_time_seconds', 'Average response time through the circuit breaker',
+        stats.map(([breaker, s]) => ({ labels: labels(breaker), value: s.avgResponseTime / 1000 })));
+  }
+
+  private collectRateLimiters(writer: OpenMetricsWriter): void {
+    const status = Object.entries(this.sources.rateLimiters.getAllStatus());
+    const labels = (limiter: string) => ({ limiter, source: this.sourceForIdentifier(limiter) });
+
+    writer
+      .gauge('free4all_rate_limiter_remaining', 'Requests or tokens left in the current window',
+        status.map(([limiter, s]) => ({ labels: labels(limiter), value: s.remaining })))
+      .gauge('free4all_rate_limiter_limit', 'Rate limit for the window',
+        status.map(([limiter, s]) => ({ labels: labels(limiter), value: s.limit })));
+  }
+
+  private async collectQueues(writer: OpenMetricsWriter): Promise<void> {
+    const stats = await this.sources.queueStats();
+    if (!stats) return;
+
+    writer.gauge('free4all_queue_jobs', 'Jobs in each queue by state',
+      Object.entries(stats).flatMap(([key, counts]) => {
+        const queue = QUEUE_NAMES[key] ?? key;
+        return (['waiting', 'active', 'completed', 'failed'] as const).map(state => ({
+          labels: { queue, state },
+          value: jobCount(counts[state])
+        }));
+      }));
+  }
+
+  private async collectDealMonitor(writer: OpenMetricsWriter): Promise<void> {
+    const status = this.sources.dealMonitor.getStatus();
+    const performance = await this.sources.dealMonitor.getPerformanceMetrics();
+
+    writer
+      .gauge('free4all_deal_monitor_running', 'Whether real-time deal discovery is running', [{ value: status.isRunning ? 1 : 0 }])
+      .counter('free4all_deal_monitor_runs', 'Deal discovery runs', [{ value: status.stats.totalRuns }])
+      .counter('free4all_deal_monitor_deals_found', 'Deals found by discovery', [{ value: status.stats.totalDealsFound }])
+      .gauge('free4all_deal_monitor_run_duration_seconds', 'Average discovery run time', [{ value: performance.averageRunTime / 1000 }])
+      .gauge('free4all_deal_monitor_success_ratio', 'Share of discovery runs without errors (0-1)', [{ value: performance.successRate }])
+      .gauge('free4all_deal_monitor_pattern_confidence', 'Average pattern match confidence', [{ value: performance.patternMatchAccuracy }]);
+  }
+
+  /**
+   * Provider id for breaker and limiter identifiers named after a provider ("espn-api" -> "espn")
+   */
+  private sourceForIdentifier(identifier: string): string | undefined {
+    return this.sources.providers.list().find(provider => this.sources.providers.breakerName(provider) === identifier)?.id;
+  }
+}
+
+export const metricsExporter = new MetricsExporter();
@@ -0,0 +1,274 @@
+import { storage, type IStorage } from "../storage";
+import { emailService, type DigestDeal } from "./emailService";
+import { apnsService } from "./apnsService";
+import { localClock, minutesUntil, parseLocalTime, resolveTimezone } from "../lib/timezone";
+import type { User } from "@shared/schema";
+
+/**
+ * Morning Digest Service
+ * Batches deals triggered since the previous morning into one email and one
+ * push per user with alertTiming morning or both, sent at a configurable
+ * local time in each user's own timezone. Deals a "both" user was already
+ * sent immediately are left out.
+ */
+
+export interface MorningDigestConfig {
+  /** Local send time, HH:MM in the user's timezone */
+  localTime: string;
+  /** Users are picked up any time in this many minutes after localTime, so a restart does not skip a day */
+  windowMinutes: number;
+  intervalMs: number;
+  /** How far back to look for triggered deals */
+  lookbackHours: number;
+}
+
+export interface MorningDigestOptions {
+  now?: Date;
+  trigger?: "scheduled" | "manual";
+}
+
+export interface MorningDigestReport {
+  trigger: "scheduled" | "manual";
+  startedAt: string;
+  completedAt: string;
+  subscribers: number;
+  due: number;
+  sent: number;
+  empty: number;
+  failed: number;
+  errors: string[];
+}
+
+type MorningDigestStore = Pick<
+  IStorage,
+  | "getDigestSubscribers"
+  | "getUndeliveredTriggeredDeals"
+  | "claimDigestDelivery"
+  | "updateDigestDelivery"
+  | "createAlertHistory"
+  | "getUserNotificationPreferences"
+>;
+
+export interface MorningDigestSenders {
+  email: { sendMorningDigest(user: User, deals: DigestDeal[]): Promise<void> };
+  push: { sendDigestAlert(userId: string, digest: { dealIds: number[]; restaurants: string[]; teamNames: string[] }): Promise<{ successful: string[]; failed: unknown[] }> };
+}
+
+const DEFAULT_CONFIG: MorningDigestConfig = {
+  localTime: process.env.DIGEST_LOCAL_TIME || "08:00",
+  windowMinutes: 4 * 60,
+  intervalMs: 5 * 60 * 1000,
+  lookbackHours: 24
+};
+
+export class MorningDigestService {
+  private config: MorningDigestConfig;
+  private sendAt: number;
+  private isSending = false;
+  private digestInterval: NodeJS.Timeout | null = null;
+  private lastRun: MorningDigestReport | null = null;
+
+  constructor(
+    config: Partial<MorningDigestConfig> = {},
+    private readonly store: MorningDigestStore = storage,
+    private readonly senders: MorningDigestSenders = { email: emailService, push: apnsService }
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.sendAt = parseLocalTime(this.config.localTime);
+  }
+
+  /**
+   * Start the digest scheduler; checks immediately, then every intervalMs
+   */
+  start(): void {
+    if (this.digestInterval) {
+      console.log("Morning digest already running");
+      return;
+    }
+
+    console.log(`Starting morning digest (local send time ${this.config.localTime})...`);
+    this.runScheduled();
+    this.digestInterval = setInterval(() => {
+      this.runScheduled();
+    }, this.config.intervalMs);
+  }
+
+  /**
+   * Stop the digest scheduler
+   */
+  stop(): void {
+    if (this.digestInterval) {
+      clearInterval(this.digestInterval);
+      this.digestInterval = null;
+    }
+    console.log("Morning digest stopped");
+  }
+
+  isRunning(): boolean {
+    return this.digestInterval !== null;
+  }
+
+  getStatus(): {
+    isRunning: boolean;
+    isSending: boolean;
+    config: MorningDigestConfig;
+    lastRun: MorningDigestReport | null;
+  } {
+    return {
+      isRunning: this.isRunning(),
+      isSending: this.isSending,
+      config: { ...this.config },
+      lastRun: this.lastRun
+    };
+  }
+
+  /**
+   * Whether `now` falls inside the send window in the given timezone
+   */
+  isDue(now: Date, timezone: string): boolean {
+    return this.minutesSinceSendTime(now, timezone) < this.config.windowMinutes;
+  }
+
+  // The window may run past midnight, e.g. 22:00 + 4h
+  private minutesSinceSendTime(now: Date, timezone: string): number {
+    return minutesUntil(this.sendAt, localClock(now, timezone).minutes);
+  }
+
+  /**
+   * Send every digest that is due. Each user's digest is claimed per local
+   * date before sending, so overlapping runs and restarts never double-send.
+   */
+  async runDigests(options: MorningDigestOptions = {}): Promise<MorningDigestReport> {
+    if (this.isSending) {
+      throw new Error("Morning digest already in progress");
+    }
+    this.isSending = true;
+
+    const now = options.now ?? new Date();
+    const report: MorningDigestReport = {
+      trigger: options.trigger ?? "manual",
+      startedAt: new Date().toISOString(),
+      completedAt: "",
+      subscribers: 0,
+      due: 0,
+      sent: 0,
+      empty: 0,
+      failed: 0,
+      errors: []
+    };
+
+    try {
+      const subscribers = await this.store.getDigestSubscribers();
+      report.subscribers = subscribers.length;
+
+      for (const { user, teamIds } of subscribers) {
+        const timezone = resolveTimezone(user.timezone);
+        const elapsed = this.minutesSinceSendTime(now, timezone);
+        if (elapsed >= this.config.windowMinutes) continue;
+
+        // A window that runs past midnight still belongs to the day it opened
+        const digestDate = localClock(new Date(now.getTime() - elapsed * 60 * 1000), timezone).date;
+
+        try {
+          const delivery = await this.store.claimDigestDelivery(user.id, digestDate);
+          if (!delivery) continue;
+
+          report.due++;
+          const status = await this.deliver(user, teamIds, delivery.id, now);
+          report[status]++;
+        } catch (error) {
+          report.failed++;
+          report.errors.push(`user ${user.id}: ${(error as Error).message}`);
+        }
+      }
+    } finally {
+      this.isSending = false;
+      report.completedAt = new Date().toISOString();
+      this.lastRun = report;
+    }
+
+    if (report.due > 0) {
+      console.log(
+        `☀️ Morning digest: ${report.sent} sent, ${report.empty} empty, ${report.failed} failed ` +
+        `(${report.subscribers} subscribers)`
+      );
+    }
+
+    return report;
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.isSending) {
+      console.log("Morning digest already in progress, skipping...");
+      return;
+    }
+
+    try {
+      await this.runDigests({ trigger: "scheduled" });
+    } catch (error) {
+      console.error("Error during morning digest:", error);
+    }
+  }
+
+  private async deliver(user: User, teamIds: number[], deliveryId: number, now: Date): Promise<"sent" | "empty" | "failed"> {
+    const since = new Date(now.getTime() - this.config.lookbackHours * 60 * 60 * 1000);
+    const deals: DigestDeal[] = await this.store.getUndeliveredTriggeredDeals(user.id, teamIds, since);
+
+    if (deals.length === 0) {
+      await this.store.updateDigestDelivery(deliveryId, { status: "empty", dealCount: 0 });
+      return "empty";
+    }
+
+    const errors: string[] = [];
+    let emailSent = false;
+    let pushSent = false;
+
+    if (user.email) {
+      try {
+        await this.senders.email.sendMorningDigest(user, deals);
+        emailSent = true;
+      } catch (error) {
+        errors.push(`email: ${(error as Error).message}`);
+      }
+      await this.recordHistory(user.id, deals, "digest_email", emailSent);
+    }
+
+    const preferences = await this.store.getUserNotificationPreferences(user.id);
+    if (preferences.pushNotifications) {
+      try {
+        const result = await this.senders.push.sendDigestAlert(user.id, {
+          dealIds: deals.map(deal => deal.id),
+          restaurants: Array.from(new Set(deals.map(deal => deal.restaurant.name))),
+          teamNames: Array.from(new Set(deals.map(deal => deal.team.name)))
+        });
+        pushSent = result.successful.length > 0;
+      } catch (error) {
+        errors.push(`push: ${(error as Error).message}`);
+      }
+      await this.recordHistory(user.id, deals, "digest_push", pushSent);
+    }
+
+    const status = emailSent || pushSent ? "sent" : "failed";
+    await this.store.updateDigestDelivery(deliveryId, {
+      status,
+      dealCount: deals.length,
+      emailSent,
+      pushSent,
+      error: errors.length > 0 ? errors.join("; ") : null
+    });
+    return status;
+  }
+
+  private async recordHistory(userId: string, deals: DigestDeal[], alertType: string, sent: boolean): Promise<void> {
+    for (const deal of deals) {
+      await this.store.createAlertHistory({
+        userId,
+        triggeredDealId: deal.id,
+        alertType,
+        status: sent ? "sent" : "failed"
+      });
+    }
+  }
+}
+
+export const morningDigestService = new MorningDigestService();
@@ -1,5 +1,8 @@
+import { nflAdapter } from './sports/nflAdapter';
+import { nhlAdapter } from './sports/nhlAdapter';
+
 // Multi-sport API service supporting MLB, NBA, NFL, NHL
-interface BaseGameData {
+export interface BaseGameData {
   id: string;
   date: string;
   homeTeam: { id: string; name: string; score?: number };
@@ -7,9 +10,11 @@ interface BaseGameData {
   status: string;
   isComplete: boolean;
   stats?: any;
+  // Per-side box-score stats, written to games.gameStats from the tracked team's perspective
+  teamStats?: { home: Record<string, any>; away: Record<string, any> };
 }
 
-interface BaseTeamData {
+export interface BaseTeamData {
   id: string;
   name: string;
   city: string;
@@ -25,7 +30,7 @@ class MultiSportsApiService {
     MLB: 'https://statsapi.mlb.com/api/v1',
     NBA: 'https://stats.nba.com/stats',
     NFL: 'https://site.api.espn.com/apis/site/v2/sports/football/nfl',
-    NHL: 'https://statsapi.web.nhl.com/api/v1'
+    NHL: 'https://api-web.nhle.com/v1'
   };
 
   // MLB API methods
@@ -156,6 +161,44 @@ class MultiSportsApiService {
     }));
   }
 
+  // NFL API methods (ESPN)
+  async getNFLGames(teamId: string, days: number = 7): Promise<BaseGameData[]> {
+    try {
+      return await nflAdapter.getGames(teamId, days);
+    } catch (error) {
+      console.error('NFL API error:', error);
+      return [];
+    }
+  }
+
+  async getNFLTeams(): Promise<BaseTeamData[]> {
+    try {
+      return await nflAdapter.getTeams();
+    } catch (error) {
+      console.error('NFL teams API error:', error);
+      return [];
+    }
+  }
+
+  // NHL API methods (teams are keyed by abbreviation)
+  async getNHLGames(teamId: string, days: number = 7): Promise<BaseGameData[]> {
+    try {
+      return await nhlAdapter.getGames(teamId, days);
+    } catch (error) {
+      console.error('NHL API error:', error);
+      return [];
+    }
+  }
+
+  async getNHLTeams(): Promise<BaseTeamData[]> {
+    try {
+      return await nhlAdapter.getTeams();
+    } catch (error) {
+      console.error('NHL teams API error:', error);
+      return [];
+    }
+  }
+
   // Generic methods for all sports
   async getGamesForTeam(sport: string, teamId: string, days: number = 7): Promise<BaseGameData[]> {
     switch (sport) {
@@ -164,11 +207,9 @@ class MultiSportsApiService {
       case 'NBA':
         return this.getNBAGames(teamId, days);
       case 'NFL':
-        // NFL implementation would go here
-        return [];
+        return this.getNFLGames(teamId, days);
       case 'NHL':
-        // NHL implementation would go here
-        return [];
+        return this.getNHLGames(teamId, days);
       default:
         return [];
     }
@@ -181,11 +222,9 @@ class MultiSportsApiService {
       case 'NBA':
         return this.getNBATeams();
       case 'NFL':
-        // NFL teams would go here
-        return [];
+        return this.getNFLTeams();
       case 'NHL':
-        // NHL teams would go here
-        return [];
+        return this.getNHLTeams();
       default:
         return [];
     }
@@ -1,7 +1,10 @@
 import { emailService } from "./emailService";
 import { smsService } from "./smsService";
 import { apnsService } from "./apnsService";
+import { webPushService } from "./webPushService";
 import { storage } from "../storage";
+import { quietHoursEndsAt } from "./quietHours";
+import type { QueuedNotification } from "@shared/schema";
 
 interface DealNotificationData {
   userId: string;
@@ -31,7 +34,16 @@ interface GameNotificationData {
   }>;
 }
 
+type NotificationResults = {
+  apns: { successful: number; failed: number };
+  email: { sent: boolean; error?: string };
+  queuedUntil?: string;
+};
+
 class NotificationService {
+  private releaseInterval: NodeJS.Timeout | null = null;
+  private isReleasing = false;
+
   // Legacy methods for backward compatibility
   async sendPreGameNotifications(email: string, phoneNumber: string, data: any) {
     await emailService.sendPreGameAlert(email, data);
@@ -48,10 +60,12 @@ class NotificationService {
   // New APNs-first notification methods
   async sendDealActivationNotifications(data: DealNotificationData): Promise<{
     apns: { successful: number; failed: number };
+    webPush: { successful: number; failed: number };
     email: { sent: boolean; error?: string };
   }> {
     const results = {
       apns: { successful: 0, failed: 0 },
+      webPush: { successful: 0, failed: 0 },
       email: { sent: false, error: undefined as string | undefined }
     };
 
@@ -86,6 +100,28 @@ class NotificationService {
         }
       }
 
+      // Browser push for desktop and Android users
+      if (preferences.webPushNotifications) {
+        try {
+          const webPushResult = await webPushService.sendDealAlert(data.userId, {
+            teamName: data.teamName,
+            triggeredDeals: data.triggeredDeals,
+            gameId: data.gameId,
+            totalActiveDeals: data.triggeredDeals.length,
+            expiresAt: data.expiresAt,
+            featuredImage: data.featuredImage
+          });
+
+          results.webPush.successful = webPushResult.successful.length;
+          results.webPush.failed = webPushResult.failed.length;
+
+          console.log(`✅ Web push deal notification: ${webPushResult.successful.length} successful, ${webPushResult.failed.length} failed`);
+        } catch (error) {
+          console.error('Web push notification failed:', error);
+          results.webPush.failed = 1;
+        }
+      }
+
       // Secondary: Email backup (always send for rich content)
       if (preferences.email && user.email) {
         try {
@@ -122,13 +158,40 @@ class NotificationService {
     }
   }
 
-  async sendPreGameNotifications(data: GameNotificationData): Promise<{
-    apns: { successful: number; failed: number };
-    email: { sent: boolean; error?: string };
-  }> {
-    const results = {
+  async sendPreGameNotifications(data: GameNotificationData): Promise<NotificationResults> {
+    try {
+      const preferences = await storage.getUserNotificationPreferences(data.userId);
+
+      // Hold until the user's quiet hours end instead of dropping it
+      const releaseAt = quietHoursEndsAt(preferences.quietHours, preferences.timezone);
+      if (releaseAt) {
+        await storage.createQueuedNotification({
+          userId: data.userId,
+          kind: 'pre_game',
+          payload: data,
+          releaseAt,
+          expiresAt: new Date(data.gameTime)
+        });
+        console.log(`Queued pre-game notification for user ${data.userId} until ${releaseAt.toISOString()} (quiet hours)`);
+        return {
+          apns: { successful: 0, failed: 0 },
+          email: { sent: false },
+          queuedUntil: releaseAt.toISOString()
+        };
+      }
+
+      return await this.deliverPreGameNotifications(data);
+
+    } catch (error) {
+      console.error('Error sending pre-game notifications:', error);
+      throw error;
+    }
+  }
+
+  private async deliverPreGameNotifications(data: GameNotificationData): Promise<NotificationResults> {
+    const results: NotificationResults = {
       apns: { successful: 0, failed: 0 },
-      email: { sent: false, error: undefined as string | undefined }
+      email: { sent: false, error: undefined }
     };
 
     try {
@@ -139,12 +202,6 @@ class NotificationService {
         throw new Error('User not found');
       }
 
-      // Check quiet hours
-      if (this.isQuietHours(preferences.quietHours)) {
-        console.log('Skipping pre-game notification due to quiet hours');
-        return results;
-      }
-
       // Primary: APNs
       if (preferences.pushNotifications) {
         try {
@@ -185,31 +242,92 @@ class NotificationService {
       return results;
 
     } catch (error) {
-      console.error('Error sending pre-game notifications:', error);
+      console.error('Error delivering pre-game notifications:', error);
       throw error;
     }
   }
 
-  private isQuietHours(quietHours?: { enabled: boolean; start: string; end: string }): boolean {
-    if (!quietHours?.enabled) return false;
-
-    const now = new Date();
-    const currentTime = now.getHours() * 100 + now.getMinutes(); // e.g., 22:30 = 2230
-    
-    const startTime = parseInt(quietHours.start.replace(':', ''));
-    const endTime = parseInt(quietHours.end.replace(':', ''));
-
-    if (startTime > endTime) {
-      // Overnight quiet hours (e.g., 22:00 to 08:00)
-      return currentTime >= startTime || currentTime <= endTime;
-    } else {
-      // Same day quiet hours (e.g., 13:00 to 15:00)
-      return currentTime >= startTime && currentTime <= endTime;
+  /**
+   * Start releasing queued notifications whose quiet hours have ended
+   */
+  startQueueRelease(intervalMs: number = 60 * 1000): void {
+    if (this.releaseInterval) {
+      console.log('Quiet-hours release already running');
+      return;
+    }
+
+    console.log('Starting quiet-hours release...');
+    this.releaseInterval = setInterval(() => {
+      this.releaseQueuedNotifications().catch(error => {
+        console.error('Error releasing queued notifications:', error);
+      });
+    }, intervalMs);
+  }
+
+  stopQueueRelease(): void {
+    if (this.releaseInterval) {
+      clearInterval(this.releaseInterval);
+      this.releaseInterval = null;
+    }
+    console.log('Quiet-hours release stopped');
+  }
+
+  /**
+   * Send every queued notification whose release time has passed. Ones that
+   * went stale while waiting (e.g. the game already started) are expired.
+   */
+  async releaseQueuedNotifications(now: Date = new Date()): Promise<{ released: number; expired: number; failed: number }> {
+    const summary = { released: 0, expired: 0, failed: 0 };
+    if (this.isReleasing) return summary;
+    this.isReleasing = true;
+
+    try {
+      const due = await storage.getDueQueuedNotifications(now);
+
+      for (const queued of due) {
+        if (queued.expiresAt && queued.expiresAt <= now) {
+          await storage.updateQueuedNotification(queued.id, { status: 'expired', releasedAt: now });
+          summary.expired++;
+          continue;
+        }
+
+        try {
+          await this.deliverQueued(queued);
+          await storage.updateQueuedNotification(queued.id, { status: 'released', releasedAt: now });
+          summary.released++;
+        } catch (error) {
+          await storage.updateQueuedNotification(queued.id, {
+            status: 'failed',
+            releasedAt: now,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          summary.failed++;
+        }
+      }
+    } finally {
+      this.isReleasing = false;
+    }
+
+    if (summary.released + summary.expired + summary.failed > 0) {
+      console.log(`🔔 Quiet hours ended: ${summary.released} released, ${summary.expired} expired, ${summary.failed} failed`);
+    }
+
+    return summary;
+  }
+
+  private async deliverQueued(queued: QueuedNotification): Promise<void> {
+    switch (queued.kind) {
+      case 'pre_game':
+        await this.deliverPreGameNotifications(queued.payload as GameNotificationData);
+        break;
+      default:
+        throw new Error(`Unknown queued notification kind: ${queued.kind}`);
     }
   }
 
   async testNotification(userId: string): Promise<{
     apns: { successful: number; failed: number };
+    webPush: { successful: number; failed: number };
     email: { sent: boolean; error?: string };
   }> {
     const testData: DealNotificationData = {
@@ -231,11 +349,13 @@ class NotificationService {
 
   getNotificationStatus(): {
     apns: { configured: boolean; provider: string };
+    webPush: { configured: boolean; provider: string };
     email: { configured: boolean; provider: string };
     sms: { configured: boolean; provider: string; note: string };
   } {
     return {
       apns: apnsService.getStatus(),
+      webPush: webPushService.getStatus(),
       email: { configured: true, provider: 'MailerSend' },
       sms: { configured: false, provider: 'Disabled', note: 'Replaced by APNs for better UX' }
     };
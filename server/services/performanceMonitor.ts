@@ -9,9 +9,11 @@
  */
 
 import { putImmutable } from './evidence/storage.js';
-import { circuitBreakers } from '../lib/circuitBreaker.js';
+import { circuitBreakers, CircuitState } from '../lib/circuitBreaker.js';
 import { apiRateLimiters } from '../lib/rateLimiter.js';
+import { sportsProviders } from './sports/providers/index.js';
 import { checkStorageHealth } from './evidence/storage.js';
+import { Histogram, type HistogramSnapshot } from '../lib/openMetrics.js';
 
 export interface PerformanceMetrics {
   // Latency metrics
@@ -24,11 +26,8 @@ export interface PerformanceMetrics {
     min: number;
   };
   
-  // API performance
-  apiLatency: {
-    espn: { mean: number; p95: number; errorRate: number; };
-    mlb: { mean: number; p95: number; errorRate: number; };
-  };
+  // API performance, keyed by sports provider id
+  apiLatency: Record<string, { mean: number; p95: number; errorRate: number; }>;
   
   // Throughput metrics
   throughput: {
@@ -80,7 +79,7 @@ export interface ValidationLatencyData {
 }
 
 export interface SourceReliabilityMetrics {
-  source: 'espn' | 'mlb';
+  source: string;
   availability: number;
   averageLatency: number;
   errorRate: number;
@@ -121,6 +120,9 @@ export class PerformanceMonitor {
   private activeAlerts: Map<string, PerformanceAlert> = new Map();
   private isRunning = false;
   private monitoringTimer?: NodeJS.Timeout;
+  // Cumulative latency histograms (seconds) for the /metrics exporter; never sampled or pruned
+  private validationHistograms: Map<ValidationLatencyData['phase'], Histogram> = new Map();
+  private apiHistograms: Map<string, Histogram> = new Map();
 
   constructor(config: Partial<PerformanceConfig> = {}) {
     this.config = {
@@ -214,6 +216,8 @@ export class PerformanceMonitor {
    * Record validation latency
    */
   recordValidationLatency(data: ValidationLatencyData): void {
+    this.observe(this.validationHistograms, data.phase, data.duration);
+
     if (!this.shouldSample()) {
       return;
     }
@@ -235,15 +239,14 @@ export class PerformanceMonitor {
   /**
    * Record API call performance
    */
-  recordApiCall(source: 'espn' | 'mlb', latency: number, success: boolean, error?: string): void {
+  recordApiCall(source: string, latency: number, success: boolean, error?: string): void {
+    this.observe(this.apiHistograms, source, latency);
+
     if (!this.shouldSample()) {
       return;
     }
 
-    const metrics = this.sourceMetrics.get(source);
-    if (!metrics) {
-      return;
-    }
+    const metrics = this.sourceMetrics.get(source) ?? this.createSourceMetrics(source);
 
     // Update metrics (simplified running average)
     const weight = 0.1; // 10% weight for new data
@@ -278,6 +281,19 @@ export class PerformanceMonitor {
     };
   }
 
+  /**
+   * Latency histograms by validation phase and by API source
+   */
+  getLatencyHistograms(): {
+    validation: Array<{ phase: string; snapshot: HistogramSnapshot }>;
+    api: Array<{ source: string; snapshot: HistogramSnapshot }>;
+  } {
+    return {
+      validation: Array.from(this.validationHistograms, ([phase, histogram]) => ({ phase, snapshot: histogram.snapshot() })),
+      api: Array.from(this.apiHistograms, ([source, histogram]) => ({ source, snapshot: histogram.snapshot() }))
+    };
+  }
+
   /**
    * Get source reliability metrics
    */
@@ -320,32 +336,49 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Initialize source metrics
+   * Initialize source metrics for every registered sports provider
    */
   private initializeSourceMetrics(): void {
-    const sources: ('espn' | 'mlb')[] = ['espn', 'mlb'];
-    
-    for (const source of sources) {
-      this.sourceMetrics.set(source, {
-        source,
-        availability: 1.0,
-        averageLatency: 0,
-        errorRate: 0,
-        failureCount24h: 0,
-        dataQuality: {
-          schemaCompliance: 1.0,
-          dataCompleteness: 1.0,
-          dataFreshness: 1.0
-        },
-        driftDetection: {
-          schemaDrift: false,
-          latencyDrift: false,
-          errorRateDrift: false
-        }
-      });
+    for (const provider of sportsProviders.list()) {
+      this.createSourceMetrics(provider.id);
     }
   }
 
+  /**
+   * Create blank metrics for a source
+   */
+  private createSourceMetrics(source: string): SourceReliabilityMetrics {
+    const metrics: SourceReliabilityMetrics = {
+      source,
+      availability: 1.0,
+      averageLatency: 0,
+      errorRate: 0,
+      failureCount24h: 0,
+      dataQuality: {
+        schemaCompliance: 1.0,
+        dataCompleteness: 1.0,
+        dataFreshness: 1.0
+      },
+      driftDetection: {
+        schemaDrift: false,
+        latencyDrift: false,
+        errorRateDrift: false
+      }
+    };
+
+    this.sourceMetrics.set(source, metrics);
+    return metrics;
+  }
+
+  private observe<K>(histograms: Map<K, Histogram>, key: K, durationMs: number): void {
+    let histogram = histograms.get(key);
+    if (!histogram) {
+      histogram = new Histogram();
+      histograms.set(key, histogram);
+    }
+    histogram.observe(durationMs / 1000);
+  }
+
   /**
    * Check if we should sample this event
    */
@@ -393,21 +426,17 @@ export class PerformanceMonitor {
    * Get API latency statistics
    */
   private getApiLatencyStats(): PerformanceMetrics['apiLatency'] {
-    const espnMetrics = this.sourceMetrics.get('espn');
-    const mlbMetrics = this.sourceMetrics.get('mlb');
+    const stats: PerformanceMetrics['apiLatency'] = {};
 
-    return {
-      espn: {
-        mean: espnMetrics?.averageLatency || 0,
-        p95: espnMetrics?.averageLatency || 0, // Simplified
-        errorRate: espnMetrics?.errorRate || 0
-      },
-      mlb: {
-        mean: mlbMetrics?.averageLatency || 0,
-        p95: mlbMetrics?.averageLatency || 0, // Simplified
-        errorRate: mlbMetrics?.errorRate || 0
-      }
-    };
+    for (const [source, metrics] of this.sourceMetrics) {
+      stats[source] = {
+        mean: metrics.averageLatency,
+        p95: metrics.averageLatency, // Simplified
+        errorRate: metrics.errorRate
+      };
+    }
+
+    return stats;
   }
 
   /**
@@ -436,9 +465,10 @@ export class PerformanceMonitor {
     const failedValidations = data.filter(d => !d.success).length;
     const validationErrorRate = failedValidations / data.length;
 
-    const espnMetrics = this.sourceMetrics.get('espn');
-    const mlbMetrics = this.sourceMetrics.get('mlb');
-    const apiErrorRate = ((espnMetrics?.errorRate || 0) + (mlbMetrics?.errorRate || 0)) / 2;
+    const sourceMetrics = Array.from(this.sourceMetrics.values());
+    const apiErrorRate = sourceMetrics.length > 0
+      ? sourceMetrics.reduce((sum, metrics) => sum + metrics.errorRate, 0) / sourceMetrics.length
+      : 0;
 
     return {
       validation: validationErrorRate,
@@ -499,16 +529,16 @@ export class PerformanceMonitor {
    */
   private async collectMetrics(): Promise<void> {
     try {
-      // Collect circuit breaker stats
+      // Collect circuit breaker stats for each sports provider
       const cbStats = circuitBreakers.getAllStats();
-      for (const [service, stats] of Object.entries(cbStats)) {
-        if (service.includes('espn') || service.includes('mlb')) {
-          const source = service.includes('espn') ? 'espn' : 'mlb';
+      for (const provider of sportsProviders.list()) {
+        const stats = cbStats[sportsProviders.breakerName(provider)];
+        if (stats) {
           this.recordApiCall(
-            source,
-            stats.averageResponseTime || 0,
-            stats.state === 'closed',
-            stats.state === 'open' ? 'Circuit breaker open' : undefined
+            provider.id,
+            stats.avgResponseTime || 0,
+            stats.state === CircuitState.CLOSED,
+            stats.state === CircuitState.OPEN ? 'Circuit breaker open' : undefined
           );
         }
       }
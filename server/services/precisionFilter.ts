@@ -1,78 +1,40 @@
-// Precision filtering system to identify only authentic, active Dodgers deals
-import { storage } from '../storage';
+// Precision filtering system to identify only authentic, active deals in each market
+import { storage, type IStorage } from '../storage';
+import { marketService, mentionsAny, matchesDomain, teamKeywords, type MarketService, type MarketProfile } from './markets';
+import { dealPatternMatcher, type DealPatternMatcher } from './dealPatternMatcher';
+
+export interface PrecisionFilterDeps {
+  store: Pick<IStorage, 'getDiscoveredSites' | 'updateDiscoveredSite'>;
+  markets: Pick<MarketService, 'resolveMarkets'>;
+  patterns: Pick<DealPatternMatcher, 'matchDealPattern' | 'ensureLoaded'>;
+}
 
 export class PrecisionFilter {
-  // Known authentic deal patterns for 2024-2025 Dodgers promotions
-  private authenticDealPatterns = [
-    {
-      restaurant: 'Panda Express',
-      triggers: ['dodgers win', 'dodgerswin'],
-      offers: ['$6 plate', '$6 panda plate', '$6 two-item'],
-      codes: ['DODGERSWIN'],
-      confidence: 0.95
-    },
-    {
-      restaurant: 'Jack in the Box',
-      triggers: ['7+ strikeouts', '7 strikeouts', 'strikeout'],
-      offers: ['free jumbo jack', 'jumbo jack'],
-      confidence: 0.9
-    },
-    {
-      restaurant: 'McDonald\'s',
-      triggers: ['6+ runs', '6 runs', 'home win'],
-      offers: ['free big mac', 'big mac'],
-      confidence: 0.9
-    },
-    {
-      restaurant: 'ampm',
-      triggers: ['home win', 'dodgers win'],
-      offers: ['free coffee', 'free drink'],
-      confidence: 0.85
-    },
-    {
-      restaurant: 'Del Taco',
-      triggers: ['home win', 'dodgers win'],
-      offers: ['free taco', 'taco'],
-      confidence: 0.8
-    }
-  ];
+  private deps: PrecisionFilterDeps;
 
-  // High-quality source domains that are likely to have authentic deals
-  private trustedSources = [
-    // Official restaurant domains
-    'pandaexpress.com',
-    'mcdonalds.com',
-    'jackinthebox.com',
-    'ampm.com',
-    'deltaco.com',
-    
-    // Major news outlets
-    'latimes.com',
-    'abc7.com',
-    'nbclosangeles.com',
-    'cbsla.com',
-    'fox11la.com',
-    
-    // Sports news
+  // National sports outlets, trusted in every market
+  private nationalSportsDomains = [
     'espn.com',
     'mlb.com',
-    'dodgers.com',
-    'theathletic.com',
-    'bleacherreport.com',
-    
-    // Local news
-    'sbsun.com',
-    'dailynews.com',
-    'pasadenastarnews.com',
-    'sgvtribune.com',
-    
-    // Dodgers-focused sites
-    'dodgersnation.com',
-    'truebluela.com',
-    'dodgersway.com',
-    'thinkbluela.com'
+    'nba.com',
+    'nfl.com',
+    'nhl.com',
+    'theathletic.com'
   ];
 
+  private nationalTrustedSources = [
+    'bleacherreport.com'
+  ];
+
+  constructor(deps: Partial<PrecisionFilterDeps> = {}) {
+    this.deps = {
+      store: storage,
+      markets: marketService,
+      patterns: dealPatternMatcher,
+      ...deps
+    };
+  }
+
   // Keywords that indicate spam or low-quality content
   private spamKeywords = [
     'click here',
@@ -87,12 +49,18 @@ export class PrecisionFilter {
     'don\'t miss out'
   ];
 
-  async filterDiscoveredSites(): Promise<any[]> {
-    const allSites = await storage.getDiscoveredSites();
-    console.log(`Starting precision filter on ${allSites.length} discovered sites`);
+  // Score sites against one market, or against every active market keeping each site's best match
+  async filterDiscoveredSites(market?: string): Promise<any[]> {
+    const markets = await this.deps.markets.resolveMarkets(market);
+    const allSites = await this.deps.store.getDiscoveredSites();
+    await this.deps.patterns.ensureLoaded();
+    console.log(`Starting precision filter on ${allSites.length} discovered sites across ${markets.length} markets`);
+    if (markets.length === 0) {
+      return [];
+    }
     
     const precisionFiltered = allSites
-      .map(site => this.scoreSiteAuthenticity(site))
+      .map(site => this.scoreSiteForMarkets(site, markets))
       .filter(site => site.authenticityScore >= 0.5) // Lower threshold initially
       .sort((a, b) => b.authenticityScore - a.authenticityScore)
       .slice(0, 15); // Take top 15 most authentic sites
@@ -100,24 +68,30 @@ export class PrecisionFilter {
     console.log(`Precision filter reduced to ${precisionFiltered.length} high-quality sites`);
     console.log('Top 5 authentic sites:');
     precisionFiltered.slice(0, 5).forEach((site, index) => {
-      console.log(`${index + 1}. ${site.title} - Score: ${site.authenticityScore.toFixed(2)}`);
+      console.log(`${index + 1}. ${site.title} (${site.market}) - Score: ${site.authenticityScore.toFixed(2)}`);
     });
     
     return precisionFiltered;
   }
 
-  private scoreSiteAuthenticity(site: any): any {
+  private scoreSiteForMarkets(site: any, markets: MarketProfile[]): any {
+    return markets
+      .map(market => this.scoreSiteAuthenticity(site, market))
+      .reduce((best, scored) => scored.authenticityScore > best.authenticityScore ? scored : best);
+  }
+
+  private scoreSiteAuthenticity(site: any, market: MarketProfile): any {
     let score = 0;
     const lowerUrl = site.url.toLowerCase();
     const lowerTitle = site.title ? site.title.toLowerCase() : '';
     const lowerContent = site.content ? site.content.toLowerCase() : '';
     
     // Trust score based on source domain
-    const trustScore = this.calculateTrustScore(lowerUrl);
+    const trustScore = this.calculateTrustScore(lowerUrl, market);
     score += trustScore * 0.4; // 40% weight for source trust
     
     // Authenticity score based on deal pattern matching
-    const dealScore = this.calculateDealScore(lowerTitle, lowerContent);
+    const dealScore = this.calculateDealScore(lowerTitle, lowerContent, market);
     score += dealScore * 0.4; // 40% weight for authentic deal patterns
     
     // Recency score (prefer recent content)
@@ -132,6 +106,7 @@ export class PrecisionFilter {
     
     return {
       ...site,
+      market: market.slug,
       authenticityScore: finalScore,
       trustScore,
       dealScore,
@@ -140,29 +115,24 @@ export class PrecisionFilter {
     };
   }
 
-  private calculateTrustScore(url: string): number {
+  private calculateTrustScore(url: string, market: MarketProfile): number {
     // Perfect score for official restaurant domains
-    if (url.includes('pandaexpress.com') || url.includes('mcdonalds.com') || 
-        url.includes('jackinthebox.com') || url.includes('ampm.com') || 
-        url.includes('deltaco.com')) {
+    if (matchesDomain(url, market.restaurants.map(r => r.domain))) {
       return 1.0;
     }
     
-    // High score for major news outlets
-    if (url.includes('latimes.com') || url.includes('abc7.com') || 
-        url.includes('nbclosangeles.com') || url.includes('cbsla.com') || 
-        url.includes('fox11la.com')) {
+    // High score for the market's major news outlets
+    if (matchesDomain(url, market.newsDomains)) {
       return 0.9;
     }
     
-    // Good score for sports news
-    if (url.includes('espn.com') || url.includes('mlb.com') || 
-        url.includes('dodgers.com') || url.includes('theathletic.com')) {
+    // Good score for sports news and the market's team sites
+    if (matchesDomain(url, [...this.nationalSportsDomains, ...market.teamSites])) {
       return 0.85;
     }
     
-    // Medium score for local news and Dodgers sites
-    if (this.trustedSources.some(domain => url.includes(domain))) {
+    // Medium score for local news and fan sites
+    if (matchesDomain(url, [...market.trustedSources, ...this.nationalTrustedSources])) {
       return 0.7;
     }
     
@@ -176,37 +146,26 @@ export class PrecisionFilter {
     return 0.2;
   }
 
-  private calculateDealScore(title: string, content: string): number {
+  private calculateDealScore(title: string, content: string, market: MarketProfile): number {
     let score = 0;
     const text = `${title} ${content}`;
     
-    // Must mention Dodgers to be relevant
-    if (!text.includes('dodgers') && !text.includes('dodger')) {
+    // Must mention one of the market's teams to be relevant
+    const teams = market.teams.filter(team => mentionsAny(text, teamKeywords(team)));
+    if (teams.length === 0) {
       return 0;
     }
     
-    // Check for authentic deal patterns
-    for (const pattern of this.authenticDealPatterns) {
-      let patternScore = 0;
-      
-      // Restaurant mention
-      if (text.includes(pattern.restaurant.toLowerCase())) {
-        patternScore += 0.4;
-      }
-      
-      // Trigger condition
-      if (pattern.triggers.some(trigger => text.includes(trigger))) {
-        patternScore += 0.4;
-      }
-      
-      // Offer description
-      if (pattern.offers.some(offer => text.includes(offer))) {
-        patternScore += 0.3;
-      }
+    // Restaurant mention, strengthened by a known deal pattern for that restaurant and team
+    for (const restaurant of market.restaurants) {
+      if (!text.includes(restaurant.name.toLowerCase())) continue;
       
-      // Promo code (if applicable)
-      if (pattern.codes && pattern.codes.some(code => text.includes(code.toLowerCase()))) {
-        patternScore += 0.2;
+      let patternScore = 0.4;
+      for (const team of teams) {
+        const match = this.deps.patterns.matchDealPattern(text, restaurant.name, team.name, market.slug);
+        if (match.pattern) {
+          patternScore = Math.max(patternScore, 0.4 + match.confidence * 0.6);
+        }
       }
       
       score = Math.max(score, patternScore);
@@ -255,17 +214,17 @@ export class PrecisionFilter {
   }
 
   // Get only the most authentic deals for admin review
-  async getAuthenticDeals(limit: number = 10): Promise<any[]> {
-    const filtered = await this.filterDiscoveredSites();
+  async getAuthenticDeals(limit: number = 10, market?: string): Promise<any[]> {
+    const filtered = await this.filterDiscoveredSites(market);
     return filtered.slice(0, limit);
   }
 
   // Update discovery confidence scores based on authenticity
-  async updateDiscoveryConfidence(): Promise<void> {
-    const filtered = await this.filterDiscoveredSites();
+  async updateDiscoveryConfidence(market?: string): Promise<void> {
+    const filtered = await this.filterDiscoveredSites(market);
     
     for (const site of filtered) {
-      await storage.updateDiscoveredSite(site.id, {
+      await this.deps.store.updateDiscoveredSite(site.id, {
         confidence: site.authenticityScore.toString()
       });
     }
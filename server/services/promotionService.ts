@@ -1,17 +1,13 @@
 import { storage } from '../storage';
 import { emailService } from './emailService';
 import { sportsApiService } from './sportsApiService';
+import { evaluateTriggerConditions, resolveTriggerConditions } from './triggers';
+import { promotionStateMachine, PromotionTransitionError } from './promotionStateMachine';
+import { putImmutable } from './evidence/storage';
+import { dealStream } from './dealStream';
 // Import moved to avoid circular dependency
 import type { Game, Promotion } from '@shared/schema';
 
-interface PromotionTrigger {
-  type: 'win_home' | 'runs_scored' | 'strikeouts' | 'pitching_strikeouts' | 'stolen_base_home' | 'stolen_base_ws' | 'any_win' | 'home_win_and_runs' | 'loss' | 'home_loss';
-  threshold?: number;
-  runsThreshold?: number;
-  seasonal?: boolean;
-  requiredLocation?: 'home' | 'away' | 'any';
-}
-
 class PromotionService {
   async processGameForPromotions(gameId: number): Promise<void> {
     try {
@@ -30,7 +26,16 @@ class PromotionService {
       const triggeredDeals = [];
 
       for (const promotion of promotions) {
-        if (await this.isPromotionTriggered(promotion, game)) {
+        if (!promotionStateMachine.canTrigger(promotion)) {
+          continue;
+        }
+
+        const { isTriggered, matchedClauses } = await this.isPromotionTriggered(promotion, game);
+        if (isTriggered) {
+          if (!(await this.recordTrigger(promotion, game, matchedClauses))) {
+            continue;
+          }
+
           // Create triggered deal
           const triggeredDeal = await storage.createTriggeredDeal({
             promotionId: promotion.id,
@@ -39,6 +44,13 @@ class PromotionService {
           });
 
           triggeredDeals.push(triggeredDeal);
+          dealStream.publish('deal_triggered', [game.teamId, promotion.teamId].filter((id): id is number => id !== null), {
+            triggeredDealId: triggeredDeal.id,
+            promotionId: promotion.id,
+            gameId: game.id,
+            title: promotion.title,
+            expiresAt: triggeredDeal.expiresAt?.toISOString() ?? null
+          });
           console.log(`Promotion ${promotion.id} triggered for game ${gameId}`);
         }
       }
@@ -60,115 +72,66 @@ class PromotionService {
     }
   }
 
-  private async isPromotionTriggered(promotion: Promotion, game: Game): Promise<boolean> {
-    const trigger = this.parseTriggerCondition(promotion.triggerCondition);
-    const gameStats = game.gameStats as any || {};
-    
-    // Basic game result checks
-    const didWin = game.teamScore !== null && game.opponentScore !== null && game.teamScore > game.opponentScore;
-    const didLose = game.teamScore !== null && game.opponentScore !== null && game.teamScore < game.opponentScore;
-    const runsScored = game.teamScore || 0;
-
-    switch (trigger.type) {
-      case 'win_home':
-        return Boolean(game.isHome) && didWin;
-
-      case 'any_win':
-        return didWin;
-
-      case 'loss':
-        return didLose;
-
-      case 'home_loss':
-        return Boolean(game.isHome) && didLose;
-
-      case 'runs_scored':
-        return runsScored >= (trigger.threshold || 6);
-
-      case 'home_win_and_runs':
-        return Boolean(game.isHome) && didWin && runsScored >= (trigger.runsThreshold || 6);
-
-      case 'strikeouts':
-        // Batting strikeouts (team got struck out)
-        return gameStats.strikeOuts >= (trigger.threshold || 7);
-
-      case 'pitching_strikeouts':
-        // Pitching strikeouts (team's pitchers struck out opponents)
-        return gameStats.pitchingStrikeOuts >= (trigger.threshold || 7);
-
-      case 'stolen_base_home':
-        return Boolean(game.isHome) && (gameStats.stolenBases || 0) > 0;
-
-      case 'stolen_base_ws':
-        // Only during World Series (seasonal promotion)
-        return (trigger.seasonal ?? false) && (gameStats.stolenBases || 0) > 0;
-
-      default:
-        console.warn(`Unknown trigger type: ${trigger.type}`);
-        return false;
-    }
-  }
-
-  private parseTriggerCondition(condition: string): PromotionTrigger {
-    const lowerCondition = condition.toLowerCase();
-    console.log(`Parsing trigger condition: "${condition}"`);
-
-    // Complex conditions first (order matters)
-    if (lowerCondition.includes('home') && lowerCondition.includes('win') && 
-        (lowerCondition.includes('6') || lowerCondition.includes('run'))) {
-      const runsMatch = condition.match(/(\d+)\s*\+?\s*runs?/i);
-      const runsThreshold = runsMatch ? parseInt(runsMatch[1]) : 6;
-      return { type: 'home_win_and_runs', runsThreshold };
-    }
-
-    // Win conditions
-    if (lowerCondition.includes('win') && lowerCondition.includes('home')) {
-      return { type: 'win_home' };
-    }
-
-    if (lowerCondition.includes('win') && !lowerCondition.includes('home')) {
-      return { type: 'any_win' };
-    }
-
-    // Loss conditions  
-    if (lowerCondition.includes('loss') || lowerCondition.includes('lose')) {
-      if (lowerCondition.includes('home')) {
-        return { type: 'home_loss' };
-      }
-      return { type: 'loss' };
+  private async isPromotionTriggered(
+    promotion: Promotion,
+    game: Game
+  ): Promise<{ isTriggered: boolean; matchedClauses: string[] }> {
+    let conditions;
+    try {
+      conditions = resolveTriggerConditions(promotion);
+    } catch (error) {
+      // Unparseable conditions never fire - they must be fixed, not guessed at
+      console.warn(`Rejecting promotion ${promotion.id}: ${(error as Error).message}`);
+      return { isTriggered: false, matchedClauses: [] };
     }
 
-    // Runs scored
-    if (lowerCondition.includes('run') || lowerCondition.includes('score')) {
-      const runsMatch = condition.match(/(\d+)\s*\+?\s*runs?/i);
-      const threshold = runsMatch ? parseInt(runsMatch[1]) : 6;
-      return { type: 'runs_scored', threshold };
+    const { isTriggered, matchedClauses } = evaluateTriggerConditions(conditions, game);
+    if (isTriggered) {
+      console.log(`Promotion ${promotion.id} matched: ${matchedClauses.join(', ')}`);
     }
+    return { isTriggered, matchedClauses };
+  }
 
-    // Strikeout conditions
-    if (lowerCondition.includes('strikeout') || lowerCondition.includes('strike out')) {
-      const strikeoutMatch = condition.match(/(\d+)\s*\+?\s*strikeouts?/i);
-      const threshold = strikeoutMatch ? parseInt(strikeoutMatch[1]) : 7;
-      
-      // Determine if this is pitching or batting strikeouts based on context
-      if (lowerCondition.includes('pitch') || lowerCondition.includes('record')) {
-        return { type: 'pitching_strikeouts', threshold };
-      }
-      return { type: 'strikeouts', threshold };
+  /**
+   * Move the promotion to triggered; the game snapshot is stored as immutable
+   * evidence first and also kept in the transition metadata, so the recorded
+   * hash always points at stored evidence
+   */
+  private async recordTrigger(promotion: Promotion, game: Game, matchedClauses: string[]): Promise<boolean> {
+    const evidence = {
+      type: 'promotion_trigger',
+      promotionId: promotion.id,
+      gameId: game.id,
+      externalGameId: game.externalId,
+      teamScore: game.teamScore,
+      opponentScore: game.opponentScore,
+      triggerCondition: promotion.triggerCondition,
+      matchedClauses
+    };
+
+    let evidenceHash: string;
+    try {
+      evidenceHash = (await putImmutable(evidence)).hash;
+    } catch (error) {
+      console.warn(`Promotion ${promotion.id} not triggered: evidence could not be stored: ${(error as Error).message}`);
+      return false;
     }
 
-    // Stolen base conditions
-    if (lowerCondition.includes('steal') || lowerCondition.includes('stolen')) {
-      if (lowerCondition.includes('world series')) {
-        return { type: 'stolen_base_ws', seasonal: true };
-      }
-      if (lowerCondition.includes('home')) {
-        return { type: 'stolen_base_home' };
+    try {
+      await promotionStateMachine.advance(promotion.id, 'triggered', {
+        actor: 'promotion_service',
+        reason: `"${promotion.triggerCondition}" met by game ${game.id} vs ${game.opponent}`,
+        evidenceHash,
+        metadata: evidence
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof PromotionTransitionError) {
+        console.warn(`Promotion ${promotion.id} not triggered: ${error.message}`);
+        return false;
       }
+      throw error;
     }
-
-    console.warn(`Could not parse trigger condition: "${condition}", using default home win`);
-    return { type: 'win_home' };
   }
 
   private calculateExpirationDate(promotion: Promotion): Date | null {
@@ -184,8 +147,8 @@ class PromotionService {
 
   private async sendAlertsForTriggeredDeals(teamId: number, triggeredDeals: any[]): Promise<void> {
     try {
-      // Get all users who have alert preferences for this team
-      const userIds = await storage.getUsersByTeamPreference(teamId);
+      // Morning-only users get these in the next morning digest instead
+      const userIds = await storage.getUsersByTeamPreference(teamId, ['immediate', 'both']);
       
       console.log(`Sending alerts to ${userIds.length} users for team ${teamId}`);
 
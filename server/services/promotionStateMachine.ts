@@ -0,0 +1,270 @@
+/**
+ * Promotion State Machine
+ *
+ * The only writer of promotions.state. Every move is checked against the
+ * transition table and its guards, then applied together with a row in
+ * promotion_state_transitions (actor, reason, evidence hash) so the history
+ * endpoint can explain how a promotion reached its current state.
+ *
+ *   draft ──► approved ──► validating ──► validated ──► triggered
+ *                 ▲             │              │             │
+ *                 └─────────────┴──────────────┴─────────────┘
+ *   approved / validating ──► triggered (a game fired the deal; nothing was validated)
+ *   approved / validating / validated / triggered ──► expired ──► archived
+ */
+
+import { PROMOTION_STATES, type Promotion, type PromotionState, type PromotionStateTransition } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+
+export const PROMOTION_TRANSITIONS: Record<PromotionState, readonly PromotionState[]> = {
+  draft: ['approved', 'archived'],
+  approved: ['validating', 'triggered', 'expired', 'archived', 'draft'],
+  validating: ['validated', 'triggered', 'approved', 'expired'],
+  validated: ['triggered', 'approved', 'expired'],
+  // triggered → triggered records a later game firing the same deal again
+  triggered: ['triggered', 'approved', 'expired', 'archived'],
+  expired: ['approved', 'archived'],
+  archived: []
+};
+
+// States a promotion may be created in
+export const INITIAL_PROMOTION_STATES: readonly PromotionState[] = ['draft', 'approved'];
+
+// Rows written before the state machine existed (e.g. 'validation_failed') may only be recovered or retired
+const LEGACY_STATE_TRANSITIONS: readonly PromotionState[] = ['approved', 'archived'];
+
+// States in which a game result can still fire the deal
+const TRIGGERABLE_STATES: readonly PromotionState[] = ['approved', 'validating', 'validated', 'triggered'];
+
+export type PromotionTransitionErrorCode = 'NOT_FOUND' | 'ILLEGAL_TRANSITION' | 'GUARD_FAILED' | 'STALE_STATE';
+
+export class PromotionTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PromotionTransitionErrorCode,
+    public readonly promotionId: number,
+    public readonly from: string | null,
+    public readonly to: string
+  ) {
+    super(message);
+    this.name = 'PromotionTransitionError';
+  }
+}
+
+export interface TransitionContext {
+  /** User id or service name responsible for the move */
+  actor: string;
+  reason: string;
+  /** immutable_evidence hash backing the move; required to validate or trigger */
+  evidenceHash?: string;
+  metadata?: Record<string, unknown>;
+}
+
+type PromotionStateStore = Pick<
+  IStorage,
+  'getPromotion' | 'transitionPromotionState' | 'getPromotionStateTransitions'
+>;
+
+export function isPromotionState(value: unknown): value is PromotionState {
+  return typeof value === 'string' && (PROMOTION_STATES as readonly string[]).includes(value);
+}
+
+/**
+ * Current lifecycle state; promotions created before the state column default to approved
+ */
+export function currentState(promotion: Pick<Promotion, 'state'>): string {
+  return promotion.state ?? 'approved';
+}
+
+export function allowedTransitions(from: string): readonly PromotionState[] {
+  return isPromotionState(from) ? PROMOTION_TRANSITIONS[from] : LEGACY_STATE_TRANSITIONS;
+}
+
+/**
+ * Shortest legal path from one state to another, excluding `from` itself.
+ * Returns [] when already there and null when the target is unreachable.
+ */
+export function findTransitionPath(from: string, to: PromotionState): PromotionState[] | null {
+  if (from === to) {
+    return [];
+  }
+
+  const previous = new Map<string, string>();
+  const queue: string[] = [from];
+  const visited = new Set<string>([from]);
+
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    for (const next of allowedTransitions(state)) {
+      if (visited.has(next)) continue;
+      visited.add(next);
+      previous.set(next, state);
+
+      if (next === to) {
+        const path: PromotionState[] = [];
+        for (let step: string = to; step !== from; step = previous.get(step)!) {
+          path.unshift(step as PromotionState);
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+function hasValidityEnded(promotion: Pick<Promotion, 'validUntil'>, now: Date): boolean {
+  if (!promotion.validUntil) return false;
+  // validUntil is a DATE; the promotion stays valid through the end of that day
+  return new Date(`${promotion.validUntil}T23:59:59.999Z`).getTime() < now.getTime();
+}
+
+/**
+ * Guard for a single move; returns the reason it is blocked, or null when allowed
+ */
+export function checkTransitionGuard(
+  promotion: Pick<Promotion, 'isActive' | 'validUntil' | 'approvalStatus'>,
+  from: string,
+  to: PromotionState,
+  context: Pick<TransitionContext, 'evidenceHash'>,
+  now: Date = new Date()
+): string | null {
+  switch (to) {
+    case 'approved':
+      if (promotion.approvalStatus === 'rejected') {
+        return 'promotion was rejected during review';
+      }
+      if (from === 'expired' && hasValidityEnded(promotion, now)) {
+        return 'validUntil has passed; extend it before re-approving';
+      }
+      return null;
+    case 'validating':
+      if (promotion.isActive === false) {
+        return 'promotion is inactive';
+      }
+      if (hasValidityEnded(promotion, now)) {
+        return 'validUntil has passed';
+      }
+      return null;
+    case 'validated':
+    case 'triggered':
+      return context.evidenceHash ? null : `an evidence hash is required to move to ${to}`;
+    default:
+      return null;
+  }
+}
+
+export class PromotionStateMachine {
+  constructor(private readonly store: PromotionStateStore = storage) {}
+
+  canTransition(from: string, to: PromotionState): boolean {
+    return allowedTransitions(from).includes(to);
+  }
+
+  canTrigger(promotion: Pick<Promotion, 'state'>): boolean {
+    return (TRIGGERABLE_STATES as readonly string[]).includes(currentState(promotion));
+  }
+
+  /**
+   * Apply one legal transition and record it
+   */
+  async transition(promotionId: number, to: PromotionState, context: TransitionContext): Promise<Promotion> {
+    const promotion = await this.store.getPromotion(promotionId);
+    if (!promotion) {
+      throw new PromotionTransitionError(`Promotion ${promotionId} not found`, 'NOT_FOUND', promotionId, null, to);
+    }
+    return this.apply(promotion, to, context);
+  }
+
+  /**
+   * Walk the shortest legal path to `target`, recording each step with the
+   * same context. Already being in `target` is a no-op, except for
+   * re-triggering, which is recorded.
+   */
+  async advance(promotionId: number, target: PromotionState, context: TransitionContext): Promise<Promotion> {
+    let promotion = await this.store.getPromotion(promotionId);
+    if (!promotion) {
+      throw new PromotionTransitionError(`Promotion ${promotionId} not found`, 'NOT_FOUND', promotionId, null, target);
+    }
+
+    const from = currentState(promotion);
+    const path = from === target && this.canTransition(from, target)
+      ? [target]
+      : findTransitionPath(from, target);
+
+    if (!path) {
+      throw new PromotionTransitionError(
+        `Promotion ${promotionId} cannot reach ${target} from ${from}`,
+        'ILLEGAL_TRANSITION',
+        promotionId,
+        from,
+        target
+      );
+    }
+
+    for (const step of path) {
+      promotion = await this.apply(promotion, step, context);
+    }
+    return promotion;
+  }
+
+  async getHistory(promotionId: number): Promise<PromotionStateTransition[]> {
+    return this.store.getPromotionStateTransitions(promotionId);
+  }
+
+  private async apply(promotion: Promotion, to: PromotionState, context: TransitionContext): Promise<Promotion> {
+    const from = currentState(promotion);
+
+    if (!this.canTransition(from, to)) {
+      throw new PromotionTransitionError(
+        `Illegal promotion transition ${from} → ${to} for promotion ${promotion.id}`,
+        'ILLEGAL_TRANSITION',
+        promotion.id,
+        from,
+        to
+      );
+    }
+
+    const blocked = checkTransitionGuard(promotion, from, to, context);
+    if (blocked) {
+      throw new PromotionTransitionError(
+        `Promotion ${promotion.id} cannot move ${from} → ${to}: ${blocked}`,
+        'GUARD_FAILED',
+        promotion.id,
+        from,
+        to
+      );
+    }
+
+    const updated = await this.store.transitionPromotionState(promotion.id, promotion.state, {
+      toState: to,
+      actor: context.actor,
+      reason: context.reason,
+      evidenceHash: context.evidenceHash,
+      metadata: context.metadata
+    });
+
+    if (!updated) {
+      throw new PromotionTransitionError(
+        `Promotion ${promotion.id} is no longer ${from}; transition to ${to} was not applied`,
+        'STALE_STATE',
+        promotion.id,
+        from,
+        to
+      );
+    }
+
+    console.log(`📝 Promotion ${promotion.id} state: ${from} → ${to} (${context.actor})`);
+    return updated;
+  }
+}
+
+export function assertInitialPromotionState(state: string | null | undefined): void {
+  const initial = state ?? 'approved';
+  if (!(INITIAL_PROMOTION_STATES as readonly string[]).includes(initial)) {
+    throw new Error(`Promotions must be created as ${INITIAL_PROMOTION_STATES.join(' or ')}, not ${initial}`);
+  }
+}
+
+export const promotionStateMachine = new PromotionStateMachine();
@@ -0,0 +1,59 @@
+import { localClock, minutesUntil, parseLocalTime, resolveTimezone } from "../lib/timezone";
+
+/**
+ * Quiet Hours
+ * A daily HH:MM window, evaluated in the user's own timezone, during which
+ * notifications are held back. The start is inclusive and the end exclusive,
+ * so anything released at the end time is outside the window.
+ */
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: true,
+  start: "22:00",
+  end: "08:00"
+};
+
+/**
+ * Minutes left in the quiet window at `now`, or 0 when outside it
+ */
+function minutesLeft(quietHours: QuietHours | undefined, timezone: string | null | undefined, now: Date): number {
+  if (!quietHours?.enabled) return 0;
+
+  const start = parseLocalTime(quietHours.start);
+  const end = parseLocalTime(quietHours.end);
+  // Same start and end is an empty window
+  if (start === end) return 0;
+
+  const current = localClock(now, resolveTimezone(timezone)).minutes;
+  const length = minutesUntil(start, end);
+  return minutesUntil(start, current) < length ? minutesUntil(current, end) : 0;
+}
+
+export function isQuietHours(
+  quietHours: QuietHours | undefined,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  return minutesLeft(quietHours, timezone, now) > 0;
+}
+
+/**
+ * When the current quiet window ends, or null if `now` is outside quiet hours
+ */
+export function quietHoursEndsAt(
+  quietHours: QuietHours | undefined,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): Date | null {
+  const minutes = minutesLeft(quietHours, timezone, now);
+  if (minutes === 0) return null;
+
+  const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+  return new Date(startOfMinute + minutes * 60000);
+}
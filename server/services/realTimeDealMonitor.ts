@@ -102,6 +102,7 @@ export class RealTimeDealMonitor extends EventEmitter {
       }
 
       // Get pattern matching stats
+      await dealPatternMatcher.ensureLoaded();
       result.patternStats = dealPatternMatcher.getPatternStats();
 
     } catch (error) {
@@ -176,17 +177,18 @@ export class RealTimeDealMonitor extends EventEmitter {
   }
 
   // Performance monitoring
-  getPerformanceMetrics(): {
+  async getPerformanceMetrics(): Promise<{
     averageRunTime: number;
     successRate: number;
     dealsPerHour: number;
     patternMatchAccuracy: number;
-  } {
+  }> {
     const hoursRunning = this.stats.totalRuns * (this.monitoringInterval / (1000 * 60 * 60));
     const successRate = this.stats.totalRuns > 0 
       ? (this.stats.totalRuns - this.stats.lastErrors.length) / this.stats.totalRuns 
       : 0;
 
+    await dealPatternMatcher.ensureLoaded();
     return {
       averageRunTime: Math.round(this.stats.averageRunTime),
       successRate: Math.round(successRate * 100) / 100,
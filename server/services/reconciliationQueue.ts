@@ -0,0 +1,260 @@
+/**
+ * Reconciliation Queue
+ *
+ * Consensus decisions the engine cannot settle on its own (NEEDS_REVIEW, or
+ * any declined validation that still requires reconciliation) are queued here
+ * with every SourceContribution, so a reviewer can compare the sources side by
+ * side. For each disputed field the reviewer picks the authoritative source's
+ * value or enters one manually; the decision is stored as evidence and the
+ * waiting workflow resumes with the resolved game data.
+ */
+
+import { CONSENSUS_CRITICAL_FIELDS, type SourceContribution } from './consensusEngine.js';
+import type { GameData } from './enhancedSportsApiService.js';
+import type { PromotionValidation } from './validationService.js';
+import type { WorkflowExecution } from './workflowOrchestrator.js';
+import { putImmutable } from './evidence/storage.js';
+import { storage, type IStorage } from '../storage.js';
+import type { ReconciliationReview } from '@shared/schema';
+
+export type ReviewFieldValue = string | number | boolean;
+
+/** Source the reviewer took a value from, or 'manual' for an entered value */
+export interface FieldDecision {
+  source: string;
+  value?: ReviewFieldValue;
+}
+
+export interface ReviewDecision {
+  decisions: Record<string, FieldDecision>;
+  reviewerId: string;
+  note?: string;
+}
+
+export interface ReviewOutcome {
+  review: ReconciliationReview;
+  /** Resumed workflow; absent when resuming failed (the decision is still stored) */
+  execution?: WorkflowExecution;
+  resumeError?: string;
+}
+
+export type ReconciliationErrorCode = 'NOT_FOUND' | 'ALREADY_RESOLVED' | 'INVALID_DECISION';
+
+export class ReconciliationError extends Error {
+  constructor(message: string, public readonly code: ReconciliationErrorCode) {
+    super(message);
+    this.name = 'ReconciliationError';
+  }
+}
+
+/**
+ * Persistence, evidence and workflow hooks, injectable for tests
+ */
+export interface ReconciliationQueueDeps {
+  store: Pick<
+    IStorage,
+    | 'createReconciliationReview'
+    | 'getReconciliationReview'
+    | 'getReconciliationReviews'
+    | 'getPendingReconciliationReview'
+    | 'resolveReconciliationReview'
+  >;
+  putEvidence: (evidence: any) => Promise<{ hash: string }>;
+  resume: (review: ReconciliationReview) => Promise<WorkflowExecution>;
+}
+
+export const MANUAL_SOURCE = 'manual';
+
+// Value type of each reviewable field, used to check manually entered values
+const FIELD_TYPES: Record<(typeof CONSENSUS_CRITICAL_FIELDS)[number], 'score' | 'boolean'> = {
+  'teams.home.score': 'score',
+  'teams.away.score': 'score',
+  'status.isFinal': 'boolean'
+};
+
+function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], obj);
+}
+
+function setNestedValue(obj: any, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce((current, key) => current[key], obj);
+  parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Critical fields the sources disagree on. With a single source there is
+ * nothing to compare against, so every critical field needs confirming.
+ */
+export function findDisputedFields(sources: SourceContribution[]): string[] {
+  if (sources.length < 2) {
+    return [...CONSENSUS_CRITICAL_FIELDS];
+  }
+  return CONSENSUS_CRITICAL_FIELDS.filter(field =>
+    new Set(sources.map(source => getNestedValue(source.data, field))).size > 1
+  );
+}
+
+export class ReconciliationQueueService {
+  private deps: ReconciliationQueueDeps;
+
+  constructor(deps: Partial<ReconciliationQueueDeps> = {}) {
+    this.deps = {
+      store: storage,
+      putEvidence: putImmutable,
+      // Loaded lazily: the orchestrator enqueues here, so a static import would be circular
+      resume: async review => {
+        const { workflowOrchestrator } = await import('./workflowOrchestrator.js');
+        return workflowOrchestrator.resumeAfterReview(review);
+      },
+      ...deps
+    };
+  }
+
+  /**
+   * Queue a declined validation for review. Returns the existing pending
+   * review when the same game/promotion is already waiting, and null when the
+   * validation has no consensus to review (e.g. every source failed).
+   */
+  async enqueue(
+    validation: PromotionValidation,
+    origin: { eventId?: string; executionId?: string } = {}
+  ): Promise<ReconciliationReview | null> {
+    const consensus = validation.validation.consensus;
+    if (!consensus) {
+      return null;
+    }
+
+    const existing = await this.deps.store.getPendingReconciliationReview(validation.gameId, validation.promotionId);
+    if (existing) {
+      return existing;
+    }
+
+    const review = await this.deps.store.createReconciliationReview({
+      gameId: validation.gameId,
+      promotionId: validation.promotionId,
+      eventId: origin.eventId ?? null,
+      executionId: origin.executionId ?? null,
+      status: 'pending',
+      consensusStatus: consensus.status,
+      confidence: consensus.confidence,
+      decisionRationale: consensus.decisionRationale,
+      sources: consensus.sources,
+      disputedFields: findDisputedFields(consensus.sources),
+      proposedGameData: consensus.gameData,
+      consensusEvidenceHash: consensus.evidenceHash
+    });
+
+    console.log(`🧑‍⚖️ Queued review ${review.id} for promotion ${validation.promotionId} on game ${validation.gameId} (${review.disputedFields.join(', ')})`);
+    return review;
+  }
+
+  async list(status?: 'pending' | 'resolved', limit?: number): Promise<ReconciliationReview[]> {
+    return this.deps.store.getReconciliationReviews(status, limit);
+  }
+
+  async get(id: number): Promise<ReconciliationReview | undefined> {
+    return this.deps.store.getReconciliationReview(id);
+  }
+
+  /**
+   * Apply a reviewer's decision: every disputed field must be settled, either
+   * from one of the review's sources or with a manual value. The decision is
+   * stored as evidence before the review is closed and the workflow resumed.
+   */
+  async resolve(id: number, decision: ReviewDecision): Promise<ReviewOutcome> {
+    const pending = await this.deps.store.getReconciliationReview(id);
+    if (!pending) {
+      throw new ReconciliationError(`Review ${id} not found`, 'NOT_FOUND');
+    }
+    if (pending.status !== 'pending') {
+      throw new ReconciliationError(`Review ${id} was already resolved`, 'ALREADY_RESOLVED');
+    }
+
+    const sources = pending.sources as SourceContribution[];
+    const resolution: Record<string, { source: string; value: ReviewFieldValue }> = {};
+    for (const field of pending.disputedFields) {
+      const fieldDecision = decision.decisions[field];
+      if (!fieldDecision) {
+        throw new ReconciliationError(`No decision for disputed field ${field}`, 'INVALID_DECISION');
+      }
+      resolution[field] = { source: fieldDecision.source, value: this.decisionValue(field, fieldDecision, sources) };
+    }
+
+    const unknownFields = Object.keys(decision.decisions).filter(field => !pending.disputedFields.includes(field));
+    if (unknownFields.length > 0) {
+      throw new ReconciliationError(`Fields not under review: ${unknownFields.join(', ')}`, 'INVALID_DECISION');
+    }
+
+    const resolvedGameData: GameData = structuredClone(pending.proposedGameData as GameData);
+    for (const [field, { value }] of Object.entries(resolution)) {
+      setNestedValue(resolvedGameData, field, value);
+    }
+
+    const reviewedAt = new Date();
+    const evidence = await this.deps.putEvidence({
+      type: 'reconciliation_decision',
+      reviewId: pending.id,
+      gameId: pending.gameId,
+      promotionId: pending.promotionId,
+      consensusStatus: pending.consensusStatus,
+      consensusEvidenceHash: pending.consensusEvidenceHash,
+      resolution,
+      resolvedGameData,
+      reviewedBy: decision.reviewerId,
+      note: decision.note,
+      timestamp: reviewedAt.toISOString()
+    });
+
+    const review = await this.deps.store.resolveReconciliationReview(pending.id, {
+      resolution,
+      resolvedGameData,
+      decisionEvidenceHash: evidence.hash,
+      reviewNote: decision.note ?? null,
+      reviewedBy: decision.reviewerId,
+      reviewedAt
+    });
+    if (!review) {
+      throw new ReconciliationError(`Review ${id} was already resolved`, 'ALREADY_RESOLVED');
+    }
+
+    console.log(`✅ Review ${review.id} resolved by ${decision.reviewerId}; resuming workflow for game ${review.gameId}`);
+
+    try {
+      return { review, execution: await this.deps.resume(review) };
+    } catch (error) {
+      console.error(`Failed to resume workflow after review ${review.id}:`, (error as Error).message);
+      return { review, resumeError: (error as Error).message };
+    }
+  }
+
+  /**
+   * Value for one field: taken from the named source, or checked against the
+   * field's type when entered manually
+   */
+  private decisionValue(field: string, decision: FieldDecision, sources: SourceContribution[]): ReviewFieldValue {
+    if (decision.source !== MANUAL_SOURCE) {
+      const source = sources.find(s => s.source === decision.source);
+      if (!source) {
+        throw new ReconciliationError(`Unknown source ${decision.source} for ${field}`, 'INVALID_DECISION');
+      }
+      return getNestedValue(source.data, field);
+    }
+
+    const type = FIELD_TYPES[field as keyof typeof FIELD_TYPES];
+    const value = decision.value;
+    if (type === 'score' && typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+      return value;
+    }
+    if (type === 'boolean' && typeof value === 'boolean') {
+      return value;
+    }
+    throw new ReconciliationError(
+      `Manual value for ${field} must be ${type === 'score' ? 'a non-negative whole number' : 'true or false'}`,
+      'INVALID_DECISION'
+    );
+  }
+}
+
+// Global reconciliation queue instance
+export const reconciliationQueue = new ReconciliationQueueService();
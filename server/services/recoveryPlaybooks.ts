@@ -0,0 +1,452 @@
+/**
+ * Recovery Playbooks
+ *
+ * Maps HealthCheckSystem components to the handlers that actually recover
+ * them (reset breakers, clear caches, restart monitors), with a run policy
+ * per playbook:
+ * - automatable playbooks run from health checks when their component is
+ *   unhealthy and `matches` the reported issues; others are manual only
+ * - cooldownMs between runs and at most maxAttempts per attemptWindowMs, so
+ *   a handler that does not help stops firing and escalates to a human
+ * - every run, automatic or manual, is written to the recovery audit trail
+ *
+ * Recent attempts are reloaded from the audit trail on start() so limits
+ * survive restarts.
+ */
+
+import { circuitBreakers } from '../lib/circuitBreaker.js';
+import { rateLimiters } from '../lib/rateLimiter.js';
+import { enhancedSportsApi } from './enhancedSportsApiService.js';
+import { gameMonitor } from './gameMonitor.js';
+import { workflowOrchestrator } from './workflowOrchestrator.js';
+import { integrationBridge } from './integrationBridge.js';
+import { storage, type IStorage, type RecoveryActionLogFilters } from '../storage.js';
+import type { RecoveryActionLog } from '@shared/schema';
+import type { ComponentHealth, RecoveryAction } from './healthCheckSystem.js';
+
+export type RecoveryTrigger = 'automatic' | 'manual';
+
+export interface RecoveryPlaybook {
+  playbookId: string;
+  component: string; // ComponentHealth.component this playbook recovers
+  action: RecoveryAction['action'];
+  description: string;
+  automatable: boolean;
+  cooldownMs: number;
+  maxAttempts: number; // per attemptWindowMs, counting failures
+  attemptWindowMs: number;
+  timeoutMs?: number;
+  // Whether an automatic run applies to this health report; defaults to any unhealthy report
+  matches?: (health: ComponentHealth) => boolean;
+  run: () => Promise<void> | void;
+}
+
+export interface RecoveryPlaybookStatus {
+  playbookId: string;
+  component: string;
+  action: RecoveryAction['action'];
+  description: string;
+  automatable: boolean;
+  cooldownMs: number;
+  maxAttempts: number;
+  attemptWindowMs: number;
+  running: boolean;
+  attemptsInWindow: number;
+  lastRun?: RecoveryAction;
+  nextAvailableAt?: string;
+}
+
+export interface RunPlaybookOptions {
+  trigger: RecoveryTrigger;
+  requestedBy?: string;
+  reason?: string;
+  force?: boolean; // manual runs only: bypass cooldown and attempt limits
+}
+
+export type RecoveryPlaybookErrorCode = 'NOT_FOUND' | 'IN_PROGRESS' | 'COOLDOWN' | 'MAX_ATTEMPTS';
+
+export class RecoveryPlaybookError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RecoveryPlaybookErrorCode,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'RecoveryPlaybookError';
+  }
+}
+
+export interface RecoveryPlaybookDeps {
+  store: Pick<IStorage, 'createRecoveryActionLog' | 'getRecoveryActionLogs'>;
+  now: () => number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_RECENT_ACTIONS = 100;
+
+const hasIssue = (fragment: string) => (health: ComponentHealth) =>
+  health.issues.some(issue => issue.includes(fragment));
+
+async function restart(service: { stop(): Promise<void>; start(): Promise<void> }): Promise<void> {
+  await service.stop();
+  await service.start();
+}
+
+export function defaultRecoveryPlaybooks(): RecoveryPlaybook[] {
+  return [
+    {
+      playbookId: 'circuit_breakers.close_all',
+      component: 'Circuit Breakers',
+      action: 'reset_circuit_breaker',
+      description: 'Force all open circuit breakers closed',
+      automatable: true,
+      cooldownMs: 5 * MINUTE_MS,
+      maxAttempts: 3,
+      attemptWindowMs: HOUR_MS,
+      matches: hasIssue('services failed'),
+      run: () => circuitBreakers.forceAllClosed()
+    },
+    {
+      playbookId: 'rate_limiters.reset_all',
+      component: 'Rate Limiters',
+      action: 'reset_rate_limiter',
+      description: 'Reset exhausted rate limiters',
+      automatable: true,
+      cooldownMs: 15 * MINUTE_MS,
+      maxAttempts: 2,
+      attemptWindowMs: HOUR_MS,
+      matches: hasIssue('exhausted'),
+      run: () => rateLimiters.resetAll()
+    },
+    {
+      playbookId: 'sports_api.reset_circuit_breakers',
+      component: 'Enhanced Sports API',
+      action: 'reset_circuit_breaker',
+      description: 'Reset sports provider circuit breakers',
+      automatable: true,
+      cooldownMs: 5 * MINUTE_MS,
+      maxAttempts: 3,
+      attemptWindowMs: HOUR_MS,
+      matches: hasIssue('Providers unavailable'),
+      run: () => enhancedSportsApi.resetCircuitBreakers()
+    },
+    {
+      playbookId: 'sports_api.clear_cache',
+      component: 'Enhanced Sports API',
+      action: 'clear_cache',
+      description: 'Clear the sports API response cache',
+      automatable: true,
+      cooldownMs: 10 * MINUTE_MS,
+      maxAttempts: 3,
+      attemptWindowMs: HOUR_MS,
+      matches: hasIssue('Enhanced Sports API check failed'),
+      run: () => enhancedSportsApi.clearCache()
+    },
+    {
+      playbookId: 'game_monitor.restart',
+      component: 'Game Monitor',
+      action: 'restart',
+      description: 'Restart the game monitor',
+      automatable: false, // drops live game polling mid-inning; needs an operator
+      cooldownMs: 10 * MINUTE_MS,
+      maxAttempts: 3,
+      attemptWindowMs: HOUR_MS,
+      timeoutMs: 60000,
+      matches: hasIssue('not running'),
+      run: () => restart(gameMonitor)
+    },
+    {
+      playbookId: 'workflow_orchestrator.restart',
+      component: 'Workflow Orchestrator',
+      action: 'restart',
+      description: 'Restart the workflow orchestrator',
+      automatable: false, // in-flight executions are dropped; needs an operator
+      cooldownMs: 10 * MINUTE_MS,
+      maxAttempts: 3,
+      attemptWindowMs: HOUR_MS,
+      timeoutMs: 60000,
+      run: () => restart(workflowOrchestrator)
+    },
+    {
+      playbookId: 'integration_bridge.restart',
+      component: 'Integration Bridge',
+      action: 'restart',
+      description: 'Restart the integration bridge',
+      automatable: false, // may re-run promotion integrations; needs an operator
+      cooldownMs: 10 * MINUTE_MS,
+      maxAttempts: 3,
+      attemptWindowMs: HOUR_MS,
+      timeoutMs: 60000,
+      run: () => restart(integrationBridge)
+    }
+  ];
+}
+
+export class RecoveryPlaybookRegistry {
+  private playbooks = new Map<string, RecoveryPlaybook>();
+  private attempts = new Map<string, number[]>(); // playbookId -> run timestamps, oldest first
+  private lastRuns = new Map<string, RecoveryAction>();
+  private running = new Set<string>();
+  private recentActions: RecoveryAction[] = [];
+  private deps: RecoveryPlaybookDeps;
+
+  constructor(playbooks: RecoveryPlaybook[] = defaultRecoveryPlaybooks(), deps: Partial<RecoveryPlaybookDeps> = {}) {
+    this.deps = {
+      store: storage,
+      now: () => Date.now(),
+      ...deps
+    };
+    playbooks.forEach(playbook => this.register(playbook));
+  }
+
+  register(playbook: RecoveryPlaybook): void {
+    this.playbooks.set(playbook.playbookId, playbook);
+  }
+
+  /**
+   * Reload recent attempts so cooldowns and attempt limits survive restarts
+   */
+  async start(): Promise<void> {
+    const longestWindow = Math.max(0, ...Array.from(this.playbooks.values()).map(p => p.attemptWindowMs));
+    const logs = await this.deps.store.getRecoveryActionLogs({
+      since: new Date(this.deps.now() - longestWindow),
+      limit: 500
+    });
+
+    // Logs arrive newest first
+    for (const log of [...logs].reverse()) {
+      const action = this.fromLogRow(log);
+      this.recordAttempt(log.playbookId, log.executedAt.getTime());
+      this.lastRuns.set(log.playbookId, action);
+      this.remember(action);
+    }
+    console.log(`🔧 Recovery playbooks ready (${this.playbooks.size} playbooks, ${logs.length} recent runs)`);
+  }
+
+  list(): RecoveryPlaybookStatus[] {
+    return Array.from(this.playbooks.values()).map(playbook => this.status(playbook));
+  }
+
+  get(playbookId: string): RecoveryPlaybookStatus | undefined {
+    const playbook = this.playbooks.get(playbookId);
+    return playbook ? this.status(playbook) : undefined;
+  }
+
+  find(component: string, action: RecoveryAction['action']): RecoveryPlaybook | undefined {
+    return Array.from(this.playbooks.values()).find(p => p.component === component && p.action === action);
+  }
+
+  /**
+   * Runs held since start(), newest first
+   */
+  getRecentActions(): RecoveryAction[] {
+    return [...this.recentActions];
+  }
+
+  async getAuditTrail(filters: RecoveryActionLogFilters = {}): Promise<RecoveryAction[]> {
+    const logs = await this.deps.store.getRecoveryActionLogs(filters);
+    return logs.map(log => this.fromLogRow(log));
+  }
+
+  /**
+   * Run a playbook, enforcing its policy; throws RecoveryPlaybookError when it may not run now
+   */
+  async run(playbookId: string, options: RunPlaybookOptions): Promise<RecoveryAction> {
+    const playbook = this.playbooks.get(playbookId);
+    if (!playbook) {
+      throw new RecoveryPlaybookError(`Recovery playbook ${playbookId} not found`, 'NOT_FOUND');
+    }
+
+    this.checkPolicy(playbook, options.trigger === 'manual' && options.force === true);
+    return this.execute(playbook, options);
+  }
+
+  /**
+   * Run every automatable playbook that applies to an unhealthy component.
+   * Playbooks held back by policy are skipped; returns the runs that happened.
+   */
+  async runAutomatic(health: ComponentHealth): Promise<RecoveryAction[]> {
+    const applicable = Array.from(this.playbooks.values())
+      .filter(p => p.component === health.component && p.automatable)
+      .filter(p => (p.matches ? p.matches(health) : true));
+
+    const actions: RecoveryAction[] = [];
+    for (const playbook of applicable) {
+      try {
+        this.checkPolicy(playbook, false);
+      } catch (error) {
+        if (error instanceof RecoveryPlaybookError && error.code === 'MAX_ATTEMPTS') {
+          console.log(`⚠️ ${playbook.playbookId} reached ${playbook.maxAttempts} attempts; manual intervention required for ${health.component}`);
+        }
+        continue;
+      }
+      actions.push(await this.execute(playbook, {
+        trigger: 'automatic',
+        reason: health.issues.join('; ') || `${health.component} ${health.status}`
+      }));
+    }
+    return actions;
+  }
+
+  private checkPolicy(playbook: RecoveryPlaybook, force: boolean): void {
+    if (this.running.has(playbook.playbookId)) {
+      throw new RecoveryPlaybookError(`${playbook.playbookId} is already running`, 'IN_PROGRESS');
+    }
+    if (force) return;
+
+    const now = this.deps.now();
+    const attempts = this.attemptsInWindow(playbook, now);
+    const last = attempts[attempts.length - 1];
+
+    if (last !== undefined && now - last < playbook.cooldownMs) {
+      throw new RecoveryPlaybookError(
+        `${playbook.playbookId} is cooling down`,
+        'COOLDOWN',
+        playbook.cooldownMs - (now - last)
+      );
+    }
+    if (attempts.length >= playbook.maxAttempts) {
+      throw new RecoveryPlaybookError(
+        `${playbook.playbookId} reached ${playbook.maxAttempts} attempts in the last ${Math.round(playbook.attemptWindowMs / MINUTE_MS)} minutes`,
+        'MAX_ATTEMPTS',
+        attempts[0] + playbook.attemptWindowMs - now
+      );
+    }
+  }
+
+  private async execute(playbook: RecoveryPlaybook, options: RunPlaybookOptions): Promise<RecoveryAction> {
+    const startedAt = this.deps.now();
+    const action: RecoveryAction = {
+      actionId: `${options.trigger}_${playbook.playbookId}_${startedAt}`,
+      playbookId: playbook.playbookId,
+      component: playbook.component,
+      action: playbook.action,
+      description: playbook.description,
+      automatable: playbook.automatable,
+      trigger: options.trigger,
+      requestedBy: options.requestedBy,
+      reason: options.reason,
+      executed: true,
+      executedAt: new Date(startedAt).toISOString()
+    };
+
+    console.log(`🔧 Executing recovery playbook ${playbook.playbookId} (${options.trigger}): ${playbook.description}`);
+    this.running.add(playbook.playbookId);
+    this.recordAttempt(playbook.playbookId, startedAt);
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeoutMs = playbook.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      await Promise.race([
+        Promise.resolve().then(() => playbook.run()),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+        })
+      ]);
+      action.result = 'success';
+      console.log(`✅ Recovery playbook completed: ${playbook.playbookId}`);
+    } catch (error) {
+      action.result = 'failure';
+      action.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Recovery playbook failed: ${playbook.playbookId} - ${action.error}`);
+    } finally {
+      clearTimeout(timer);
+      this.running.delete(playbook.playbookId);
+    }
+
+    action.durationMs = this.deps.now() - startedAt;
+    this.lastRuns.set(playbook.playbookId, action);
+    this.remember(action);
+    await this.audit(action);
+
+    return action;
+  }
+
+  private async audit(action: RecoveryAction): Promise<void> {
+    try {
+      await this.deps.store.createRecoveryActionLog({
+        actionId: action.actionId,
+        playbookId: action.playbookId!,
+        component: action.component,
+        action: action.action,
+        trigger: action.trigger!,
+        result: action.result!,
+        requestedBy: action.requestedBy ?? null,
+        reason: action.reason ?? null,
+        error: action.error ?? null,
+        durationMs: action.durationMs ?? null,
+        executedAt: new Date(action.executedAt!)
+      });
+    } catch (error) {
+      // The run already happened; losing the audit row must not turn it into a failure
+      console.error(`Failed to record recovery action ${action.actionId}:`, (error as Error).message);
+    }
+  }
+
+  private recordAttempt(playbookId: string, at: number): void {
+    const attempts = this.attempts.get(playbookId) ?? [];
+    attempts.push(at);
+    this.attempts.set(playbookId, attempts);
+  }
+
+  private attemptsInWindow(playbook: RecoveryPlaybook, now: number): number[] {
+    const attempts = (this.attempts.get(playbook.playbookId) ?? []).filter(at => now - at < playbook.attemptWindowMs);
+    this.attempts.set(playbook.playbookId, attempts);
+    return attempts;
+  }
+
+  private remember(action: RecoveryAction): void {
+    this.recentActions.unshift(action);
+    if (this.recentActions.length > MAX_RECENT_ACTIONS) {
+      this.recentActions.length = MAX_RECENT_ACTIONS;
+    }
+  }
+
+  private status(playbook: RecoveryPlaybook): RecoveryPlaybookStatus {
+    const now = this.deps.now();
+    const attempts = this.attemptsInWindow(playbook, now);
+    const last = attempts[attempts.length - 1];
+
+    let nextAvailableAt: number | undefined;
+    if (last !== undefined && now - last < playbook.cooldownMs) {
+      nextAvailableAt = last + playbook.cooldownMs;
+    }
+    if (attempts.length >= playbook.maxAttempts) {
+      nextAvailableAt = Math.max(nextAvailableAt ?? 0, attempts[0] + playbook.attemptWindowMs);
+    }
+
+    const { run, matches, timeoutMs, ...info } = playbook;
+    return {
+      ...info,
+      running: this.running.has(playbook.playbookId),
+      attemptsInWindow: attempts.length,
+      lastRun: this.lastRuns.get(playbook.playbookId),
+      nextAvailableAt: nextAvailableAt !== undefined ? new Date(nextAvailableAt).toISOString() : undefined
+    };
+  }
+
+  private fromLogRow(log: RecoveryActionLog): RecoveryAction {
+    const playbook = this.playbooks.get(log.playbookId);
+    return {
+      actionId: log.actionId,
+      playbookId: log.playbookId,
+      component: log.component,
+      action: log.action as RecoveryAction['action'],
+      description: playbook?.description ?? log.playbookId,
+      automatable: playbook?.automatable ?? false,
+      trigger: log.trigger as RecoveryTrigger,
+      requestedBy: log.requestedBy ?? undefined,
+      reason: log.reason ?? undefined,
+      executed: true,
+      executedAt: log.executedAt.toISOString(),
+      result: log.result as RecoveryAction['result'],
+      error: log.error ?? undefined,
+      durationMs: log.durationMs ?? undefined
+    };
+  }
+}
+
+// Global recovery playbook registry
+export const recoveryPlaybooks = new RecoveryPlaybookRegistry();
@@ -0,0 +1,11 @@
+export {
+  RedemptionError,
+  resolveRedemptionLimits,
+  redemptionTimezone,
+  redemptionDay,
+  checkRedemptionLimits,
+  checkClaimable,
+  type RedemptionErrorCode,
+  type RedemptionLimits,
+  type RedemptionCounts
+} from './limits.ts';
@@ -0,0 +1,107 @@
+/**
+ * Redemption Limits
+ *
+ * Interprets promotions.redemptionDetails.limits for a claim:
+ *   perUser - claims one user may make on a single triggered deal (default 1)
+ *   total   - claims across all users on a single triggered deal
+ *   perDay  - claims one user may make on the promotion per local calendar day
+ *
+ * Storage counts existing redemptions inside the claim transaction and asks
+ * checkRedemptionLimits whether one more is allowed.
+ */
+
+import type { Promotion } from '@shared/schema';
+
+export type RedemptionErrorCode =
+  | 'NOT_FOUND'
+  | 'INACTIVE'
+  | 'EXPIRED'
+  | 'PER_USER_LIMIT'
+  | 'TOTAL_LIMIT'
+  | 'PER_DAY_LIMIT';
+
+export class RedemptionError extends Error {
+  constructor(message: string, public readonly code: RedemptionErrorCode) {
+    super(message);
+    this.name = 'RedemptionError';
+  }
+}
+
+export interface RedemptionLimits {
+  perUser: number;
+  total: number | null;
+  perDay: number | null;
+}
+
+export interface RedemptionCounts {
+  /** Claims by this user on this triggered deal */
+  userDeal: number;
+  /** Claims by everyone on this triggered deal */
+  deal: number;
+  /** Claims by this user on the promotion during the current local day */
+  userDay: number;
+}
+
+const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+function positiveOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+}
+
+export function resolveRedemptionLimits(promotion?: Pick<Promotion, 'redemptionDetails'> | null): RedemptionLimits {
+  const limits = promotion?.redemptionDetails?.limits;
+  return {
+    perUser: positiveOrNull(limits?.perUser) ?? 1,
+    total: positiveOrNull(limits?.total),
+    perDay: positiveOrNull(limits?.perDay)
+  };
+}
+
+export function redemptionTimezone(promotion?: Pick<Promotion, 'redemptionDetails'> | null): string {
+  return promotion?.redemptionDetails?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of `at` in the promotion's timezone; perDay limits count claims per this day
+ */
+export function redemptionDay(at: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(at);
+}
+
+/**
+ * Throw the first limit a new claim would exceed
+ */
+export function checkRedemptionLimits(limits: RedemptionLimits, counts: RedemptionCounts): void {
+  if (counts.userDeal >= limits.perUser) {
+    throw new RedemptionError(
+      limits.perUser === 1
+        ? 'You have already claimed this deal'
+        : `You have already claimed this deal ${limits.perUser} times`,
+      'PER_USER_LIMIT'
+    );
+  }
+  if (limits.total !== null && counts.deal >= limits.total) {
+    throw new RedemptionError('This deal has been fully claimed', 'TOTAL_LIMIT');
+  }
+  if (limits.perDay !== null && counts.userDay >= limits.perDay) {
+    throw new RedemptionError(`Daily limit of ${limits.perDay} reached for this promotion`, 'PER_DAY_LIMIT');
+  }
+}
+
+/**
+ * Reject claims on deactivated or expired triggered deals
+ */
+export function checkClaimable(deal: { isActive: boolean | null; expiresAt: Date | null }, now: Date): void {
+  if (deal.isActive === false) {
+    throw new RedemptionError('This deal is no longer active', 'INACTIVE');
+  }
+  if (deal.expiresAt && deal.expiresAt.getTime() <= now.getTime()) {
+    throw new RedemptionError('This deal has expired', 'EXPIRED');
+  }
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for redemption limits
+ *
+ * Validates that:
+ * - redemptionDetails.limits resolve with a perUser default of 1
+ * - Each limit rejects the claim that would exceed it, with its own code
+ * - Expired and deactivated triggered deals cannot be claimed
+ * - perDay days roll over in the promotion's timezone, not UTC
+ */
+
+import {
+  RedemptionError,
+  resolveRedemptionLimits,
+  redemptionDay,
+  checkRedemptionLimits,
+  checkClaimable
+} from './index.ts';
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+function test(name, fn) {
+  testCount++;
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function expectCode(fn, code) {
+  try {
+    fn();
+  } catch (error) {
+    assert(error instanceof RedemptionError, `Expected RedemptionError, got ${error.message}`);
+    assert(error.code === code, `Expected ${code}, got ${error.code}`);
+    return;
+  }
+  throw new Error(`Expected ${code} but the claim was allowed`);
+}
+
+console.log('🧪 Testing Redemption Limits...\n');
+
+test('Limits resolve from redemptionDetails with defaults', () => {
+  const none = resolveRedemptionLimits(null);
+  assert(none.perUser === 1 && none.total === null && none.perDay === null, 'Deal pages get one claim per user');
+
+  const configured = resolveRedemptionLimits({ redemptionDetails: { limits: { perUser: 2, total: 100, perDay: null } } });
+  assert(configured.perUser === 2 && configured.total === 100 && configured.perDay === null, 'Configured limits used');
+
+  const bogus = resolveRedemptionLimits({ redemptionDetails: { limits: { perUser: 0, total: -5 } } });
+  assert(bogus.perUser === 1 && bogus.total === null, 'Non-positive limits are ignored');
+});
+
+test('Each limit rejects the claim that would exceed it', () => {
+  const limits = { perUser: 2, total: 10, perDay: 3 };
+  checkRedemptionLimits(limits, { userDeal: 1, deal: 9, userDay: 2 });
+
+  expectCode(() => checkRedemptionLimits(limits, { userDeal: 2, deal: 0, userDay: 0 }), 'PER_USER_LIMIT');
+  expectCode(() => checkRedemptionLimits(limits, { userDeal: 0, deal: 10, userDay: 0 }), 'TOTAL_LIMIT');
+  expectCode(() => checkRedemptionLimits(limits, { userDeal: 0, deal: 0, userDay: 3 }), 'PER_DAY_LIMIT');
+  checkRedemptionLimits({ perUser: 1, total: null, perDay: null }, { userDeal: 0, deal: 5000, userDay: 50 });
+});
+
+test('Expired and deactivated deals cannot be claimed', () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+  checkClaimable({ isActive: true, expiresAt: new Date('2025-06-15T12:00:01Z') }, now);
+  checkClaimable({ isActive: true, expiresAt: null }, now);
+  expectCode(() => checkClaimable({ isActive: true, expiresAt: now }, now), 'EXPIRED');
+  expectCode(() => checkClaimable({ isActive: false, expiresAt: null }, now), 'INACTIVE');
+});
+
+test('Redemption day follows the promotion timezone', () => {
+  // 02:00 UTC is still the previous evening in Los Angeles
+  const lateGame = new Date('2025-06-16T02:00:00Z');
+  assert(redemptionDay(lateGame, 'America/Los_Angeles') === '2025-06-15', redemptionDay(lateGame, 'America/Los_Angeles'));
+  assert(redemptionDay(lateGame, 'America/New_York') === '2025-06-15', 'New York');
+  assert(redemptionDay(lateGame, 'UTC') === '2025-06-16', 'UTC');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Redemption limits are working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
@@ -0,0 +1,403 @@
+import { storage, type IStorage, type SearchTermOutcome } from '../storage';
+import { teamNickname } from './markets';
+import type { SearchTerm } from '@shared/schema';
+
+export type SearchTermStatus = 'active' | 'paused' | 'auto_paused';
+
+export interface SearchTermTrendPoint {
+  date: string; // YYYY-MM-DD, the day's last snapshot
+  successRate: number;
+  usageCount: number;
+  approvedDeals: number;
+}
+
+/** A term as the admin ranking shows it */
+export interface SearchTermRanking {
+  id: number;
+  term: string;
+  category: string;
+  origin: string;
+  status: SearchTermStatus;
+  autoPause: boolean;
+  teamId: number | null;
+  restaurantId: number | null;
+  sourceDealPageId: number | null;
+  usageCount: number;
+  sitesFound: number;
+  approvedDeals: number;
+  rejectedSites: number;
+  successRate: number;
+  /** Change in success rate across the trend window; null with fewer than two days of data */
+  trendDelta: number | null;
+  trend: SearchTermTrendPoint[];
+  lastUsed: Date | null;
+  pausedAt: Date | null;
+  pauseReason: string | null;
+}
+
+export interface LifecycleRun {
+  scored: number;
+  paused: Array<{ id: number; term: string; reason: string }>;
+  candidates: SearchTerm[];
+}
+
+/** Fields an admin sets when adding a term by hand */
+export interface SearchTermInput {
+  term: string;
+  category: string;
+  teamId?: number | null;
+  restaurantId?: number | null;
+}
+
+export type SearchTermErrorCode = 'NOT_FOUND' | 'DUPLICATE';
+
+export class SearchTermError extends Error {
+  constructor(message: string, public readonly code: SearchTermErrorCode) {
+    super(message);
+    this.name = 'SearchTermError';
+  }
+}
+
+export interface SearchTermLifecycleConfig {
+  /** Searches a term gets before it can be paused */
+  minUsageToJudge: number;
+  /** Reviewed sites (approved or rejected) needed before a low success rate counts */
+  minReviewedToJudge: number;
+  /** Terms below this share of reviewed sites becoming deals are paused */
+  pauseBelowRate: number;
+  candidatesPerDeal: number;
+  maxCandidatesPerRun: number;
+}
+
+/**
+ * Persistence hooks, injectable for tests
+ */
+export interface SearchTermLifecycleDeps {
+  store: Pick<
+    IStorage,
+    | 'getSearchTerms'
+    | 'getSearchTerm'
+    | 'updateSearchTerm'
+    | 'findOrCreateSearchTerm'
+    | 'getSearchTermOutcomes'
+    | 'getDealPageTermSources'
+    | 'createSearchTermStats'
+    | 'getSearchTermStats'
+    | 'getTeams'
+    | 'getRestaurants'
+  >;
+  now: () => Date;
+}
+
+const DEFAULT_CONFIG: SearchTermLifecycleConfig = {
+  minUsageToJudge: 8,
+  minReviewedToJudge: 5,
+  pauseBelowRate: 0.1,
+  candidatesPerDeal: 3,
+  maxCandidatesPerRun: 10
+};
+
+// Admin pauses record who paused the term; automatic pauses record why
+const MANUAL_PAUSE_PREFIX = 'Paused by ';
+
+const NO_OUTCOME: Omit<SearchTermOutcome, 'searchTermId'> = { sitesFound: 0, approvedDeals: 0, rejectedSites: 0 };
+
+/** Share of a term's reviewed sites that became deals, rounded to the column's two decimals */
+export function successRate(outcome: Omit<SearchTermOutcome, 'searchTermId'>): number {
+  const reviewed = outcome.approvedDeals + outcome.rejectedSites;
+  return reviewed > 0 ? Math.round((outcome.approvedDeals / reviewed) * 100) / 100 : 0;
+}
+
+export function searchTermStatus(term: Pick<SearchTerm, 'isActive' | 'pausedAt' | 'pauseReason'>): SearchTermStatus {
+  if (term.isActive !== false) return 'active';
+  return term.pausedAt && term.pauseReason && !term.pauseReason.startsWith(MANUAL_PAUSE_PREFIX) ? 'auto_paused' : 'paused';
+}
+
+export function extractItemKeywords(title: string): string[] {
+  const keywords = [];
+  const lowerTitle = title.toLowerCase();
+
+  // Food items
+  const foodItems = ['big mac', 'mcnuggets', 'fries', 'coffee', 'curly fries', 'taco', 'burger', 'drink', 'plate', 'chicken'];
+  foodItems.forEach(item => {
+    if (lowerTitle.includes(item)) keywords.push(item);
+  });
+
+  // Free item indicators
+  if (lowerTitle.includes('free')) keywords.push('free');
+  if (lowerTitle.includes('discount')) keywords.push('discount');
+  if (lowerTitle.includes('special')) keywords.push('special');
+
+  return keywords;
+}
+
+/** Search phrasings for a known deal, broadest first */
+export function generateSearchTerms(restaurantName: string, teamName: string, title: string, triggerCondition: string): string[] {
+  const terms = [];
+
+  // Core search combinations
+  terms.push(`${restaurantName} ${teamName} deal`);
+  terms.push(`${restaurantName} ${teamName} promotion`);
+  terms.push(`${restaurantName} ${teamName} free`);
+  terms.push(`${restaurantName} sports deal`);
+
+  // Specific trigger-based searches
+  if (triggerCondition.includes('home win')) {
+    terms.push(`${restaurantName} ${teamName} home win`);
+    terms.push(`${restaurantName} home game special`);
+  }
+
+  if (triggerCondition.includes('runs') || triggerCondition.includes('score')) {
+    terms.push(`${restaurantName} ${teamName} score`);
+    terms.push(`${restaurantName} runs promotion`);
+  }
+
+  if (triggerCondition.includes('strikeout')) {
+    terms.push(`${restaurantName} ${teamName} strikeout`);
+    terms.push(`${restaurantName} pitcher performance`);
+  }
+
+  // Item-specific searches
+  const itemKeywords = extractItemKeywords(title);
+  itemKeywords.forEach(item => {
+    terms.push(`${restaurantName} free ${item} ${teamName}`);
+    terms.push(`${restaurantName} ${item} deal sports`);
+  });
+
+  return Array.from(new Set(terms)); // Remove duplicates
+}
+
+/**
+ * Search term lifecycle: scores every term by what its discovered sites
+ * became downstream, pauses terms that keep spending the discovery budget
+ * without producing deals, and proposes new terms from approved deals. Each
+ * scoring run stores a snapshot per term for the admin trend charts.
+ */
+export class SearchTermLifecycleService {
+  private config: SearchTermLifecycleConfig;
+  private deps: SearchTermLifecycleDeps;
+
+  constructor(config: Partial<SearchTermLifecycleConfig> = {}, deps: Partial<SearchTermLifecycleDeps> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.deps = {
+      store: storage,
+      now: () => new Date(),
+      ...deps
+    };
+  }
+
+  /** Why a term should be paused now, or null to keep it running */
+  pauseReason(term: SearchTerm, outcome: Omit<SearchTermOutcome, 'searchTermId'>): string | null {
+    const usage = term.usageCount || 0;
+    if (term.isActive === false || term.autoPause === false || usage < this.config.minUsageToJudge) {
+      return null;
+    }
+    if (outcome.sitesFound === 0) {
+      return `No sites found in ${usage} searches`;
+    }
+    const reviewed = outcome.approvedDeals + outcome.rejectedSites;
+    if (reviewed >= this.config.minReviewedToJudge && successRate(outcome) < this.config.pauseBelowRate) {
+      return `${outcome.approvedDeals} of ${reviewed} reviewed sites became deals`;
+    }
+    return null;
+  }
+
+  /**
+   * Recompute success rates from outcomes, pause weak terms, snapshot the
+   * scores and add candidate terms from approved deals
+   */
+  async runLifecycle(): Promise<LifecycleRun> {
+    const { store } = this.deps;
+    const now = this.deps.now();
+    const terms = await store.getSearchTerms();
+    const outcomes = new Map((await store.getSearchTermOutcomes()).map(outcome => [outcome.searchTermId, outcome]));
+    const run: LifecycleRun = { scored: 0, paused: [], candidates: [] };
+    const stats = [];
+
+    for (const term of terms) {
+      const outcome = outcomes.get(term.id) ?? NO_OUTCOME;
+      const rate = successRate(outcome).toFixed(2);
+      const reason = this.pauseReason(term, outcome);
+
+      if (reason) {
+        await store.updateSearchTerm(term.id, { successRate: rate, isActive: false, pausedAt: now, pauseReason: reason });
+        run.paused.push({ id: term.id, term: term.term, reason });
+        console.log(`⏸️ Paused search term "${term.term}": ${reason}`);
+      } else if (term.successRate !== rate) {
+        await store.updateSearchTerm(term.id, { successRate: rate });
+      }
+
+      // Unused terms have nothing to chart yet
+      if ((term.usageCount || 0) > 0 || outcome.sitesFound > 0) {
+        stats.push({ searchTermId: term.id, usageCount: term.usageCount || 0, ...outcome, successRate: rate });
+      }
+      run.scored++;
+    }
+
+    await store.createSearchTermStats(stats);
+    run.candidates = await this.generateCandidates(terms);
+    console.log(`📈 Scored ${run.scored} search terms, paused ${run.paused.length}, added ${run.candidates.length} candidates`);
+    return run;
+  }
+
+  /**
+   * New terms from approved deal pages whose site a term discovered, phrased
+   * the way generateSearchTerms phrases known deals. Each deal page is
+   * mined once; its candidates start active and are judged like any term.
+   */
+  async generateCandidates(terms: SearchTerm[]): Promise<SearchTerm[]> {
+    const { store } = this.deps;
+    const known = new Set(terms.map(term => term.term.toLowerCase()));
+    const minedPages = new Set(terms.map(term => term.sourceDealPageId).filter((id): id is number => id != null));
+    const teams = new Map((await store.getTeams()).map(team => [team.id, team]));
+    const restaurants = await store.getRestaurants();
+    const candidates: SearchTerm[] = [];
+
+    for (const source of await store.getDealPageTermSources()) {
+      if (candidates.length >= this.config.maxCandidatesPerRun) break;
+      const { dealPage } = source;
+      const team = source.teamId != null ? teams.get(source.teamId) : undefined;
+      if (minedPages.has(dealPage.id) || !team) continue;
+      minedPages.add(dealPage.id);
+
+      const restaurantId = source.restaurantId
+        ?? restaurants.find(r => r.name.toLowerCase() === dealPage.restaurant.toLowerCase())?.id
+        ?? null;
+      const phrasings = generateSearchTerms(dealPage.restaurant, teamNickname(team), dealPage.title, dealPage.triggerCondition)
+        .filter(phrase => !known.has(phrase.toLowerCase()))
+        .slice(0, Math.min(this.config.candidatesPerDeal, this.config.maxCandidatesPerRun - candidates.length));
+
+      for (const phrase of phrasings) {
+        const created = await store.findOrCreateSearchTerm({
+          term: phrase,
+          category: 'restaurant_team',
+          teamId: team.id,
+          restaurantId,
+          origin: 'candidate',
+          sourceDealPageId: dealPage.id,
+          isActive: true
+        });
+        known.add(phrase.toLowerCase());
+        candidates.push(created);
+        console.log(`🌱 Candidate search term from deal page ${dealPage.id}: "${phrase}"`);
+      }
+    }
+    return candidates;
+  }
+
+  /** Terms ranked by success rate, with daily trend points over the last `days` */
+  async getRanking(days = 30): Promise<SearchTermRanking[]> {
+    const { store } = this.deps;
+    const since = new Date(this.deps.now().getTime() - days * 24 * 60 * 60 * 1000);
+    const [terms, outcomes, stats] = await Promise.all([
+      store.getSearchTerms(),
+      store.getSearchTermOutcomes(),
+      store.getSearchTermStats(since)
+    ]);
+    const outcomeByTerm = new Map(outcomes.map(outcome => [outcome.searchTermId, outcome]));
+
+    // Snapshots arrive oldest first, so the last one written for a day wins
+    const trends = new Map<number, Map<string, SearchTermTrendPoint>>();
+    for (const stat of stats) {
+      const date = (stat.recordedAt ?? since).toISOString().slice(0, 10);
+      const daily = trends.get(stat.searchTermId) ?? new Map<string, SearchTermTrendPoint>();
+      daily.set(date, {
+        date,
+        successRate: Number(stat.successRate),
+        usageCount: stat.usageCount,
+        approvedDeals: stat.approvedDeals
+      });
+      trends.set(stat.searchTermId, daily);
+    }
+
+    return terms
+      .map(term => {
+        const outcome = outcomeByTerm.get(term.id) ?? NO_OUTCOME;
+        const trend = Array.from(trends.get(term.id)?.values() ?? []);
+        return {
+          id: term.id,
+          term: term.term,
+          category: term.category,
+          origin: term.origin || 'seed',
+          status: searchTermStatus(term),
+          autoPause: term.autoPause !== false,
+          teamId: term.teamId,
+          restaurantId: term.restaurantId,
+          sourceDealPageId: term.sourceDealPageId,
+          usageCount: term.usageCount || 0,
+          sitesFound: outcome.sitesFound,
+          approvedDeals: outcome.approvedDeals,
+          rejectedSites: outcome.rejectedSites,
+          successRate: successRate(outcome),
+          trendDelta: trend.length >= 2
+            ? Math.round((trend[trend.length - 1].successRate - trend[0].successRate) * 100) / 100
+            : null,
+          trend,
+          lastUsed: term.lastUsed,
+          pausedAt: term.pausedAt,
+          pauseReason: term.pauseReason
+        };
+      })
+      .sort((a, b) =>
+        b.successRate - a.successRate ||
+        b.approvedDeals - a.approvedDeals ||
+        a.usageCount - b.usageCount ||
+        a.id - b.id
+      );
+  }
+
+  async createTerm(input: SearchTermInput): Promise<SearchTerm> {
+    const term = input.term.trim();
+    const existing = await this.deps.store.getSearchTerms();
+    if (existing.some(t => t.term.toLowerCase() === term.toLowerCase())) {
+      throw new SearchTermError(`Search term "${term}" already exists`, 'DUPLICATE');
+    }
+    return await this.deps.store.findOrCreateSearchTerm({
+      term,
+      category: input.category,
+      teamId: input.teamId ?? null,
+      restaurantId: input.restaurantId ?? null,
+      origin: 'manual',
+      isActive: true
+    });
+  }
+
+  async pauseTerm(id: number, pausedBy: string): Promise<SearchTerm> {
+    await this.requireTerm(id);
+    const updated = await this.deps.store.updateSearchTerm(id, {
+      isActive: false,
+      pausedAt: this.deps.now(),
+      pauseReason: `${MANUAL_PAUSE_PREFIX}${pausedBy}`
+    });
+    return updated!;
+  }
+
+  /** Resuming by hand keeps the term running: it is no longer auto-paused */
+  async resumeTerm(id: number): Promise<SearchTerm> {
+    await this.requireTerm(id);
+    const updated = await this.deps.store.updateSearchTerm(id, {
+      isActive: true,
+      autoPause: false,
+      pausedAt: null,
+      pauseReason: null
+    });
+    return updated!;
+  }
+
+  async setAutoPause(id: number, autoPause: boolean): Promise<SearchTerm> {
+    await this.requireTerm(id);
+    const updated = await this.deps.store.updateSearchTerm(id, { autoPause });
+    return updated!;
+  }
+
+  private async requireTerm(id: number): Promise<SearchTerm> {
+    const term = await this.deps.store.getSearchTerm(id);
+    if (!term) {
+      throw new SearchTermError(`Search term ${id} not found`, 'NOT_FOUND');
+    }
+    return term;
+  }
+}
+
+// Global search term lifecycle instance
+export const searchTermLifecycle = new SearchTermLifecycleService();
@@ -1,19 +1,16 @@
 // Simple extraction service using fetch instead of Puppeteer for reliable operation
 import { storage } from '../storage';
-
-interface ExtractedDeal {
-  title: string;
-  restaurant: string;
-  offerDescription: string;
-  triggerCondition: string;
-  dealValue: string;
-  promoCode?: string;
-  instructions?: string;
-  terms?: string;
-  imageUrl?: string;
-  sourceUrl: string;
-  confidence: number;
-}
+import {
+  extractionRecipeService,
+  fetchPageHtml,
+  recipeHasRules,
+  runRecipe,
+  type DealProvenance,
+  type ExtractedDeal,
+  type ExtractionMethod
+} from './extractionRecipes';
+import { StaticHtmlDocument } from './staticHtmlDocument';
+import { extractStructuredData, mergeExtraction, needsHeuristics } from './structuredData';
 
 export class SimpleExtractionEngine {
   
@@ -22,67 +19,53 @@ export class SimpleExtractionEngine {
     
     try {
       // Fetch page content
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        }
-      });
-
-      if (!response.ok) {
-        console.error(`HTTP error: ${response.status}`);
-        return null;
-      }
-
-      const html = await response.text();
+      const html = await fetchPageHtml(url);
       console.log(`Fetched HTML content, length: ${html.length} characters`);
 
-      // Extract text content from HTML
-      const textContent = this.extractTextFromHtml(html);
+      const document = new StaticHtmlDocument(html);
+      const textContent = await document.text();
       console.log(`Extracted text content, length: ${textContent.length} characters`);
 
-      // Determine restaurant from URL or content
-      let restaurant = this.getRestaurantFromUrl(url);
-      if (!restaurant) {
-        restaurant = this.getRestaurantFromContent(textContent);
+      // Structured data (JSON-LD, microdata, OpenGraph) is what the site says about its own offer
+      const structured = await extractStructuredData(document, url);
+      if (structured.sources.length > 0) {
+        console.log(`Found structured data: ${structured.sources.join(', ')}`);
       }
-      if (!restaurant) {
-        console.log('Could not determine restaurant from URL or content');
-        console.log(`URL: ${url}`);
-        console.log(`Content preview: ${textContent.substring(0, 500)}...`);
-        return null;
+
+      // A site recipe (see extractionRecipes.ts) knows the restaurant and where its deal lives
+      const recipe = await extractionRecipeService.findRecipe(url);
+      let heuristic: ExtractedDeal | null = null;
+      let restaurant: { name: string; method: ExtractionMethod } | null = null;
+      if (recipe && recipeHasRules(recipe)) {
+        console.log(`Using extraction recipe: ${recipe.name}`);
+        const run = await runRecipe(recipe, document, url);
+        if (!run.deal) {
+          console.log(`Recipe ${recipe.name} is missing required fields: ${run.missingRequired.join(', ')}`);
+        }
+        heuristic = run.deal;
+        restaurant = { name: recipe.restaurant, method: 'recipe' };
+      } else {
+        // Otherwise determine the restaurant from the URL or content
+        const detected = recipe?.restaurant || this.getRestaurantFromContent(`${url} ${textContent}`);
+        restaurant = detected ? { name: detected, method: recipe ? 'recipe' : 'text' } : null;
+        if (restaurant) {
+          console.log(`Detected restaurant: ${restaurant.name}`);
+        }
+
+        // Text heuristics only fill what structured data leaves open
+        if (restaurant && needsHeuristics(structured)) {
+          heuristic = this.extractTextDeal(html, textContent, url, restaurant);
+        }
       }
-      
-      console.log(`Detected restaurant: ${restaurant}`);
 
-      // Extract deal information based on content
-      const dealInfo = this.extractDealInfo(textContent, restaurant);
-      if (!dealInfo) {
+      const extractedDeal = mergeExtraction(structured, heuristic, { url, restaurant });
+      if (!extractedDeal) {
         console.log('Could not extract deal information from content');
+        console.log(`URL: ${url}`);
+        console.log(`Content preview: ${textContent.substring(0, 500)}...`);
         return null;
       }
 
-      // Extract image URL from HTML
-      const imageUrl = this.extractImageUrl(html, url);
-
-      const extractedDeal: ExtractedDeal = {
-        title: dealInfo.title,
-        restaurant: restaurant,
-        offerDescription: dealInfo.offer,
-        triggerCondition: dealInfo.trigger,
-        dealValue: dealInfo.value,
-        promoCode: dealInfo.code,
-        instructions: dealInfo.instructions || 'Visit restaurant to redeem this offer',
-        terms: dealInfo.terms || 'Terms and conditions apply. Valid while supplies last.',
-        imageUrl: imageUrl,
-        sourceUrl: url,
-        confidence: dealInfo.confidence
-      };
-
       console.log('Successfully extracted deal:', extractedDeal);
       return extractedDeal;
 
@@ -92,36 +75,44 @@ export class SimpleExtractionEngine {
     }
   }
 
-  private extractTextFromHtml(html: string): string {
-    // Remove script and style tags
-    let text = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
-    text = text.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
-    
-    // Remove HTML tags
-    text = text.replace(/<[^>]*>/g, ' ');
-    
-    // Clean up whitespace
-    text = text.replace(/\s+/g, ' ').trim();
-    
-    return text;
-  }
+  private extractTextDeal(
+    html: string,
+    textContent: string,
+    url: string,
+    restaurant: { name: string; method: ExtractionMethod }
+  ): ExtractedDeal | null {
+    const dealInfo = this.extractGenericDeal(textContent, restaurant.name);
+    if (!dealInfo) {
+      return null;
+    }
 
-  private getRestaurantFromUrl(url: string): string | null {
-    // Direct restaurant domains
-    if (url.includes('pandaexpress.com')) return 'Panda Express';
-    if (url.includes('mcdonalds.com')) return 'McDonald\'s';
-    if (url.includes('jackinthebox.com')) return 'Jack in the Box';
-    if (url.includes('ampm.com')) return 'ampm';
-    if (url.includes('deltaco.com')) return 'Del Taco';
-    
-    // Social media and news sites - detect from URL path/content
-    if (url.includes('JackBox') || url.includes('jackbox')) return 'Jack in the Box';
-    if (url.includes('panda') || url.includes('Panda')) return 'Panda Express';
-    if (url.includes('mcdonalds') || url.includes('McDonald')) return 'McDonald\'s';
-    if (url.includes('ampm') || url.includes('AMPM')) return 'ampm';
-    if (url.includes('deltaco') || url.includes('DelTaco')) return 'Del Taco';
-    
-    return null;
+    const imageUrl = this.extractImageUrl(html, url);
+    const provenance: DealProvenance = {
+      title: 'text',
+      restaurant: restaurant.method,
+      offerDescription: 'text',
+      triggerCondition: 'text',
+      dealValue: 'text',
+      instructions: dealInfo.instructions ? 'text' : 'default',
+      terms: dealInfo.terms ? 'text' : 'default'
+    };
+    if (dealInfo.code) provenance.promoCode = 'text';
+    if (imageUrl) provenance.imageUrl = 'text';
+
+    return {
+      title: dealInfo.title,
+      restaurant: restaurant.name,
+      offerDescription: dealInfo.offer,
+      triggerCondition: dealInfo.trigger,
+      dealValue: dealInfo.value,
+      promoCode: dealInfo.code,
+      instructions: dealInfo.instructions || 'Visit restaurant to redeem this offer',
+      terms: dealInfo.terms || 'Terms and conditions apply. Valid while supplies last.',
+      imageUrl: imageUrl,
+      sourceUrl: url,
+      confidence: dealInfo.confidence,
+      provenance
+    };
   }
 
   private getRestaurantFromContent(content: string): string | null {
@@ -130,7 +121,7 @@ export class SimpleExtractionEngine {
     // Look for restaurant mentions in content (expanded patterns)
     if (lowerContent.includes('panda express') || lowerContent.includes('panda') || 
         lowerContent.includes('plate') || lowerContent.includes('orange chicken')) return 'Panda Express';
-    if (lowerContent.includes('jack in the box') || lowerContent.includes('jackinthebox') || 
+    if (lowerContent.includes('jack in the box') || lowerContent.includes('jackinthebox') || lowerContent.includes('jackbox') ||
         lowerContent.includes('jumbo jack') || lowerContent.includes('curly fries')) return 'Jack in the Box';
     if (lowerContent.includes('mcdonald') || lowerContent.includes('mcdonalds') || 
         lowerContent.includes('big mac') || lowerContent.includes('mcnuggets')) return 'McDonald\'s';
@@ -141,221 +132,7 @@ export class SimpleExtractionEngine {
     return null;
   }
 
-  private extractDealInfo(content: string, restaurant: string): {
-    title: string;
-    offer: string;
-    trigger: string;
-    value: string;
-    code?: string;
-    instructions?: string;
-    terms?: string;
-    confidence: number;
-  } | null {
-    
-    const lowerContent = content.toLowerCase();
-    console.log(`Analyzing content for ${restaurant}...`);
-
-    // Panda Express specific extraction
-    if (restaurant === 'Panda Express') {
-      return this.extractPandaExpressDeal(content, lowerContent);
-    }
-
-    // McDonald's specific extraction
-    if (restaurant === 'McDonald\'s') {
-      return this.extractMcDonaldsDeal(content, lowerContent);
-    }
-
-    // Jack in the Box specific extraction
-    if (restaurant === 'Jack in the Box') {
-      return this.extractJackInTheBoxDeal(content, lowerContent);
-    }
-
-    // Generic deal extraction for other restaurants
-    return this.extractGenericDeal(content, lowerContent, restaurant);
-  }
-
-  private extractPandaExpressDeal(content: string, lowerContent: string): {
-    title: string;
-    offer: string;
-    trigger: string;
-    value: string;
-    code?: string;
-    instructions?: string;
-    terms?: string;
-    confidence: number;
-  } | null {
-    
-    // Look for dollar amounts
-    const dollarMatches = content.match(/\$(\d+(?:\.\d{2})?)/g);
-    const priceMatch = dollarMatches ? dollarMatches[0] : null;
-    
-    // Look for Dodgers mentions
-    const dodgersMatch = content.match(/dodgers?\s+(win|victory|beat|game)/i);
-    
-    // Look for food items
-    const plateMatch = content.match(/(plate|bowl|entree|combo)/i);
-    
-    // Look for specific deal text
-    const dealMatch = content.match(/(\$\d+(?:\.\d{2})?\s+[^.]+(?:plate|bowl|entree))/i);
-    
-    console.log('Panda Express extraction results:', {
-      priceMatch,
-      dodgersMatch: !!dodgersMatch,
-      plateMatch: !!plateMatch,
-      dealMatch: !!dealMatch
-    });
-
-    // High confidence extraction
-    if (priceMatch && dodgersMatch && plateMatch) {
-      return {
-        title: 'Panda Express Dodgers Win Deal',
-        offer: dealMatch ? dealMatch[1] : `${priceMatch} Panda Plate`,
-        trigger: 'Any LA Dodgers win',
-        value: priceMatch,
-        confidence: 0.9
-      };
-    }
-
-    // Medium confidence extraction
-    if (priceMatch && (lowerContent.includes('dodgers') || lowerContent.includes('deal'))) {
-      return {
-        title: 'Panda Express Dodgers Promotion',
-        offer: dealMatch ? dealMatch[1] : `${priceMatch} special offer`,
-        trigger: 'Dodgers team performance',
-        value: priceMatch,
-        confidence: 0.7
-      };
-    }
-
-    // Low confidence extraction
-    if (lowerContent.includes('dodgers') && (lowerContent.includes('deal') || lowerContent.includes('promo'))) {
-      return {
-        title: 'Panda Express Dodgers Promotion',
-        offer: 'Special promotional offer',
-        trigger: 'Dodgers team performance',
-        value: 'Special Price',
-        confidence: 0.5
-      };
-    }
-
-    return null;
-  }
-
-  private extractMcDonaldsDeal(content: string, lowerContent: string): any {
-    // Enhanced McDonald's patterns for social media content
-    const patterns = {
-      runs: /(\d+)\+?\s*(runs?|r)/i,
-      free: /free\s+([^,.!]+)/i,
-      bigMac: /big\s*mac/i,
-      fries: /fries?/i,
-      mcnuggets: /mcnuggets?|nuggets?/i,
-      dodgers: /dodgers?/i,
-      deal: /deal|offer|promo|discount/i,
-      win: /win|victory/i
-    };
-
-    // High confidence: runs-based deals
-    const runsMatch = content.match(patterns.runs);
-    const freeMatch = content.match(patterns.free);
-    
-    if (runsMatch && (freeMatch || patterns.bigMac.test(content))) {
-      return {
-        title: 'McDonald\'s Dodgers Runs Deal',
-        offer: freeMatch ? freeMatch[1].trim() : 'Free Big Mac',
-        trigger: `${runsMatch[1]}+ runs scored by Dodgers`,
-        value: 'Free',
-        confidence: 0.9
-      };
-    }
-
-    // Medium confidence: win-based deals
-    if (patterns.dodgers.test(content) && patterns.win.test(content)) {
-      if (patterns.bigMac.test(content)) {
-        return {
-          title: 'McDonald\'s Dodgers Win Deal',
-          offer: 'Free Big Mac',
-          trigger: 'Dodgers home win',
-          value: 'Free',
-          confidence: 0.8
-        };
-      }
-      if (patterns.fries.test(content)) {
-        return {
-          title: 'McDonald\'s Dodgers Win Deal',
-          offer: 'Free Fries',
-          trigger: 'Dodgers home win',
-          value: 'Free',
-          confidence: 0.8
-        };
-      }
-    }
-
-    // Lower confidence: general McDonald's + Dodgers
-    if (patterns.dodgers.test(content) && patterns.deal.test(content)) {
-      return {
-        title: 'McDonald\'s Dodgers Promotion',
-        offer: 'Special promotional offer',
-        trigger: 'LA Dodgers team performance',
-        value: 'Special Deal',
-        confidence: 0.6
-      };
-    }
-
-    return null;
-  }
-
-  private extractJackInTheBoxDeal(content: string, lowerContent: string): any {
-    // Enhanced pattern matching for social media and news content
-    const patterns = {
-      strikeout: /(\d+)\+?\s*(strikeout|k)/i,
-      free: /free\s+([^,.!]+)/i,
-      jumboJack: /jumbo\s*jack/i,
-      dodgers: /dodgers?/i,
-      deal: /deal|offer|promo|discount/i,
-      with: /with\s+([^,.!]+)/i
-    };
-
-    // High confidence: specific strikeout deal
-    const strikeoutMatch = content.match(patterns.strikeout);
-    const freeMatch = content.match(patterns.free);
-    
-    if (strikeoutMatch && (freeMatch || patterns.jumboJack.test(content))) {
-      return {
-        title: 'Jack in the Box Strikeout Deal',
-        offer: freeMatch ? freeMatch[1].trim() : 'Free Jumbo Jack with large drink',
-        trigger: `${strikeoutMatch[1]}+ strikeouts by Dodgers`,
-        value: 'Free',
-        confidence: 0.9
-      };
-    }
-
-    // Medium confidence: Dodgers + food item mentions
-    if (patterns.dodgers.test(content) && patterns.jumboJack.test(content)) {
-      const withMatch = content.match(patterns.with);
-      return {
-        title: 'Jack in the Box Dodgers Deal',
-        offer: withMatch ? `Free Jumbo Jack with ${withMatch[1]}` : 'Free Jumbo Jack with large drink',
-        trigger: 'Dodgers performance (strikeouts or wins)',
-        value: 'Free',
-        confidence: 0.8
-      };
-    }
-
-    // Lower confidence: Dodgers + deal keywords
-    if (patterns.dodgers.test(content) && patterns.deal.test(content)) {
-      return {
-        title: 'Jack in the Box Dodgers Promotion',
-        offer: 'Special promotional offer',
-        trigger: 'LA Dodgers team performance',
-        value: 'Special Deal',
-        confidence: 0.6
-      };
-    }
-
-    return null;
-  }
-
-  private extractGenericDeal(content: string, lowerContent: string, restaurant: string): any {
+  private extractGenericDeal(content: string, restaurant: string): any {
     // Enhanced generic deal extraction with better pattern matching
     const patterns = {
       free: /free\s+([^,.!]+)/i,
@@ -497,9 +274,14 @@ export class SimpleExtractionEngine {
           code: extractedDeal.promoCode,
           instructions: extractedDeal.instructions,
           terms: extractedDeal.terms,
-          imageUrl: extractedDeal.imageUrl
+          imageUrl: extractedDeal.imageUrl,
+          validFrom: extractedDeal.validFrom,
+          validThrough: extractedDeal.validThrough,
+          offerUrl: extractedDeal.offerUrl,
+          provenance: extractedDeal.provenance
         }),
-        confidence: extractedDeal.confidence.toString()
+        confidence: extractedDeal.confidence.toString(),
+        ...(extractedDeal.validThrough && { expirationDetected: new Date(extractedDeal.validThrough) })
       });
 
       return extractedDeal;
@@ -1,5 +1,7 @@
 // Enhanced social media discovery engine for finding promotional deals
 import { storage } from '../storage';
+import { marketService, matchesDomain, mentionsAny, teamKeywords, teamNickname, type MarketProfile } from './markets';
+import type { Team } from '@shared/schema';
 
 interface SocialMediaPost {
   id: string;
@@ -35,7 +37,7 @@ export class SocialMediaDiscoveryEngine {
       // For now, we'll simulate the search patterns you used manually
       const results: DiscoveryResult[] = [];
       
-      // Simulate finding promotional tweets about Dodgers + restaurant deals
+      // Simulate finding promotional tweets about team + restaurant deals
       const twitterSearchQueries = [
         `${query} promo`,
         `${query} deal`,
@@ -59,8 +61,9 @@ export class SocialMediaDiscoveryEngine {
   }
 
   // Enhanced Google search with social media focus - exactly like your manual X search
-  async searchSocialMediaMentions(restaurantName: string, teamName: string = 'Dodgers'): Promise<DiscoveryResult[]> {
-    console.log(`Searching for social media mentions: ${restaurantName} + ${teamName}`);
+  async searchSocialMediaMentions(restaurantName: string, team: Team, market: MarketProfile): Promise<DiscoveryResult[]> {
+    const teamName = teamNickname(team);
+    console.log(`Searching for social media mentions: ${restaurantName} + ${teamName} (${market.name})`);
     
     const results: DiscoveryResult[] = [];
     
@@ -84,7 +87,7 @@ export class SocialMediaDiscoveryEngine {
       `site:x.com "${restaurantName}" "${teamName}"`,
       
       // Direct promotional page searches
-      `site:${this.getRestaurantDomain(restaurantName)} ${teamName}`,
+      `site:${this.getRestaurantDomain(restaurantName, market)} ${teamName}`,
       `"${restaurantName}/promo" ${teamName}`,
       `"${restaurantName}" promo code ${teamName}`,
       
@@ -101,7 +104,7 @@ export class SocialMediaDiscoveryEngine {
 
     for (const query of searchQueries) {
       try {
-        const searchResults = await this.performGoogleSearch(query, 10);
+        const searchResults = await this.performGoogleSearch(query, market, 10);
         results.push(...searchResults);
       } catch (error) {
         console.error(`Error searching for: ${query}`, error);
@@ -112,7 +115,7 @@ export class SocialMediaDiscoveryEngine {
   }
 
   // Perform actual Google Custom Search API call
-  private async performGoogleSearch(query: string, maxResults: number = 10): Promise<DiscoveryResult[]> {
+  private async performGoogleSearch(query: string, market: MarketProfile, maxResults: number = 10): Promise<DiscoveryResult[]> {
     if (!process.env.GOOGLE_API_KEY || !process.env.GOOGLE_CSE_ID) {
       console.log('Google API credentials not available');
       return [];
@@ -132,10 +135,10 @@ export class SocialMediaDiscoveryEngine {
         url: item.link,
         title: item.title,
         content: item.snippet || '',
-        confidence: this.calculateSocialMediaConfidence(item, query),
+        confidence: this.calculateSocialMediaConfidence(item, market),
         source: 'Google Custom Search',
         platform: this.detectPlatform(item.link),
-        keywords: this.extractKeywords(item.title + ' ' + item.snippet)
+        keywords: this.extractKeywords(item.title + ' ' + item.snippet, market)
       }));
 
     } catch (error) {
@@ -145,7 +148,7 @@ export class SocialMediaDiscoveryEngine {
   }
 
   // Calculate confidence score for social media results
-  private calculateSocialMediaConfidence(item: any, query: string): number {
+  private calculateSocialMediaConfidence(item: any, market: MarketProfile): number {
     let confidence = 0.3; // Base confidence
 
     const titleLower = (item.title || '').toLowerCase();
@@ -153,10 +156,8 @@ export class SocialMediaDiscoveryEngine {
     const urlLower = (item.link || '').toLowerCase();
     const combinedText = titleLower + ' ' + snippetLower + ' ' + urlLower;
 
-    // Higher confidence for official restaurant domains
-    if (urlLower.includes('pandaexpress.com') || 
-        urlLower.includes('mcdonalds.com') || 
-        urlLower.includes('jackinthebox.com')) {
+    // Higher confidence for the market's official restaurant domains
+    if (matchesDomain(urlLower, market.restaurants.map(r => r.domain))) {
       confidence += 0.4;
     }
 
@@ -170,8 +171,8 @@ export class SocialMediaDiscoveryEngine {
     const foundKeywords = promoKeywords.filter(keyword => combinedText.includes(keyword));
     confidence += foundKeywords.length * 0.05;
 
-    // Team-specific keywords
-    if (combinedText.includes('dodgers') || combinedText.includes('la dodgers')) {
+    // Mentions one of the market's teams
+    if (market.teams.some(team => mentionsAny(combinedText, teamKeywords(team)))) {
       confidence += 0.15;
     }
 
@@ -194,10 +195,14 @@ export class SocialMediaDiscoveryEngine {
   }
 
   // Extract relevant keywords from content
-  private extractKeywords(text: string): string[] {
-    const keywords = text.toLowerCase()
-      .match(/\b(promo|deal|free|discount|offer|special|win|game|dodgers|runs|strikeout|home|victory)\b/g) || [];
-    return Array.from(new Set(keywords)); // Remove duplicates
+  private extractKeywords(text: string, market: MarketProfile): string[] {
+    const lowerText = text.toLowerCase();
+    const keywords = lowerText
+      .match(/\b(promo|deal|free|discount|offer|special|win|game|runs|strikeout|home|victory)\b/g) || [];
+    const teams = market.teams
+      .map(team => teamNickname(team).toLowerCase())
+      .filter(nickname => mentionsAny(lowerText, [nickname]));
+    return Array.from(new Set([...keywords, ...teams])); // Remove duplicates
   }
 
   // Remove duplicates and rank by confidence
@@ -214,49 +219,59 @@ export class SocialMediaDiscoveryEngine {
     return uniqueResults.sort((a, b) => b.confidence - a.confidence);
   }
 
-  // Main discovery method that mimics manual search strategy
-  async discoverDealsLikeHuman(restaurants: string[] = ['Panda Express', 'McDonald\'s', 'Jack in the Box']): Promise<void> {
+  // Main discovery method that mimics manual search strategy, run for one market or every active market
+  async discoverDealsLikeHuman(market?: string, restaurants?: string[]): Promise<void> {
     console.log('Starting human-like deal discovery...');
     
-    for (const restaurant of restaurants) {
-      console.log(`Discovering deals for ${restaurant}...`);
-      
-      try {
-        // Search social media mentions (like you did manually)
-        const socialResults = await this.searchSocialMediaMentions(restaurant, 'Dodgers');
-        
-        // Search for direct promotional pages
-        const promoResults = await this.searchPromotionalPages(restaurant);
-        
-        // Combine and process results
-        const allResults = [...socialResults, ...promoResults];
-        
-        // Save discovered sites to database
-        await this.saveDiscoveredSites(allResults, restaurant);
-        
-        console.log(`Found ${allResults.length} potential deals for ${restaurant}`);
+    for (const marketProfile of await marketService.resolveMarkets(market)) {
+      await this.discoverMarketDeals(marketProfile, restaurants ?? marketProfile.restaurants.map(r => r.name));
+    }
+  }
+
+  private async discoverMarketDeals(market: MarketProfile, restaurants: string[]): Promise<void> {
+    for (const team of market.teams) {
+      for (const restaurant of restaurants) {
+        console.log(`Discovering ${team.name} deals for ${restaurant} in ${market.name}...`);
         
-      } catch (error) {
-        console.error(`Error discovering deals for ${restaurant}:`, error);
+        try {
+          // Search social media mentions (like you did manually)
+          const socialResults = await this.searchSocialMediaMentions(restaurant, team, market);
+          
+          // Search for direct promotional pages
+          const promoResults = await this.searchPromotionalPages(restaurant, team, market);
+          
+          // Combine and process results
+          const allResults = [...socialResults, ...promoResults];
+          
+          // Save discovered sites to database
+          await this.saveDiscoveredSites(allResults, restaurant, team);
+          
+          console.log(`Found ${allResults.length} potential deals for ${restaurant}`);
+          
+        } catch (error) {
+          console.error(`Error discovering deals for ${restaurant}:`, error);
+        }
       }
     }
   }
 
   // Search for direct promotional pages
-  private async searchPromotionalPages(restaurantName: string): Promise<DiscoveryResult[]> {
+  private async searchPromotionalPages(restaurantName: string, team: Team, market: MarketProfile): Promise<DiscoveryResult[]> {
+    const domain = this.getRestaurantDomain(restaurantName, market);
+    const teamName = teamNickname(team).toLowerCase();
     const promoQueries = [
-      `site:${this.getRestaurantDomain(restaurantName)} promo dodgers`,
-      `site:${this.getRestaurantDomain(restaurantName)} deal dodgers`,
-      `site:${this.getRestaurantDomain(restaurantName)} offer dodgers`,
-      `"${restaurantName}" dodgers promo site:${this.getRestaurantDomain(restaurantName)}`,
-      `inurl:promo "${restaurantName}" dodgers`,
-      `inurl:deal "${restaurantName}" dodgers`,
+      `site:${domain} promo ${teamName}`,
+      `site:${domain} deal ${teamName}`,
+      `site:${domain} offer ${teamName}`,
+      `"${restaurantName}" ${teamName} promo site:${domain}`,
+      `inurl:promo "${restaurantName}" ${teamName}`,
+      `inurl:deal "${restaurantName}" ${teamName}`,
     ];
 
     const results: DiscoveryResult[] = [];
     
     for (const query of promoQueries) {
-      const searchResults = await this.performGoogleSearch(query, 5);
+      const searchResults = await this.performGoogleSearch(query, market, 5);
       results.push(...searchResults);
     }
 
@@ -264,20 +279,14 @@ export class SocialMediaDiscoveryEngine {
   }
 
   // Get restaurant domain for site-specific searches
-  private getRestaurantDomain(restaurantName: string): string {
-    const domainMap: { [key: string]: string } = {
-      'Panda Express': 'pandaexpress.com',
-      'McDonald\'s': 'mcdonalds.com',
-      'Jack in the Box': 'jackinthebox.com',
-      'Del Taco': 'deltaco.com',
-      'ampm': 'ampm.com'
-    };
-    
-    return domainMap[restaurantName] || '';
+  private getRestaurantDomain(restaurantName: string, market: MarketProfile): string {
+    return market.restaurants.find(r => r.name === restaurantName)?.domain || '';
   }
 
   // Save discovered sites to database
-  private async saveDiscoveredSites(results: DiscoveryResult[], restaurant: string): Promise<void> {
+  private async saveDiscoveredSites(results: DiscoveryResult[], restaurant: string, team: Team): Promise<void> {
+    const teamName = teamNickname(team);
+
     for (const result of results) {
       try {
         // Check if already exists
@@ -288,18 +297,19 @@ export class SocialMediaDiscoveryEngine {
 
         // Create discovery source if needed
         let sourceId = await this.getOrCreateSource(result.source);
-        let termId = await this.getOrCreateSearchTerm(`${restaurant} dodgers social discovery`);
+        let termId = await this.getOrCreateSearchTerm(`${restaurant} ${teamName.toLowerCase()} social discovery`, team.id);
 
-        // Check if this is a multi-team post and extract only Dodgers deals
+        // Check if this is a multi-team post and extract only this team's deals
         let title = result.title;
         let content = result.content;
+        const subreddit = `r/${teamName.replace(/\s+/g, '')}`;
         
-        if (title.includes("MLB Free Food Deals") || content.includes("r/Dodgers")) {
-          // Extract only Dodgers section from multi-team posts
-          const dodgersMatch = content.match(/r\/Dodgers.*?(?=\n\nr\/|\n\nDaily|$)/si);
-          if (dodgersMatch) {
-            content = dodgersMatch[0].trim();
-            title = `${title} - Dodgers Only`;
+        if (title.includes("Free Food Deals") || content.includes(subreddit)) {
+          // Extract only the team's section from multi-team posts
+          const teamMatch = content.match(new RegExp(`${subreddit}.*?(?=\\n\\nr\\/|\\n\\nDaily|$)`, 'si'));
+          if (teamMatch) {
+            content = teamMatch[0].trim();
+            title = `${title} - ${teamName} Only`;
           }
         }
         
@@ -319,7 +329,7 @@ export class SocialMediaDiscoveryEngine {
           content: content,
           confidence: result.confidence.toString(),
           restaurantDetected: restaurant,
-          teamDetected: 'Los Angeles Dodgers'
+          teamDetected: team.name
         });
 
       } catch (error) {
@@ -346,17 +356,16 @@ export class SocialMediaDiscoveryEngine {
     }
   }
 
-  private async getOrCreateSearchTerm(term: string): Promise<number> {
+  // Sites are credited to their own term so its success rate reflects social discovery alone
+  private async getOrCreateSearchTerm(term: string, teamId: number): Promise<number> {
     try {
-      const terms = await storage.getSearchTerms();
-      let searchTerm = terms.find(t => t.term === term);
-      
-      if (!searchTerm) {
-        // In production, we'd create the search term in the database
-        // For now, return the first available term ID
-        return terms.length > 0 ? terms[0].id : 1;
-      }
-      
+      const searchTerm = await storage.findOrCreateSearchTerm({
+        term,
+        category: 'social_discovery',
+        origin: 'social',
+        teamId,
+        restaurantId: null
+      });
       return searchTerm.id;
     } catch (error) {
       console.error('Error getting search term:', error);
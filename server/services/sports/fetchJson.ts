@@ -0,0 +1,14 @@
+/**
+ * JSON fetcher used by the sport adapters. Injectable so tests can serve
+ * recorded payloads from fixtures instead of hitting the network.
+ */
+
+export type JsonFetcher = (url: string) => Promise<any>;
+
+export const fetchJson: JsonFetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${url}`);
+  }
+  return response.json();
+};
@@ -0,0 +1,217 @@
+/**
+ * NFL Adapter
+ *
+ * Normalizes ESPN's public NFL endpoints into the multi-sport BaseGameData and
+ * BaseTeamData shapes. Parsing is split into pure functions so recorded
+ * payloads under fixtures/nfl can exercise the whole path offline.
+ */
+
+import type { BaseGameData, BaseTeamData } from '../multiSportsApiService';
+import { fetchJson, type JsonFetcher } from './fetchJson.ts';
+
+const ESPN_NFL_BASE_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl';
+
+/**
+ * Team-perspective football stats written to games.gameStats
+ */
+export interface FootballTeamStats {
+  points: number;
+  touchdowns: number;
+  passingTouchdowns: number;
+  rushingTouchdowns: number;
+  returnTouchdowns: number;
+  fieldGoals: number;
+  safeties: number;
+  /** Defensive sacks recorded by this team */
+  sacks: number;
+  /** Defensive interceptions recorded by this team */
+  interceptions: number;
+  totalYards: number;
+  turnovers: number;
+  overtime: boolean;
+}
+
+// ESPN's team list does not carry conference/division, so keep the alignment here
+const NFL_ALIGNMENT: Record<string, { conference: 'AFC' | 'NFC'; division: string }> = {
+  BUF: { conference: 'AFC', division: 'AFC East' },
+  MIA: { conference: 'AFC', division: 'AFC East' },
+  NE: { conference: 'AFC', division: 'AFC East' },
+  NYJ: { conference: 'AFC', division: 'AFC East' },
+  BAL: { conference: 'AFC', division: 'AFC North' },
+  CIN: { conference: 'AFC', division: 'AFC North' },
+  CLE: { conference: 'AFC', division: 'AFC North' },
+  PIT: { conference: 'AFC', division: 'AFC North' },
+  HOU: { conference: 'AFC', division: 'AFC South' },
+  IND: { conference: 'AFC', division: 'AFC South' },
+  JAX: { conference: 'AFC', division: 'AFC South' },
+  TEN: { conference: 'AFC', division: 'AFC South' },
+  DEN: { conference: 'AFC', division: 'AFC West' },
+  KC: { conference: 'AFC', division: 'AFC West' },
+  LV: { conference: 'AFC', division: 'AFC West' },
+  LAC: { conference: 'AFC', division: 'AFC West' },
+  DAL: { conference: 'NFC', division: 'NFC East' },
+  NYG: { conference: 'NFC', division: 'NFC East' },
+  PHI: { conference: 'NFC', division: 'NFC East' },
+  WSH: { conference: 'NFC', division: 'NFC East' },
+  CHI: { conference: 'NFC', division: 'NFC North' },
+  DET: { conference: 'NFC', division: 'NFC North' },
+  GB: { conference: 'NFC', division: 'NFC North' },
+  MIN: { conference: 'NFC', division: 'NFC North' },
+  ATL: { conference: 'NFC', division: 'NFC South' },
+  CAR: { conference: 'NFC', division: 'NFC South' },
+  NO: { conference: 'NFC', division: 'NFC South' },
+  TB: { conference: 'NFC', division: 'NFC South' },
+  ARI: { conference: 'NFC', division: 'NFC West' },
+  LAR: { conference: 'NFC', division: 'NFC West' },
+  SF: { conference: 'NFC', division: 'NFC West' },
+  SEA: { conference: 'NFC', division: 'NFC West' },
+};
+
+function parseScore(score: any): number | undefined {
+  if (score === undefined || score === null) return undefined;
+  if (typeof score === 'object') {
+    return score.value !== undefined ? Number(score.value) : parseScore(score.displayValue);
+  }
+  const parsed = Number(score);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function statValue(statistics: any[] | undefined, name: string): string | undefined {
+  return statistics?.find((s: any) => s.name === name)?.displayValue;
+}
+
+function leadingNumber(value: string | undefined): number {
+  const parsed = parseInt((value ?? '').split('-')[0], 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Parse ESPN /teams into BaseTeamData
+ */
+export function parseNFLTeams(payload: any): BaseTeamData[] {
+  const entries = payload?.sports?.[0]?.leagues?.[0]?.teams ?? [];
+
+  return entries.map(({ team }: any) => ({
+    id: String(team.id),
+    name: team.name ?? team.shortDisplayName,
+    city: team.location,
+    abbreviation: team.abbreviation,
+    sport: 'NFL' as const,
+    conference: NFL_ALIGNMENT[team.abbreviation]?.conference,
+    division: NFL_ALIGNMENT[team.abbreviation]?.division,
+    primaryColor: team.color ? `#${team.color}` : undefined,
+  }));
+}
+
+/**
+ * Parse ESPN /teams/:id/schedule (or /scoreboard) events into BaseGameData
+ */
+export function parseNFLSchedule(payload: any): BaseGameData[] {
+  return (payload?.events ?? []).flatMap((event: any) => {
+    const competition = event.competitions?.[0];
+    const home = competition?.competitors?.find((c: any) => c.homeAway === 'home');
+    const away = competition?.competitors?.find((c: any) => c.homeAway === 'away');
+    if (!home || !away) return [];
+
+    const statusType = competition.status?.type ?? {};
+
+    return [{
+      id: String(event.id),
+      date: event.date,
+      homeTeam: { id: String(home.team.id), name: home.team.displayName, score: parseScore(home.score) },
+      awayTeam: { id: String(away.team.id), name: away.team.displayName, score: parseScore(away.score) },
+      status: statusType.detail ?? statusType.description ?? 'Unknown',
+      isComplete: Boolean(statusType.completed),
+    }];
+  });
+}
+
+/**
+ * Parse ESPN /summary into per-side football stats.
+ * Touchdowns and field goals come from scoring plays; sacks and interceptions
+ * are read from the opponent's offensive line ("sacks-yards lost", "interceptions thrown").
+ */
+export function parseNFLBoxScore(payload: any): { home: FootballTeamStats; away: FootballTeamStats } | null {
+  const boxTeams: any[] = payload?.boxscore?.teams ?? [];
+  const homeBox = boxTeams.find(t => t.homeAway === 'home');
+  const awayBox = boxTeams.find(t => t.homeAway === 'away');
+  if (!homeBox || !awayBox) return null;
+
+  const competition = payload?.header?.competitions?.[0];
+  const competitorScore = (side: 'home' | 'away') =>
+    parseScore(competition?.competitors?.find((c: any) => c.homeAway === side)?.score) ?? 0;
+  const plays: any[] = payload?.scoringPlays ?? [];
+  const overtime = plays.some(p => (p.period?.number ?? 0) > 4) ||
+    /OT/.test(competition?.status?.type?.detail ?? '');
+
+  const build = (box: any, opponentBox: any, points: number): FootballTeamStats => {
+    const teamId = String(box.team.id);
+    const teamPlays = plays.filter(p => String(p.team?.id) === teamId);
+    const scoringType = (p: any) => p.scoringType?.name ?? p.type?.abbreviation;
+    const touchdowns = teamPlays.filter(p => ['touchdown', 'TD'].includes(scoringType(p)));
+
+    return {
+      points,
+      touchdowns: touchdowns.length,
+      passingTouchdowns: touchdowns.filter(p => /passing/i.test(p.type?.text ?? '')).length,
+      rushingTouchdowns: touchdowns.filter(p => /rushing/i.test(p.type?.text ?? '')).length,
+      returnTouchdowns: touchdowns.filter(p => /return/i.test(p.type?.text ?? '')).length,
+      fieldGoals: teamPlays.filter(p => ['field-goal', 'FG'].includes(scoringType(p))).length,
+      safeties: teamPlays.filter(p => ['safety', 'SF'].includes(scoringType(p))).length,
+      sacks: leadingNumber(statValue(opponentBox.statistics, 'sacksYardsLost')),
+      interceptions: leadingNumber(statValue(opponentBox.statistics, 'interceptions')),
+      totalYards: leadingNumber(statValue(box.statistics, 'totalYards')),
+      turnovers: leadingNumber(statValue(box.statistics, 'turnovers')),
+      overtime,
+    };
+  };
+
+  return {
+    home: build(homeBox, awayBox, competitorScore('home')),
+    away: build(awayBox, homeBox, competitorScore('away')),
+  };
+}
+
+export class NFLAdapter {
+  constructor(
+    private readonly baseUrl: string = ESPN_NFL_BASE_URL,
+    private readonly fetcher: JsonFetcher = fetchJson
+  ) {}
+
+  async getTeams(): Promise<BaseTeamData[]> {
+    return parseNFLTeams(await this.fetcher(`${this.baseUrl}/teams`));
+  }
+
+  /**
+   * Games for a team in the last `days` days, with box-score stats attached to completed games
+   */
+  async getGames(teamId: string, days: number = 7, now: Date = new Date()): Promise<BaseGameData[]> {
+    const schedule = parseNFLSchedule(await this.fetcher(`${this.baseUrl}/teams/${teamId}/schedule`));
+    const since = now.getTime() - days * 24 * 60 * 60 * 1000;
+    const recent = schedule.filter(game => {
+      const time = new Date(game.date).getTime();
+      return time >= since && time <= now.getTime();
+    });
+
+    for (const game of recent) {
+      if (!game.isComplete) continue;
+      const teamStats = await this.getBoxScore(game.id);
+      if (teamStats) {
+        game.teamStats = teamStats;
+      }
+    }
+
+    return recent;
+  }
+
+  async getBoxScore(eventId: string): Promise<{ home: FootballTeamStats; away: FootballTeamStats } | null> {
+    try {
+      return parseNFLBoxScore(await this.fetcher(`${this.baseUrl}/summary?event=${eventId}`));
+    } catch (error) {
+      console.error(`NFL box score error for event ${eventId}:`, error);
+      return null;
+    }
+  }
+}
+
+export const nflAdapter = new NFLAdapter();
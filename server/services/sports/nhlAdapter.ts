@@ -0,0 +1,184 @@
+/**
+ * NHL Adapter
+ *
+ * Normalizes the public NHL web API (api-web.nhle.com) into the multi-sport
+ * BaseGameData and BaseTeamData shapes. The NHL schedule is keyed by club
+ * abbreviation, so NHL teams use their abbreviation as the external id.
+ * Parsing is split into pure functions so recorded payloads under
+ * fixtures/nhl can exercise the whole path offline.
+ */
+
+import type { BaseGameData, BaseTeamData } from '../multiSportsApiService';
+import { fetchJson, type JsonFetcher } from './fetchJson.ts';
+
+const NHL_BASE_URL = 'https://api-web.nhle.com/v1';
+
+/**
+ * Team-perspective hockey stats written to games.gameStats
+ */
+export interface HockeyTeamStats {
+  /** Goals scored in play (excludes the shootout winner credited to the final score) */
+  goals: number;
+  powerPlayGoals: number;
+  shortHandedGoals: number;
+  emptyNetGoals: number;
+  shotsOnGoal: number;
+  /** Opponent finished with zero goals */
+  shutout: boolean;
+  /** A player on this team scored three or more goals */
+  hatTrick: boolean;
+  overtime: boolean;
+  shootout: boolean;
+}
+
+const FINAL_STATES = ['OFF', 'FINAL'];
+const LIVE_STATES = ['LIVE', 'CRIT'];
+
+function localized(value: any): string | undefined {
+  return typeof value === 'object' && value !== null ? value.default : value;
+}
+
+/**
+ * Human-readable status, matching the "Final"/"In Progress" wording of the other sports
+ */
+export function describeNHLStatus(gameState: string, periodDescriptor?: any): string {
+  const periodType = periodDescriptor?.periodType;
+
+  if (FINAL_STATES.includes(gameState)) {
+    return periodType === 'OT' || periodType === 'SO' ? `Final/${periodType}` : 'Final';
+  }
+  if (LIVE_STATES.includes(gameState)) {
+    const period = periodType === 'REG' ? `P${periodDescriptor?.number}` : periodType;
+    return period ? `In Progress - ${period}` : 'In Progress';
+  }
+  switch (gameState) {
+    case 'PRE':
+      return 'Pre-game';
+    case 'FUT':
+      return 'Scheduled';
+    case 'PPD':
+      return 'Postponed';
+    default:
+      return gameState || 'Unknown';
+  }
+}
+
+/**
+ * Parse /standings/now into BaseTeamData
+ */
+export function parseNHLTeams(payload: any): BaseTeamData[] {
+  return (payload?.standings ?? []).map((entry: any) => ({
+    id: localized(entry.teamAbbrev)!,
+    name: localized(entry.teamCommonName) ?? localized(entry.teamName)!,
+    city: localized(entry.placeName) ?? '',
+    abbreviation: localized(entry.teamAbbrev)!,
+    sport: 'NHL' as const,
+    conference: entry.conferenceName,
+    division: entry.divisionName,
+  }));
+}
+
+/**
+ * Parse /club-schedule-season/:abbrev/now games into BaseGameData
+ */
+export function parseNHLSchedule(payload: any): BaseGameData[] {
+  return (payload?.games ?? []).map((game: any) => {
+    const side = (team: any) => ({
+      id: team.abbrev,
+      name: [localized(team.placeName), localized(team.commonName)].filter(Boolean).join(' '),
+      score: typeof team.score === 'number' ? team.score : undefined,
+    });
+
+    return {
+      id: String(game.id),
+      date: game.startTimeUTC ?? game.gameDate,
+      homeTeam: side(game.homeTeam),
+      awayTeam: side(game.awayTeam),
+      status: describeNHLStatus(game.gameState, game.periodDescriptor),
+      isComplete: FINAL_STATES.includes(game.gameState),
+    };
+  });
+}
+
+/**
+ * Parse /gamecenter/:id/landing into per-side hockey stats.
+ * Goal strength (pp/sh) and empty-net modifiers come from the scoring summary.
+ */
+export function parseNHLBoxScore(payload: any): { home: HockeyTeamStats; away: HockeyTeamStats } | null {
+  const home = payload?.homeTeam;
+  const away = payload?.awayTeam;
+  if (!home || !away) return null;
+
+  const goals: any[] = (payload.summary?.scoring ?? []).flatMap((period: any) => period.goals ?? []);
+  const periodType = payload.periodDescriptor?.periodType;
+  const isFinal = FINAL_STATES.includes(payload.gameState);
+
+  const build = (team: any, opponent: any): HockeyTeamStats => {
+    const teamGoals = goals.filter(goal => localized(goal.teamAbbrev) === team.abbrev);
+    const goalsByPlayer = new Map<number, number>();
+    for (const goal of teamGoals) {
+      goalsByPlayer.set(goal.playerId, (goalsByPlayer.get(goal.playerId) ?? 0) + 1);
+    }
+
+    return {
+      goals: teamGoals.length,
+      powerPlayGoals: teamGoals.filter(goal => goal.strength === 'pp').length,
+      shortHandedGoals: teamGoals.filter(goal => goal.strength === 'sh').length,
+      emptyNetGoals: teamGoals.filter(goal => goal.goalModifier === 'empty-net').length,
+      shotsOnGoal: team.sog ?? 0,
+      shutout: isFinal && (opponent.score ?? 0) === 0,
+      hatTrick: Array.from(goalsByPlayer.values()).some(count => count >= 3),
+      overtime: periodType === 'OT' || periodType === 'SO',
+      shootout: periodType === 'SO',
+    };
+  };
+
+  return { home: build(home, away), away: build(away, home) };
+}
+
+export class NHLAdapter {
+  constructor(
+    private readonly baseUrl: string = NHL_BASE_URL,
+    private readonly fetcher: JsonFetcher = fetchJson
+  ) {}
+
+  async getTeams(): Promise<BaseTeamData[]> {
+    return parseNHLTeams(await this.fetcher(`${this.baseUrl}/standings/now`));
+  }
+
+  /**
+   * Games for a team (by abbreviation) in the last `days` days, including any
+   * game in progress, with box-score stats attached to completed games
+   */
+  async getGames(teamAbbrev: string, days: number = 7, now: Date = new Date()): Promise<BaseGameData[]> {
+    const schedule = parseNHLSchedule(
+      await this.fetcher(`${this.baseUrl}/club-schedule-season/${teamAbbrev}/now`)
+    );
+    const since = now.getTime() - days * 24 * 60 * 60 * 1000;
+    const recent = schedule.filter(game => {
+      const time = new Date(game.date).getTime();
+      return time >= since && time <= now.getTime();
+    });
+
+    for (const game of recent) {
+      if (!game.isComplete) continue;
+      const teamStats = await this.getBoxScore(game.id);
+      if (teamStats) {
+        game.teamStats = teamStats;
+      }
+    }
+
+    return recent;
+  }
+
+  async getBoxScore(gameId: string): Promise<{ home: HockeyTeamStats; away: HockeyTeamStats } | null> {
+    try {
+      return parseNHLBoxScore(await this.fetcher(`${this.baseUrl}/gamecenter/${gameId}/landing`));
+    } catch (error) {
+      console.error(`NHL box score error for game ${gameId}:`, error);
+      return null;
+    }
+  }
+}
+
+export const nhlAdapter = new NHLAdapter();
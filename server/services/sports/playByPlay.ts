@@ -0,0 +1,145 @@
+/**
+ * Play-by-Play Parsing
+ *
+ * Turns live game feeds into individual in-game plays (strikeouts, home runs,
+ * stolen bases, inning changes) so deals like "free fries after a strikeout
+ * in the 7th" can fire while the game is still going. Parsing is a pure
+ * function over the MLB Stats API live feed so recorded snapshots under
+ * fixtures/mlb can replay a game offline.
+ */
+
+import { fetchJson, type JsonFetcher } from './fetchJson.ts';
+
+export type PlayType = 'strikeout' | 'home_run' | 'stolen_base' | 'inning_change';
+
+export interface GamePlay {
+  /** Stable within a game, so a play seen on several polls has one id */
+  playId: string;
+  playType: PlayType;
+  inning: number;
+  halfInning: 'top' | 'bottom';
+  /** Side credited with the play: the pitching side for strikeouts, the batting side otherwise */
+  side: 'home' | 'away';
+  /** Nth play of this type by this side in the game, counting from 1 */
+  sequence: number;
+  player?: string;
+  rbi?: number;
+  grandSlam?: boolean;
+  description: string;
+}
+
+/**
+ * Source of plays for a game; returns null when the game has no feed yet
+ */
+export interface PlayFeed {
+  getPlays(gameId: string): Promise<GamePlay[] | null>;
+}
+
+const MLB_BASE_URL = 'https://statsapi.mlb.com/api/v1.1';
+const STRIKEOUT_EVENTS = ['strikeout', 'strikeout_double_play', 'strikeout_triple_play'];
+
+/**
+ * Plays from an MLB live feed (game/{gamePk}/feed/live), in the order they happened.
+ * Only completed at-bats contribute strikeouts, home runs and stolen bases; an
+ * inning change is reported as soon as the first at-bat of the half begins.
+ */
+export function parseMLBPlays(feed: any): GamePlay[] {
+  const allPlays: any[] = feed?.liveData?.plays?.allPlays ?? [];
+  const plays: GamePlay[] = [];
+  const counts = new Map<string, number>();
+  const seenHalves = new Set<string>();
+
+  const add = (play: Omit<GamePlay, 'sequence'>) => {
+    const key = `${play.playType}:${play.side}`;
+    const sequence = (counts.get(key) ?? 0) + 1;
+    counts.set(key, sequence);
+    plays.push({ ...play, sequence });
+  };
+
+  for (const atBat of allPlays) {
+    const about = atBat.about ?? {};
+    const inning: number = about.inning;
+    const halfInning: 'top' | 'bottom' = about.isTopInning ? 'top' : 'bottom';
+    const batting: 'home' | 'away' = about.isTopInning ? 'away' : 'home';
+    const pitching: 'home' | 'away' = about.isTopInning ? 'home' : 'away';
+    if (typeof inning !== 'number') continue;
+
+    const half = `${inning}-${halfInning}`;
+    if (!seenHalves.has(half)) {
+      seenHalves.add(half);
+      add({
+        playId: `inning-${half}`,
+        playType: 'inning_change',
+        inning,
+        halfInning,
+        side: batting,
+        description: `${halfInning === 'top' ? 'Top' : 'Bottom'} of inning ${inning}`
+      });
+    }
+
+    if (!about.isComplete) continue;
+
+    // Steals happen during the at-bat, before its result
+    for (const runner of atBat.runners ?? []) {
+      const details = runner.details ?? {};
+      if (!String(details.eventType ?? '').startsWith('stolen_base')) continue;
+      add({
+        playId: `${about.atBatIndex}-sb-${details.runner?.id}-${details.playIndex}`,
+        playType: 'stolen_base',
+        inning,
+        halfInning,
+        side: batting,
+        player: details.runner?.fullName,
+        description: details.event ?? 'Stolen Base'
+      });
+    }
+
+    const eventType = atBat.result?.eventType;
+    if (STRIKEOUT_EVENTS.includes(eventType)) {
+      add({
+        playId: `${about.atBatIndex}-k`,
+        playType: 'strikeout',
+        inning,
+        halfInning,
+        side: pitching,
+        player: atBat.matchup?.pitcher?.fullName,
+        description: atBat.result.description ?? 'Strikeout'
+      });
+    } else if (eventType === 'home_run') {
+      const rbi = atBat.result.rbi ?? 1;
+      add({
+        playId: `${about.atBatIndex}-hr`,
+        playType: 'home_run',
+        inning,
+        halfInning,
+        side: batting,
+        player: atBat.matchup?.batter?.fullName,
+        rbi,
+        grandSlam: rbi === 4,
+        description: atBat.result.description ?? 'Home Run'
+      });
+    }
+  }
+
+  return plays;
+}
+
+/**
+ * Plays for MLB games, keyed by gamePk
+ */
+export class MLBPlayFeed implements PlayFeed {
+  constructor(
+    private readonly baseUrl: string = MLB_BASE_URL,
+    private readonly fetcher: JsonFetcher = fetchJson
+  ) {}
+
+  async getPlays(gameId: string): Promise<GamePlay[] | null> {
+    const feed = await this.fetcher(`${this.baseUrl}/game/${gameId}/feed/live`);
+    if (!feed?.liveData?.plays) {
+      return null;
+    }
+    return parseMLBPlays(feed);
+  }
+}
+
+export const mlbPlayFeed = new MLBPlayFeed();
@@ -0,0 +1,85 @@
+/**
+ * ESPN scoreboard provider (MLB)
+ */
+
+import type { GameData } from '../../enhancedSportsApiService.ts';
+import { HttpSportsDataProvider } from './httpProvider.ts';
+
+export class ESPNProvider extends HttpSportsDataProvider {
+  readonly id = 'espn';
+  readonly name = 'ESPN';
+  readonly sports = ['MLB'] as const;
+  readonly weight = 0.6;
+  // Conservative limits to avoid hitting their rate limits
+  readonly rateLimit = {
+    maxRequests: 100,
+    windowMs: 60 * 1000,
+    useTokenBucket: true,
+    refillRate: 1.5
+  };
+  readonly circuitBreaker = {
+    failureThreshold: 3,
+    resetTimeout: 30000,
+    timeoutThreshold: 8000
+  };
+
+  constructor(private readonly baseUrl = 'https://site.api.espn.com/apis/site/v2/sports/baseball/mlb') {
+    super();
+  }
+
+  protected buildUrl(_gameId: string): string {
+    return `${this.baseUrl}/scoreboard`;
+  }
+
+  /**
+   * Convert ESPN API response to standardized GameData format
+   */
+  protected convert(rawData: any, gameId: string): GameData {
+    // Find the specific game in ESPN's scoreboard response
+    const game = rawData.events?.find((event: any) => event.id === gameId);
+
+    if (!game) {
+      throw new Error(`Game ${gameId} not found in ESPN response`);
+    }
+
+    const competition = game.competitions?.[0];
+    if (!competition) {
+      throw new Error(`No competition data found for game ${gameId}`);
+    }
+
+    const homeTeam = competition.competitors.find((c: any) => c.homeAway === 'home');
+    const awayTeam = competition.competitors.find((c: any) => c.homeAway === 'away');
+
+    if (!homeTeam || !awayTeam) {
+      throw new Error(`Incomplete team data for game ${gameId}`);
+    }
+
+    return {
+      gameId,
+      teams: {
+        home: {
+          id: parseInt(homeTeam.team.id),
+          name: homeTeam.team.displayName,
+          score: parseInt(homeTeam.score || '0')
+        },
+        away: {
+          id: parseInt(awayTeam.team.id),
+          name: awayTeam.team.displayName,
+          score: parseInt(awayTeam.score || '0')
+        }
+      },
+      status: {
+        state: game.status.type.state,
+        detailedState: game.status.type.description,
+        isFinal: game.status.type.completed
+      },
+      timestamp: new Date().toISOString(),
+      source: this.name,
+      venue: competition.venue ? {
+        id: parseInt(competition.venue.id),
+        name: competition.venue.fullName
+      } : undefined,
+      inning: competition.status?.period
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Base class for providers backed by a JSON HTTP API. Handles conditional
+ * request headers, timeouts and status errors; subclasses only build the URL
+ * and convert the payload into GameData.
+ */
+
+import type { GameData } from '../../enhancedSportsApiService.ts';
+import type { ProviderRequest, ProviderResult, SportsDataProvider, Sport } from './types.ts';
+
+export abstract class HttpSportsDataProvider implements SportsDataProvider {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly sports: readonly Sport[];
+  abstract readonly weight: number;
+  abstract readonly rateLimit: SportsDataProvider['rateLimit'];
+  abstract readonly circuitBreaker: SportsDataProvider['circuitBreaker'];
+
+  protected abstract buildUrl(gameId: string): string;
+  protected abstract convert(rawData: any, gameId: string): GameData;
+
+  async fetchGame(gameId: string, request: ProviderRequest = {}): Promise<ProviderResult> {
+    const headers: HeadersInit = {
+      'User-Agent': 'Free4AllWeb-ValidationSystem/1.0'
+    };
+    if (request.etag) headers['If-None-Match'] = request.etag;
+    if (request.lastModified) headers['If-Modified-Since'] = request.lastModified;
+
+    const response = await fetch(this.buildUrl(gameId), {
+      headers,
+      signal: AbortSignal.timeout(request.timeout || this.circuitBreaker.timeoutThreshold || 8000)
+    });
+
+    // Handle 304 Not Modified
+    if (response.status === 304) {
+      throw new Error(`${this.name} data not modified (304)`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText}`);
+    }
+
+    const rawData = await response.json();
+
+    return {
+      data: this.convert(rawData, gameId),
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export type { SportsDataProvider, ProviderRequest, ProviderResult, Sport } from './types.ts';
+export { HttpSportsDataProvider } from './httpProvider.ts';
+export { ESPNProvider } from './espnProvider.ts';
+export { MLBProvider } from './mlbProvider.ts';
+export { FixtureProvider, loadFixtureProviders, type FixtureProviderOptions } from './fixtureProvider.ts';
+export { SportsProviderRegistry, sportsProviders } from './registry.ts';
@@ -0,0 +1,77 @@
+/**
+ * MLB Stats API live feed provider
+ */
+
+import type { GameData } from '../../enhancedSportsApiService.ts';
+import { HttpSportsDataProvider } from './httpProvider.ts';
+
+export class MLBProvider extends HttpSportsDataProvider {
+  readonly id = 'mlb';
+  readonly name = 'MLB';
+  readonly sports = ['MLB'] as const;
+  readonly weight = 0.4;
+  readonly authoritative = true;
+  // Higher limits as it's an official API
+  readonly rateLimit = {
+    maxRequests: 200,
+    windowMs: 60 * 1000,
+    useTokenBucket: true,
+    refillRate: 3
+  };
+  readonly circuitBreaker = {
+    failureThreshold: 5, // Higher threshold for official API
+    resetTimeout: 60000,
+    timeoutThreshold: 10000
+  };
+
+  constructor(private readonly baseUrl = 'https://statsapi.mlb.com/api/v1') {
+    super();
+  }
+
+  protected buildUrl(gameId: string): string {
+    return `${this.baseUrl}/game/${gameId}/feed/live`;
+  }
+
+  /**
+   * Convert MLB API response to standardized GameData format
+   */
+  protected convert(rawData: any, gameId: string): GameData {
+    const gameData = rawData.gameData;
+    const liveData = rawData.liveData;
+
+    if (!gameData || !liveData) {
+      throw new Error(`Incomplete MLB data for game ${gameId}`);
+    }
+
+    const homeScore = liveData.linescore?.teams?.home?.runs || 0;
+    const awayScore = liveData.linescore?.teams?.away?.runs || 0;
+
+    return {
+      gameId,
+      teams: {
+        home: {
+          id: gameData.teams.home.id,
+          name: gameData.teams.home.name,
+          score: homeScore
+        },
+        away: {
+          id: gameData.teams.away.id,
+          name: gameData.teams.away.name,
+          score: awayScore
+        }
+      },
+      status: {
+        state: gameData.status.abstractGameState,
+        detailedState: gameData.status.detailedState,
+        isFinal: gameData.status.abstractGameState === 'Final'
+      },
+      timestamp: new Date().toISOString(),
+      source: this.name,
+      venue: gameData.venue ? {
+        id: gameData.venue.id,
+        name: gameData.venue.name
+      } : undefined,
+      inning: liveData.linescore?.currentInning
+    };
+  }
+}
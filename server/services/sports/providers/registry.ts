@@ -0,0 +1,103 @@
+/**
+ * Sports Data Provider Registry
+ *
+ * Single list of game-state sources used by EnhancedSportsApiService,
+ * ConsensusEngine, PerformanceMonitor and the health checks. Registering a
+ * provider is enough for it to be fetched, weighted, rate limited, circuit
+ * broken and monitored.
+ *
+ * With SPORTS_FIXTURE_DIR set, the registry starts with file-backed fixture
+ * providers instead of the live ESPN/MLB sources.
+ */
+
+import { circuitBreakers, type CircuitBreaker } from '../../../lib/circuitBreaker.ts';
+import { rateLimiters, type RateLimitResult } from '../../../lib/rateLimiter.ts';
+import type { SportsDataProvider, Sport } from './types.ts';
+import { ESPNProvider } from './espnProvider.ts';
+import { MLBProvider } from './mlbProvider.ts';
+import { loadFixtureProviders } from './fixtureProvider.ts';
+
+// Weight given to sources consensus has never heard of
+const UNKNOWN_SOURCE_WEIGHT = 0.1;
+
+export class SportsProviderRegistry {
+  private providers = new Map<string, SportsDataProvider>();
+
+  register(provider: SportsDataProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Sports data provider already registered: ${provider.id}`);
+    }
+    if (provider.weight < 0 || provider.weight > 1) {
+      throw new Error(`Provider ${provider.id} weight must be between 0 and 1`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  /**
+   * Replace all providers (used when switching to fixtures)
+   */
+  reset(providers: SportsDataProvider[] = []): void {
+    this.providers.clear();
+    providers.forEach(provider => this.register(provider));
+  }
+
+  get(id: string): SportsDataProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): SportsDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  forSport(sport: Sport): SportsDataProvider[] {
+    return this.list().filter(provider => provider.sports.includes(sport));
+  }
+
+  /**
+   * Find a provider by the label it writes to GameData.source
+   */
+  findBySource(source: string): SportsDataProvider | undefined {
+    return this.list().find(provider => provider.name === source);
+  }
+
+  getWeight(source: string): number {
+    return this.findBySource(source)?.weight ?? UNKNOWN_SOURCE_WEIGHT;
+  }
+
+  breakerName(provider: SportsDataProvider): string {
+    return `${provider.id}-api`;
+  }
+
+  getBreaker(provider: SportsDataProvider): CircuitBreaker {
+    return circuitBreakers.getBreaker(this.breakerName(provider), provider.circuitBreaker);
+  }
+
+  getRateLimiter(provider: SportsDataProvider) {
+    return rateLimiters.getLimiter(this.breakerName(provider), provider.rateLimit);
+  }
+
+  getRateLimitStatus(): Record<string, RateLimitResult> {
+    const status: Record<string, RateLimitResult> = {};
+    for (const provider of this.list()) {
+      status[provider.id] = this.getRateLimiter(provider).getStatus();
+    }
+    return status;
+  }
+}
+
+function createDefaultProviders(): SportsDataProvider[] {
+  const fixtureDir = process.env.SPORTS_FIXTURE_DIR;
+  if (fixtureDir) {
+    console.log(`🧪 Using fixture sports data providers from ${fixtureDir}`);
+    return loadFixtureProviders(fixtureDir);
+  }
+  return [new ESPNProvider(), new MLBProvider()];
+}
+
+// Global provider registry
+export const sportsProviders = new SportsProviderRegistry();
+sportsProviders.reset(createDefaultProviders());
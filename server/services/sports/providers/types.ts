@@ -0,0 +1,43 @@
+/**
+ * Sports Data Provider Contract
+ *
+ * A provider is one upstream source of game state (ESPN, the MLB Stats API,
+ * recorded fixtures, ...). Everything the validation pipeline needs to know
+ * about a source - which sports it covers, how much consensus trusts it and
+ * how hard it may be called - is declared on the provider itself.
+ */
+
+import type { RateLimiterOptions } from '../../../lib/rateLimiter.ts';
+import type { CircuitBreakerOptions } from '../../../lib/circuitBreaker.ts';
+import type { GameData } from '../../enhancedSportsApiService.ts';
+
+export type Sport = 'MLB' | 'NBA' | 'NFL' | 'NHL';
+
+export interface ProviderRequest {
+  /** Conditional request headers cached from a previous response */
+  etag?: string;
+  lastModified?: string;
+  timeout?: number;
+}
+
+export interface ProviderResult {
+  data: GameData;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface SportsDataProvider {
+  /** Lowercase key used for circuit breakers, rate limiters and performance metrics */
+  readonly id: string;
+  /** Label written to GameData.source */
+  readonly name: string;
+  readonly sports: readonly Sport[];
+  /** Consensus weight in [0, 1] */
+  readonly weight: number;
+  /** Official feed - preferred when several final sources are available */
+  readonly authoritative?: boolean;
+  readonly rateLimit: Omit<RateLimiterOptions, 'identifier'>;
+  readonly circuitBreaker: Partial<Omit<CircuitBreakerOptions, 'name'>>;
+
+  fetchGame(gameId: string, request: ProviderRequest): Promise<ProviderResult>;
+}
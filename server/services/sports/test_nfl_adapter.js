@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the NFL adapter
+ *
+ * Validates against recorded ESPN payloads in fixtures/nfl that:
+ * - Team lists normalize into BaseTeamData with conference/division
+ * - Schedules normalize into BaseGameData with final scores
+ * - Box scores produce per-team football stats for games.gameStats
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { NFLAdapter, parseNFLTeams, parseNFLSchedule, parseNFLBoxScore } from './nflAdapter.ts';
+import { compileTriggerCondition } from '../triggers/dsl.ts';
+import { evaluateTriggerConditions } from '../triggers/evaluate.ts';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'nfl');
+const fixture = (name) => JSON.parse(readFileSync(join(fixturesDir, name), 'utf8'));
+
+// Serves fixtures by URL path, recording every request
+function fixtureFetcher(requested = []) {
+  return async (url) => {
+    requested.push(url);
+    if (url.endsWith('/teams')) return fixture('teams.json');
+    if (url.endsWith('/teams/12/schedule')) return fixture('schedule_kc.json');
+    const event = url.match(/summary\?event=(\d+)/);
+    if (event && event[1] === '401671805') return fixture('summary_401671805.json');
+    throw new Error(`No fixture for ${url}`);
+  };
+}
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+console.log('🧪 Testing NFL Adapter...\n');
+
+await test('Normalizes team list into BaseTeamData', () => {
+  const teams = parseNFLTeams(fixture('teams.json'));
+  const chiefs = teams.find(t => t.abbreviation === 'KC');
+  assert(teams.length === 4, `Expected 4 teams, got ${teams.length}`);
+  assert(chiefs.id === '12' && chiefs.name === 'Chiefs' && chiefs.city === 'Kansas City', 'Chiefs identity');
+  assert(chiefs.sport === 'NFL', 'Sport should be NFL');
+  assert(chiefs.conference === 'AFC' && chiefs.division === 'AFC West', 'Alignment from static map');
+  assert(teams.find(t => t.abbreviation === 'LAR').division === 'NFC West', 'Rams alignment');
+});
+
+await test('Normalizes schedule into BaseGameData with final scores', () => {
+  const games = parseNFLSchedule(fixture('schedule_kc.json'));
+  assert(games.length === 3, `Expected 3 games, got ${games.length}`);
+
+  const overtime = games.find(g => g.id === '401671805');
+  assert(overtime.homeTeam.id === '12' && overtime.homeTeam.score === 30, 'Home final score');
+  assert(overtime.awayTeam.id === '27' && overtime.awayTeam.score === 24, 'Away final score');
+  assert(overtime.isComplete, 'Final game is complete');
+
+  const upcoming = games.find(g => g.id === '401671826');
+  assert(!upcoming.isComplete, 'Scheduled game is not complete');
+  assert(upcoming.homeTeam.score === undefined, 'Scheduled game has no score');
+});
+
+await test('Derives per-team football stats from the box score', () => {
+  const stats = parseNFLBoxScore(fixture('summary_401671805.json'));
+  assert(stats.home.touchdowns === 3, `KC touchdowns: ${stats.home.touchdowns}`);
+  assert(stats.home.passingTouchdowns === 2 && stats.home.rushingTouchdowns === 1, 'KC touchdown split');
+  assert(stats.home.fieldGoals === 3, `KC field goals: ${stats.home.fieldGoals}`);
+  assert(stats.home.sacks === 3, `KC defensive sacks come from TB sacks taken: ${stats.home.sacks}`);
+  assert(stats.home.interceptions === 1, `KC interceptions come from TB picks thrown: ${stats.home.interceptions}`);
+  assert(stats.away.touchdowns === 3 && stats.away.fieldGoals === 1, 'TB scoring');
+  assert(stats.away.sacks === 2, `TB defensive sacks: ${stats.away.sacks}`);
+  assert(stats.home.overtime && stats.away.overtime, 'Overtime flagged for both sides');
+});
+
+await test('Fetches recent games and attaches box scores to completed ones', async () => {
+  const requested = [];
+  const adapter = new NFLAdapter('https://espn.test/nfl', fixtureFetcher(requested));
+  const games = await adapter.getGames('12', 7, new Date('2024-11-05T00:00:00Z'));
+
+  assert(games.length === 1 && games[0].id === '401671805', 'Only the game inside the window is returned');
+  assert(games[0].teamStats.home.sacks === 3, 'Box-score stats attached');
+  assert(requested.filter(u => u.includes('summary')).length === 1, 'Summary fetched once');
+});
+
+await test('Missing box score leaves the game without stats', async () => {
+  const adapter = new NFLAdapter('https://espn.test/nfl', fixtureFetcher());
+  const games = await adapter.getGames('12', 30, new Date('2024-11-05T00:00:00Z'));
+  const noSummary = games.find(g => g.id === '401671789');
+  assert(noSummary && noSummary.teamStats === undefined, 'Game without a summary fixture is still returned');
+});
+
+await test('Football stats drive trigger conditions', () => {
+  const stats = parseNFLBoxScore(fixture('summary_401671805.json'));
+  const game = {
+    id: 1, teamId: 1, opponent: 'Tampa Bay Buccaneers', gameDate: new Date('2024-11-04T01:15:00Z'),
+    isHome: true, teamScore: 30, opponentScore: 24, isComplete: true, gameStats: stats.home, externalId: '401671805'
+  };
+  const condition = compileTriggerCondition('home AND win AND defense.sacks >= 3 AND field_goals >= 3');
+  assert(condition.conditions[2].field === 'sacks', 'defense.sacks alias resolves');
+  assert(evaluateTriggerConditions(condition, game).isTriggered, 'KC home win with 3 sacks should trigger');
+  assert(!evaluateTriggerConditions(compileTriggerCondition('touchdowns >= 4'), game).isTriggered, '3 TDs should not trigger');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! NFL adapter is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the NHL adapter
+ *
+ * Validates against recorded NHL web API payloads in fixtures/nhl that:
+ * - Standings normalize into BaseTeamData keyed by abbreviation
+ * - Club schedules normalize into BaseGameData with final and live status
+ * - Game landings produce per-team hockey stats for games.gameStats
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { NHLAdapter, parseNHLTeams, parseNHLSchedule, parseNHLBoxScore } from './nhlAdapter.ts';
+import { compileTriggerCondition } from '../triggers/dsl.ts';
+import { evaluateTriggerConditions } from '../triggers/evaluate.ts';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'nhl');
+const fixture = (name) => JSON.parse(readFileSync(join(fixturesDir, name), 'utf8'));
+
+// Serves fixtures by URL path, recording every request
+function fixtureFetcher(requested = []) {
+  return async (url) => {
+    requested.push(url);
+    if (url.endsWith('/standings/now')) return fixture('standings.json');
+    if (url.endsWith('/club-schedule-season/LAK/now')) return fixture('schedule_lak.json');
+    const landing = url.match(/gamecenter\/(\d+)\/landing/);
+    if (landing) return fixture(`landing_${landing[1]}.json`);
+    throw new Error(`No fixture for ${url}`);
+  };
+}
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function kingsGame(stats, overrides = {}) {
+  return {
+    id: 1, teamId: 1, opponent: 'Seattle Kraken', gameDate: new Date('2024-10-29T02:30:00Z'),
+    isHome: true, teamScore: 4, opponentScore: 0, isComplete: true, gameStats: stats, externalId: '2024020150',
+    ...overrides
+  };
+}
+
+console.log('🧪 Testing NHL Adapter...\n');
+
+await test('Normalizes standings into BaseTeamData', () => {
+  const teams = parseNHLTeams(fixture('standings.json'));
+  const kings = teams.find(t => t.abbreviation === 'LAK');
+  assert(teams.length === 4, `Expected 4 teams, got ${teams.length}`);
+  assert(kings.id === 'LAK', 'NHL teams are keyed by abbreviation');
+  assert(kings.name === 'Kings' && kings.city === 'Los Angeles', 'Kings identity');
+  assert(kings.conference === 'Western' && kings.division === 'Pacific', 'Kings alignment');
+  assert(teams.every(t => t.sport === 'NHL'), 'Sport should be NHL');
+});
+
+await test('Normalizes schedule with final, live and future games', () => {
+  const games = parseNHLSchedule(fixture('schedule_lak.json'));
+  assert(games.length === 4, `Expected 4 games, got ${games.length}`);
+
+  const shutout = games.find(g => g.id === '2024020150');
+  assert(shutout.homeTeam.id === 'LAK' && shutout.homeTeam.score === 4, 'Home final score');
+  assert(shutout.awayTeam.name === 'Seattle Kraken' && shutout.awayTeam.score === 0, 'Away final score');
+  assert(shutout.isComplete && shutout.status === 'Final', 'Regulation final');
+
+  assert(games.find(g => g.id === '2024020118').status === 'Final/SO', 'Shootout final status');
+
+  const live = games.find(g => g.id === '2024020166');
+  assert(!live.isComplete && live.status === 'In Progress - P2', `Live status: ${live.status}`);
+  assert(live.homeTeam.score === 1, 'Live score carried through');
+
+  const future = games.find(g => g.id === '2024020181');
+  assert(future.status === 'Scheduled' && future.homeTeam.score === undefined, 'Future game');
+});
+
+await test('Derives goals, power plays, shutouts and hat tricks', () => {
+  const stats = parseNHLBoxScore(fixture('landing_2024020150.json'));
+  assert(stats.home.goals === 4, `LAK goals: ${stats.home.goals}`);
+  assert(stats.home.powerPlayGoals === 2, `LAK PPG: ${stats.home.powerPlayGoals}`);
+  assert(stats.home.emptyNetGoals === 1, 'Empty-net goal counted');
+  assert(stats.home.shutout && !stats.away.shutout, 'Shutout credited to LAK only');
+  assert(stats.home.hatTrick, 'Kempe hat trick');
+  assert(stats.home.shotsOnGoal === 35, 'Shots on goal');
+  assert(!stats.home.overtime, 'Regulation game');
+});
+
+await test('Shootout goal is not counted as a scored goal', () => {
+  const stats = parseNHLBoxScore(fixture('landing_2024020118.json'));
+  assert(stats.away.goals === 2, `LAK in-play goals: ${stats.away.goals}`);
+  assert(stats.away.shortHandedGoals === 1, 'Short-handed goal counted');
+  assert(stats.home.powerPlayGoals === 1, 'VGK power-play goal');
+  assert(stats.away.shootout && stats.away.overtime, 'Shootout implies overtime');
+  assert(!stats.away.hatTrick, 'Two goals is not a hat trick');
+});
+
+await test('Fetches recent games and attaches box scores to completed ones', async () => {
+  const requested = [];
+  const adapter = new NHLAdapter('https://nhl.test/v1', fixtureFetcher(requested));
+  const games = await adapter.getGames('LAK', 7, new Date('2024-10-31T03:30:00Z'));
+
+  assert(games.map(g => g.id).join(',') === '2024020118,2024020150,2024020166', 'Window includes the live game');
+  assert(games[1].teamStats.home.shutout, 'Box-score stats attached');
+  assert(games[2].teamStats === undefined, 'Live game has no box-score stats yet');
+  assert(requested.filter(u => u.includes('landing')).length === 2, 'Landing fetched only for finals');
+});
+
+await test('Hockey stats drive trigger conditions', () => {
+  const stats = parseNHLBoxScore(fixture('landing_2024020150.json'));
+  assert(evaluateTriggerConditions(compileTriggerCondition('home AND shutout'), kingsGame(stats.home)).isTriggered,
+    'Home shutout should trigger');
+  assert(evaluateTriggerConditions(compileTriggerCondition('ppg >= 2 OR hat_trick'), kingsGame(stats.home)).isTriggered,
+    'Power-play alias and bare boolean should trigger');
+  assert(!evaluateTriggerConditions(compileTriggerCondition('shutout'), kingsGame(stats.away, { isHome: false })).isTriggered,
+    'Shut-out team does not get a shutout deal');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! NHL adapter is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
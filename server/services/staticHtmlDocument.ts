@@ -0,0 +1,327 @@
+/**
+ * Static HTML document
+ *
+ * A small HTML tree and CSS selector matcher, so extraction recipes run on
+ * fetched pages and saved snapshots without a browser. Only the selector
+ * subset below is supported; recipes are validated against it so that the
+ * Puppeteer engine, which uses the browser's own selector engine, gives the
+ * same answers:
+ *
+ *   tag  *  #id  .class  [attr]  [attr=v]  [attr*=v]  [attr^=v]  [attr$=v]
+ *   :first-child  descendant (a b)  child (a > b)  groups (a, b)
+ */
+
+export interface RecipeElement {
+  text: string;
+  attributes: Record<string, string>;
+}
+
+/**
+ * What a recipe needs from a page; implemented over static HTML here and over
+ * a live Puppeteer page in dealExtractionEngine.ts
+ */
+export interface RecipeDocument {
+  /** Visible text of the page, whitespace collapsed */
+  text(): Promise<string>;
+  /** Elements matching a selector, in document order */
+  select(selector: string): Promise<RecipeElement[]>;
+}
+
+export interface HtmlNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: Array<HtmlNode | string>;
+  parent: HtmlNode | null;
+}
+
+interface AttributeCondition {
+  name: string;
+  operator?: '=' | '*=' | '^=' | '$=';
+  value?: string;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeCondition[];
+  firstChild: boolean;
+}
+
+/** Compounds from left to right; combinators[i] joins compounds[i] and compounds[i + 1] */
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  combinators: Array<' ' | '>'>;
+}
+
+export class UnsupportedSelectorError extends Error {
+  constructor(selector: string, detail: string) {
+    super(`Unsupported selector "${selector}": ${detail}`);
+    this.name = 'UnsupportedSelectorError';
+  }
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'noscript', 'template']);
+// Opening one of these closes an unclosed sibling of the same tag (<li>a<li>b)
+const IMPLIED_END_TAGS = new Set(['li', 'p', 'option', 'dt', 'dd', 'tr', 'td', 'th']);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|[^<]+|</g;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Lenient parse into a tree: unknown closing tags are ignored, a closing tag
+ * closes any elements left open inside it, and list items and paragraphs
+ * close their unclosed predecessor
+ */
+export function parseHtml(html: string): HtmlNode {
+  const root: HtmlNode = { tag: '#root', attributes: {}, children: [], parent: null };
+  let current = root;
+  let rawTextTag: string | null = null;
+
+  for (const match of Array.from(html.matchAll(TOKEN_PATTERN))) {
+    const [token, closingTag, openingTag, attributeSource, selfClosing] = match;
+
+    if (rawTextTag) {
+      if (closingTag?.toLowerCase() === rawTextTag) {
+        rawTextTag = null;
+        current = current.parent ?? root;
+      } else {
+        // Kept verbatim (JSON-LD lives in scripts) but never part of the visible text
+        current.children.push(token);
+      }
+      continue;
+    }
+
+    if (openingTag) {
+      const tag = openingTag.toLowerCase();
+      if (IMPLIED_END_TAGS.has(tag) && current.tag === tag && current.parent) {
+        current = current.parent;
+      }
+      const node: HtmlNode = { tag, attributes: parseAttributes(attributeSource || ''), children: [], parent: current };
+      current.children.push(node);
+      if (RAW_TEXT_TAGS.has(tag) && !selfClosing) {
+        rawTextTag = tag;
+        current = node;
+      } else if (!VOID_TAGS.has(tag) && !selfClosing) {
+        current = node;
+      }
+    } else if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      let open: HtmlNode | null = current;
+      while (open && open.tag !== tag) {
+        open = open.parent;
+      }
+      if (open && open.parent) {
+        current = open.parent;
+      }
+    } else if (!token.startsWith('<!')) {
+      current.children.push(decodeEntities(token));
+    }
+  }
+  return root;
+}
+
+/** Visible text of an element, whitespace collapsed */
+export function nodeText(node: HtmlNode): string {
+  const parts: string[] = [];
+  const walk = (n: HtmlNode) => {
+    if (RAW_TEXT_TAGS.has(n.tag)) return;
+    for (const child of n.children) {
+      if (typeof child === 'string') {
+        parts.push(child);
+      } else {
+        // Block-ish boundaries keep words from running together
+        parts.push(' ');
+        walk(child);
+        parts.push(' ');
+      }
+    }
+  };
+  walk(node);
+  return collapse(parts.join(''));
+}
+
+function splitTopLevel(selector: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(selector.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selector.slice(start));
+  return parts;
+}
+
+const COMPOUND_PART = /^(?:#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([*^$]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]|:(first-child))/;
+
+function parseCompound(source: string, selector: string): CompoundSelector {
+  const compound: CompoundSelector = { classes: [], attributes: [], firstChild: false };
+  let rest = source;
+  const tagMatch = rest.match(/^(\*|[a-zA-Z][\w-]*)/);
+  if (tagMatch) {
+    if (tagMatch[1] !== '*') compound.tag = tagMatch[1].toLowerCase();
+    rest = rest.slice(tagMatch[1].length);
+  }
+  while (rest.length > 0) {
+    const match = rest.match(COMPOUND_PART);
+    if (!match) {
+      throw new UnsupportedSelectorError(selector, `cannot parse "${rest}"`);
+    }
+    if (match[1]) compound.id = match[1];
+    else if (match[2]) compound.classes.push(match[2]);
+    else if (match[3]) {
+      compound.attributes.push({
+        name: match[3].toLowerCase(),
+        operator: match[4] as AttributeCondition['operator'],
+        value: match[5] ?? match[6] ?? match[7],
+      });
+    } else if (match[8]) compound.firstChild = true;
+    rest = rest.slice(match[0].length);
+  }
+  return compound;
+}
+
+/** Parse a selector group, throwing UnsupportedSelectorError outside the supported subset */
+export function parseSelector(selector: string): ComplexSelector[] {
+  const groups = splitTopLevel(selector, ',').map(group => group.trim());
+  if (groups.some(group => group.length === 0)) {
+    throw new UnsupportedSelectorError(selector, 'empty selector');
+  }
+  return groups.map(group => {
+    // Normalise child combinators to a single token, then split on whitespace outside brackets
+    const tokens = splitTopLevel(group.replace(/\s*>\s*/g, ' > '), ' ').filter(Boolean);
+    const compounds: CompoundSelector[] = [];
+    const combinators: Array<' ' | '>'> = [];
+    let pending: ' ' | '>' | null = null;
+    for (const token of tokens) {
+      if (token === '>') {
+        if (compounds.length === 0 || pending === '>') {
+          throw new UnsupportedSelectorError(selector, 'misplaced ">"');
+        }
+        pending = '>';
+        continue;
+      }
+      if (compounds.length > 0) combinators.push(pending ?? ' ');
+      compounds.push(parseCompound(token, selector));
+      pending = null;
+    }
+    if (pending || compounds.length === 0) {
+      throw new UnsupportedSelectorError(selector, 'dangling combinator');
+    }
+    return { compounds, combinators };
+  });
+}
+
+function matchesCompound(node: HtmlNode, compound: CompoundSelector): boolean {
+  if (compound.tag && node.tag !== compound.tag) return false;
+  if (compound.id && node.attributes.id !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classes = (node.attributes.class || '').split(/\s+/);
+    if (!compound.classes.every(c => classes.includes(c))) return false;
+  }
+  for (const condition of compound.attributes) {
+    const actual = node.attributes[condition.name];
+    if (actual === undefined) return false;
+    const expected = condition.value ?? '';
+    if (condition.operator === '=' && actual !== expected) return false;
+    if (condition.operator === '*=' && (!expected || !actual.includes(expected))) return false;
+    if (condition.operator === '^=' && (!expected || !actual.startsWith(expected))) return false;
+    if (condition.operator === '$=' && (!expected || !actual.endsWith(expected))) return false;
+  }
+  if (compound.firstChild) {
+    const firstElement = node.parent?.children.find(child => typeof child !== 'string');
+    if (firstElement !== node) return false;
+  }
+  return true;
+}
+
+function matchesFrom(node: HtmlNode, selector: ComplexSelector, index: number): boolean {
+  if (!matchesCompound(node, selector.compounds[index])) return false;
+  if (index === 0) return true;
+  const combinator = selector.combinators[index - 1];
+  let ancestor = node.parent;
+  while (ancestor && ancestor.tag !== '#root') {
+    if (matchesFrom(ancestor, selector, index - 1)) return true;
+    if (combinator === '>') return false;
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+export class StaticHtmlDocument implements RecipeDocument {
+  readonly root: HtmlNode;
+  private elements: HtmlNode[] = [];
+
+  constructor(html: string) {
+    this.root = parseHtml(html);
+    const collect = (node: HtmlNode) => {
+      for (const child of node.children) {
+        if (typeof child !== 'string') {
+          this.elements.push(child);
+          collect(child);
+        }
+      }
+    };
+    collect(this.root);
+  }
+
+  async text(): Promise<string> {
+    const body = this.elements.find(element => element.tag === 'body');
+    return nodeText(body ?? this.root);
+  }
+
+  /** Raw contents of <script> elements of a type, e.g. application/ld+json */
+  scripts(type: string): string[] {
+    return this.elements
+      .filter(element => element.tag === 'script' && (element.attributes.type || '').toLowerCase().split(';')[0].trim() === type)
+      .map(element => element.children.filter((child): child is string => typeof child === 'string').join(''));
+  }
+
+  async select(selector: string): Promise<RecipeElement[]> {
+    const groups = parseSelector(selector);
+    return this.elements
+      .filter(element => groups.some(group => matchesFrom(element, group, group.compounds.length - 1)))
+      .map(element => ({ text: nodeText(element), attributes: { ...element.attributes } }));
+  }
+}
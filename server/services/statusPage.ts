@@ -0,0 +1,325 @@
+/**
+ * Public Status Page
+ *
+ * Answers "is the deal checker down?" without exposing internals. Health
+ * components from HealthCheckSystem are grouped into a few public components,
+ * sampled into daily rollups for a 90-day uptime history, and AlertManager
+ * alerts become incidents with generic titles.
+ *
+ * Nothing internal leaves this module: no service names, issue text, metric
+ * names, values or alert ids. Everything public is built from the fixed
+ * PUBLIC_COMPONENTS copy below.
+ */
+
+import crypto from 'crypto';
+import { healthCheckSystem, type HealthCheckSystem, type SystemHealth } from './healthCheckSystem.js';
+import { alertManager, type Alert, type AlertManager } from './alertManager.js';
+import { storage, type IStorage, type StatusSampleStatus } from '../storage.js';
+import type { OpsAlert } from '@shared/schema';
+
+export type PublicComponentStatus = 'operational' | 'degraded_performance' | 'partial_outage' | 'major_outage' | 'unknown';
+
+export interface PublicComponentDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // HealthCheckSystem component names rolled into this public component
+  sources: string[];
+}
+
+export const PUBLIC_COMPONENTS: PublicComponentDefinition[] = [
+  {
+    id: 'sports_data',
+    name: 'Sports data',
+    description: 'Live scores and game results from our data providers',
+    sources: ['Enhanced Sports API', 'Circuit Breakers', 'Rate Limiters', 'Game Monitor']
+  },
+  {
+    id: 'deal_discovery',
+    name: 'Deal discovery',
+    description: 'Checking game results against restaurant promotions',
+    sources: ['Consensus Engine', 'Validation Service', 'Workflow Orchestrator', 'Evidence Storage', 'Database Connection']
+  },
+  {
+    id: 'notifications',
+    name: 'Notifications',
+    description: 'Deal alerts by email and push',
+    sources: ['Integration Bridge', 'Database Connection']
+  }
+];
+
+export interface StatusDay {
+  day: string;
+  uptime: number | null; // null when there were no samples that day
+  status: 'operational' | 'degraded' | 'outage' | 'no_data';
+}
+
+export interface PublicComponent {
+  id: string;
+  name: string;
+  description: string;
+  status: PublicComponentStatus;
+  uptime: number | null; // over the history window
+  history: StatusDay[];
+}
+
+export interface PublicIncident {
+  id: string;
+  title: string;
+  impact: 'minor' | 'major';
+  status: 'investigating' | 'identified' | 'resolved';
+  components: string[];
+  startedAt: string;
+  resolvedAt?: string;
+}
+
+export interface PublicStatus {
+  status: PublicComponentStatus;
+  updatedAt: string;
+  components: PublicComponent[];
+  incidents: PublicIncident[];
+}
+
+export interface StatusPageConfig {
+  sampleIntervalMs: number;
+  historyDays: number;
+  incidentLimit: number;
+  cacheTtlMs: number;
+}
+
+/**
+ * Health, alert and storage dependencies, injectable for tests
+ */
+export interface StatusPageDeps {
+  health: Pick<HealthCheckSystem, 'getSystemHealth'>;
+  alerts: Pick<AlertManager, 'getActiveAlerts' | 'queryAlerts'>;
+  store: Pick<IStorage, 'recordStatusSample' | 'getStatusDailyRollups' | 'deleteStatusDailyRollupsBefore'>;
+  now: () => number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Worst first; the overall status is the worst component status
+const STATUS_ORDER: PublicComponentStatus[] = ['major_outage', 'partial_outage', 'degraded_performance', 'unknown', 'operational'];
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function publicStatusFor(definition: PublicComponentDefinition, health?: SystemHealth): PublicComponentStatus {
+  const components = (health?.components ?? []).filter(c => definition.sources.includes(c.component) && c.status !== 'unknown');
+  if (components.length === 0) return 'unknown';
+
+  const unhealthy = components.filter(c => c.status === 'unhealthy').length;
+  if (unhealthy === components.length) return 'major_outage';
+  if (unhealthy > 0) return 'partial_outage';
+  if (components.some(c => c.status === 'degraded')) return 'degraded_performance';
+  return 'operational';
+}
+
+function sampleStatus(status: PublicComponentStatus): StatusSampleStatus | undefined {
+  switch (status) {
+    case 'operational':
+      return 'operational';
+    case 'degraded_performance':
+      return 'degraded';
+    case 'partial_outage':
+    case 'major_outage':
+      return 'outage';
+    default:
+      return undefined;
+  }
+}
+
+function worstStatus(statuses: PublicComponentStatus[]): PublicComponentStatus {
+  return STATUS_ORDER.find(status => statuses.includes(status)) ?? 'unknown';
+}
+
+/**
+ * Public components an alert affects, judged from its rule type and metric name only
+ */
+export function componentsForAlert(
+  alert: { type: string; metric: string },
+  current: Array<{ id: string; status: PublicComponentStatus }>
+): string[] {
+  const metric = alert.metric.toLowerCase();
+
+  if (alert.type === 'health' || metric.startsWith('health.') || metric.startsWith('system_health')) {
+    const affected = current.filter(c => c.status !== 'operational' && c.status !== 'unknown').map(c => c.id);
+    return affected.length > 0 ? affected : current.map(c => c.id);
+  }
+  if (/(^|[._])api([._]|$)|apilatency|source|provider|circuit|rate_limit/.test(metric)) return ['sports_data'];
+  if (/notification|integration|push|email/.test(metric)) return ['notifications'];
+  return ['deal_discovery'];
+}
+
+export class StatusPageService {
+  private config: StatusPageConfig;
+  private deps: StatusPageDeps;
+  private sampleTimer?: NodeJS.Timeout;
+  private lastPurgeDay?: string;
+  private cached?: { at: number; status: PublicStatus };
+
+  constructor(config: Partial<StatusPageConfig> = {}, deps: Partial<StatusPageDeps> = {}) {
+    this.config = {
+      sampleIntervalMs: 5 * 60 * 1000, // 5 minutes
+      historyDays: 90,
+      incidentLimit: 20,
+      cacheTtlMs: 30000, // public endpoint; don't hit storage on every request
+      ...config
+    };
+    this.deps = {
+      health: healthCheckSystem,
+      alerts: alertManager,
+      store: storage,
+      now: () => Date.now(),
+      ...deps
+    };
+  }
+
+  /**
+   * Start sampling health into the uptime history
+   */
+  start(): void {
+    if (this.sampleTimer) return;
+
+    this.sample().catch(error => console.error('Status page sample failed:', (error as Error).message));
+    this.sampleTimer = setInterval(() => {
+      this.sample().catch(error => console.error('Status page sample failed:', (error as Error).message));
+    }, this.config.sampleIntervalMs);
+
+    console.log(`🟢 Status page sampling every ${this.config.sampleIntervalMs / 60000} minutes`);
+  }
+
+  stop(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = undefined;
+    }
+  }
+
+  /**
+   * Record one sample per public component from the latest health report.
+   * Never runs checks itself (they can set off recovery playbooks); a report
+   * older than the sample interval records nothing.
+   */
+  async sample(): Promise<void> {
+    const now = this.deps.now();
+    const latest = this.deps.health.getSystemHealth();
+    const health = latest && now - new Date(latest.timestamp).getTime() < this.config.sampleIntervalMs
+      ? latest
+      : undefined;
+
+    const day = utcDay(now);
+    for (const definition of PUBLIC_COMPONENTS) {
+      const status = sampleStatus(publicStatusFor(definition, health));
+      if (status) {
+        await this.deps.store.recordStatusSample(day, definition.id, status);
+      }
+    }
+
+    if (this.lastPurgeDay !== day) {
+      await this.deps.store.deleteStatusDailyRollupsBefore(utcDay(now - this.config.historyDays * DAY_MS));
+      this.lastPurgeDay = day;
+    }
+    this.cached = undefined;
+  }
+
+  /**
+   * Redacted public status, cached briefly
+   */
+  async getStatus(): Promise<PublicStatus> {
+    const now = this.deps.now();
+    if (this.cached && now - this.cached.at < this.config.cacheTtlMs) {
+      return this.cached.status;
+    }
+
+    const health = this.deps.health.getSystemHealth();
+    const days = Array.from({ length: this.config.historyDays }, (_, i) =>
+      utcDay(now - (this.config.historyDays - 1 - i) * DAY_MS)
+    );
+    const rollups = await this.deps.store.getStatusDailyRollups(days[0]);
+
+    const components: PublicComponent[] = PUBLIC_COMPONENTS.map(definition => {
+      const byDay = new Map(rollups.filter(r => r.component === definition.id).map(r => [r.day, r]));
+      let checks = 0;
+      let outages = 0;
+
+      const history = days.map((day): StatusDay => {
+        const rollup = byDay.get(day);
+        if (!rollup || rollup.checks === 0) {
+          return { day, uptime: null, status: 'no_data' };
+        }
+        checks += rollup.checks;
+        outages += rollup.outageChecks;
+        return {
+          day,
+          uptime: (rollup.checks - rollup.outageChecks) / rollup.checks,
+          status: rollup.outageChecks > 0 ? 'outage' : rollup.degradedChecks > 0 ? 'degraded' : 'operational'
+        };
+      });
+
+      return {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        status: publicStatusFor(definition, health),
+        uptime: checks > 0 ? (checks - outages) / checks : null,
+        history
+      };
+    });
+
+    const status: PublicStatus = {
+      status: worstStatus(components.map(c => c.status)),
+      updatedAt: health?.timestamp ?? new Date(now).toISOString(),
+      components,
+      incidents: await this.getIncidents(components)
+    };
+
+    this.cached = { at: now, status };
+    return status;
+  }
+
+  private async getIncidents(components: PublicComponent[]): Promise<PublicIncident[]> {
+    const alerts = new Map<string, Alert | OpsAlert>();
+    try {
+      for (const alert of await this.deps.alerts.queryAlerts({ limit: 100 })) {
+        alerts.set(alert.alertId, alert);
+      }
+    } catch (error) {
+      // History is best effort; alerts still in memory are enough to show what is open
+      console.error('Failed to load alert history for status page:', (error as Error).message);
+    }
+    for (const alert of this.deps.alerts.getActiveAlerts()) {
+      alerts.set(alert.alertId, alert);
+    }
+
+    return Array.from(alerts.values())
+      .filter(alert => alert.severity !== 'info' && alert.status !== 'suppressed')
+      .map(alert => this.toIncident(alert, components))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, this.config.incidentLimit);
+  }
+
+  private toIncident(alert: Alert | OpsAlert, components: PublicComponent[]): PublicIncident {
+    const affected = componentsForAlert(alert, components);
+    const names = PUBLIC_COMPONENTS.filter(c => affected.includes(c.id)).map(c => c.name.toLowerCase());
+    const impact = alert.severity === 'critical' ? 'major' : 'minor';
+    const resolvedAt = alert.resolvedAt ? new Date(alert.resolvedAt).toISOString() : undefined;
+    const startedAt = 'firstFired' in alert ? alert.firstFired : alert.firstFiredAt.toISOString();
+
+    return {
+      // Stable but opaque; alert ids carry rule names
+      id: crypto.createHash('sha256').update(alert.alertId).digest('hex').slice(0, 12),
+      title: `${impact === 'major' ? 'Service disruption' : 'Degraded performance'} affecting ${names.join(' and ')}`,
+      impact,
+      status: alert.status === 'resolved' ? 'resolved' : alert.acknowledgedAt ? 'identified' : 'investigating',
+      components: affected,
+      startedAt: new Date(startedAt).toISOString(),
+      resolvedAt
+    };
+  }
+}
+
+// Global status page instance
+export const statusPageService = new StatusPageService();
@@ -0,0 +1,322 @@
+/**
+ * Structured Data Extraction
+ *
+ * Reads the machine-readable description a promo page publishes about itself:
+ * schema.org JSON-LD and microdata (Offer, Event, and the Product or MenuItem
+ * an offer is attached to) and OpenGraph tags. Extraction engines use it
+ * before site recipes and text heuristics, which only fill the fields
+ * structured data leaves open, and every field records the method that
+ * produced it so reviewers can see its provenance. OpenGraph describes any
+ * page, so on its own it never makes a deal.
+ */
+
+import { StaticHtmlDocument, nodeText, type HtmlNode } from './staticHtmlDocument.js';
+import type { DealField, ExtractedDeal, ExtractionMethod } from './extractionRecipes.js';
+
+/** Deal fields structured data can supply */
+export type StructuredField = Extract<DealField,
+  'title' | 'restaurant' | 'offerDescription' | 'dealValue' | 'validFrom' | 'validThrough' | 'imageUrl' | 'offerUrl'>;
+
+export interface StructuredDeal {
+  fields: Partial<Record<StructuredField, string>>;
+  provenance: Partial<Record<StructuredField, ExtractionMethod>>;
+  /** schema.org types and OpenGraph found on the page, e.g. ['json-ld:Offer', 'opengraph'] */
+  sources: string[];
+}
+
+// A schema.org item, from JSON-LD or rebuilt from microdata
+type SchemaItem = Record<string, any>;
+
+// When structured data has all of these the text heuristics are skipped. schema.org has no
+// way to say "when the Dodgers score 6 runs", so triggers come from recipes, heuristics or review.
+const CORE_FIELDS: StructuredField[] = ['title', 'offerDescription', 'dealValue'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { USD: '$', CAD: 'CA$', EUR: '€', GBP: '£' };
+
+function schemaTypes(item: SchemaItem): string[] {
+  const type = item['@type'];
+  return (Array.isArray(type) ? type : type ? [type] : []).map(t => String(t).split(/[/#]/).pop()!);
+}
+
+function isOffer(item: SchemaItem): boolean {
+  return schemaTypes(item).some(type => type === 'Offer' || type === 'AggregateOffer');
+}
+
+function isEvent(item: SchemaItem): boolean {
+  return schemaTypes(item).some(type => type.endsWith('Event'));
+}
+
+/** First usable string of a schema.org value: text, a {name}/{url}/{@value} object, or an array of either */
+function text(value: any, key: 'name' | 'url' = 'name'): string | undefined {
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const result = text(entry, key);
+      if (result) return result;
+    }
+    return undefined;
+  }
+  if (value && typeof value === 'object') {
+    return text(value[key] ?? value['@value'] ?? value.contentUrl, key);
+  }
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  return undefined;
+}
+
+function absoluteUrl(value: string | undefined, pageUrl: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, pageUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  return value && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+/** "6.00" USD -> "$6", 0 -> "Free"; prices that are already text are kept */
+export function formatPrice(price: string | undefined, currency?: string): string | undefined {
+  if (price === undefined) return undefined;
+  const amount = Number(price.replace(/,/g, ''));
+  if (!Number.isFinite(amount)) return price;
+  if (amount === 0) return 'Free';
+  const formatted = amount % 1 === 0 ? String(amount) : amount.toFixed(2);
+  const symbol = currency ? CURRENCY_SYMBOLS[currency.toUpperCase()] : '$';
+  return symbol ? `${symbol}${formatted}` : `${formatted} ${currency}`;
+}
+
+/** Every item in the graph with its parent, so nested offers can borrow the parent's name and image */
+function flatten(value: any, parent: SchemaItem | null, out: Array<{ item: SchemaItem; parent: SchemaItem | null }>): void {
+  if (Array.isArray(value)) {
+    value.forEach(entry => flatten(entry, parent, out));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+  if (value['@graph']) flatten(value['@graph'], parent, out);
+  const isItem = schemaTypes(value).length > 0;
+  if (isItem) out.push({ item: value, parent });
+  for (const [key, child] of Object.entries(value)) {
+    if (key !== '@graph' && child && typeof child === 'object') {
+      flatten(child, isItem ? value : parent, out);
+    }
+  }
+}
+
+/**
+ * Map schema.org items to deal fields. An Offer supplies price and validity;
+ * an Event (a promo night, a game) supplies dates when the offer does not.
+ */
+function mapSchemaItems(roots: SchemaItem[], pageUrl: string): Partial<Record<StructuredField, string>> {
+  const items: Array<{ item: SchemaItem; parent: SchemaItem | null }> = [];
+  flatten(roots, null, items);
+  const offerEntry = items.find(entry => isOffer(entry.item));
+  const event = items.find(entry => isEvent(entry.item))?.item;
+  if (!offerEntry && !event) return {};
+
+  const offer = offerEntry?.item ?? {};
+  const context = offerEntry?.parent ?? event ?? {};
+  const fields: Partial<Record<StructuredField, string>> = {
+    title: text(offer.name) ?? text(context.name) ?? text(event?.name),
+    offerDescription: text(offer.description) ?? text(context.description) ?? text(event?.description),
+    dealValue: formatPrice(text(offer.price) ?? text(offer.lowPrice) ?? text(offer.priceSpecification?.price), text(offer.priceCurrency) ?? text(offer.priceSpecification?.priceCurrency)),
+    validFrom: isoDate(text(offer.validFrom) ?? text(offer.availabilityStarts) ?? text(event?.startDate)),
+    validThrough: isoDate(text(offer.validThrough) ?? text(offer.priceValidUntil) ?? text(offer.availabilityEnds) ?? text(event?.endDate)),
+    imageUrl: absoluteUrl(text(offer.image, 'url') ?? text(context.image, 'url') ?? text(event?.image, 'url'), pageUrl),
+    offerUrl: absoluteUrl(text(offer.url, 'url') ?? text(event?.url, 'url'), pageUrl),
+    restaurant: text(offer.seller) ?? text(offer.offeredBy) ?? text(event?.organizer),
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+function parseJsonLd(doc: StaticHtmlDocument): SchemaItem[] {
+  const items: SchemaItem[] = [];
+  for (const script of doc.scripts('application/ld+json')) {
+    try {
+      items.push(JSON.parse(script.trim()));
+    } catch (error) {
+      console.log(`Skipping malformed JSON-LD: ${(error as Error).message}`);
+    }
+  }
+  return items;
+}
+
+function microdataValue(node: HtmlNode): any {
+  if ('itemscope' in node.attributes) return microdataItem(node);
+  const attrs = node.attributes;
+  if (node.tag === 'meta') return attrs.content;
+  if (['img', 'audio', 'video', 'source', 'embed', 'iframe'].includes(node.tag)) return attrs.src;
+  if (['a', 'link', 'area'].includes(node.tag)) return attrs.href;
+  if (node.tag === 'time') return attrs.datetime ?? nodeText(node);
+  if (node.tag === 'data' || node.tag === 'meter') return attrs.value;
+  return attrs.content ?? nodeText(node);
+}
+
+/** Rebuild an itemscope as a JSON-LD shaped item; nested itemscopes own their own properties */
+function microdataItem(scope: HtmlNode): SchemaItem {
+  const item: SchemaItem = { '@type': (scope.attributes.itemtype || '').split(/\s+/).filter(Boolean) };
+  const visit = (node: HtmlNode) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      for (const prop of (child.attributes.itemprop || '').split(/\s+/).filter(Boolean)) {
+        const value = microdataValue(child);
+        item[prop] = item[prop] === undefined ? value : ([] as any[]).concat(item[prop], value);
+      }
+      if (!('itemscope' in child.attributes)) visit(child);
+    }
+  };
+  visit(scope);
+  return item;
+}
+
+function parseMicrodata(doc: StaticHtmlDocument): SchemaItem[] {
+  const items: SchemaItem[] = [];
+  const visit = (node: HtmlNode) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      if ('itemscope' in child.attributes && !('itemprop' in child.attributes)) {
+        items.push(microdataItem(child));
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(doc.root);
+  return items;
+}
+
+async function parseOpenGraph(doc: StaticHtmlDocument, pageUrl: string): Promise<Partial<Record<StructuredField, string>>> {
+  const tags: Record<string, string> = {};
+  for (const meta of await doc.select('meta')) {
+    const name = (meta.attributes.property || meta.attributes.name || '').toLowerCase();
+    if (/^(og|product):/.test(name) && meta.attributes.content && !(name in tags)) {
+      tags[name] = meta.attributes.content.trim();
+    }
+  }
+  const fields: Partial<Record<StructuredField, string>> = {
+    title: tags['og:title'],
+    offerDescription: tags['og:description'],
+    dealValue: formatPrice(tags['product:price:amount'] ?? tags['og:price:amount'], tags['product:price:currency'] ?? tags['og:price:currency']),
+    imageUrl: absoluteUrl(tags['og:image:secure_url'] ?? tags['og:image'], pageUrl),
+    offerUrl: absoluteUrl(tags['og:url'], pageUrl),
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value));
+}
+
+/**
+ * Structured data on a page, merged field by field in order of precedence:
+ * JSON-LD, then microdata, then OpenGraph
+ */
+export async function extractStructuredData(doc: StaticHtmlDocument, pageUrl: string): Promise<StructuredDeal> {
+  const result: StructuredDeal = { fields: {}, provenance: {}, sources: [] };
+  const layers: Array<[ExtractionMethod, SchemaItem[] | null, Partial<Record<StructuredField, string>>]> = [];
+
+  const jsonLd = parseJsonLd(doc);
+  layers.push(['json-ld', jsonLd, mapSchemaItems(jsonLd, pageUrl)]);
+  const microdata = parseMicrodata(doc);
+  layers.push(['microdata', microdata, mapSchemaItems(microdata, pageUrl)]);
+  layers.push(['opengraph', null, await parseOpenGraph(doc, pageUrl)]);
+
+  for (const [method, items, fields] of layers) {
+    if (items) {
+      const found = new Set<string>();
+      const collected: Array<{ item: SchemaItem; parent: SchemaItem | null }> = [];
+      flatten(items, null, collected);
+      collected.forEach(({ item }) => schemaTypes(item).forEach(type => found.add(`${method}:${type}`)));
+      result.sources.push(...Array.from(found));
+    } else if (Object.keys(fields).length > 0) {
+      result.sources.push(method);
+    }
+    for (const [field, value] of Object.entries(fields) as Array<[StructuredField, string]>) {
+      if (result.fields[field] === undefined) {
+        result.fields[field] = value;
+        result.provenance[field] = method;
+      }
+    }
+  }
+  return result;
+}
+
+/** Whether text heuristics are still needed to fill the deal */
+export function needsHeuristics(structured: StructuredDeal): boolean {
+  return CORE_FIELDS.some(field => !(field in structured.fields));
+}
+
+/**
+ * Whether the page publishes a deal of its own: a schema.org Offer or Event,
+ * or a schema.org price. OpenGraph titles like "Panda Express | Menu" do not count.
+ */
+function hasSchemaDeal(structured: StructuredDeal): boolean {
+  const schemaTyped = structured.sources.some(source => {
+    const [method, type = ''] = source.split(':');
+    return method !== 'opengraph' && (type === 'Offer' || type === 'AggregateOffer' || type.endsWith('Event'));
+  });
+  return schemaTyped || (!!structured.fields.dealValue && structured.provenance.dealValue !== 'opengraph');
+}
+
+/**
+ * Combine structured data with the heuristic result (a recipe run or text
+ * extraction, whose deal carries its own provenance). Structured fields win,
+ * except that OpenGraph never replaces a field a site recipe extracted;
+ * heuristics fill the rest. Without a heuristic deal (no text match, or a
+ * recipe missing required fields) only a schema.org deal is used, with the
+ * restaurant from the caller's detection, then the page's seller or organizer.
+ * Returns null when neither found a deal.
+ */
+export function mergeExtraction(
+  structured: StructuredDeal,
+  heuristic: ExtractedDeal | null,
+  context: { url: string; restaurant?: { name: string; method: ExtractionMethod } | null }
+): ExtractedDeal | null {
+  const hasStructuredDeal = hasSchemaDeal(structured)
+    && !!structured.fields.title && !!(structured.fields.dealValue || structured.fields.offerDescription);
+  if (!heuristic && !hasStructuredDeal) {
+    return null;
+  }
+
+  let deal: ExtractedDeal;
+  if (heuristic) {
+    deal = { ...heuristic, provenance: { ...(heuristic.provenance ?? {}) } };
+  } else {
+    const restaurant = context.restaurant
+      ?? (structured.fields.restaurant ? { name: structured.fields.restaurant, method: structured.provenance.restaurant! } : null);
+    if (!restaurant) {
+      return null;
+    }
+    deal = {
+      title: '',
+      restaurant: restaurant.name,
+      offerDescription: 'Special promotional offer',
+      triggerCondition: 'Team performance',
+      dealValue: 'Special Price',
+      instructions: 'Visit restaurant to redeem this offer',
+      terms: 'Terms and conditions apply. Valid while supplies last.',
+      sourceUrl: context.url,
+      confidence: 0.5,
+      provenance: {
+        restaurant: restaurant.method,
+        offerDescription: 'default',
+        triggerCondition: 'default',
+        dealValue: 'default',
+        instructions: 'default',
+        terms: 'default'
+      }
+    };
+  }
+
+  const provenance = deal.provenance!;
+  for (const [field, value] of Object.entries(structured.fields) as Array<[StructuredField, string]>) {
+    if (field === 'restaurant') continue; // Seller names ("Panda Express Chinese Kitchen") are less reliable than detection
+    if (structured.provenance[field] === 'opengraph' && provenance[field] === 'recipe') continue; // Generic page titles
+    deal[field] = value;
+    provenance[field] = structured.provenance[field];
+  }
+
+  // Published prices and validity windows are stronger evidence than page text
+  let confidence = deal.confidence;
+  if (structured.fields.dealValue) confidence += 0.1;
+  if (structured.fields.validThrough) confidence += 0.05;
+  deal.confidence = Math.round(Math.min(confidence, 1.0) * 100) / 100;
+  return deal;
+}
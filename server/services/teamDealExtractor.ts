@@ -1,6 +1,7 @@
 import { db } from "../supabaseDb";
-import { discoveredSites } from "@shared/schema";
+import { discoveredSites, type Team } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { teamNickname, type MarketProfile } from "./markets";
 
 export interface ExtractedDeal {
   restaurant: string;
@@ -13,9 +14,10 @@ export interface ExtractedDeal {
 export class TeamDealExtractor {
   
   /**
-   * Extract team-specific deals from multi-team posts
+   * Extract team-specific deals from multi-team posts. Restaurants the team's
+   * market lists are recognised alongside the national chains.
    */
-  async extractTeamDeals(siteId: number, teamName: string = "Dodgers"): Promise<ExtractedDeal[]> {
+  async extractTeamDeals(siteId: number, team: Pick<Team, 'name' | 'city'>, market?: Pick<MarketProfile, 'restaurants'>): Promise<ExtractedDeal[]> {
     // Get the discovered site
     const [site] = await db
       .select()
@@ -27,19 +29,20 @@ export class TeamDealExtractor {
     }
 
     // Extract just the team-specific section
-    const teamSection = this.extractTeamSection(site.content, teamName);
+    const teamSection = this.extractTeamSection(site.content, team);
     if (!teamSection) {
       return [];
     }
 
     // Parse individual deals from the team section
-    const deals = this.parseDealsFromSection(teamSection);
+    const marketRestaurants = market?.restaurants.map(r => r.name) ?? [];
+    const deals = this.parseDealsFromSection(teamSection, marketRestaurants);
     
     // Update the discovered site with extracted team info
     if (deals.length > 0) {
       await db.update(discoveredSites)
         .set({
-          teamDetected: teamName,
+          teamDetected: team.name,
           restaurantDetected: deals.map(d => d.restaurant).join(", "),
           triggerDetected: this.inferTriggerFromPost(site.title, teamSection),
           promoCodeDetected: deals.map(d => d.promoCode).filter(Boolean).join(", ")
@@ -53,15 +56,19 @@ export class TeamDealExtractor {
   /**
    * Extract just the section for a specific team from a multi-team post
    */
-  private extractTeamSection(content: string, teamName: string): string | null {
+  private extractTeamSection(content: string, team: Pick<Team, 'name' | 'city'>): string | null {
+    const teamName = teamNickname(team);
+    const nickname = this.escapeRegExp(teamName);
+    const city = team.city ? `(?:${this.escapeRegExp(team.city)} )?` : '';
+
     // Common patterns for team sections
     const patterns = [
       // Reddit format: r/Dodgers **(valid in LA area)**
-      new RegExp(`r/${teamName}.*?\\n\\n(?:r/|Daily|$)`, 'si'),
+      new RegExp(`r/${nickname.replace(/ /g, '')}.*?\\n\\n(?:r/|Daily|$)`, 'si'),
       // Alternative: **Dodgers** or **Los Angeles Dodgers**
-      new RegExp(`\\*\\*(?:Los Angeles )?${teamName}\\*\\*.*?\\n\\n(?:\\*\\*|Daily|$)`, 'si'),
+      new RegExp(`\\*\\*${city}${nickname}\\*\\*.*?\\n\\n(?:\\*\\*|Daily|$)`, 'si'),
       // Section headers: === Dodgers === 
-      new RegExp(`={2,}\\s*${teamName}\\s*={2,}.*?(?:={2,}|$)`, 'si')
+      new RegExp(`={2,}\\s*${nickname}\\s*={2,}.*?(?:={2,}|$)`, 'si')
     ];
 
     for (const pattern of patterns) {
@@ -111,7 +118,7 @@ export class TeamDealExtractor {
   /**
    * Parse individual deals from a team section
    */
-  private parseDealsFromSection(section: string): ExtractedDeal[] {
+  private parseDealsFromSection(section: string, marketRestaurants: string[]): ExtractedDeal[] {
     const deals: ExtractedDeal[] = [];
     const lines = section.split('\n');
 
@@ -121,7 +128,7 @@ export class TeamDealExtractor {
 
       // Parse deal lines (usually start with emoji or bullet)
       if (line.match(/^[🍔🥡🍕🌮🍟🥤🍨🍲🥖•\-\*]/)) {
-        const deal = this.parseDealLine(line);
+        const deal = this.parseDealLine(line, marketRestaurants);
         if (deal) {
           deals.push(deal);
         }
@@ -134,12 +141,12 @@ export class TeamDealExtractor {
   /**
    * Parse a single deal line
    */
-  private parseDealLine(line: string): ExtractedDeal | null {
+  private parseDealLine(line: string, marketRestaurants: string[]): ExtractedDeal | null {
     // Remove emoji and clean up
     const cleanLine = line.replace(/^[🍔🥡🍕🌮🍟🥤🍨🍲🥖•\-\*]\s*/, '').trim();
 
     // First extract restaurant name
-    const restaurant = this.extractRestaurant(cleanLine);
+    const restaurant = this.extractRestaurant(cleanLine, marketRestaurants);
     
     // Common patterns
     const patterns = [
@@ -190,9 +197,10 @@ export class TeamDealExtractor {
     return null;
   }
 
-  private extractRestaurant(text: string): string {
-    // Known restaurant patterns
+  private extractRestaurant(text: string, marketRestaurants: string[]): string {
+    // Known restaurant patterns: the market's chains first, then national ones
     const restaurants = [
+      ...marketRestaurants,
       "McDonald's", "Jack in the Box", "Panda Express", "Taco Bell",
       "Pizza Hut", "Subway", "Arby's", "Little Caesar's", "Papa John's",  
       "Culver's", "99 Restaurants", "Wendy's", "Burger King", "KFC"
@@ -255,6 +263,10 @@ export class TeamDealExtractor {
     return restrictions.length > 0 ? restrictions.join(", ") : undefined;
   }
 
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
   private isTeamHeader(line: string): boolean {
     return !!(
       line.match(/^r\/\w+/) || // Reddit team subreddit
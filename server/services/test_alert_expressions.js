@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for alert rule expressions
+ *
+ * Validates that:
+ * - Expressions parse into a metric path, comparison and `for` duration
+ * - Paths resolve against performance metrics and system health
+ * - Malformed expressions and unknown metrics are rejected at parse time
+ */
+
+import { parseAlertExpression, resolveMetric, compare, metricName, AlertExpressionError } from './alertExpressions.ts';
+
+const PERFORMANCE = {
+  validationLatency: { mean: 800, p50: 600, p95: 2400, p99: 3100, max: 4000, min: 100 },
+  apiLatency: { mlb: { mean: 120, p95: 300, errorRate: 0.2 } },
+  errorRates: { validation: 0, consensus: 0, evidence: 0, api: 0.01 }
+};
+
+const HEALTH = {
+  overallStatus: 'degraded',
+  summary: { healthyCount: 3, degradedCount: 1, unhealthyCount: 0, totalComponents: 4 }
+};
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+function test(name, fn) {
+  testCount++;
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertRejects(source) {
+  try {
+    parseAlertExpression(source);
+  } catch (error) {
+    assert(error instanceof AlertExpressionError, `"${source}" should throw AlertExpressionError, got ${error.name}`);
+    return;
+  }
+  throw new Error(`"${source}" should have been rejected`);
+}
+
+console.log('🧪 Testing Alert Rule Expressions...\n');
+
+test('Parses path, comparison and for duration', () => {
+  const parsed = parseAlertExpression('validationLatency.p95 > 2000 for 5m');
+  assert(parsed.source === 'performance' && parsed.path.join('.') === 'validationLatency.p95', `Path: ${parsed.path}`);
+  assert(parsed.operator === 'greater_than' && parsed.threshold === 2000, 'Comparison');
+  assert(parsed.forDurationMs === 300000, `For: ${parsed.forDurationMs}`);
+
+  const health = parseAlertExpression('health.summary.unhealthyCount >= 1');
+  assert(health.source === 'health' && health.forDurationMs === 0, 'Health source without duration');
+  assert(metricName(health) === 'health.summary.unhealthyCount', 'Metric name keeps the health prefix');
+  assert(parseAlertExpression('performance.errorRates.api != 0 for 30s').forDurationMs === 30000, 'Explicit performance prefix');
+});
+
+test('Resolves metrics from performance and health', () => {
+  const sources = { performance: PERFORMANCE, health: HEALTH };
+  const latency = parseAlertExpression('validationLatency.p95 > 2000');
+  assert(resolveMetric(latency, sources) === 2400, 'Latency path');
+  assert(compare(latency.operator, 2400, latency.threshold), 'Latency over threshold');
+
+  assert(resolveMetric(parseAlertExpression('apiLatency.mlb.errorRate > 0.1'), sources) === 0.2, 'Per-provider path');
+  assert(resolveMetric(parseAlertExpression('health.summary.healthyCount < 4'), sources) === 3, 'Health path');
+  assert(resolveMetric(parseAlertExpression('apiLatency.nhl.errorRate > 0.1'), sources) === undefined, 'Missing provider');
+  assert(resolveMetric(parseAlertExpression('health.summary.healthyCount < 4'), { performance: PERFORMANCE }) === undefined, 'No health yet');
+  assert(resolveMetric(parseAlertExpression('health.overallStatus == 1'), sources) === undefined, 'Non-numeric value');
+});
+
+test('Rejects malformed expressions and unknown metrics', () => {
+  assertRejects('');
+  assertRejects('validationLatency.p95 >');
+  assertRejects('validationLatency.p95 > slow');
+  assertRejects('validationLatency.p95 > 2000 for ever');
+  assertRejects('validationLatency.p95 => 2000');
+  assertRejects('latency.p95 > 2000');
+  assertRejects('health > 1');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Alert expressions are working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
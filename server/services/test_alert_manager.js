@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for AlertManager delivery channels and alert lifecycle
+ *
+ * Runs with an in-memory store, a recording mailer and a fake fetch.
+ * Validates that:
+ * - Webhook posts carry a Slack-compatible body and a verifiable HMAC signature
+ * - Failed deliveries are retried with exponential backoff
+ * - Client errors and missing configuration are not retried
+ * - Every channel records its outcome on the alert, and the database
+ *   channel persists those outcomes
+ * - Open alerts and rule silences survive a restart
+ * - Acknowledged, snoozed and silenced alerts are recorded but not re-notified
+ * - Resolved alerts past the retention window are purged
+ * - User-defined expression rules persist, and built-in rules are protected
+ * - Rules with a `for` duration fire only once the condition has held
+ */
+
+import crypto from 'crypto';
+
+// Storage builds its database clients at import time; nothing is written in these tests
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'test-key';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://localhost:5432/test';
+
+const { AlertManager } = await import('./alertManager.ts');
+
+const SECRET = 'test-signing-secret';
+
+const RULE = {
+  ruleId: 'high_error_rate',
+  name: 'High Error Rate',
+  description: 'Error rate above threshold',
+  type: 'error_rate',
+  severity: 'critical',
+  metric: 'errorRate',
+  operator: 'greater_than',
+  threshold: 5,
+  windowDurationMs: 60000,
+  enabled: true,
+  channels: []
+};
+
+class MemoryStore {
+  constructor() {
+    this.rows = new Map();
+    this.silences = new Map();
+    this.rules = new Map();
+  }
+
+  async getOpsAlertRules() {
+    return [...this.rules.values()];
+  }
+
+  async upsertOpsAlertRule(rule) {
+    const row = { ...this.rules.get(rule.ruleId), ...rule };
+    this.rules.set(rule.ruleId, row);
+    return row;
+  }
+
+  async deleteOpsAlertRule(ruleId) {
+    return this.rules.delete(ruleId);
+  }
+
+  async upsertOpsAlert(alert) {
+    const row = { ...this.rows.get(alert.alertId), ...alert };
+    this.rows.set(alert.alertId, row);
+    return row;
+  }
+
+  async getOpsAlerts({ status, ruleId, limit = 50 } = {}) {
+    return [...this.rows.values()]
+      .filter(row => (!status || row.status === status) && (!ruleId || row.ruleId === ruleId))
+      .sort((a, b) => b.firstFiredAt - a.firstFiredAt)
+      .slice(0, limit);
+  }
+
+  async deleteResolvedOpsAlertsBefore(cutoff) {
+    let deleted = 0;
+    for (const [alertId, row] of this.rows) {
+      if (row.status === 'resolved' && row.resolvedAt < cutoff) {
+        this.rows.delete(alertId);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async getActiveOpsAlertSilences(now = new Date()) {
+    return [...this.silences.values()].filter(silence => silence.silencedUntil > now);
+  }
+
+  async upsertOpsAlertSilence(silence) {
+    this.silences.set(silence.ruleId, silence);
+    return silence;
+  }
+
+  async deleteOpsAlertSilence(ruleId) {
+    return this.silences.delete(ruleId);
+  }
+}
+
+// Responds with each status in turn, repeating the last one
+function fakeFetch(statuses = [200]) {
+  const calls = [];
+  const fetch = async (url, init) => {
+    const status = statuses[Math.min(calls.length, statuses.length - 1)];
+    calls.push({ url, init });
+    return { ok: status < 400, status, statusText: status < 400 ? 'OK' : 'Error' };
+  };
+  return { calls, fetch };
+}
+
+function buildManager(channels, overrides = {}) {
+  const store = overrides.store || new MemoryStore();
+  const emails = [];
+  const delays = [];
+  const { calls, fetch } = fakeFetch(overrides.statuses);
+
+  const manager = new AlertManager(
+    {
+      defaultChannels: channels,
+      deliveryRetry: { maxAttempts: 3, initialDelayMs: 100, maxDelayMs: 150 }
+    },
+    {
+      store,
+      email: { sendOpsAlert: async (to, alert) => { emails.push({ to, alert }); } },
+      fetch,
+      sleep: async ms => { delays.push(ms); }
+    }
+  );
+  manager.addAlertRule(RULE);
+
+  return { manager, store, emails, delays, calls };
+}
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+console.log('🧪 Testing AlertManager Delivery Channels...\n');
+
+await test('Webhook posts are Slack-shaped and signed', async () => {
+  const { manager, calls } = buildManager([
+    { type: 'webhook', config: { url: 'https://hooks.example.com/alerts', secret: SECRET }, enabled: true }
+  ]);
+  const alert = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+
+  assert(calls.length === 1, `Posted ${calls.length} times`);
+  const { url, init } = calls[0];
+  const body = JSON.parse(init.body);
+  assert(url === 'https://hooks.example.com/alerts', `URL: ${url}`);
+  assert(body.text.includes('High Error Rate') && body.attachments[0].color === 'danger', `Body: ${init.body}`);
+  assert(body.alert.alertId === alert.alertId, 'Raw alert included');
+
+  const timestamp = init.headers['X-Alert-Timestamp'];
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${init.body}`).digest('hex');
+  assert(init.headers['X-Alert-Signature'] === `sha256=${expected}`, 'Signature verifies');
+});
+
+await test('Server errors are retried with exponential backoff', async () => {
+  const { manager, calls, delays } = buildManager(
+    [{ type: 'slack', config: { webhookUrl: 'https://hooks.slack.com/services/T/B/X' }, enabled: true }],
+    { statuses: [503, 502, 200] }
+  );
+  const alert = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+
+  assert(calls.length === 3, `Attempts: ${calls.length}`);
+  assert(delays.join(',') === '100,150', `Delays capped at max: ${delays}`);
+  assert(alert.deliveries[0].status === 'delivered' && alert.deliveries[0].attempts === 3, JSON.stringify(alert.deliveries));
+});
+
+await test('Client errors and missing config fail without retrying', async () => {
+  const { manager, calls } = buildManager(
+    [
+      { type: 'webhook', config: { url: 'https://hooks.example.com/alerts' }, enabled: true },
+      { type: 'email', config: { to: [] }, enabled: true }
+    ],
+    { statuses: [400] }
+  );
+  const alert = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+
+  assert(calls.length === 1, `Attempts: ${calls.length}`);
+  const [webhook, email] = alert.deliveries;
+  assert(webhook.status === 'failed' && webhook.attempts === 1 && webhook.error.includes('400'), JSON.stringify(webhook));
+  assert(email.status === 'failed' && email.attempts === 1, JSON.stringify(email));
+  assert(manager.getStatus().metrics.channelFailures === 2, 'Failures counted');
+});
+
+await test('Database channel persists every delivery outcome', async () => {
+  const { manager, store, emails } = buildManager([
+    { type: 'database', config: {}, enabled: true },
+    { type: 'email', config: { to: 'oncall@example.com, backup@example.com' }, enabled: true },
+    { type: 'console', config: {}, enabled: true }
+  ]);
+  const alert = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+
+  assert(emails.map(e => e.to).join(',') === 'oncall@example.com,backup@example.com', `Emails: ${emails.map(e => e.to)}`);
+  const row = store.rows.get(alert.alertId);
+  assert(row?.status === 'firing', 'Row stored');
+  assert(row.deliveries.map(d => d.channel).join(',') === 'email,console,database', `Stored deliveries: ${JSON.stringify(row.deliveries)}`);
+
+  await manager.resolveAlert(alert.alertId);
+  const resolved = store.rows.get(alert.alertId);
+  assert(resolved.status === 'resolved' && resolved.resolvedAt instanceof Date, 'Resolution persisted');
+});
+
+const WEBHOOK = { type: 'webhook', config: { url: 'https://hooks.example.com/alerts' }, enabled: true };
+
+await test('Open alerts and silences survive a restart', async () => {
+  const store = new MemoryStore();
+  const before = buildManager([WEBHOOK], { store }).manager;
+  const open = await before.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+  const closed = await before.fireAlert(RULE.ruleId, 'errorRate', 9, 'Error rate 9%');
+  await before.resolveAlert(closed.alertId, 'Deploy rolled back', 'oncall@example.com');
+  await before.silenceRule(RULE.ruleId, new Date(Date.now() + 3600000), 'Known incident');
+
+  const { manager: after } = buildManager([WEBHOOK], { store });
+  await after.start();
+  await after.stop();
+
+  const active = after.getActiveAlerts();
+  assert(active.length === 1 && active[0].alertId === open.alertId, `Active: ${active.map(a => a.alertId)}`);
+  assert(after.getAlertHistory().length === 2, 'History restored');
+  assert(after.getSilences()[0]?.reason === 'Known incident', 'Silence restored');
+  assert(store.rows.get(closed.alertId).resolvedBy === 'oncall@example.com', 'Resolver persisted');
+});
+
+await test('Acknowledged, snoozed and silenced alerts are not re-notified', async () => {
+  const { manager, store, calls } = buildManager([WEBHOOK]);
+
+  const acked = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+  await manager.acknowledgeAlert(acked.alertId, 'oncall@example.com');
+  await manager.refireAlert(acked, 14, 'Error rate 14%');
+  assert(calls.length === 1, `Acked alert re-notified: ${calls.length} posts`);
+  assert(store.rows.get(acked.alertId).occurrenceCount === 2, 'Repeat still recorded');
+
+  const snoozed = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+  await manager.snoozeAlert(snoozed.alertId, new Date(Date.now() + 3600000));
+  await manager.refireAlert(snoozed, 14, 'Error rate 14%');
+  assert(calls.length === 2, `Snoozed alert re-notified: ${calls.length} posts`);
+  await manager.snoozeAlert(snoozed.alertId, new Date(Date.now() - 1000));
+  await manager.refireAlert(snoozed, 15, 'Error rate 15%');
+  assert(calls.length === 3, 'Expired snooze notifies again');
+
+  await manager.silenceRule(RULE.ruleId, new Date(Date.now() + 3600000));
+  const silenced = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+  assert(calls.length === 3, 'Silenced rule not notified');
+  assert(store.rows.get(silenced.alertId)?.status === 'firing', 'Silenced alert still recorded');
+  assert(manager.getStatus().metrics.suppressedAlerts === 3, `Suppressed: ${manager.getStatus().metrics.suppressedAlerts}`);
+});
+
+await test('Resolved alerts past retention are purged', async () => {
+  const { manager, store } = buildManager([]);
+  const old = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+  const recent = await manager.fireAlert(RULE.ruleId, 'errorRate', 12, 'Error rate 12%');
+  await manager.resolveAlert(old.alertId);
+  await manager.resolveAlert(recent.alertId);
+  store.rows.get(old.alertId).resolvedAt = new Date(Date.now() - 30 * 24 * 3600000);
+
+  await manager.cleanupOldAlerts();
+  assert(!store.rows.has(old.alertId) && store.rows.has(recent.alertId), `Rows: ${[...store.rows.keys()]}`);
+});
+
+await test('Expression rules persist and built-in rules are protected', async () => {
+  const store = new MemoryStore();
+  const { manager } = buildManager([], { store });
+  const rule = await manager.createRule({
+    name: 'Slow MLB API',
+    expression: 'apiLatency.mlb.p95 > 1500 for 2m',
+    severity: 'warning',
+    channels: ['slack']
+  }, 'oncall@example.com');
+
+  assert(rule.ruleId === 'custom_slow_mlb_api', `Rule id: ${rule.ruleId}`);
+  assert(rule.metric === 'apiLatency.mlb.p95' && rule.forDurationMs === 120000, 'Parsed from expression');
+  assert(store.rules.get(rule.ruleId)?.createdBy === 'oncall@example.com', 'Persisted');
+
+  const updated = await manager.updateRule(rule.ruleId, { expression: 'apiLatency.mlb.p95 > 2500' });
+  assert(updated.threshold === 2500 && updated.channels[0].type === 'slack', 'Update keeps unchanged fields');
+
+  const { manager: restarted } = buildManager([], { store });
+  await restarted.start();
+  await restarted.stop();
+  assert(restarted.getAlertRules().some(r => r.ruleId === rule.ruleId && r.threshold === 2500), 'Rule restored on start');
+
+  const codes = [];
+  for (const attempt of [
+    () => manager.createRule({ name: 'Slow MLB API', expression: 'errorRates.api > 0.1', severity: 'info' }),
+    () => manager.updateRule('high_validation_latency', { severity: 'info' }),
+    () => manager.deleteRule('no_such_rule')
+  ]) {
+    try { await attempt(); } catch (error) { codes.push(error.code); }
+  }
+  assert(codes.join(',') === 'CONFLICT,BUILT_IN,NOT_FOUND', `Codes: ${codes}`);
+
+  await manager.deleteRule(rule.ruleId);
+  assert(!store.rules.has(rule.ruleId) && !manager.getAlertRules().some(r => r.ruleId === rule.ruleId), 'Deleted');
+});
+
+await test('Rules fire only after holding for their duration', async () => {
+  const { manager, calls } = buildManager([WEBHOOK]);
+  const rule = await manager.createRule({
+    ruleId: 'always_true',
+    name: 'Always true',
+    expression: 'errorRates.api >= 0 for 5m',
+    severity: 'info'
+  });
+
+  await manager.evaluateRules();
+  assert(manager.getActiveAlerts().length === 0, 'Pending, not fired');
+
+  const result = await manager.testRule(rule.ruleId);
+  assert(result.conditionMet && !result.wouldFire && result.forDurationMs === 300000, JSON.stringify(result));
+
+  // Condition has been holding for six minutes
+  manager.pendingSince.set(rule.ruleId, Date.now() - 6 * 60000);
+  assert((await manager.testRule(rule.ruleId)).wouldFire, 'Test reports it would fire');
+  assert(manager.getActiveAlerts().length === 0, 'Testing never fires');
+
+  await manager.evaluateRules();
+  const active = manager.getActiveAlerts();
+  assert(active.length === 1 && active[0].ruleId === rule.ruleId, `Active: ${active.map(a => a.ruleId)}`);
+  assert(calls.length === 1, 'Notified once');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Alert delivery and lifecycle are working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
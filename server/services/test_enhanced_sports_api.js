@@ -45,13 +45,13 @@ async function runTests() {
   await test('Service initialization and health check', async () => {
     const health = await enhancedSportsApi.getSourceHealth();
     
-    assert(typeof health.espn === 'object', 'Should return ESPN health status');
-    assert(typeof health.mlb === 'object', 'Should return MLB health status');
+    assert(typeof health.sources.espn === 'object', 'Should return ESPN health status');
+    assert(typeof health.sources.mlb === 'object', 'Should return MLB health status');
     assert(typeof health.overall === 'object', 'Should return overall health status');
     assert(Array.isArray(health.overall.degradedServices), 'Should return degraded services array');
     
-    console.log(`   📊 ESPN available: ${health.espn.available}`);
-    console.log(`   📊 MLB available: ${health.mlb.available}`);
+    console.log(`   📊 ESPN available: ${health.sources.espn.available}`);
+    console.log(`   📊 MLB available: ${health.sources.mlb.available}`);
     console.log(`   📊 Overall healthy: ${health.overall.healthy}`);
   });
 
@@ -218,15 +218,15 @@ async function runTests() {
     const rateLimits = await enhancedSportsApi.getRateLimitStatus();
     
     // Verify monitoring data is comprehensive
-    assert(health.espn.stats.totalRequests !== undefined, 'Should track ESPN request count');
-    assert(health.mlb.stats.totalRequests !== undefined, 'Should track MLB request count');
+    assert(health.sources.espn.stats.totalRequests !== undefined, 'Should track ESPN request count');
+    assert(health.sources.mlb.stats.totalRequests !== undefined, 'Should track MLB request count');
     assert(health.overall.degradedServices !== undefined, 'Should track degraded services');
     
-    console.log(`   📊 ESPN total requests: ${health.espn.stats.totalRequests}`);
-    console.log(`   📊 MLB total requests: ${health.mlb.stats.totalRequests}`);
+    console.log(`   📊 ESPN total requests: ${health.sources.espn.stats.totalRequests}`);
+    console.log(`   📊 MLB total requests: ${health.sources.mlb.stats.totalRequests}`);
     console.log(`   📊 Degraded services: ${health.overall.degradedServices.length}`);
-    console.log(`   📊 ESPN uptime: ${health.espn.stats.uptime}%`);
-    console.log(`   📊 MLB uptime: ${health.mlb.stats.uptime}%`);
+    console.log(`   📊 ESPN uptime: ${health.sources.espn.stats.uptime}%`);
+    console.log(`   📊 MLB uptime: ${health.sources.mlb.stats.uptime}%`);
   });
 
   await test('Administrative functions', async () => {
@@ -241,7 +241,7 @@ async function runTests() {
     // Verify reset worked
     const health = await enhancedSportsApi.getSourceHealth();
     console.log(`   🔧 Administrative functions tested`);
-    console.log(`   📊 Circuit breakers available: ESPN=${health.espn.available}, MLB=${health.mlb.available}`);
+    console.log(`   📊 Circuit breakers available: ESPN=${health.sources.espn.available}, MLB=${health.sources.mlb.available}`);
   });
 
   // Summary
@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the expiry sweeper
+ *
+ * Runs against an in-memory store and the real promotion state machine.
+ * Validates that:
+ * - Expired triggered deals and deal pages are deactivated in batches
+ * - Promotions past validUntil are expired, long-expired ones archived
+ * - Dry runs report the same ids without changing or recording anything
+ */
+
+// Storage builds its database clients at import time; nothing is written in these tests
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'test-key';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://localhost:5432/test';
+
+const { ExpirySweeper } = await import('./expirySweeper.ts');
+const { PromotionStateMachine } = await import('./promotionStateMachine.ts');
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+class MemoryStore {
+  constructor({ triggeredDeals = [], dealPages = [], promotions = [] }) {
+    this.triggeredDeals = triggeredDeals.map(d => ({ isActive: true, ...d }));
+    this.dealPages = dealPages.map(p => ({ isActive: true, ...p }));
+    this.promotions = promotions.map(p => ({ isActive: true, approvalStatus: 'approved', ...p }));
+    this.transitions = [];
+    this.runs = [];
+  }
+
+  page(rows, match, afterId, limit) {
+    return rows.filter(r => r.id > afterId && match(r)).sort((a, b) => a.id - b.id).slice(0, limit);
+  }
+
+  async getExpiredTriggeredDeals(now, afterId, limit) {
+    return this.page(this.triggeredDeals, d => d.isActive && d.expiresAt < now, afterId, limit);
+  }
+
+  async deactivateTriggeredDeals(ids) {
+    return this.deactivate(this.triggeredDeals, ids);
+  }
+
+  async getExpiredDealPages(now, afterId, limit) {
+    return this.page(this.dealPages, p => p.isActive && p.validUntil && p.validUntil < now, afterId, limit);
+  }
+
+  async deactivateDealPages(ids) {
+    return this.deactivate(this.dealPages, ids);
+  }
+
+  deactivate(rows, ids) {
+    const changed = rows.filter(r => ids.includes(r.id) && r.isActive);
+    changed.forEach(r => { r.isActive = false; });
+    return changed.map(r => r.id);
+  }
+
+  async getPromotionsValidBefore(date, states, afterId, limit) {
+    return this.page(this.promotions, p => p.validUntil && p.validUntil < date && states.includes(p.state ?? 'approved'), afterId, limit);
+  }
+
+  async getPromotion(id) {
+    const promotion = this.promotions.find(p => p.id === id);
+    return promotion && { ...promotion };
+  }
+
+  async updatePromotion(id, updates) {
+    const promotion = this.promotions.find(p => p.id === id);
+    Object.assign(promotion, updates);
+    return { ...promotion };
+  }
+
+  async transitionPromotionState(promotionId, fromState, transition) {
+    const promotion = this.promotions.find(p => p.id === promotionId);
+    if (!promotion || (promotion.state ?? null) !== fromState) return undefined;
+    promotion.state = transition.toState;
+    this.transitions.push({ ...transition, promotionId, fromState });
+    return { ...promotion };
+  }
+
+  async createExpirySweepRun(run) {
+    this.runs.push(run);
+    return { id: this.runs.length, ...run };
+  }
+}
+
+function fixtureStore() {
+  return new MemoryStore({
+    triggeredDeals: [
+      { id: 1, expiresAt: new Date('2025-06-14T00:00:00Z') },
+      { id: 2, expiresAt: new Date('2025-06-16T00:00:00Z') },
+      { id: 3, expiresAt: new Date('2025-06-01T00:00:00Z') },
+      { id: 4, expiresAt: new Date('2025-06-10T00:00:00Z'), isActive: false },
+      { id: 5, expiresAt: new Date('2025-06-15T11:00:00Z') }
+    ],
+    dealPages: [
+      { id: 10, validUntil: new Date('2025-06-01T00:00:00Z') },
+      { id: 11, validUntil: null }
+    ],
+    promotions: [
+      { id: 20, state: 'approved', validUntil: '2025-06-14' },
+      { id: 21, state: 'triggered', validUntil: '2025-06-15' }, // valid through today
+      { id: 22, state: null, validUntil: '2025-06-01' },
+      { id: 23, state: 'draft', validUntil: '2025-06-01' }, // no direct edge to expired
+      { id: 24, state: 'expired', validUntil: '2025-04-01' },
+      { id: 25, state: 'expired', validUntil: '2025-06-01' } // not old enough to archive
+    ]
+  });
+}
+
+function sweeperFor(store, config = {}) {
+  return new ExpirySweeper({ batchSize: 2, ...config }, store, new PromotionStateMachine(store));
+}
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+console.log('🧪 Testing Expiry Sweeper...\n');
+
+await test('Expired triggered deals and deal pages are deactivated in batches', async () => {
+  const store = fixtureStore();
+  const report = await sweeperFor(store).sweep({ now: NOW });
+
+  assert(report.triggeredDealIds.join(',') === '1,3,5', `Triggered deals: ${report.triggeredDealIds}`);
+  assert(store.triggeredDeals.find(d => d.id === 2).isActive, 'Unexpired deal stays active');
+  assert(report.dealPageIds.join(',') === '10', `Deal pages: ${report.dealPageIds}`);
+  assert(report.errors.length === 0, `Errors: ${report.errors}`);
+});
+
+await test('Promotions past validUntil are expired and old ones archived', async () => {
+  const store = fixtureStore();
+  const report = await sweeperFor(store).sweep({ now: NOW });
+
+  assert(report.expiredPromotionIds.join(',') === '20,22', `Expired: ${report.expiredPromotionIds}`);
+  assert(store.promotions.find(p => p.id === 20).isActive === false, 'Expired promotions are deactivated');
+  assert(store.promotions.find(p => p.id === 23).state === 'draft', 'Drafts are left alone');
+  assert(report.archivedPromotionIds.join(',') === '24', `Archived: ${report.archivedPromotionIds}`);
+
+  const actors = new Set(store.transitions.map(t => t.actor));
+  assert(actors.size === 1 && actors.has('expiry_sweeper'), 'Transitions attributed to the sweeper');
+  assert(store.runs.length === 1 && store.runs[0].promotionsExpired === 2, 'Run recorded');
+  assert(report.runId === 1, 'Report carries the run id');
+});
+
+await test('Dry run reports without changing or recording anything', async () => {
+  const store = fixtureStore();
+  const report = await sweeperFor(store).sweep({ now: NOW, dryRun: true });
+
+  assert(report.dryRun, 'Flagged as dry run');
+  assert(report.triggeredDealIds.join(',') === '1,3,5', 'Same triggered deals as a real run');
+  assert(report.expiredPromotionIds.join(',') === '20,22', 'Same promotions as a real run');
+  assert(store.triggeredDeals.every(d => d.id === 4 || d.isActive), 'Nothing deactivated');
+  assert(store.transitions.length === 0 && store.runs.length === 0, 'Nothing recorded');
+});
+
+await test('Batch cap leaves the remainder for the next run', async () => {
+  const store = fixtureStore();
+  const report = await sweeperFor(store, { batchSize: 1, maxBatches: 2 }).sweep({ now: NOW });
+
+  assert(report.triggeredDealIds.join(',') === '1,3', `Triggered deals: ${report.triggeredDealIds}`);
+  assert(report.errors.some(e => e.includes('triggered deals: stopped after 2 batches')), 'Cap reported');
+
+  const next = await sweeperFor(store).sweep({ now: NOW });
+  assert(next.triggeredDealIds.join(',') === '5', 'Next run picks up the rest');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Expiry sweeper is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the morning digest
+ *
+ * Runs against an in-memory store and recording senders.
+ * Validates that:
+ * - Digests go out at the configured local time in each user's timezone
+ * - Each user gets at most one digest per local day, even across runs
+ * - Deals already sent immediately are left out of the digest
+ * - Push is only attempted for users with push notifications
+ */
+
+// Storage builds its database clients at import time; nothing is written in these tests
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'test-key';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://localhost:5432/test';
+
+const { MorningDigestService } = await import('./morningDigestService.ts');
+const { localClock } = await import('../lib/timezone.ts');
+
+// 15:00 UTC is 08:00 in Los Angeles and 11:00 in New York
+const NOW = new Date('2025-06-15T15:00:00Z');
+
+function deal(id, teamId, hoursAgo) {
+  return {
+    id,
+    teamId,
+    isActive: true,
+    triggeredAt: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000),
+    expiresAt: null,
+    promotion: { title: `Deal ${id}`, offerValue: 'Free taco', triggerCondition: 'win', redemptionInstructions: null, promoCode: null },
+    restaurant: { name: `Restaurant ${id}` },
+    team: { name: `Team ${teamId}` }
+  };
+}
+
+class MemoryStore {
+  constructor({ subscribers, deals, history = [], pushUsers = [] }) {
+    this.subscribers = subscribers;
+    this.deals = deals;
+    this.history = history;
+    this.pushUsers = pushUsers;
+    this.deliveries = [];
+  }
+
+  async getDigestSubscribers() {
+    return this.subscribers;
+  }
+
+  async getUndeliveredTriggeredDeals(userId, teamIds, since) {
+    return this.deals.filter(d =>
+      d.isActive &&
+      d.triggeredAt >= since &&
+      teamIds.includes(d.teamId) &&
+      !this.history.some(h => h.userId === userId && h.triggeredDealId === d.id && h.status === 'sent'));
+  }
+
+  async claimDigestDelivery(userId, digestDate) {
+    if (this.deliveries.some(d => d.userId === userId && d.digestDate === digestDate)) return undefined;
+    const delivery = { id: this.deliveries.length + 1, userId, digestDate, status: 'pending' };
+    this.deliveries.push(delivery);
+    return delivery;
+  }
+
+  async updateDigestDelivery(id, updates) {
+    const delivery = this.deliveries.find(d => d.id === id);
+    Object.assign(delivery, updates);
+    return delivery;
+  }
+
+  async createAlertHistory(history) {
+    this.history.push(history);
+    return history;
+  }
+
+  async getUserNotificationPreferences(userId) {
+    return { pushNotifications: this.pushUsers.includes(userId), email: true, sms: false };
+  }
+}
+
+function recordingSenders() {
+  const sent = { email: [], push: [] };
+  return {
+    sent,
+    senders: {
+      email: { sendMorningDigest: async (user, deals) => { sent.email.push({ userId: user.id, dealIds: deals.map(d => d.id) }); } },
+      push: { sendDigestAlert: async (userId, digest) => { sent.push.push({ userId, ...digest }); return { successful: ['token'], failed: [] }; } }
+    }
+  };
+}
+
+function user(id, timezone) {
+  return { id, email: `${id}@example.com`, firstName: id, timezone };
+}
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+console.log('🧪 Testing Morning Digest...\n');
+
+await test('Local clock and send window follow the user timezone', async () => {
+  const la = localClock(NOW, 'America/Los_Angeles');
+  assert(la.date === '2025-06-15' && la.minutes === 8 * 60, `Los Angeles: ${JSON.stringify(la)}`);
+
+  const service = new MorningDigestService({ localTime: '08:00', windowMinutes: 60 }, new MemoryStore({ subscribers: [], deals: [] }));
+  assert(service.isDue(NOW, 'America/Los_Angeles'), 'Due at 08:00 in Los Angeles');
+  assert(!service.isDue(NOW, 'America/New_York'), 'Not due at 11:00 in New York');
+
+  const late = new MorningDigestService({ localTime: '23:30', windowMinutes: 60 }, new MemoryStore({ subscribers: [], deals: [] }));
+  assert(late.isDue(new Date('2025-06-16T00:15:00Z'), 'UTC'), 'Window runs past midnight');
+});
+
+await test('Digest batches deals and is sent once per local day', async () => {
+  const store = new MemoryStore({
+    subscribers: [
+      { user: user('west', 'America/Los_Angeles'), teamIds: [1] },
+      { user: user('east', 'America/New_York'), teamIds: [1] }
+    ],
+    deals: [deal(1, 1, 12), deal(2, 1, 10), deal(3, 2, 10), deal(4, 1, 30)]
+  });
+  const { sent, senders } = recordingSenders();
+  const service = new MorningDigestService({ localTime: '08:00', windowMinutes: 60 }, store, senders);
+
+  const report = await service.runDigests({ now: NOW });
+  assert(report.sent === 1 && report.due === 1, `Report: ${JSON.stringify(report)}`);
+  assert(sent.email.length === 1 && sent.email[0].userId === 'west', 'Only the Los Angeles user is due');
+  assert(sent.email[0].dealIds.join(',') === '1,2', `Deals: ${sent.email[0].dealIds}`);
+  assert(store.deliveries[0].status === 'sent' && store.deliveries[0].dealCount === 2, 'Delivery recorded');
+  assert(store.history.filter(h => h.alertType === 'digest_email').length === 2, 'History per deal');
+
+  const again = await service.runDigests({ now: new Date(NOW.getTime() + 10 * 60 * 1000) });
+  assert(again.due === 0 && sent.email.length === 1, 'Second run the same morning sends nothing');
+});
+
+await test('Deals already sent immediately are left out', async () => {
+  const store = new MemoryStore({
+    subscribers: [{ user: user('both', 'America/Los_Angeles'), teamIds: [1] }],
+    deals: [deal(1, 1, 12), deal(2, 1, 10)],
+    history: [{ userId: 'both', triggeredDealId: 1, alertType: 'email', status: 'sent' }]
+  });
+  const { sent, senders } = recordingSenders();
+  await new MorningDigestService({ localTime: '08:00' }, store, senders).runDigests({ now: NOW });
+
+  assert(sent.email[0].dealIds.join(',') === '2', `Deals: ${sent.email[0].dealIds}`);
+});
+
+await test('Push only for push users; empty digests send nothing', async () => {
+  const store = new MemoryStore({
+    subscribers: [
+      { user: user('ios', 'America/Los_Angeles'), teamIds: [1] },
+      { user: user('quiet', 'America/Los_Angeles'), teamIds: [3] }
+    ],
+    deals: [deal(1, 1, 2)],
+    pushUsers: ['ios']
+  });
+  const { sent, senders } = recordingSenders();
+  const report = await new MorningDigestService({ localTime: '08:00' }, store, senders).runDigests({ now: NOW });
+
+  assert(sent.push.length === 1 && sent.push[0].userId === 'ios', 'Push sent to the iOS user');
+  assert(sent.push[0].restaurants[0] === 'Restaurant 1', 'Push lists restaurants');
+  assert(report.empty === 1 && sent.email.length === 1, 'Empty digest recorded but not sent');
+  assert(store.deliveries.find(d => d.userId === 'ios').pushSent === true, 'Push delivery recorded');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Morning digest is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
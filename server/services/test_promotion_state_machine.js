@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the promotion state machine
+ *
+ * Runs against an in-memory store, no database required. Validates that:
+ * - Only transitions in the table are applied, and each one is recorded
+ * - Guards block expired, inactive, rejected and evidence-less moves
+ * - advance() walks the shortest legal path and records re-triggers
+ * - A concurrent state change surfaces as STALE_STATE
+ */
+
+// Storage builds its database clients at import time; nothing is written in these tests
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'test-key';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://localhost:5432/test';
+
+const {
+  PromotionStateMachine,
+  PromotionTransitionError,
+  findTransitionPath,
+  checkTransitionGuard
+} = await import('./promotionStateMachine.ts');
+
+const EVIDENCE = 'a'.repeat(64);
+
+class MemoryStore {
+  constructor(promotions) {
+    this.promotions = new Map(promotions.map(p => [p.id, { ...p }]));
+    this.transitions = [];
+  }
+
+  async getPromotion(id) {
+    const promotion = this.promotions.get(id);
+    return promotion && { ...promotion };
+  }
+
+  async transitionPromotionState(promotionId, fromState, transition) {
+    const promotion = this.promotions.get(promotionId);
+    if (!promotion || (promotion.state ?? null) !== fromState) {
+      return undefined;
+    }
+    promotion.state = transition.toState;
+    this.transitions.push({ ...transition, promotionId, fromState });
+    return { ...promotion };
+  }
+
+  async getPromotionStateTransitions(promotionId) {
+    return this.transitions.filter(t => t.promotionId === promotionId);
+  }
+}
+
+function promotion(overrides = {}) {
+  return { id: 1, state: 'approved', isActive: true, validUntil: null, approvalStatus: 'approved', ...overrides };
+}
+
+const ctx = { actor: 'test', reason: 'unit test' };
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function expectTransitionError(promise, code) {
+  try {
+    await promise;
+  } catch (error) {
+    assert(error instanceof PromotionTransitionError, `Expected PromotionTransitionError, got ${error.message}`);
+    assert(error.code === code, `Expected ${code}, got ${error.code}`);
+    return error;
+  }
+  throw new Error(`Expected ${code} but the transition succeeded`);
+}
+
+console.log('🧪 Testing Promotion State Machine...\n');
+
+await test('Shortest paths follow the transition table', () => {
+  assert(findTransitionPath('approved', 'triggered').join(',') === 'triggered', 'approved → triggered directly');
+  assert(findTransitionPath('approved', 'validated').join(',') === 'validating,validated', 'Validation is recorded step by step');
+  assert(findTransitionPath('draft', 'draft').length === 0, 'Already there');
+  assert(findTransitionPath('archived', 'approved') === null, 'Archived is terminal');
+  assert(findTransitionPath('validation_failed', 'triggered').join(',') === 'approved,triggered', 'Legacy states recover via approved');
+});
+
+await test('Legal transition is applied and recorded', async () => {
+  const store = new MemoryStore([promotion()]);
+  const machine = new PromotionStateMachine(store);
+
+  const updated = await machine.transition(1, 'validating', ctx);
+  assert(updated.state === 'validating', `State: ${updated.state}`);
+
+  const [entry] = await machine.getHistory(1);
+  assert(entry.fromState === 'approved' && entry.toState === 'validating', 'History row records the move');
+  assert(entry.actor === 'test' && entry.reason === 'unit test', 'Actor and reason recorded');
+});
+
+await test('Illegal transition is rejected without writing history', async () => {
+  const store = new MemoryStore([promotion({ state: 'draft' })]);
+  const machine = new PromotionStateMachine(store);
+
+  const error = await expectTransitionError(machine.transition(1, 'triggered', { ...ctx, evidenceHash: EVIDENCE }), 'ILLEGAL_TRANSITION');
+  assert(error.from === 'draft' && error.to === 'triggered', 'Error names both states');
+  assert(store.transitions.length === 0, 'Nothing recorded');
+  await expectTransitionError(machine.transition(99, 'approved', ctx), 'NOT_FOUND');
+});
+
+await test('Guards block expired, inactive, rejected and evidence-less moves', async () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+  assert(checkTransitionGuard(promotion({ validUntil: '2025-06-14' }), 'approved', 'validating', {}, now), 'Past validUntil');
+  assert(checkTransitionGuard(promotion({ validUntil: '2025-06-15' }), 'approved', 'validating', {}, now) === null, 'Valid through end of day');
+  assert(checkTransitionGuard(promotion({ isActive: false }), 'approved', 'validating', {}, now), 'Inactive');
+  assert(checkTransitionGuard(promotion({ approvalStatus: 'rejected' }), 'draft', 'approved', {}, now), 'Rejected in review');
+  assert(checkTransitionGuard(promotion(), 'validating', 'validated', {}, now), 'Evidence required');
+
+  const machine = new PromotionStateMachine(new MemoryStore([promotion({ state: 'validating' })]));
+  await expectTransitionError(machine.transition(1, 'validated', ctx), 'GUARD_FAILED');
+});
+
+await test('advance() walks to triggered and records re-triggers', async () => {
+  const store = new MemoryStore([promotion()]);
+  const machine = new PromotionStateMachine(store);
+
+  await machine.advance(1, 'triggered', { ...ctx, evidenceHash: EVIDENCE });
+  assert(store.transitions.map(t => t.toState).join(',') === 'triggered', 'No validation rows without a validation');
+  assert(store.transitions.every(t => t.evidenceHash === EVIDENCE), 'Evidence hash recorded');
+
+  await machine.advance(1, 'triggered', { ...ctx, evidenceHash: EVIDENCE });
+  assert(store.transitions.length === 2, 'Second game re-triggers');
+  assert(machine.canTrigger({ state: 'triggered' }) && !machine.canTrigger({ state: 'expired' }), 'Triggerable states');
+
+  await machine.advance(1, 'expired', ctx);
+  await machine.advance(1, 'expired', ctx);
+  assert(store.transitions.length === 3, 'Already expired is a no-op');
+});
+
+await test('Concurrent change surfaces as STALE_STATE', async () => {
+  const store = new MemoryStore([promotion()]);
+  const machine = new PromotionStateMachine(store);
+
+  // Another writer moves the promotion between our read and our write
+  const read = store.getPromotion.bind(store);
+  store.getPromotion = async (id) => {
+    const snapshot = await read(id);
+    store.promotions.get(id).state = 'archived';
+    return snapshot;
+  };
+
+  await expectTransitionError(machine.transition(1, 'validating', ctx), 'STALE_STATE');
+  assert(store.transitions.length === 0, 'Lost race writes nothing');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Promotion state machine is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for quiet hours
+ *
+ * Validates that:
+ * - Quiet hours are evaluated in the user's timezone, not the server's
+ * - Overnight and same-day windows, with an inclusive start and exclusive end
+ * - The release time is the end of the current window
+ * - Disabled, empty and invalid-timezone settings behave predictably
+ */
+
+import { isQuietHours, quietHoursEndsAt } from './quietHours.ts';
+
+const OVERNIGHT = { enabled: true, start: '22:00', end: '08:00' };
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+function test(name, fn) {
+  testCount++;
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+console.log('🧪 Testing Quiet Hours...\n');
+
+test('Quiet hours follow the user timezone', () => {
+  // 06:00 UTC is 23:00 in Los Angeles, 02:00 in New York and 15:00 in Tokyo
+  const at = new Date('2025-06-15T06:00:00Z');
+  assert(isQuietHours(OVERNIGHT, 'America/Los_Angeles', at), 'Los Angeles is at 23:00');
+  assert(isQuietHours(OVERNIGHT, 'America/New_York', at), 'New York is at 02:00');
+  assert(!isQuietHours(OVERNIGHT, 'Asia/Tokyo', at), 'Tokyo is at 15:00');
+});
+
+test('Start is inclusive and end exclusive', () => {
+  assert(isQuietHours(OVERNIGHT, 'UTC', new Date('2025-06-15T22:00:00Z')), '22:00 is quiet');
+  assert(isQuietHours(OVERNIGHT, 'UTC', new Date('2025-06-16T07:59:00Z')), '07:59 is quiet');
+  assert(!isQuietHours(OVERNIGHT, 'UTC', new Date('2025-06-16T08:00:00Z')), '08:00 is not');
+
+  const afternoon = { enabled: true, start: '13:00', end: '15:00' };
+  assert(isQuietHours(afternoon, 'UTC', new Date('2025-06-15T14:30:00Z')), 'Same-day window');
+  assert(!isQuietHours(afternoon, 'UTC', new Date('2025-06-15T16:00:00Z')), 'Outside same-day window');
+});
+
+test('Release time is the end of the current window', () => {
+  // 23:30 in Los Angeles; quiet hours end at 08:00 local, 15:00 UTC
+  const endsAt = quietHoursEndsAt(OVERNIGHT, 'America/Los_Angeles', new Date('2025-06-16T06:30:45Z'));
+  assert(endsAt?.toISOString() === '2025-06-16T15:00:00.000Z', `Ends at ${endsAt?.toISOString()}`);
+
+  assert(quietHoursEndsAt(OVERNIGHT, 'America/Los_Angeles', new Date('2025-06-15T18:00:00Z')) === null, 'Null outside quiet hours');
+});
+
+test('Disabled, empty and invalid settings', () => {
+  const at = new Date('2025-06-15T06:00:00Z');
+  assert(!isQuietHours({ ...OVERNIGHT, enabled: false }, 'America/Los_Angeles', at), 'Disabled');
+  assert(!isQuietHours(undefined, 'America/Los_Angeles', at), 'Missing settings');
+  assert(!isQuietHours({ enabled: true, start: '22:00', end: '22:00' }, 'UTC', new Date('2025-06-15T22:00:00Z')), 'Empty window');
+  assert(isQuietHours(OVERNIGHT, 'Not/AZone', at), 'Invalid timezone falls back to Los Angeles');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Quiet hours are working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
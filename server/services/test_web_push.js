@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the Web Push service
+ *
+ * Runs against an in-memory store and a recording sender.
+ * Validates that:
+ * - Deal alerts go to every active web subscription for the user
+ * - Successes and failures are counted per subscription
+ * - Subscriptions the push service reports gone (404/410) are deactivated
+ * - Transient failures leave the subscription active
+ */
+
+// Storage builds its database clients at import time; nothing is written in these tests
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'test-key';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://localhost:5432/test';
+
+// Keys from the environment so the service never writes a keys file
+const { default: webpush } = await import('web-push');
+const vapidKeys = webpush.generateVAPIDKeys();
+process.env.VAPID_PUBLIC_KEY = vapidKeys.publicKey;
+process.env.VAPID_PRIVATE_KEY = vapidKeys.privateKey;
+
+const { WebPushService } = await import('./webPushService.ts');
+
+const DEAL_ALERT = {
+  teamName: 'LA Dodgers',
+  triggeredDeals: [
+    { id: 1, restaurant: 'Panda Express', offer: '$6 Panda Plate', expiresAt: '2099-01-01T00:00:00Z' },
+    { id: 2, restaurant: 'McDonald\'s', offer: 'Free 6pc McNuggets', expiresAt: '2099-01-01T00:00:00Z' }
+  ],
+  gameId: 42,
+  totalActiveDeals: 2,
+  expiresAt: '2099-01-01T00:00:00Z'
+};
+
+function subscription(name) {
+  return { endpoint: `https://push.example.com/${name}`, keys: { p256dh: `p256dh-${name}`, auth: `auth-${name}` } };
+}
+
+class MemoryStore {
+  constructor(subscriptions) {
+    this.subscriptions = subscriptions.map(s => ({ ...s, isActive: true }));
+  }
+
+  async getUserWebPushSubscriptions() {
+    return this.subscriptions.filter(s => s.isActive).map(({ endpoint, keys }) => ({ endpoint, keys }));
+  }
+
+  async deactivateDeviceToken(deviceToken) {
+    this.subscriptions.filter(s => s.endpoint === deviceToken).forEach(s => { s.isActive = false; });
+  }
+}
+
+// Rejects with a WebPushError-like error for endpoints listed in `failures`
+function recordingSender(failures = {}) {
+  const sent = [];
+  const send = async (sub, payload, options) => {
+    const name = sub.endpoint.split('/').pop();
+    if (failures[name]) {
+      const error = new Error(`Received unexpected response code ${failures[name]}`);
+      error.statusCode = failures[name];
+      throw error;
+    }
+    sent.push({ name, payload: JSON.parse(payload), options });
+    return { statusCode: 201, body: '', headers: {} };
+  };
+  return { sent, send };
+}
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+async function test(name, fn) {
+  testCount++;
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+console.log('🧪 Testing Web Push Service...\n');
+
+await test('VAPID keys load from the environment', async () => {
+  const service = new WebPushService(new MemoryStore([]), recordingSender().send);
+  assert(service.getStatus().configured, 'Configured');
+  assert(service.getPublicKey() === vapidKeys.publicKey, 'Public key exposed for subscribing');
+});
+
+await test('Deal alerts reach every active subscription', async () => {
+  const store = new MemoryStore([subscription('laptop'), subscription('phone')]);
+  const { sent, send } = recordingSender();
+  const result = await new WebPushService(store, send).sendDealAlert('user-1', DEAL_ALERT);
+
+  assert(result.successful.length === 2 && result.failed.length === 0, `Result: ${JSON.stringify(result)}`);
+  assert(sent[0].payload.body.includes('+ 1 more deals'), `Body: ${sent[0].payload.body}`);
+  assert(sent[0].payload.data.dealIds.join(',') === '1,2', 'Deal ids in payload');
+  assert(sent[0].options.TTL > 0, 'TTL bounded by expiry');
+});
+
+await test('Gone subscriptions are counted as failed and deactivated', async () => {
+  const store = new MemoryStore([subscription('laptop'), subscription('old'), subscription('stale')]);
+  const { send } = recordingSender({ old: 410, stale: 404 });
+  const result = await new WebPushService(store, send).sendDealAlert('user-1', DEAL_ALERT);
+
+  assert(result.successful.length === 1 && result.failed.length === 2, `Result: ${JSON.stringify(result)}`);
+  const active = store.subscriptions.filter(s => s.isActive).map(s => s.endpoint.split('/').pop());
+  assert(active.join(',') === 'laptop', `Active: ${active}`);
+});
+
+await test('Transient failures keep the subscription', async () => {
+  const store = new MemoryStore([subscription('laptop')]);
+  const { send } = recordingSender({ laptop: 503 });
+  const result = await new WebPushService(store, send).sendDealAlert('user-1', DEAL_ALERT);
+
+  assert(result.failed.length === 1, 'Counted as failed');
+  assert(store.subscriptions[0].isActive, 'Still active');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Web push is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
@@ -0,0 +1,397 @@
+/**
+ * Trigger Condition DSL
+ *
+ * Parses trigger expressions such as:
+ *   home AND win AND runs >= 6
+ *   pitching.strikeouts >= 10 OR (win AND margin >= 5)
+ *   NOT away AND result in [win, tie]
+ *
+ * into the structured TriggerConditions tree stored in
+ * promotions.triggerConditions. Anything the grammar does not understand
+ * throws a TriggerConditionError - there is no fallback interpretation.
+ *
+ * Grammar:
+ *   expr       := orExpr
+ *   orExpr     := andExpr ( (OR | '||') andExpr )*
+ *   andExpr    := unary ( (AND | '&&') unary )*
+ *   unary      := (NOT | '!') unary | primary
+ *   primary    := '(' expr ')' | comparison | keyword | booleanField
+ *   comparison := field op value | field IN '[' value (',' value)* ']'
+ *   op         := '>=' | '<=' | '>' | '<' | '=' | '==' | '!='
+ *   value      := number | word | quoted string | true | false
+ */
+
+import type {
+  TriggerClause,
+  TriggerConditions,
+  TriggerGroup,
+  TriggerOperator,
+  TriggerValue,
+} from '@shared/schema';
+import { TRIGGER_FIELDS, TRIGGER_KEYWORDS, resolveFieldName } from './fields.ts';
+
+export class TriggerConditionError extends Error {
+  constructor(message: string, public readonly source: string, public readonly position: number) {
+    super(`${message} (at position ${position} in "${source}")`);
+    this.name = 'TriggerConditionError';
+  }
+}
+
+type TokenType =
+  | 'number' | 'word' | 'string' | 'op'
+  | 'and' | 'or' | 'not' | 'in'
+  | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const COMPARISON_OPERATORS: Record<string, TriggerOperator> = {
+  '>=': 'gte',
+  '<=': 'lte',
+  '>': 'gt',
+  '<': 'lt',
+  '=': 'equals',
+  '==': 'equals',
+  '!=': 'not_equals',
+};
+
+const WORD_OPERATORS: Record<string, TokenType> = {
+  and: 'and',
+  or: 'or',
+  not: 'not',
+  in: 'in',
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (two === '&&' || two === '||') {
+      tokens.push({ type: two === '&&' ? 'and' : 'or', text: two, position: i });
+      i += 2;
+      continue;
+    }
+    if (two === '>=' || two === '<=' || two === '==' || two === '!=') {
+      tokens.push({ type: 'op', text: two, position: i });
+      i += 2;
+      continue;
+    }
+    if (ch === '>' || ch === '<' || ch === '=') {
+      tokens.push({ type: 'op', text: ch, position: i });
+      i++;
+      continue;
+    }
+    if (ch === '!') {
+      tokens.push({ type: 'not', text: ch, position: i });
+      i++;
+      continue;
+    }
+
+    const punctuation: Record<string, TokenType> = {
+      '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket', ',': 'comma'
+    };
+    if (punctuation[ch]) {
+      tokens.push({ type: punctuation[ch], text: ch, position: i });
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new TriggerConditionError('Unterminated string', source, i);
+      }
+      tokens.push({ type: 'string', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ type: 'number', text: numberMatch[0], position: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const wordMatch = /^[A-Za-z_][A-Za-z0-9_.\-]*/.exec(source.slice(i));
+    if (wordMatch) {
+      const text = wordMatch[0];
+      tokens.push({ type: WORD_OPERATORS[text.toLowerCase()] ?? 'word', text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    throw new TriggerConditionError(`Unexpected character '${ch}'`, source, i);
+  }
+
+  tokens.push({ type: 'eof', text: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): TriggerClause | TriggerGroup {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      this.fail(`Unexpected '${next.text}'`, next);
+    }
+    return node;
+  }
+
+  private parseOr(): TriggerClause | TriggerGroup {
+    const nodes = [this.parseAnd()];
+    while (this.peek().type === 'or') {
+      this.advance();
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : this.group('OR', nodes);
+  }
+
+  private parseAnd(): TriggerClause | TriggerGroup {
+    const nodes = [this.parseUnary()];
+    while (this.peek().type === 'and') {
+      this.advance();
+      nodes.push(this.parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : this.group('AND', nodes);
+  }
+
+  private parseUnary(): TriggerClause | TriggerGroup {
+    if (this.peek().type === 'not') {
+      this.advance();
+      const operand = this.parseUnary();
+      if (isTriggerGroup(operand)) {
+        return { ...operand, negate: !operand.negate };
+      }
+      return { logic: 'AND', negate: true, conditions: [operand] };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TriggerClause | TriggerGroup {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.advance();
+      const inner = this.parseOr();
+      this.expect('rparen', "Expected ')'");
+      return inner;
+    }
+
+    if (token.type !== 'word') {
+      this.fail(token.type === 'eof' ? 'Unexpected end of condition' : `Unexpected '${token.text}'`, token);
+    }
+    this.advance();
+
+    const next = this.peek();
+    if (next.type === 'op' || next.type === 'in') {
+      return this.parseComparison(token);
+    }
+
+    const keyword = TRIGGER_KEYWORDS[token.text.toLowerCase()];
+    if (keyword) {
+      return { field: keyword.field, operator: 'equals', value: keyword.value };
+    }
+
+    const field = resolveFieldName(token.text);
+    if (field && TRIGGER_FIELDS[field].kind === 'boolean') {
+      return { field, operator: 'equals', value: true };
+    }
+
+    if (field) {
+      this.fail(`Field '${token.text}' needs a comparison, e.g. ${token.text} >= 1`, next);
+    }
+    this.fail(`Unknown field or keyword '${token.text}'`, token);
+  }
+
+  private parseComparison(fieldToken: Token): TriggerClause {
+    const field = resolveFieldName(fieldToken.text);
+    if (!field) {
+      this.fail(`Unknown field '${fieldToken.text}'`, fieldToken);
+    }
+    const definition = TRIGGER_FIELDS[field];
+    const opToken = this.advance();
+
+    if (opToken.type === 'in') {
+      this.expect('lbracket', "Expected '[' after 'in'");
+      const values: Array<string | number> = [];
+      for (;;) {
+        const value = this.parseValue(field);
+        if (typeof value === 'boolean') {
+          this.fail(`'in' lists cannot contain booleans`, opToken);
+        }
+        values.push(value as string | number);
+        if (this.peek().type !== 'comma') break;
+        this.advance();
+      }
+      this.expect('rbracket', "Expected ']'");
+      return { field, operator: 'in', value: values };
+    }
+
+    const operator = COMPARISON_OPERATORS[opToken.text];
+    if (definition.kind !== 'number' && operator !== 'equals' && operator !== 'not_equals') {
+      this.fail(`Field '${fieldToken.text}' only supports = and !=`, opToken);
+    }
+    return { field, operator, value: this.parseValue(field) };
+  }
+
+  private parseValue(field: string): TriggerValue {
+    const definition = TRIGGER_FIELDS[field];
+    const token = this.advance();
+
+    if (definition.kind === 'number') {
+      if (token.type !== 'number') {
+        this.fail(`Field '${field}' expects a number`, token);
+      }
+      return Number(token.text);
+    }
+
+    if (definition.kind === 'boolean') {
+      const lowered = token.text.toLowerCase();
+      if (token.type !== 'word' || (lowered !== 'true' && lowered !== 'false')) {
+        this.fail(`Field '${field}' expects true or false`, token);
+      }
+      return lowered === 'true';
+    }
+
+    if (token.type !== 'word' && token.type !== 'string') {
+      this.fail(`Field '${field}' expects a text value`, token);
+    }
+    const value = token.text.toLowerCase();
+    if (definition.values && !definition.values.includes(value)) {
+      this.fail(`Field '${field}' must be one of ${definition.values.join(', ')}`, token);
+    }
+    return value;
+  }
+
+  private group(logic: 'AND' | 'OR', nodes: Array<TriggerClause | TriggerGroup>): TriggerGroup {
+    // Flatten nested groups with the same logic so "a AND b AND c" stays one level deep
+    const conditions = nodes.flatMap(node =>
+      isTriggerGroup(node) && node.logic === logic && !node.negate ? node.conditions : [node]
+    );
+    return { logic, conditions };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      this.fail(message, token);
+    }
+    return this.advance();
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new TriggerConditionError(message, this.source, token.position);
+  }
+}
+
+export function isTriggerGroup(node: TriggerClause | TriggerGroup): node is TriggerGroup {
+  return Array.isArray((node as TriggerGroup).conditions);
+}
+
+function collectClauses(node: TriggerClause | TriggerGroup): TriggerClause[] {
+  return isTriggerGroup(node) ? node.conditions.flatMap(collectClauses) : [node];
+}
+
+function inferTriggerType(root: TriggerGroup): TriggerConditions['type'] {
+  // Only top-level, non-negated AND clauses say anything definite about the trigger
+  const required = root.logic === 'AND' && !root.negate
+    ? root.conditions.filter((c): c is TriggerClause => !isTriggerGroup(c))
+    : [];
+  const requires = (field: string, value: TriggerValue) =>
+    required.some(c => c.field === field && c.operator === 'equals' && c.value === value);
+
+  if (requires('result', 'win') && requires('location', 'home') && required.length === 2) return 'team_home_win';
+  if (requires('result', 'win') && required.length === 1) return 'team_win';
+
+  const fields = collectClauses(root).map(c => c.field);
+  if (fields.every(f => ['result', 'location', 'teamScore', 'opponentScore', 'margin'].includes(f))) {
+    return 'team_score';
+  }
+  return 'game_stat';
+}
+
+/**
+ * Compile a DSL expression into the structured TriggerConditions tree.
+ * Throws TriggerConditionError if the expression cannot be parsed.
+ */
+export function compileTriggerCondition(source: string): TriggerConditions {
+  const expression = (source ?? '').trim();
+  if (!expression) {
+    throw new TriggerConditionError('Trigger condition is empty', expression, 0);
+  }
+
+  const node = new Parser(tokenize(expression), expression).parse();
+  const root: TriggerGroup = isTriggerGroup(node) ? node : { logic: 'AND', conditions: [node] };
+
+  return {
+    type: inferTriggerType(root),
+    logic: root.logic,
+    ...(root.negate ? { negate: true } : {}),
+    conditions: root.conditions,
+    expression
+  };
+}
+
+/**
+ * Check that a stored JSONB value is a well-formed condition tree referencing
+ * known fields. Used for rows that were written without going through the DSL.
+ */
+export function validateTriggerConditions(value: unknown): TriggerConditions {
+  const source = JSON.stringify(value ?? null);
+
+  const check = (node: any, path: string): void => {
+    if (!node || typeof node !== 'object') {
+      throw new TriggerConditionError(`Expected a condition object at ${path}`, source, 0);
+    }
+    if (Array.isArray(node.conditions)) {
+      if (node.logic !== 'AND' && node.logic !== 'OR') {
+        throw new TriggerConditionError(`Invalid logic '${node.logic}' at ${path}`, source, 0);
+      }
+      if (node.conditions.length === 0) {
+        throw new TriggerConditionError(`Empty condition group at ${path}`, source, 0);
+      }
+      node.conditions.forEach((child: any, i: number) => check(child, `${path}.conditions[${i}]`));
+      return;
+    }
+    if (typeof node.field !== 'string' || !TRIGGER_FIELDS[node.field]) {
+      throw new TriggerConditionError(`Unknown field '${node.field}' at ${path}`, source, 0);
+    }
+    if (!['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'in'].includes(node.operator)) {
+      throw new TriggerConditionError(`Invalid operator '${node.operator}' at ${path}`, source, 0);
+    }
+    if (node.value === undefined || node.value === null) {
+      throw new TriggerConditionError(`Missing value at ${path}`, source, 0);
+    }
+  };
+
+  check(value, 'root');
+  const root = value as TriggerGroup & Partial<TriggerConditions>;
+  return { ...root, type: root.type ?? inferTriggerType(root) } as TriggerConditions;
+}
@@ -0,0 +1,131 @@
+/**
+ * Trigger Condition Evaluation
+ *
+ * Evaluates a compiled TriggerConditions tree against a stored Game. A clause
+ * on a stat the game does not have makes the whole condition false, even under
+ * NOT or OR, so a game without box-score data cannot accidentally trigger a
+ * stat-based deal.
+ */
+
+import type { Game, TriggerClause, TriggerConditions, TriggerGroup, TriggerValue } from '@shared/schema';
+import { TRIGGER_FIELDS } from './fields.ts';
+import { compileTriggerCondition, isTriggerGroup, validateTriggerConditions } from './dsl.ts';
+import type { GamePlay } from '../sports/playByPlay.ts';
+
+export interface TriggerEvaluation {
+  isTriggered: boolean;
+  /** Clauses that held, rendered as "field operator value" */
+  matchedClauses: string[];
+}
+
+function compareValues(actual: TriggerValue, clause: TriggerClause): boolean {
+  const normalize = (v: TriggerValue) => (typeof v === 'string' ? v.toLowerCase() : v);
+  const left = normalize(actual);
+  const right = normalize(clause.value);
+
+  switch (clause.operator) {
+    case 'equals':
+      return left === right;
+    case 'not_equals':
+      return left !== right;
+    case 'gt':
+      return typeof left === 'number' && typeof right === 'number' && left > right;
+    case 'gte':
+      return typeof left === 'number' && typeof right === 'number' && left >= right;
+    case 'lt':
+      return typeof left === 'number' && typeof right === 'number' && left < right;
+    case 'lte':
+      return typeof left === 'number' && typeof right === 'number' && left <= right;
+    case 'in':
+      return Array.isArray(right) && right.map(v => normalize(v)).includes(left as string | number);
+    default:
+      return false;
+  }
+}
+
+function evaluateNode(
+  node: TriggerClause | TriggerGroup,
+  game: Game,
+  stats: Record<string, any>,
+  matched: string[],
+  missing: string[]
+): boolean {
+  if (isTriggerGroup(node)) {
+    const results = node.conditions.map(child => evaluateNode(child, game, stats, matched, missing));
+    const result = node.logic === 'AND' ? results.every(Boolean) : results.some(Boolean);
+    return node.negate ? !result : result;
+  }
+
+  const definition = TRIGGER_FIELDS[node.field];
+  const actual = definition?.resolve(game, stats);
+  if (actual === undefined || actual === null) {
+    missing.push(node.field);
+    return false;
+  }
+
+  const result = compareValues(actual, node);
+  if (result) {
+    matched.push(`${node.field} ${node.operator} ${JSON.stringify(node.value)}`);
+  }
+  return result;
+}
+
+function evaluateWithStats(conditions: TriggerConditions, game: Game, stats: Record<string, any>): TriggerEvaluation {
+  const matchedClauses: string[] = [];
+  const missing: string[] = [];
+  const result = evaluateNode(conditions, game, stats, matchedClauses, missing);
+  const isTriggered = result && missing.length === 0;
+  return { isTriggered, matchedClauses: isTriggered ? matchedClauses : [] };
+}
+
+/**
+ * Evaluate compiled trigger conditions against a game result
+ */
+export function evaluateTriggerConditions(conditions: TriggerConditions, game: Game): TriggerEvaluation {
+  const stats = (game.gameStats as Record<string, any>) || {};
+  return evaluateWithStats(conditions, game, stats);
+}
+
+/**
+ * Evaluate compiled trigger conditions at the moment of an in-game play. The
+ * play.* fields are seen from the followed team's side, so `play.by = team`
+ * means the team's batter homered or the team's pitcher got the strikeout.
+ */
+export function evaluatePlayTrigger(conditions: TriggerConditions, game: Game, play: GamePlay): TriggerEvaluation {
+  const teamSide = game.isHome ? 'home' : 'away';
+  const stats = {
+    ...((game.gameStats as Record<string, any>) || {}),
+    'play': play.playType,
+    'play.by': play.side === teamSide ? 'team' : 'opponent',
+    'play.inning': play.inning,
+    'play.number': play.sequence,
+    'play.grandSlam': play.grandSlam ?? false
+  };
+  return evaluateWithStats(conditions, game, stats);
+}
+
+/**
+ * Whether conditions reference any play.* field, i.e. subscribe to play events.
+ * Conditions without one only ever fire on the final result.
+ */
+export function usesPlayFields(conditions: TriggerClause | TriggerGroup): boolean {
+  if (isTriggerGroup(conditions)) {
+    return conditions.conditions.some(usesPlayFields);
+  }
+  return conditions.field === 'play' || conditions.field.startsWith('play.');
+}
+
+/**
+ * Resolve the condition tree for a record: prefer the stored compiled tree,
+ * otherwise compile the DSL text. Throws TriggerConditionError when neither
+ * is usable.
+ */
+export function resolveTriggerConditions(record: {
+  triggerCondition: string;
+  triggerConditions?: unknown;
+}): TriggerConditions {
+  if (record.triggerConditions) {
+    return validateTriggerConditions(record.triggerConditions);
+  }
+  return compileTriggerCondition(record.triggerCondition);
+}
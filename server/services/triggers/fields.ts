@@ -0,0 +1,176 @@
+/**
+ * Trigger Field Registry
+ *
+ * Defines the game facts a trigger condition can reference and how each one
+ * is resolved from a stored Game row. The parser rejects any field that is not
+ * registered here, so a typo in a condition fails loudly at save time instead
+ * of silently never (or always) firing.
+ */
+
+import type { Game, TriggerValue } from '@shared/schema';
+
+export type TriggerFieldKind = 'number' | 'string' | 'boolean';
+
+export interface TriggerFieldDefinition {
+  kind: TriggerFieldKind;
+  description: string;
+  /** Allowed values for string fields */
+  values?: string[];
+  resolve: (game: Game, stats: Record<string, any>) => TriggerValue | undefined;
+}
+
+function hasFinalScore(game: Game): boolean {
+  return game.teamScore !== null && game.opponentScore !== null;
+}
+
+function stat(key: string, description: string, kind: TriggerFieldKind = 'number'): TriggerFieldDefinition {
+  return {
+    kind,
+    description,
+    resolve: (_game, stats) => stats[key] ?? undefined
+  };
+}
+
+export const TRIGGER_FIELDS: Record<string, TriggerFieldDefinition> = {
+  result: {
+    kind: 'string',
+    description: 'Final result for the followed team',
+    values: ['win', 'loss', 'tie'],
+    resolve: (game) => {
+      if (!game.isComplete || !hasFinalScore(game)) return undefined;
+      if (game.teamScore! > game.opponentScore!) return 'win';
+      if (game.teamScore! < game.opponentScore!) return 'loss';
+      return 'tie';
+    }
+  },
+  location: {
+    kind: 'string',
+    description: 'Whether the followed team played at home',
+    values: ['home', 'away'],
+    resolve: (game) => (game.isHome ? 'home' : 'away')
+  },
+  teamScore: {
+    kind: 'number',
+    description: 'Runs/points/goals scored by the followed team',
+    resolve: (game) => game.teamScore ?? undefined
+  },
+  opponentScore: {
+    kind: 'number',
+    description: 'Runs/points/goals scored by the opponent',
+    resolve: (game) => game.opponentScore ?? undefined
+  },
+  margin: {
+    kind: 'number',
+    description: 'Team score minus opponent score',
+    resolve: (game) => (hasFinalScore(game) ? game.teamScore! - game.opponentScore! : undefined)
+  },
+
+  // Baseball box-score stats (see mlbApiService.storeGameResult)
+  hits: stat('hits', 'Team hits'),
+  walks: stat('walks', 'Team walks drawn'),
+  homeRuns: stat('homeRuns', 'Team home runs'),
+  stolenBases: stat('stolenBases', 'Team stolen bases'),
+  innings: stat('innings', 'Innings played'),
+  walkOff: stat('walkOff', 'Game ended on a walk-off', 'boolean'),
+  'batting.strikeouts': stat('strikeOuts', 'Times the team struck out at the plate'),
+  'pitching.strikeouts': stat('pitchingStrikeOuts', "Strikeouts recorded by the team's pitchers"),
+
+  // Football box-score stats (see sports/nflAdapter.parseNFLBoxScore)
+  touchdowns: stat('touchdowns', 'Team touchdowns'),
+  passingTouchdowns: stat('passingTouchdowns', 'Team passing touchdowns'),
+  rushingTouchdowns: stat('rushingTouchdowns', 'Team rushing touchdowns'),
+  returnTouchdowns: stat('returnTouchdowns', 'Team kick, punt and turnover return touchdowns'),
+  fieldGoals: stat('fieldGoals', 'Field goals made'),
+  safeties: stat('safeties', 'Safeties scored by the team'),
+  sacks: stat('sacks', "Sacks recorded by the team's defense"),
+  interceptions: stat('interceptions', "Interceptions made by the team's defense"),
+  totalYards: stat('totalYards', 'Total offensive yards'),
+  turnovers: stat('turnovers', 'Turnovers committed by the team'),
+  overtime: stat('overtime', 'Game went to overtime', 'boolean'),
+
+  // Hockey box-score stats (see sports/nhlAdapter.parseNHLBoxScore)
+  powerPlayGoals: stat('powerPlayGoals', 'Power-play goals scored'),
+  shortHandedGoals: stat('shortHandedGoals', 'Short-handed goals scored'),
+  emptyNetGoals: stat('emptyNetGoals', 'Empty-net goals scored'),
+  shotsOnGoal: stat('shotsOnGoal', 'Shots on goal'),
+  shutout: stat('shutout', 'Opponent held scoreless', 'boolean'),
+  hatTrick: stat('hatTrick', 'A player scored three or more goals', 'boolean'),
+  shootout: stat('shootout', 'Game was decided by a shootout', 'boolean'),
+
+  // In-game play facts, only present when evaluating a play event (see evaluatePlayTrigger)
+  play: {
+    kind: 'string',
+    description: 'Kind of play that just happened',
+    values: ['strikeout', 'home_run', 'stolen_base', 'inning_change'],
+    resolve: (_game, stats) => stats['play'] ?? undefined
+  },
+  'play.by': {
+    kind: 'string',
+    description: 'Who made the play: the followed team or the opponent',
+    values: ['team', 'opponent'],
+    resolve: (_game, stats) => stats['play.by'] ?? undefined
+  },
+  'play.inning': stat('play.inning', 'Inning the play happened in'),
+  'play.number': stat('play.number', 'Nth play of this kind by the same side this game, from 1'),
+  'play.grandSlam': stat('play.grandSlam', 'The play was a grand slam', 'boolean'),
+};
+
+/**
+ * Alternate spellings accepted by the parser. Includes the stat names used by
+ * the admin deal review form so its conditions compile without translation.
+ */
+export const TRIGGER_FIELD_ALIASES: Record<string, string> = {
+  runs: 'teamScore',
+  score: 'teamScore',
+  points: 'teamScore',
+  goals: 'teamScore',
+  runs_scored: 'teamScore',
+  points_scored: 'teamScore',
+  opponentRuns: 'opponentScore',
+  'opponent.score': 'opponentScore',
+  strikeouts: 'pitching.strikeouts',
+  home_runs: 'homeRuns',
+  stolen_bases: 'stolenBases',
+  field_goals: 'fieldGoals',
+  'defense.sacks': 'sacks',
+  'defense.interceptions': 'interceptions',
+  total_yards: 'totalYards',
+  power_play_goals: 'powerPlayGoals',
+  ppg: 'powerPlayGoals',
+  short_handed_goals: 'shortHandedGoals',
+  shots: 'shotsOnGoal',
+  hat_trick: 'hatTrick',
+  'play.type': 'play',
+  grand_slam: 'play.grandSlam',
+  grandslam: 'play.grandSlam',
+};
+
+/**
+ * Bare words that expand to a full clause, e.g. `home AND win`.
+ */
+export const TRIGGER_KEYWORDS: Record<string, { field: string; value: TriggerValue }> = {
+  home: { field: 'location', value: 'home' },
+  away: { field: 'location', value: 'away' },
+  win: { field: 'result', value: 'win' },
+  wins: { field: 'result', value: 'win' },
+  won: { field: 'result', value: 'win' },
+  loss: { field: 'result', value: 'loss' },
+  lose: { field: 'result', value: 'loss' },
+  lost: { field: 'result', value: 'loss' },
+  tie: { field: 'result', value: 'tie' },
+  walkoff: { field: 'walkOff', value: true },
+  strikeout: { field: 'play', value: 'strikeout' },
+  homer: { field: 'play', value: 'home_run' },
+  steal: { field: 'play', value: 'stolen_base' },
+};
+
+/**
+ * Resolve a field name or alias to its canonical registry key
+ */
+export function resolveFieldName(name: string): string | null {
+  if (TRIGGER_FIELDS[name]) return name;
+  const alias = TRIGGER_FIELD_ALIASES[name] ?? TRIGGER_FIELD_ALIASES[name.toLowerCase()];
+  if (alias) return alias;
+  const caseInsensitive = Object.keys(TRIGGER_FIELDS).find(key => key.toLowerCase() === name.toLowerCase());
+  return caseInsensitive ?? null;
+}
@@ -0,0 +1,3 @@
+export { compileTriggerCondition, validateTriggerConditions, TriggerConditionError } from './dsl.ts';
+export { evaluateTriggerConditions, evaluatePlayTrigger, usesPlayFields, resolveTriggerConditions, type TriggerEvaluation } from './evaluate.ts';
+export { TRIGGER_FIELDS, TRIGGER_FIELD_ALIASES, TRIGGER_KEYWORDS } from './fields.ts';
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Test suite for the trigger condition DSL
+ *
+ * Validates that:
+ * - Expressions compile into the promotions.triggerConditions shape
+ * - Compiled trees evaluate correctly against stored games
+ * - Unparseable conditions are rejected instead of defaulting
+ */
+
+import { compileTriggerCondition, validateTriggerConditions, TriggerConditionError } from './dsl.ts';
+import { evaluateTriggerConditions, resolveTriggerConditions } from './evaluate.ts';
+
+// Test counter
+let testCount = 0;
+let passCount = 0;
+
+function test(name, fn) {
+  testCount++;
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+    passCount++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertRejects(source) {
+  try {
+    compileTriggerCondition(source);
+  } catch (error) {
+    assert(error instanceof TriggerConditionError, `"${source}" should throw TriggerConditionError, got ${error.name}`);
+    return error;
+  }
+  throw new Error(`"${source}" should have been rejected`);
+}
+
+function game(overrides = {}) {
+  return {
+    id: 1,
+    teamId: 1,
+    opponent: 'San Francisco Giants',
+    gameDate: new Date('2025-07-04T02:10:00Z'),
+    isHome: true,
+    teamScore: 7,
+    opponentScore: 3,
+    isComplete: true,
+    gameStats: { hits: 11, strikeOuts: 6, pitchingStrikeOuts: 10, stolenBases: 1 },
+    externalId: '777001',
+    ...overrides
+  };
+}
+
+console.log('🧪 Testing Trigger Condition DSL...\n');
+
+test('Compiles keyword conjunction into a flat AND group', () => {
+  const compiled = compileTriggerCondition('home AND win AND runs >= 6');
+  assert(compiled.logic === 'AND', 'Top-level logic should be AND');
+  assert(compiled.conditions.length === 3, 'Should flatten to three clauses');
+  assert(compiled.conditions[0].field === 'location' && compiled.conditions[0].value === 'home', 'home keyword expands');
+  assert(compiled.conditions[1].field === 'result' && compiled.conditions[1].value === 'win', 'win keyword expands');
+  assert(compiled.conditions[2].field === 'teamScore' && compiled.conditions[2].operator === 'gte', 'runs alias resolves');
+  assert(compiled.expression === 'home AND win AND runs >= 6', 'Source expression is kept');
+});
+
+test('Infers trigger type from top-level clauses', () => {
+  assert(compileTriggerCondition('home AND win').type === 'team_home_win', 'home win');
+  assert(compileTriggerCondition('win').type === 'team_win', 'any win');
+  assert(compileTriggerCondition('runs >= 6').type === 'team_score', 'score threshold');
+  assert(compileTriggerCondition('pitching.strikeouts >= 10').type === 'game_stat', 'stat threshold');
+});
+
+test('Respects precedence, parentheses and negation', () => {
+  const compiled = compileTriggerCondition('pitching.strikeouts >= 10 OR (win && margin >= 5)');
+  assert(compiled.logic === 'OR', 'OR binds loosest');
+  assert(compiled.conditions[1].logic === 'AND', 'Parenthesised group stays nested');
+
+  const negated = compileTriggerCondition('NOT away AND result in [win, tie]');
+  assert(negated.conditions[0].negate === true, 'NOT wraps the next operand only');
+  assert(negated.conditions[1].operator === 'in', 'in list compiles');
+});
+
+test('Evaluates home win with run threshold', () => {
+  const compiled = compileTriggerCondition('home AND win AND runs >= 6');
+  assert(evaluateTriggerConditions(compiled, game()).isTriggered, 'Home 7-3 win should trigger');
+  assert(!evaluateTriggerConditions(compiled, game({ isHome: false })).isTriggered, 'Away win should not trigger');
+  assert(!evaluateTriggerConditions(compiled, game({ teamScore: 5, opponentScore: 3 })).isTriggered, '5 runs should not trigger');
+});
+
+test('Evaluates box-score stats and reports matched clauses', () => {
+  const compiled = compileTriggerCondition('pitching.strikeouts >= 10');
+  const result = evaluateTriggerConditions(compiled, game());
+  assert(result.isTriggered, '10 pitching strikeouts should trigger');
+  assert(result.matchedClauses.length === 1, 'Matched clause should be reported');
+  assert(!evaluateTriggerConditions(compiled, game({ gameStats: {} })).isTriggered, 'Missing stats never trigger');
+});
+
+test('Missing stats make the whole condition false, even negated', () => {
+  const noStats = game({ gameStats: {} });
+  assert(!evaluateTriggerConditions(compileTriggerCondition('NOT pitching.strikeouts >= 10'), noStats).isTriggered, 'NOT on a missing stat');
+  assert(!evaluateTriggerConditions(compileTriggerCondition('win OR pitching.strikeouts >= 10'), noStats).isTriggered, 'OR with a missing stat');
+  assert(evaluateTriggerConditions(compileTriggerCondition('NOT pitching.strikeouts >= 12'), game()).isTriggered, 'NOT on a present stat still holds');
+});
+
+test('Incomplete games never satisfy result clauses', () => {
+  const compiled = compileTriggerCondition('win');
+  assert(!evaluateTriggerConditions(compiled, game({ isComplete: false })).isTriggered, 'In-progress lead is not a win');
+});
+
+test('Rejects unparseable conditions instead of defaulting', () => {
+  assertRejects('');
+  assertRejects('Dodgers win any game');
+  assertRejects('home win and 6+ runs scored');
+  assertRejects('runs >= six');
+  assertRejects('result = victory');
+  assertRejects('(home AND win');
+  assertRejects('teamScore');
+  const error = assertRejects('home AND fries > 2');
+  assert(error.position === 9, `Error should point at the unknown field, got ${error.position}`);
+});
+
+test('Validates stored structured conditions', () => {
+  const stored = { type: 'team_win', logic: 'AND', conditions: [{ field: 'result', operator: 'equals', value: 'win' }] };
+  assert(validateTriggerConditions(stored).type === 'team_win', 'Legacy structured rows remain valid');
+
+  let rejected = false;
+  try {
+    validateTriggerConditions({ logic: 'AND', conditions: [{ field: 'vibes', operator: 'equals', value: 'good' }] });
+  } catch (error) {
+    rejected = error instanceof TriggerConditionError;
+  }
+  assert(rejected, 'Unknown fields in stored rows should be rejected');
+});
+
+test('Prefers stored compiled conditions over DSL text', () => {
+  const record = {
+    triggerCondition: 'Free fries when we win!',
+    triggerConditions: { type: 'team_win', logic: 'AND', conditions: [{ field: 'result', operator: 'equals', value: 'win' }] }
+  };
+  assert(evaluateTriggerConditions(resolveTriggerConditions(record), game()).isTriggered, 'Stored tree should be used');
+});
+
+// Summary
+console.log(`\n📊 Test Results: ${passCount}/${testCount} passed`);
+
+if (passCount === testCount) {
+  console.log('🎉 All tests passed! Trigger DSL is working correctly.');
+  process.exit(0);
+} else {
+  console.log('❌ Some tests failed. Please review the implementation.');
+  process.exit(1);
+}
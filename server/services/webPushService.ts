@@ -0,0 +1,202 @@
+import webpush from 'web-push';
+import fs from 'fs';
+import path from 'path';
+import { storage, type WebPushSubscription } from '../storage';
+
+interface DealAlertPayload {
+  teamName: string;
+  triggeredDeals: Array<{
+    id: number;
+    restaurant: string;
+    offer: string;
+    promoCode?: string;
+    expiresAt: string;
+  }>;
+  gameId: number;
+  totalActiveDeals: number;
+  expiresAt: string;
+  featuredImage?: string;
+}
+
+interface WebPushResult {
+  successful: string[];
+  failed: Array<{ deviceToken: string; error: string }>;
+}
+
+interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+type WebPushStore = Pick<typeof storage, 'getUserWebPushSubscriptions' | 'deactivateDeviceToken'>;
+
+type SendNotification = (
+  subscription: WebPushSubscription,
+  payload: string,
+  options: webpush.RequestOptions
+) => Promise<webpush.SendResult>;
+
+// The push service no longer knows the subscription; it will never accept it again
+const GONE_STATUS_CODES = [404, 410];
+
+const DEFAULT_VAPID_KEYS_PATH = './credentials/vapid-keys.json';
+
+export class WebPushService {
+  private vapidKeys: VapidKeys | null = null;
+  private isConfigured = false;
+
+  constructor(
+    private readonly store: WebPushStore = storage,
+    private readonly send: SendNotification = webpush.sendNotification
+  ) {
+    this.initializeVapid();
+  }
+
+  /**
+   * Load VAPID keys from the environment, then from the keys file. When
+   * neither exists a key pair is generated and written to the keys file:
+   * browser subscriptions are bound to the public key, so it has to survive
+   * restarts or every subscriber would silently stop receiving pushes.
+   */
+  private initializeVapid(): void {
+    try {
+      const subject = process.env.VAPID_SUBJECT || `mailto:${process.env.EMAIL_FROM || 'alerts@free4all.com'}`;
+      let keys: VapidKeys | null = null;
+
+      if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+        keys = { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+      } else {
+        const resolvedKeyPath = path.resolve(process.cwd(), process.env.VAPID_KEYS_PATH || DEFAULT_VAPID_KEYS_PATH);
+
+        if (fs.existsSync(resolvedKeyPath)) {
+          keys = JSON.parse(fs.readFileSync(resolvedKeyPath, 'utf8'));
+        } else if (process.env.NODE_ENV === 'production') {
+          console.warn('VAPID keys not configured. Web push notifications will be disabled.');
+          console.warn('Set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY, or provide VAPID_KEYS_PATH');
+          return;
+        } else {
+          keys = webpush.generateVAPIDKeys();
+          fs.mkdirSync(path.dirname(resolvedKeyPath), { recursive: true });
+          fs.writeFileSync(resolvedKeyPath, JSON.stringify(keys, null, 2), { mode: 0o600 });
+          console.log(`Generated VAPID keys at ${resolvedKeyPath.replace(process.cwd(), '.')}`);
+        }
+      }
+
+      if (!keys?.publicKey || !keys?.privateKey) {
+        console.error('VAPID keys are incomplete. Web push notifications will be disabled.');
+        return;
+      }
+
+      webpush.setVapidDetails(subject, keys.publicKey, keys.privateKey);
+      this.vapidKeys = keys;
+      this.isConfigured = true;
+
+      console.log('✅ Web Push Service initialized');
+      console.log(`   Subject: ${subject}`);
+      console.log(`   Public key: ${keys.publicKey.substring(0, 8)}***`);
+
+    } catch (error) {
+      console.error('Failed to initialize web push:', error);
+      this.isConfigured = false;
+    }
+  }
+
+  /**
+   * Public key browsers need as applicationServerKey when subscribing
+   */
+  getPublicKey(): string | null {
+    return this.vapidKeys?.publicKey ?? null;
+  }
+
+  async sendDealAlert(userId: string, dealData: DealAlertPayload): Promise<WebPushResult> {
+    if (!this.isConfigured) {
+      console.log(`Web push disabled - would send deal alert to user ${userId}: ${dealData.triggeredDeals.length} deals`);
+      return { successful: [], failed: [] };
+    }
+
+    try {
+      const subscriptions = await this.store.getUserWebPushSubscriptions(userId);
+
+      if (subscriptions.length === 0) {
+        console.log(`No web push subscriptions found for user ${userId}`);
+        return { successful: [], failed: [] };
+      }
+
+      const deal = dealData.triggeredDeals[0];
+      const payload = {
+        title: `🎉 ${dealData.teamName} Wins!`,
+        body: dealData.triggeredDeals.length === 1
+          ? `${deal.restaurant}: ${deal.offer}`
+          : `${deal.restaurant} + ${dealData.triggeredDeals.length - 1} more deals!`,
+        image: dealData.featuredImage,
+        tag: `deal-alert-${dealData.gameId}`,
+        data: {
+          type: 'deal_alert',
+          dealIds: dealData.triggeredDeals.map(d => d.id),
+          gameId: dealData.gameId,
+          expiresAt: dealData.expiresAt,
+          url: '/wallet'
+        }
+      };
+
+      // Deals are worthless after they expire, so don't let the push service hold them longer
+      const secondsLeft = Math.floor((new Date(dealData.expiresAt).getTime() - Date.now()) / 1000);
+      const ttl = Number.isFinite(secondsLeft) ? Math.max(0, secondsLeft) : 24 * 60 * 60;
+
+      return await this.sendToSubscriptions(subscriptions, JSON.stringify(payload), { TTL: ttl, urgency: 'high' });
+
+    } catch (error) {
+      console.error('Error sending web push deal alert:', error);
+      return { successful: [], failed: [] };
+    }
+  }
+
+  private async sendToSubscriptions(
+    subscriptions: WebPushSubscription[],
+    payload: string,
+    options: webpush.RequestOptions
+  ): Promise<WebPushResult> {
+    const successful: string[] = [];
+    const failed: Array<{ deviceToken: string; error: string }> = [];
+
+    await Promise.all(subscriptions.map(async (subscription) => {
+      try {
+        await this.send(subscription, payload, options);
+        successful.push(subscription.endpoint);
+      } catch (error) {
+        const statusCode = (error as webpush.WebPushError).statusCode;
+        failed.push({
+          deviceToken: subscription.endpoint,
+          error: (error as Error).message || 'Unknown web push error'
+        });
+
+        // Mark expired or unsubscribed endpoints as inactive
+        if (GONE_STATUS_CODES.includes(statusCode)) {
+          await this.markDeviceTokenInactive(subscription.endpoint);
+        }
+      }
+    }));
+
+    console.log(`Web Push Results: ${successful.length} successful, ${failed.length} failed`);
+
+    return { successful, failed };
+  }
+
+  private async markDeviceTokenInactive(deviceToken: string): Promise<void> {
+    try {
+      await this.store.deactivateDeviceToken(deviceToken);
+      console.log(`Marked expired web push subscription as inactive: ${deviceToken.substring(0, 32)}***`);
+    } catch (error) {
+      console.error('Error marking web push subscription inactive:', error);
+    }
+  }
+
+  getStatus(): { configured: boolean; provider: string } {
+    return {
+      configured: this.isConfigured,
+      provider: this.isConfigured ? 'Web Push (VAPID)' : 'Not configured'
+    };
+  }
+}
+
+export const webPushService = new WebPushService();
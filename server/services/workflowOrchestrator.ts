@@ -8,12 +8,17 @@
  * - Integration with Game Monitor and Phase 1 components
  */
 
-import { gameMonitor, type GameEvent } from './gameMonitor.js';
+import { gameMonitor, isPlayEvent, type GameEvent, type PlayEvent } from './gameMonitor.js';
 import { validationService, type PromotionValidation } from './validationService.js';
 import { consensusEngine } from './consensusEngine.js';
 import { putImmutable } from './evidence/storage.js';
 import { storage } from '../storage.js';
 import { generateValidationIdempotencyKey } from '../middleware/idempotency.js';
+import { evaluatePlayTrigger, evaluateTriggerConditions, resolveTriggerConditions, usesPlayFields } from './triggers/index.js';
+import { dealStream } from './dealStream.js';
+import { reconciliationQueue } from './reconciliationQueue.js';
+import type { GameData } from './enhancedSportsApiService.js';
+import type { Game, ReconciliationReview } from '@shared/schema';
 
 export interface WorkflowExecution {
   executionId: string;
@@ -28,10 +33,22 @@ export interface WorkflowExecution {
   approvedPromotions: number[];
   rejectedPromotions: number[];
   failedPromotions: number[];
+  /** Declined by consensus and queued for a reviewer; resumed by resumeAfterReview */
+  pendingReviewPromotions: number[];
   processingTime: number;
   evidenceChain: string[];
   error?: string;
   rollbackReason?: string;
+  /** Replayed for debugging: nothing was notified, queued for review or acknowledged */
+  dryRun?: boolean;
+}
+
+export interface WorkflowRunOptions {
+  /**
+   * Evaluate without side effects: no live notifications, no reconciliation
+   * reviews, no fired-trigger bookkeeping and no acknowledgement to the monitor
+   */
+  dryRun?: boolean;
 }
 
 export interface WorkflowConfig {
@@ -52,15 +69,20 @@ export interface WorkflowMetrics {
   promotionsProcessed: number;
   promotionsApproved: number;
   promotionsRejected: number;
+  promotionsQueuedForReview: number;
 }
 
 export class WorkflowOrchestrator {
   private config: WorkflowConfig;
   private activeExecutions = new Map<string, WorkflowExecution>();
   private executionQueue: GameEvent[] = [];
+  // `${promotionId}:${gameId}` for play triggers that already fired; a deal fires once per game
+  private firedPlayTriggers = new Set<string>();
   private metrics: WorkflowMetrics;
   private isRunning = false;
   private processingTimer?: NodeJS.Timeout;
+  // Bound once so stop() can unregister the same function start() registered
+  private readonly gameEventListener = (event: GameEvent) => this.handleGameEvent(event);
 
   constructor(config: Partial<WorkflowConfig> = {}) {
     this.config = {
@@ -81,7 +103,8 @@ export class WorkflowOrchestrator {
       currentActiveExecutions: 0,
       promotionsProcessed: 0,
       promotionsApproved: 0,
-      promotionsRejected: 0
+      promotionsRejected: 0,
+      promotionsQueuedForReview: 0
     };
   }
 
@@ -97,8 +120,8 @@ export class WorkflowOrchestrator {
     console.log('🎭 Starting Workflow Orchestrator...');
 
     try {
-      // Register with game monitor to receive events
-      gameMonitor.addEventListener(this.handleGameEvent.bind(this));
+      // Register as the acknowledging consumer; unacknowledged events are replayed to it
+      await gameMonitor.registerConsumer(this.gameEventListener);
 
       this.isRunning = true;
 
@@ -139,7 +162,7 @@ export class WorkflowOrchestrator {
     await this.waitForActiveExecutions();
 
     // Unregister from game monitor
-    gameMonitor.removeEventListener(this.handleGameEvent.bind(this));
+    gameMonitor.removeEventListener(this.gameEventListener);
 
     console.log('✅ Workflow Orchestrator stopped');
   }
@@ -166,10 +189,10 @@ export class WorkflowOrchestrator {
   /**
    * Manually trigger workflow for a game event
    */
-  async triggerWorkflow(gameEvent: GameEvent): Promise<WorkflowExecution> {
-    console.log(`🎯 Manually triggering workflow for ${gameEvent.eventType} event on game ${gameEvent.gameId}`);
+  async triggerWorkflow(gameEvent: GameEvent, options: WorkflowRunOptions = {}): Promise<WorkflowExecution> {
+    console.log(`🎯 Manually ${options.dryRun ? 'replaying' : 'triggering'} workflow for ${gameEvent.eventType} event on game ${gameEvent.gameId}`);
     
-    return this.executeWorkflow(gameEvent);
+    return this.executeWorkflow(gameEvent, options);
   }
 
   /**
@@ -246,7 +269,7 @@ export class WorkflowOrchestrator {
   /**
    * Execute complete validation workflow for a game event
    */
-  private async executeWorkflow(gameEvent: GameEvent): Promise<WorkflowExecution> {
+  private async executeWorkflow(gameEvent: GameEvent, options: WorkflowRunOptions = {}): Promise<WorkflowExecution> {
     const executionId = `exec_${gameEvent.gameId}_${Date.now()}`;
     const startTime = Date.now();
 
@@ -263,8 +286,10 @@ export class WorkflowOrchestrator {
       approvedPromotions: [],
       rejectedPromotions: [],
       failedPromotions: [],
+      pendingReviewPromotions: [],
       processingTime: 0,
-      evidenceChain: gameEvent.evidenceHash ? [gameEvent.evidenceHash] : []
+      evidenceChain: gameEvent.evidenceHash ? [gameEvent.evidenceHash] : [],
+      ...(options.dryRun ? { dryRun: true } : {})
     };
 
     try {
@@ -283,17 +308,27 @@ export class WorkflowOrchestrator {
         throw new Error(`Game ${gameEvent.gameId} not found in database`);
       }
 
-      // Step 2: Validate all promotions for this team/game
-      execution.validationResults = await this.validatePromotions(execution);
+      if (isPlayEvent(gameEvent)) {
+        // Steps 2-3 for a play: only promotions whose conditions reference the play fire now
+        await this.evaluatePlayTriggers(execution, gameEvent, gameRecord);
+      } else {
+        // Step 2: Validate all promotions for this team/game
+        execution.validationResults = await this.validatePromotions(execution);
 
-      // Step 3: Process validation results
-      await this.processValidationResults(execution);
+        // Step 3: Process validation results
+        await this.processValidationResults(execution);
+
+        // Plays are delivered before game_end, so the game's fired play triggers can go
+        if (gameEvent.eventType === 'game_end' && !execution.dryRun) {
+          this.forgetPlayTriggers(gameEvent.gameId);
+        }
+      }
 
       // Step 4: Store execution evidence
       await this.storeExecutionEvidence(execution);
 
       // Step 5: Trigger notifications (if any promotions approved)
-      if (execution.approvedPromotions.length > 0) {
+      if (execution.approvedPromotions.length > 0 && !execution.dryRun) {
         await this.triggerNotifications(execution);
       }
 
@@ -306,7 +341,7 @@ export class WorkflowOrchestrator {
       this.updateAverageProcessingTime(execution.processingTime);
 
       console.log(`✅ Workflow ${executionId} completed successfully`);
-      console.log(`📊 Results: ${execution.approvedPromotions.length} approved, ${execution.rejectedPromotions.length} rejected, ${execution.failedPromotions.length} failed`);
+      console.log(`📊 Results: ${execution.approvedPromotions.length} approved, ${execution.rejectedPromotions.length} rejected, ${execution.failedPromotions.length} failed, ${execution.pendingReviewPromotions.length} awaiting review`);
 
     } catch (error) {
       console.error(`❌ Workflow ${executionId} failed:`, error);
@@ -331,6 +366,17 @@ export class WorkflowOrchestrator {
       // Remove from active executions
       this.activeExecutions.delete(executionId);
       this.metrics.currentActiveExecutions = this.activeExecutions.size;
+
+      // Tell the monitor whether this event still needs redelivery; replays leave the stored status alone
+      if (!execution.dryRun) {
+        await gameMonitor.acknowledgeEvent(gameEvent.eventId, {
+          status: execution.status === 'completed' ? 'completed' : 'failed',
+          processingTimeMs: execution.processingTime,
+          error: execution.error
+        }).catch(error => {
+          console.error(`Failed to acknowledge game event ${gameEvent.eventId}:`, error);
+        });
+      }
     }
 
     return execution;
@@ -371,7 +417,7 @@ export class WorkflowOrchestrator {
           
           console.log(`🎯 Identified team ${team.name} with ${promotions.length} promotions`);
           
-          return { teamId: team.id, id: 0 }; // Fake game record
+          return { teamId: team.id, id: 0, isHome: gameData.teams.home.name?.includes(team.name) }; // Fake game record
         }
       }
 
@@ -411,6 +457,56 @@ export class WorkflowOrchestrator {
     return filteredValidations;
   }
 
+  /**
+   * Evaluate play-subscribed promotions against an in-game play. Promotions
+   * without play.* fields wait for the final result and are left out, and a
+   * promotion fires on the first matching play of a game only, so "a 7th-inning
+   * strikeout" does not fire again for the second one.
+   */
+  private async evaluatePlayTriggers(execution: WorkflowExecution, event: PlayEvent, gameRecord: any): Promise<void> {
+    execution.approvedPromotions = [];
+    execution.rejectedPromotions = [];
+    execution.failedPromotions = [];
+
+    const promotions = await storage.getPromotionsByTeam(execution.teamId);
+    for (const promotion of promotions.filter(p => execution.promotionsToValidate.includes(p.id))) {
+      try {
+        const conditions = resolveTriggerConditions(promotion);
+        if (!usesPlayFields(conditions)) continue;
+
+        const firedKey = `${promotion.id}:${execution.gameId}`;
+        if (this.firedPlayTriggers.has(firedKey)) continue;
+
+        this.metrics.promotionsProcessed++;
+        const { isTriggered, matchedClauses } = evaluatePlayTrigger(conditions, gameRecord, event.play);
+        if (isTriggered) {
+          if (!execution.dryRun) {
+            this.firedPlayTriggers.add(firedKey);
+          }
+          execution.approvedPromotions.push(promotion.id);
+          this.metrics.promotionsApproved++;
+          console.log(`✅ Promotion ${promotion.id} triggered by ${event.play.playType} (${matchedClauses.join(', ')})`);
+        } else {
+          execution.rejectedPromotions.push(promotion.id);
+          this.metrics.promotionsRejected++;
+        }
+      } catch (error) {
+        console.error(`Error evaluating play trigger for promotion ${promotion.id}:`, error);
+        execution.failedPromotions.push(promotion.id);
+      }
+    }
+
+    console.log(`📊 Play ${event.play.playId}: ${execution.approvedPromotions.length} triggered, ${execution.rejectedPromotions.length} not triggered`);
+  }
+
+  private forgetPlayTriggers(gameId: string): void {
+    for (const key of Array.from(this.firedPlayTriggers)) {
+      if (key.endsWith(`:${gameId}`)) {
+        this.firedPlayTriggers.delete(key);
+      }
+    }
+  }
+
   /**
    * Process validation results and categorize promotions
    */
@@ -418,6 +514,7 @@ export class WorkflowOrchestrator {
     execution.approvedPromotions = [];
     execution.rejectedPromotions = [];
     execution.failedPromotions = [];
+    execution.pendingReviewPromotions = [];
 
     for (const validation of execution.validationResults) {
       try {
@@ -426,6 +523,15 @@ export class WorkflowOrchestrator {
           this.metrics.promotionsApproved++;
           
           console.log(`✅ Promotion ${validation.promotionId} approved (confidence: ${validation.validation.confidence.toFixed(3)})`);
+        } else if (validation.validation.requiresManualReview && (execution.dryRun || await reconciliationQueue.enqueue(validation, {
+          eventId: execution.gameEvent.eventId,
+          executionId: execution.executionId
+        }))) {
+          // Sources disagree or are too weak to decide: a reviewer settles it and resumes the workflow
+          execution.pendingReviewPromotions.push(validation.promotionId);
+          this.metrics.promotionsQueuedForReview++;
+
+          console.log(`🧑‍⚖️ Promotion ${validation.promotionId} queued for review (${validation.validation.rationale})`);
         } else {
           execution.rejectedPromotions.push(validation.promotionId);
           this.metrics.promotionsRejected++;
@@ -444,7 +550,97 @@ export class WorkflowOrchestrator {
       }
     }
 
-    console.log(`📊 Processing complete: ${execution.approvedPromotions.length} approved, ${execution.rejectedPromotions.length} rejected, ${execution.failedPromotions.length} failed`);
+    console.log(`📊 Processing complete: ${execution.approvedPromotions.length} approved, ${execution.rejectedPromotions.length} rejected, ${execution.failedPromotions.length} failed, ${execution.pendingReviewPromotions.length} awaiting review`);
+  }
+
+  /**
+   * Resume the workflow a reconciliation review was holding. The reviewer's
+   * values replace the disputed ones, and the promotion is approved only if
+   * its trigger conditions hold on the resolved game state.
+   */
+  async resumeAfterReview(review: ReconciliationReview): Promise<WorkflowExecution> {
+    const startTime = Date.now();
+    const gameData = review.resolvedGameData as GameData;
+    const gameEvent: GameEvent = {
+      eventId: review.eventId ?? `${review.gameId}_review_${review.id}`,
+      gameId: review.gameId,
+      eventType: gameData.status.isFinal ? 'game_end' : 'score_change',
+      timestamp: new Date().toISOString(),
+      currentState: gameData,
+      triggered: true,
+      processingStatus: 'processing',
+      retryCount: 0,
+      evidenceHash: review.decisionEvidenceHash ?? undefined
+    };
+
+    const execution: WorkflowExecution = {
+      executionId: `exec_${review.gameId}_review_${review.id}`,
+      gameEvent,
+      gameId: review.gameId,
+      teamId: 0,
+      promotionsToValidate: review.promotionId !== null ? [review.promotionId] : [],
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      validationResults: [],
+      approvedPromotions: [],
+      rejectedPromotions: [],
+      failedPromotions: [],
+      pendingReviewPromotions: [],
+      processingTime: 0,
+      evidenceChain: [review.consensusEvidenceHash, review.decisionEvidenceHash].filter((hash): hash is string => !!hash)
+    };
+
+    console.log(`▶️ Resuming workflow for game ${review.gameId} after review ${review.id}`);
+
+    try {
+      const gameRecord = await storage.getGameByExternalId(review.gameId);
+      if (!gameRecord) {
+        throw new Error(`Game ${review.gameId} not found in database`);
+      }
+      const promotion = review.promotionId !== null ? await storage.getPromotion(review.promotionId) : undefined;
+      if (!promotion) {
+        throw new Error(`Promotion ${review.promotionId} not found`);
+      }
+      execution.teamId = gameRecord.teamId || 0;
+
+      // Score the stored game from the team's side of the resolved state
+      const team = gameRecord.isHome === false ? gameData.teams.away : gameData.teams.home;
+      const opponent = gameRecord.isHome === false ? gameData.teams.home : gameData.teams.away;
+      const game: Game = {
+        ...gameRecord,
+        teamScore: team.score,
+        opponentScore: opponent.score,
+        isComplete: gameData.status.isFinal
+      };
+
+      this.metrics.promotionsProcessed++;
+      const { isTriggered, matchedClauses } = evaluateTriggerConditions(resolveTriggerConditions(promotion), game);
+      if (isTriggered) {
+        execution.approvedPromotions.push(promotion.id);
+        this.metrics.promotionsApproved++;
+        console.log(`✅ Promotion ${promotion.id} approved after review (${matchedClauses.join(', ')})`);
+      } else {
+        execution.rejectedPromotions.push(promotion.id);
+        this.metrics.promotionsRejected++;
+        console.log(`❌ Promotion ${promotion.id} not triggered by reviewed game state`);
+      }
+
+      await this.storeExecutionEvidence(execution);
+      if (execution.approvedPromotions.length > 0) {
+        await this.triggerNotifications(execution);
+      }
+
+      execution.status = 'completed';
+    } catch (error) {
+      console.error(`❌ Resumed workflow ${execution.executionId} failed:`, error);
+      execution.status = 'failed';
+      execution.error = error instanceof Error ? error.message : 'Unknown error';
+      await this.storeExecutionEvidence(execution);
+    }
+
+    execution.completedAt = new Date().toISOString();
+    execution.processingTime = Date.now() - startTime;
+    return execution;
   }
 
   /**
@@ -461,7 +657,8 @@ export class WorkflowOrchestrator {
         results: {
           approvedPromotions: execution.approvedPromotions,
           rejectedPromotions: execution.rejectedPromotions,
-          failedPromotions: execution.failedPromotions
+          failedPromotions: execution.failedPromotions,
+          pendingReviewPromotions: execution.pendingReviewPromotions
         },
         processingTime: execution.processingTime,
         evidenceChain: execution.evidenceChain,
@@ -490,9 +687,15 @@ export class WorkflowOrchestrator {
     console.log(`📢 Triggering notifications for ${execution.approvedPromotions.length} approved promotions`);
     
     // This would integrate with notification service
-    // For now, just log the intent
+    // For now, log the intent and push it to live clients
     for (const promotionId of execution.approvedPromotions) {
       console.log(`🔔 Notification triggered for promotion ${promotionId}`);
+      dealStream.publish('deal_triggered', [execution.teamId], {
+        promotionId,
+        gameId: execution.gameId,
+        eventType: execution.gameEvent.eventType,
+        play: isPlayEvent(execution.gameEvent) ? execution.gameEvent.play : undefined
+      });
     }
   }
 
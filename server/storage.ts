@@ -14,6 +14,24 @@ import {
   dealPages,
   deviceTokens,
   promotionTriggerEvents,
+  promotionStateTransitions,
+  expirySweepRuns,
+  redemptions,
+  digestDeliveries,
+  queuedNotifications,
+  opsAlerts,
+  opsAlertSilences,
+  opsAlertRules,
+  recoveryActionLogs,
+  statusDailyRollups,
+  gameEvents,
+  gameMonitorCheckpoints,
+  reconciliationReviews,
+  markets,
+  dealPatterns,
+  extractionRecipes,
+  htmlSnapshots,
+  searchTermStats,
   type User,
   type UpsertUser,
   type Team,
@@ -42,10 +60,110 @@ import {
   type InsertDealPage,
   type PromotionTriggerEvent,
   type InsertPromotionTriggerEvent,
+  type PromotionStateTransition,
+  type InsertPromotionStateTransition,
+  type ExpirySweepRun,
+  type InsertExpirySweepRun,
+  type Redemption,
+  type DigestDelivery,
+  type InsertDigestDelivery,
+  type QueuedNotification,
+  type InsertQueuedNotification,
+  type OpsAlert,
+  type InsertOpsAlert,
+  type OpsAlertSilence,
+  type InsertOpsAlertSilence,
+  type OpsAlertRule,
+  type InsertOpsAlertRule,
+  type RecoveryActionLog,
+  type InsertRecoveryActionLog,
+  type StatusDailyRollup,
+  type GameEventRecord,
+  type InsertGameEventRecord,
+  type GameMonitorCheckpointRecord,
+  type InsertGameMonitorCheckpointRecord,
+  type ReconciliationReview,
+  type InsertReconciliationReview,
+  type Market,
+  type InsertMarket,
+  type DealPatternRecord,
+  type InsertDealPatternRecord,
+  type ExtractionRecipe,
+  type InsertExtractionRecipe,
+  type HtmlSnapshot,
+  type InsertHtmlSnapshot,
+  type SearchTermStat,
+  type InsertSearchTermStat,
 } from "@shared/schema";
 import { db } from "./supabaseDb";
-import { eq, and, desc, asc, gte, lte, count } from "drizzle-orm";
+import { eq, and, or, desc, asc, gt, gte, lt, lte, count, isNull, inArray, notExists, sql } from "drizzle-orm";
 import crypto from "crypto";
+import { compileTriggerCondition, validateTriggerConditions } from "./services/triggers";
+import { DEFAULT_QUIET_HOURS, type QuietHours } from "./services/quietHours";
+import { resolveTimezone } from "./lib/timezone";
+import {
+  RedemptionError,
+  checkClaimable,
+  checkRedemptionLimits,
+  redemptionDay,
+  redemptionTimezone,
+  resolveRedemptionLimits
+} from "./services/redemptions";
+
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface NotificationPreferences {
+  pushNotifications: boolean;
+  webPushNotifications: boolean;
+  email: boolean;
+  sms: boolean;
+  timezone: string;
+  quietHours: QuietHours;
+}
+
+export interface OpsAlertFilters {
+  status?: string;
+  ruleId?: string;
+  limit?: number;
+}
+
+export type StatusSampleStatus = 'operational' | 'degraded' | 'outage';
+
+export interface RecoveryActionLogFilters {
+  playbookId?: string;
+  component?: string;
+  since?: Date;
+  limit?: number;
+}
+
+export interface ExpiringTriggeredDeal {
+  id: number;
+  promotionId: number | null;
+  dealPageId: number | null;
+  gameId: number | null;
+  teamId: number | null;
+  title: string | null;
+  expiresAt: Date;
+}
+
+/** Downstream outcomes of the sites a search term discovered */
+export interface SearchTermOutcome {
+  searchTermId: number;
+  sitesFound: number;
+  approvedDeals: number; // approved, or turned into a deal page
+  rejectedSites: number;
+}
+
+/** An approved deal page with the search term whose result it came from */
+export interface DealPageTermSource {
+  dealPage: DealPage;
+  searchTermId: number;
+  teamId: number | null;
+  restaurantId: number | null;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -74,12 +192,20 @@ export interface IStorage {
   getActivePromotions(): Promise<Promotion[]>;
   getPromotionsByTeam(teamId: number): Promise<Promotion[]>;
   getPromotion(id: number): Promise<Promotion | undefined>;
-  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  createPromotion(promotion: InsertPromotion, createdBy?: string): Promise<Promotion>;
   updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion>;
   
   // Enhanced promotion creation from discovered sites (idempotent with state management)
   createPromotionFromDiscoveredSite(discoveredSiteId: number, dealDetails: any, createdBy: string): Promise<Promotion>;
 
+  // Promotion state history (state changes go through promotionStateMachine)
+  transitionPromotionState(
+    promotionId: number,
+    fromState: string | null,
+    transition: Omit<InsertPromotionStateTransition, "promotionId" | "fromState">
+  ): Promise<Promotion | undefined>;
+  getPromotionStateTransitions(promotionId: number): Promise<PromotionStateTransition[]>;
+
   // Game operations
   getGames(): Promise<Game[]>;
   getRecentGames(teamId: number, limit?: number): Promise<Game[]>;
@@ -96,9 +222,13 @@ export interface IStorage {
   getTriggeredDealsByGame(gameId: number): Promise<TriggeredDeal[]>;
   createTriggeredDeal(deal: InsertTriggeredDeal): Promise<TriggeredDeal>;
 
+  // Redemption operations
+  claimTriggeredDeal(userId: string, triggeredDealId: number, now?: Date): Promise<Redemption>;
+  getUserRedemptionsWithDetails(userId: string): Promise<any[]>;
+
   // Alert preference operations
   getUserAlertPreferences(userId: string): Promise<AlertPreference[]>;
-  getUsersByTeamPreference(teamId: number): Promise<string[]>;
+  getUsersByTeamPreference(teamId: number, alertTimings?: string[]): Promise<string[]>;
   createAlertPreference(preference: InsertAlertPreference): Promise<AlertPreference>;
   updateAlertPreference(id: number, preference: Partial<InsertAlertPreference>): Promise<AlertPreference>;
   deleteAlertPreference(id: number): Promise<void>;
@@ -107,6 +237,20 @@ export interface IStorage {
   createAlertHistory(history: InsertAlertHistory): Promise<AlertHistory>;
   getUserAlertHistory(userId: string): Promise<AlertHistory[]>;
 
+  // Morning digest operations
+  getDigestSubscribers(): Promise<Array<{ user: User; teamIds: number[] }>>;
+  getUndeliveredTriggeredDeals(userId: string, teamIds: number[], since: Date): Promise<any[]>;
+  claimDigestDelivery(userId: string, digestDate: string): Promise<DigestDelivery | undefined>;
+  updateDigestDelivery(id: number, updates: Partial<InsertDigestDelivery>): Promise<DigestDelivery>;
+
+  // Notification settings and quiet-hours queue
+  getUserNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateUserNotificationSettings(userId: string, settings: { timezone?: string; quietHours?: QuietHours }): Promise<User>;
+  createQueuedNotification(notification: InsertQueuedNotification): Promise<QueuedNotification>;
+  getDueQueuedNotifications(now: Date, limit?: number): Promise<QueuedNotification[]>;
+  updateQueuedNotification(id: number, updates: Partial<InsertQueuedNotification>): Promise<QueuedNotification>;
+  countQueuedNotifications(userId: string): Promise<number>;
+
   // Discovery Source operations
   createDiscoverySource(source: InsertDiscoverySource): Promise<DiscoverySource>;
   getDiscoverySources(): Promise<DiscoverySource[]>;
@@ -118,6 +262,15 @@ export interface IStorage {
   getSearchTerms(): Promise<SearchTerm[]>;
   getActiveSearchTerms(): Promise<SearchTerm[]>;
   updateSearchTermUsage(id: number): Promise<SearchTerm>;
+  findOrCreateSearchTerm(term: InsertSearchTerm): Promise<SearchTerm>;
+
+  // Search term effectiveness (SearchTermLifecycleService)
+  getSearchTerm(id: number): Promise<SearchTerm | undefined>;
+  updateSearchTerm(id: number, updates: Partial<InsertSearchTerm>): Promise<SearchTerm | undefined>;
+  getSearchTermOutcomes(): Promise<SearchTermOutcome[]>;
+  getDealPageTermSources(): Promise<DealPageTermSource[]>;
+  createSearchTermStats(stats: InsertSearchTermStat[]): Promise<void>;
+  getSearchTermStats(since: Date): Promise<SearchTermStat[]>;
 
   // Discovered Site operations
   createDiscoveredSite(site: InsertDiscoveredSite): Promise<DiscoveredSite>;
@@ -133,6 +286,81 @@ export interface IStorage {
   getActiveDealPages(): Promise<DealPage[]>;
   updateDealPage(id: number, updates: Partial<InsertDealPage>): Promise<DealPage>;
   deleteDealPage(id: number): Promise<void>;
+
+  // Expiry sweeper operations (keyset batches: rows with id > afterId, ordered by id)
+  getExpiredTriggeredDeals(now: Date, afterId: number, limit: number): Promise<TriggeredDeal[]>;
+  deactivateTriggeredDeals(ids: number[]): Promise<number[]>;
+  getExpiredDealPages(now: Date, afterId: number, limit: number): Promise<DealPage[]>;
+  deactivateDealPages(ids: number[]): Promise<number[]>;
+  getPromotionsValidBefore(date: string, states: string[], afterId: number, limit: number): Promise<Promotion[]>;
+  createExpirySweepRun(run: InsertExpirySweepRun): Promise<ExpirySweepRun>;
+  getExpirySweepRuns(limit?: number): Promise<ExpirySweepRun[]>;
+  // Active triggered deals whose expiry falls in [from, to), with the game's team for filtering
+  getTriggeredDealsExpiringBetween(from: Date, to: Date): Promise<ExpiringTriggeredDeal[]>;
+
+  // Ops alert operations (AlertManager lifecycle and database channel)
+  upsertOpsAlert(alert: InsertOpsAlert): Promise<OpsAlert>;
+  getOpsAlerts(filters?: OpsAlertFilters): Promise<OpsAlert[]>;
+  deleteResolvedOpsAlertsBefore(cutoff: Date): Promise<number>;
+  getActiveOpsAlertSilences(now?: Date): Promise<OpsAlertSilence[]>;
+  upsertOpsAlertSilence(silence: InsertOpsAlertSilence): Promise<OpsAlertSilence>;
+  deleteOpsAlertSilence(ruleId: string): Promise<boolean>;
+  getOpsAlertRules(): Promise<OpsAlertRule[]>;
+  upsertOpsAlertRule(rule: InsertOpsAlertRule): Promise<OpsAlertRule>;
+  deleteOpsAlertRule(ruleId: string): Promise<boolean>;
+
+  // Recovery playbook audit trail
+  createRecoveryActionLog(entry: InsertRecoveryActionLog): Promise<RecoveryActionLog>;
+  getRecoveryActionLogs(filters?: RecoveryActionLogFilters): Promise<RecoveryActionLog[]>;
+
+  // Public status page uptime history
+  recordStatusSample(day: string, component: string, status: StatusSampleStatus): Promise<void>;
+  getStatusDailyRollups(sinceDay: string): Promise<StatusDailyRollup[]>;
+  deleteStatusDailyRollupsBefore(day: string): Promise<number>;
+
+  // Game event store (GameMonitor at-least-once delivery)
+  insertGameEvent(event: InsertGameEventRecord): Promise<boolean>;
+  updateGameEvent(eventId: string, updates: Partial<Pick<GameEventRecord, 'processingStatus' | 'retryCount' | 'error' | 'processedAt'>>): Promise<GameEventRecord | undefined>;
+  getGameEvent(eventId: string): Promise<GameEventRecord | undefined>;
+  getGameEvents(gameId: string, limit?: number): Promise<GameEventRecord[]>;
+  getLatestGameEvent(gameId: string): Promise<GameEventRecord | undefined>;
+  getGamePlayIds(gameId: string): Promise<string[]>;
+  getReplayableGameEvents(maxRetryCount: number, limit?: number): Promise<GameEventRecord[]>;
+  createGameMonitorCheckpoint(checkpoint: InsertGameMonitorCheckpointRecord): Promise<GameMonitorCheckpointRecord>;
+  getLatestGameMonitorCheckpoint(): Promise<GameMonitorCheckpointRecord | undefined>;
+  deleteGameMonitorCheckpointsBefore(cutoff: Date): Promise<number>;
+
+  // Reconciliation review queue (NEEDS_REVIEW consensus decisions)
+  createReconciliationReview(review: InsertReconciliationReview): Promise<ReconciliationReview>;
+  getReconciliationReview(id: number): Promise<ReconciliationReview | undefined>;
+  getReconciliationReviews(status?: string, limit?: number): Promise<ReconciliationReview[]>;
+  getPendingReconciliationReview(gameId: string, promotionId: number | null): Promise<ReconciliationReview | undefined>;
+  resolveReconciliationReview(id: number, resolution: Pick<ReconciliationReview, 'resolution' | 'resolvedGameData' | 'decisionEvidenceHash' | 'reviewNote' | 'reviewedBy' | 'reviewedAt'>): Promise<ReconciliationReview | undefined>;
+
+  // Markets (metro areas discovery runs in)
+  getMarkets(): Promise<Market[]>;
+  getMarketBySlug(slug: string): Promise<Market | undefined>;
+  createMarket(market: InsertMarket): Promise<Market>;
+  updateMarket(id: number, updates: Partial<InsertMarket>): Promise<Market>;
+
+  // Deal pattern library (DealPatternMatcher)
+  getDealPatterns(status?: string): Promise<DealPatternRecord[]>;
+  getDealPattern(id: string): Promise<DealPatternRecord | undefined>;
+  getDealPatternsBySourceSite(siteId: number): Promise<DealPatternRecord[]>;
+  createDealPattern(pattern: InsertDealPatternRecord): Promise<DealPatternRecord>;
+  updateDealPattern(id: string, updates: Partial<InsertDealPatternRecord>): Promise<DealPatternRecord | undefined>;
+  deleteDealPattern(id: string): Promise<boolean>;
+  recordDealPatternFeedback(id: string, wasCorrect: boolean, undo?: boolean): Promise<DealPatternRecord | undefined>;
+
+  // Extraction recipes and the HTML snapshots they are tested against
+  getExtractionRecipes(): Promise<ExtractionRecipe[]>;
+  getExtractionRecipe(id: number): Promise<ExtractionRecipe | undefined>;
+  createExtractionRecipe(recipe: InsertExtractionRecipe): Promise<ExtractionRecipe>;
+  updateExtractionRecipe(id: number, updates: Partial<InsertExtractionRecipe>): Promise<ExtractionRecipe | undefined>;
+  deleteExtractionRecipe(id: number): Promise<boolean>;
+  createHtmlSnapshot(snapshot: InsertHtmlSnapshot): Promise<HtmlSnapshot>;
+  getHtmlSnapshot(id: number): Promise<HtmlSnapshot | undefined>;
+  getHtmlSnapshots(limit: number): Promise<Omit<HtmlSnapshot, 'html'>[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -240,10 +468,30 @@ export class DatabaseStorage implements IStorage {
     return promotion;
   }
 
-  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
-    const cleaned = this.serializePromotionDates(promotion);
-    const [newPromotion] = await db.insert(promotions).values(cleaned).returning();
-    return newPromotion;
+  async createPromotion(promotion: InsertPromotion, createdBy: string = "system"): Promise<Promotion> {
+    // Compile the trigger DSL up front so unparseable conditions are rejected at save time
+    const triggerConditions = promotion.triggerConditions
+      ? validateTriggerConditions(promotion.triggerConditions)
+      : compileTriggerCondition(promotion.triggerCondition);
+    const cleaned = this.serializePromotionDates({ ...promotion, triggerConditions });
+    return await this.insertPromotionWithInitialState(cleaned, createdBy, "Promotion created");
+  }
+
+  /**
+   * Insert a promotion and the first row of its state history together
+   */
+  private async insertPromotionWithInitialState(promotion: InsertPromotion, actor: string, reason: string): Promise<Promotion> {
+    return await db.transaction(async (tx) => {
+      const [newPromotion] = await tx.insert(promotions).values(promotion).returning();
+      await tx.insert(promotionStateTransitions).values({
+        promotionId: newPromotion.id,
+        fromState: null,
+        toState: newPromotion.state ?? "approved",
+        actor,
+        reason
+      });
+      return newPromotion;
+    });
   }
 
   async createPromotionFromDiscoveredSite(discoveredSiteId: number, dealDetails: any, createdBy: string): Promise<Promotion> {
@@ -279,18 +527,13 @@ export class DatabaseStorage implements IStorage {
       throw new Error(`Restaurant "${dealDetails.restaurant}" or team "${dealDetails.team}" not found`);
     }
 
-    // Structure the trigger conditions
-    const triggerConditions = {
-      type: dealDetails.triggerType as "team_win" | "team_score" | "team_home_win",
-      conditions: dealDetails.triggerConditions || [
-        {
-          field: "result",
-          operator: "equals" as const,
-          value: "win"
-        }
-      ],
-      logic: dealDetails.triggerLogic || "AND" as "AND" | "OR"
-    };
+    // Structure the trigger conditions - explicit structured conditions win, otherwise compile the DSL
+    const triggerConditions = Array.isArray(dealDetails.triggerConditions)
+      ? validateTriggerConditions({
+          conditions: dealDetails.triggerConditions,
+          logic: dealDetails.triggerLogic || "AND"
+        })
+      : compileTriggerCondition(dealDetails.triggerCondition);
 
     // Structure redemption details with timezone and expiration
     const redemptionDetails = {
@@ -313,7 +556,7 @@ export class DatabaseStorage implements IStorage {
       teamId: team.id,
       restaurantId: restaurant.id,
       offerValue: dealDetails.offerValue,
-      triggerCondition: dealDetails.triggerCondition || "Team wins",
+      triggerCondition: dealDetails.triggerCondition || triggerConditions.expression || "win",
       redemptionInstructions: dealDetails.instructions,
       promoCode: dealDetails.promoCode,
       validUntil: dealDetails.validUntil,
@@ -350,8 +593,7 @@ export class DatabaseStorage implements IStorage {
     });
 
     const cleaned = this.serializePromotionDates(promotionData);
-    const [newPromotion] = await db.insert(promotions).values(cleaned).returning();
-    return newPromotion;
+    return await this.insertPromotionWithInitialState(cleaned, createdBy, `Approved from discovered site ${discoveredSiteId}`);
   }
 
   private generateSourceFingerprint(url: string, title: string, restaurant: string): string {
@@ -401,14 +643,58 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion> {
+    if (promotion.state !== undefined) {
+      throw new Error("Promotion state must be changed through promotionStateMachine, not updatePromotion");
+    }
+    const updates = { ...promotion };
+    if (updates.triggerCondition !== undefined && updates.triggerConditions === undefined) {
+      updates.triggerConditions = compileTriggerCondition(updates.triggerCondition);
+    }
     const [updatedPromotion] = await db
       .update(promotions)
-      .set(promotion)
+      .set(updates)
       .where(eq(promotions.id, id))
       .returning();
     return updatedPromotion;
   }
 
+  /**
+   * Move a promotion out of `fromState` and record the transition atomically.
+   * Returns undefined when the promotion is no longer in `fromState` (a
+   * concurrent transition won), leaving both tables untouched.
+   */
+  async transitionPromotionState(
+    promotionId: number,
+    fromState: string | null,
+    transition: Omit<InsertPromotionStateTransition, "promotionId" | "fromState">
+  ): Promise<Promotion | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedPromotion] = await tx
+        .update(promotions)
+        .set({ state: transition.toState })
+        .where(and(
+          eq(promotions.id, promotionId),
+          fromState === null ? isNull(promotions.state) : eq(promotions.state, fromState)
+        ))
+        .returning();
+
+      if (!updatedPromotion) {
+        return undefined;
+      }
+
+      await tx.insert(promotionStateTransitions).values({ ...transition, promotionId, fromState });
+      return updatedPromotion;
+    });
+  }
+
+  async getPromotionStateTransitions(promotionId: number): Promise<PromotionStateTransition[]> {
+    return await db
+      .select()
+      .from(promotionStateTransitions)
+      .where(eq(promotionStateTransitions.promotionId, promotionId))
+      .orderBy(asc(promotionStateTransitions.createdAt), asc(promotionStateTransitions.id));
+  }
+
   // Game operations
   async getGames(): Promise<Game[]> {
     return await db.select().from(games).orderBy(desc(games.gameDate));
@@ -486,6 +772,7 @@ export class DatabaseStorage implements IStorage {
           promoCode: promotions.promoCode,
           validUntil: promotions.validUntil,
           isActive: promotions.isActive,
+          redemptionDetails: promotions.redemptionDetails,
         },
         
         // Restaurant fields  
@@ -632,6 +919,110 @@ export class DatabaseStorage implements IStorage {
     return newDeal;
   }
 
+  // Redemption operations
+  /**
+   * Claim a triggered deal for a user. The deal and promotion rows are locked
+   * for the duration so concurrent claims cannot overshoot the limits.
+   */
+  async claimTriggeredDeal(userId: string, triggeredDealId: number, now: Date = new Date()): Promise<Redemption> {
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx
+        .select()
+        .from(triggeredDeals)
+        .where(eq(triggeredDeals.id, triggeredDealId))
+        .for("update");
+      if (!deal) {
+        throw new RedemptionError(`Triggered deal ${triggeredDealId} not found`, "NOT_FOUND");
+      }
+      checkClaimable(deal, now);
+
+      // perDay spans every triggered deal of the promotion, so claims on the promotion serialize too
+      const [promotion] = deal.promotionId
+        ? await tx.select().from(promotions).where(eq(promotions.id, deal.promotionId)).for("update")
+        : [];
+
+      const limits = resolveRedemptionLimits(promotion);
+      const day = redemptionDay(now, redemptionTimezone(promotion));
+
+      const [userDeal] = await tx
+        .select({ count: count() })
+        .from(redemptions)
+        .where(and(eq(redemptions.triggeredDealId, triggeredDealId), eq(redemptions.userId, userId)));
+      const [dealTotal] = await tx
+        .select({ count: count() })
+        .from(redemptions)
+        .where(eq(redemptions.triggeredDealId, triggeredDealId));
+      const [userDay] = deal.promotionId
+        ? await tx
+          .select({ count: count() })
+          .from(redemptions)
+          .where(and(
+            eq(redemptions.userId, userId),
+            eq(redemptions.promotionId, deal.promotionId),
+            eq(redemptions.redemptionDay, day)
+          ))
+        : [{ count: 0 }];
+
+      checkRedemptionLimits(limits, {
+        userDeal: userDeal.count,
+        deal: dealTotal.count,
+        userDay: userDay.count
+      });
+
+      const [redemption] = await tx
+        .insert(redemptions)
+        .values({
+          userId,
+          triggeredDealId,
+          promotionId: deal.promotionId,
+          claimCode: crypto.randomBytes(5).toString("hex").toUpperCase(),
+          redemptionDay: day,
+          claimedAt: now
+        })
+        .returning();
+      return redemption;
+    });
+  }
+
+  async getUserRedemptionsWithDetails(userId: string): Promise<any[]> {
+    return await db
+      .select({
+        id: redemptions.id,
+        triggeredDealId: redemptions.triggeredDealId,
+        claimCode: redemptions.claimCode,
+        claimedAt: redemptions.claimedAt,
+        expiresAt: triggeredDeals.expiresAt,
+        isActive: triggeredDeals.isActive,
+        promotion: {
+          id: promotions.id,
+          title: promotions.title,
+          offerValue: promotions.offerValue,
+          redemptionInstructions: promotions.redemptionInstructions,
+          promoCode: promotions.promoCode,
+        },
+        restaurant: {
+          id: restaurants.id,
+          name: restaurants.name,
+          logoUrl: restaurants.logoUrl,
+          primaryColor: restaurants.primaryColor,
+        },
+        team: {
+          id: teams.id,
+          name: teams.name,
+          abbreviation: teams.abbreviation,
+          logoUrl: teams.logoUrl,
+        }
+      })
+      .from(redemptions)
+      .innerJoin(triggeredDeals, eq(redemptions.triggeredDealId, triggeredDeals.id))
+      .leftJoin(promotions, eq(redemptions.promotionId, promotions.id))
+      .leftJoin(restaurants, eq(promotions.restaurantId, restaurants.id))
+      .leftJoin(teams, eq(promotions.teamId, teams.id))
+      .where(eq(redemptions.userId, userId))
+      .orderBy(desc(redemptions.claimedAt));
+  }
+
+
   // Alert preference operations
   async getUserAlertPreferences(userId: string): Promise<AlertPreference[]> {
     return await db
@@ -640,7 +1031,13 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(alertPreferences.userId, userId), eq(alertPreferences.isActive, true)));
   }
 
-  async getUsersByTeamPreference(teamId: number): Promise<string[]> {
+  async getUsersByTeamPreference(teamId: number, alertTimings?: string[]): Promise<string[]> {
+    // A missing alertTiming means the column default, immediate
+    const timingFilter = alertTimings
+      ? alertTimings.includes("immediate")
+        ? or(inArray(alertPreferences.alertTiming, alertTimings), isNull(alertPreferences.alertTiming))
+        : inArray(alertPreferences.alertTiming, alertTimings)
+      : undefined;
     const results = await db
       .select({ userId: alertPreferences.userId })
       .from(alertPreferences)
@@ -648,10 +1045,11 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(alertPreferences.teamId, teamId),
           eq(alertPreferences.isActive, true),
-          eq(alertPreferences.emailAlerts, true)
+          eq(alertPreferences.emailAlerts, true),
+          timingFilter
         )
       );
-    return results.map(r => r.userId).filter((id): id is string => id !== null);
+    return Array.from(new Set(results.map(r => r.userId).filter((id): id is string => id !== null)));
   }
 
   async createAlertPreference(preference: InsertAlertPreference): Promise<AlertPreference> {
@@ -700,6 +1098,100 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(alertHistory.sentAt));
   }
 
+  // Morning digest operations
+  async getDigestSubscribers(): Promise<Array<{ user: User; teamIds: number[] }>> {
+    const rows = await db
+      .select({ user: users, teamId: alertPreferences.teamId })
+      .from(alertPreferences)
+      .innerJoin(users, eq(alertPreferences.userId, users.id))
+      .where(and(
+        eq(alertPreferences.isActive, true),
+        inArray(alertPreferences.alertTiming, ["morning", "both"])
+      ));
+
+    const subscribers = new Map<string, { user: User; teamIds: number[] }>();
+    for (const { user, teamId } of rows) {
+      const subscriber = subscribers.get(user.id) ?? { user, teamIds: [] };
+      if (teamId !== null && !subscriber.teamIds.includes(teamId)) {
+        subscriber.teamIds.push(teamId);
+      }
+      subscribers.set(user.id, subscriber);
+    }
+    return Array.from(subscribers.values());
+  }
+
+  /**
+   * Active deals for the given teams triggered since `since` that the user
+   * has not already been sent through any channel
+   */
+  async getUndeliveredTriggeredDeals(userId: string, teamIds: number[], since: Date): Promise<any[]> {
+    if (teamIds.length === 0) return [];
+    return await db
+      .select({
+        id: triggeredDeals.id,
+        promotionId: triggeredDeals.promotionId,
+        gameId: triggeredDeals.gameId,
+        triggeredAt: triggeredDeals.triggeredAt,
+        expiresAt: triggeredDeals.expiresAt,
+        promotion: {
+          id: promotions.id,
+          title: promotions.title,
+          offerValue: promotions.offerValue,
+          triggerCondition: promotions.triggerCondition,
+          redemptionInstructions: promotions.redemptionInstructions,
+          promoCode: promotions.promoCode,
+        },
+        restaurant: {
+          id: restaurants.id,
+          name: restaurants.name,
+        },
+        team: {
+          id: teams.id,
+          name: teams.name,
+        }
+      })
+      .from(triggeredDeals)
+      .innerJoin(promotions, eq(triggeredDeals.promotionId, promotions.id))
+      .innerJoin(restaurants, eq(promotions.restaurantId, restaurants.id))
+      .innerJoin(teams, eq(promotions.teamId, teams.id))
+      .where(and(
+        eq(triggeredDeals.isActive, true),
+        gte(triggeredDeals.triggeredAt, since),
+        inArray(promotions.teamId, teamIds),
+        notExists(
+          db.select({ id: alertHistory.id })
+            .from(alertHistory)
+            .where(and(
+              eq(alertHistory.userId, userId),
+              eq(alertHistory.triggeredDealId, triggeredDeals.id),
+              eq(alertHistory.status, "sent")
+            ))
+        )
+      ))
+      .orderBy(asc(triggeredDeals.triggeredAt));
+  }
+
+  /**
+   * Reserve the user's digest for a local date; undefined if it was already claimed
+   */
+  async claimDigestDelivery(userId: string, digestDate: string): Promise<DigestDelivery | undefined> {
+    const [delivery] = await db
+      .insert(digestDeliveries)
+      .values({ userId, digestDate })
+      .onConflictDoNothing({ target: [digestDeliveries.userId, digestDeliveries.digestDate] })
+      .returning();
+    return delivery;
+  }
+
+  async updateDigestDelivery(id: number, updates: Partial<InsertDigestDelivery>): Promise<DigestDelivery> {
+    const [delivery] = await db
+      .update(digestDeliveries)
+      .set(updates)
+      .where(eq(digestDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
   // Discovery Source operations
   async createDiscoverySource(source: InsertDiscoverySource): Promise<DiscoverySource> {
     const [newSource] = await db.insert(discoverySources).values(source).returning();
@@ -792,6 +1284,7 @@ export class DatabaseStorage implements IStorage {
 
   // Deal Page operations
   async createDealPage(dealPage: InsertDealPage): Promise<DealPage> {
+    compileTriggerCondition(dealPage.triggerCondition);
     const [newDealPage] = await db.insert(dealPages).values(dealPage).returning();
     return newDealPage;
   }
@@ -819,6 +1312,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateDealPage(id: number, updates: Partial<InsertDealPage>): Promise<DealPage> {
+    if (updates.triggerCondition !== undefined) {
+      compileTriggerCondition(updates.triggerCondition);
+    }
     const [updated] = await db
       .update(dealPages)
       .set({ ...updates, updatedAt: new Date() })
@@ -831,6 +1327,628 @@ export class DatabaseStorage implements IStorage {
     await db.delete(dealPages).where(eq(dealPages.id, id));
   }
 
+  // Expiry sweeper operations
+  async getExpiredTriggeredDeals(now: Date, afterId: number, limit: number): Promise<TriggeredDeal[]> {
+    return await db
+      .select()
+      .from(triggeredDeals)
+      .where(and(
+        eq(triggeredDeals.isActive, true),
+        lt(triggeredDeals.expiresAt, now),
+        gt(triggeredDeals.id, afterId)
+      ))
+      .orderBy(asc(triggeredDeals.id))
+      .limit(limit);
+  }
+
+  async getTriggeredDealsExpiringBetween(from: Date, to: Date): Promise<ExpiringTriggeredDeal[]> {
+    const rows = await db
+      .select({
+        id: triggeredDeals.id,
+        promotionId: triggeredDeals.promotionId,
+        dealPageId: triggeredDeals.dealPageId,
+        gameId: triggeredDeals.gameId,
+        teamId: games.teamId,
+        title: promotions.title,
+        expiresAt: triggeredDeals.expiresAt,
+      })
+      .from(triggeredDeals)
+      .leftJoin(games, eq(triggeredDeals.gameId, games.id))
+      .leftJoin(promotions, eq(triggeredDeals.promotionId, promotions.id))
+      .where(and(
+        eq(triggeredDeals.isActive, true),
+        gte(triggeredDeals.expiresAt, from),
+        lt(triggeredDeals.expiresAt, to)
+      ))
+      .orderBy(asc(triggeredDeals.expiresAt));
+    return rows.map(row => ({ ...row, expiresAt: row.expiresAt! }));
+  }
+
+  async deactivateTriggeredDeals(ids: number[]): Promise<number[]> {
+    if (ids.length === 0) return [];
+    const updated = await db
+      .update(triggeredDeals)
+      .set({ isActive: false })
+      .where(and(inArray(triggeredDeals.id, ids), eq(triggeredDeals.isActive, true)))
+      .returning({ id: triggeredDeals.id });
+    return updated.map(row => row.id);
+  }
+
+  async getExpiredDealPages(now: Date, afterId: number, limit: number): Promise<DealPage[]> {
+    return await db
+      .select()
+      .from(dealPages)
+      .where(and(
+        eq(dealPages.isActive, true),
+        lt(dealPages.validUntil, now),
+        gt(dealPages.id, afterId)
+      ))
+      .orderBy(asc(dealPages.id))
+      .limit(limit);
+  }
+
+  async deactivateDealPages(ids: number[]): Promise<number[]> {
+    if (ids.length === 0) return [];
+    const updated = await db
+      .update(dealPages)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(and(inArray(dealPages.id, ids), eq(dealPages.isActive, true)))
+      .returning({ id: dealPages.id });
+    return updated.map(row => row.id);
+  }
+
+  async getPromotionsValidBefore(date: string, states: string[], afterId: number, limit: number): Promise<Promotion[]> {
+    // A null state is read as approved (see promotionStateMachine.currentState)
+    const stateFilter = states.includes("approved")
+      ? or(inArray(promotions.state, states), isNull(promotions.state))
+      : inArray(promotions.state, states);
+    return await db
+      .select()
+      .from(promotions)
+      .where(and(
+        lt(promotions.validUntil, date),
+        stateFilter,
+        gt(promotions.id, afterId)
+      ))
+      .orderBy(asc(promotions.id))
+      .limit(limit);
+  }
+
+  async createExpirySweepRun(run: InsertExpirySweepRun): Promise<ExpirySweepRun> {
+    const [newRun] = await db.insert(expirySweepRuns).values(run).returning();
+    return newRun;
+  }
+
+  async getExpirySweepRuns(limit: number = 20): Promise<ExpirySweepRun[]> {
+    return await db
+      .select()
+      .from(expirySweepRuns)
+      .orderBy(desc(expirySweepRuns.startedAt))
+      .limit(limit);
+  }
+
+  // Ops alert operations
+  async upsertOpsAlert(alert: InsertOpsAlert): Promise<OpsAlert> {
+    const { alertId, ...updates } = alert;
+    const [saved] = await db
+      .insert(opsAlerts)
+      .values(alert)
+      .onConflictDoUpdate({
+        target: opsAlerts.alertId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getOpsAlerts(filters: OpsAlertFilters = {}): Promise<OpsAlert[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(opsAlerts.status, filters.status));
+    if (filters.ruleId) conditions.push(eq(opsAlerts.ruleId, filters.ruleId));
+
+    return await db
+      .select()
+      .from(opsAlerts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(opsAlerts.firstFiredAt))
+      .limit(filters.limit ?? 50);
+  }
+
+  async deleteResolvedOpsAlertsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(opsAlerts)
+      .where(and(eq(opsAlerts.status, 'resolved'), lt(opsAlerts.resolvedAt, cutoff)))
+      .returning({ id: opsAlerts.id });
+    return deleted.length;
+  }
+
+  async getActiveOpsAlertSilences(now: Date = new Date()): Promise<OpsAlertSilence[]> {
+    return await db
+      .select()
+      .from(opsAlertSilences)
+      .where(gt(opsAlertSilences.silencedUntil, now));
+  }
+
+  async upsertOpsAlertSilence(silence: InsertOpsAlertSilence): Promise<OpsAlertSilence> {
+    const { ruleId, ...updates } = silence;
+    const [saved] = await db
+      .insert(opsAlertSilences)
+      .values(silence)
+      .onConflictDoUpdate({
+        target: opsAlertSilences.ruleId,
+        set: { ...updates, createdAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOpsAlertSilence(ruleId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(opsAlertSilences)
+      .where(eq(opsAlertSilences.ruleId, ruleId))
+      .returning({ id: opsAlertSilences.id });
+    return deleted.length > 0;
+  }
+
+  async getOpsAlertRules(): Promise<OpsAlertRule[]> {
+    return await db
+      .select()
+      .from(opsAlertRules)
+      .orderBy(asc(opsAlertRules.createdAt));
+  }
+
+  async upsertOpsAlertRule(rule: InsertOpsAlertRule): Promise<OpsAlertRule> {
+    const { ruleId, createdBy, ...updates } = rule;
+    const [saved] = await db
+      .insert(opsAlertRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: opsAlertRules.ruleId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOpsAlertRule(ruleId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(opsAlertRules)
+      .where(eq(opsAlertRules.ruleId, ruleId))
+      .returning({ id: opsAlertRules.id });
+    return deleted.length > 0;
+  }
+
+  async createRecoveryActionLog(entry: InsertRecoveryActionLog): Promise<RecoveryActionLog> {
+    const [saved] = await db
+      .insert(recoveryActionLogs)
+      .values(entry)
+      .returning();
+    return saved;
+  }
+
+  async getRecoveryActionLogs(filters: RecoveryActionLogFilters = {}): Promise<RecoveryActionLog[]> {
+    const conditions = [];
+    if (filters.playbookId) conditions.push(eq(recoveryActionLogs.playbookId, filters.playbookId));
+    if (filters.component) conditions.push(eq(recoveryActionLogs.component, filters.component));
+    if (filters.since) conditions.push(gte(recoveryActionLogs.executedAt, filters.since));
+
+    return await db
+      .select()
+      .from(recoveryActionLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(recoveryActionLogs.executedAt))
+      .limit(filters.limit ?? 50);
+  }
+
+  async recordStatusSample(day: string, component: string, status: StatusSampleStatus): Promise<void> {
+    const degraded = status === 'degraded' ? 1 : 0;
+    const outage = status === 'outage' ? 1 : 0;
+    await db
+      .insert(statusDailyRollups)
+      .values({ day, component, checks: 1, degradedChecks: degraded, outageChecks: outage })
+      .onConflictDoUpdate({
+        target: [statusDailyRollups.day, statusDailyRollups.component],
+        set: {
+          checks: sql`${statusDailyRollups.checks} + 1`,
+          degradedChecks: sql`${statusDailyRollups.degradedChecks} + ${degraded}`,
+          outageChecks: sql`${statusDailyRollups.outageChecks} + ${outage}`,
+          updatedAt: new Date()
+        }
+      });
+  }
+
+  async getStatusDailyRollups(sinceDay: string): Promise<StatusDailyRollup[]> {
+    return await db
+      .select()
+      .from(statusDailyRollups)
+      .where(gte(statusDailyRollups.day, sinceDay))
+      .orderBy(asc(statusDailyRollups.day));
+  }
+
+  async deleteStatusDailyRollupsBefore(day: string): Promise<number> {
+    const deleted = await db
+      .delete(statusDailyRollups)
+      .where(lt(statusDailyRollups.day, day))
+      .returning({ id: statusDailyRollups.id });
+    return deleted.length;
+  }
+
+  // Returns false when an event with the same eventId was already stored
+  async insertGameEvent(event: InsertGameEventRecord): Promise<boolean> {
+    const inserted = await db
+      .insert(gameEvents)
+      .values(event)
+      .onConflictDoNothing({ target: gameEvents.eventId })
+      .returning({ id: gameEvents.id });
+    return inserted.length > 0;
+  }
+
+  async updateGameEvent(
+    eventId: string,
+    updates: Partial<Pick<GameEventRecord, 'processingStatus' | 'retryCount' | 'error' | 'processedAt'>>
+  ): Promise<GameEventRecord | undefined> {
+    const [event] = await db
+      .update(gameEvents)
+      .set(updates)
+      .where(eq(gameEvents.eventId, eventId))
+      .returning();
+    return event;
+  }
+
+  async getGameEvent(eventId: string): Promise<GameEventRecord | undefined> {
+    const [event] = await db
+      .select()
+      .from(gameEvents)
+      .where(eq(gameEvents.eventId, eventId));
+    return event;
+  }
+
+  async getGameEvents(gameId: string, limit: number = 200): Promise<GameEventRecord[]> {
+    return await db
+      .select()
+      .from(gameEvents)
+      .where(eq(gameEvents.gameId, gameId))
+      .orderBy(asc(gameEvents.id))
+      .limit(limit);
+  }
+
+  async getLatestGameEvent(gameId: string): Promise<GameEventRecord | undefined> {
+    const [event] = await db
+      .select()
+      .from(gameEvents)
+      .where(eq(gameEvents.gameId, gameId))
+      .orderBy(desc(gameEvents.id))
+      .limit(1);
+    return event;
+  }
+
+  // Plays already stored for a game, so a restarted monitor does not detect them again
+  async getGamePlayIds(gameId: string): Promise<string[]> {
+    const rows = await db
+      .select({ play: gameEvents.play })
+      .from(gameEvents)
+      .where(and(eq(gameEvents.gameId, gameId), eq(gameEvents.eventType, 'play')));
+    return rows.flatMap(row => (row.play as { playId?: string } | null)?.playId ?? []);
+  }
+
+  // Events not yet acknowledged by a consumer, plus failures still under the retry limit, oldest first
+  async getReplayableGameEvents(maxRetryCount: number, limit: number = 500): Promise<GameEventRecord[]> {
+    return await db
+      .select()
+      .from(gameEvents)
+      .where(or(
+        inArray(gameEvents.processingStatus, ['pending', 'processing']),
+        and(eq(gameEvents.processingStatus, 'failed'), lt(gameEvents.retryCount, maxRetryCount))
+      ))
+      .orderBy(asc(gameEvents.id))
+      .limit(limit);
+  }
+
+  async createGameMonitorCheckpoint(checkpoint: InsertGameMonitorCheckpointRecord): Promise<GameMonitorCheckpointRecord> {
+    const [saved] = await db
+      .insert(gameMonitorCheckpoints)
+      .values(checkpoint)
+      .returning();
+    return saved;
+  }
+
+  async getLatestGameMonitorCheckpoint(): Promise<GameMonitorCheckpointRecord | undefined> {
+    const [checkpoint] = await db
+      .select()
+      .from(gameMonitorCheckpoints)
+      .orderBy(desc(gameMonitorCheckpoints.id))
+      .limit(1);
+    return checkpoint;
+  }
+
+  async deleteGameMonitorCheckpointsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(gameMonitorCheckpoints)
+      .where(lt(gameMonitorCheckpoints.createdAt, cutoff))
+      .returning({ id: gameMonitorCheckpoints.id });
+    return deleted.length;
+  }
+
+  async createReconciliationReview(review: InsertReconciliationReview): Promise<ReconciliationReview> {
+    const [created] = await db
+      .insert(reconciliationReviews)
+      .values(review)
+      .returning();
+    return created;
+  }
+
+  async getReconciliationReview(id: number): Promise<ReconciliationReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(reconciliationReviews)
+      .where(eq(reconciliationReviews.id, id));
+    return review;
+  }
+
+  async getReconciliationReviews(status?: string, limit: number = 100): Promise<ReconciliationReview[]> {
+    return await db
+      .select()
+      .from(reconciliationReviews)
+      .where(status ? eq(reconciliationReviews.status, status) : undefined)
+      .orderBy(status === 'pending' ? asc(reconciliationReviews.id) : desc(reconciliationReviews.id))
+      .limit(limit);
+  }
+
+  async getPendingReconciliationReview(gameId: string, promotionId: number | null): Promise<ReconciliationReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(reconciliationReviews)
+      .where(and(
+        eq(reconciliationReviews.gameId, gameId),
+        promotionId === null ? isNull(reconciliationReviews.promotionId) : eq(reconciliationReviews.promotionId, promotionId),
+        eq(reconciliationReviews.status, 'pending')
+      ))
+      .limit(1);
+    return review;
+  }
+
+  // Only a pending review can be resolved; returns undefined when another reviewer got there first
+  async resolveReconciliationReview(
+    id: number,
+    resolution: Pick<ReconciliationReview, 'resolution' | 'resolvedGameData' | 'decisionEvidenceHash' | 'reviewNote' | 'reviewedBy' | 'reviewedAt'>
+  ): Promise<ReconciliationReview | undefined> {
+    const [review] = await db
+      .update(reconciliationReviews)
+      .set({ ...resolution, status: 'resolved' })
+      .where(and(eq(reconciliationReviews.id, id), eq(reconciliationReviews.status, 'pending')))
+      .returning();
+    return review;
+  }
+
+  async getMarkets(): Promise<Market[]> {
+    return await db.select().from(markets).orderBy(asc(markets.name));
+  }
+
+  async getMarketBySlug(slug: string): Promise<Market | undefined> {
+    const [market] = await db.select().from(markets).where(eq(markets.slug, slug));
+    return market;
+  }
+
+  async createMarket(market: InsertMarket): Promise<Market> {
+    const [created] = await db.insert(markets).values(market).returning();
+    return created;
+  }
+
+  async updateMarket(id: number, updates: Partial<InsertMarket>): Promise<Market> {
+    const [updated] = await db
+      .update(markets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(markets.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getDealPatterns(status?: string): Promise<DealPatternRecord[]> {
+    return await db
+      .select()
+      .from(dealPatterns)
+      .where(status ? eq(dealPatterns.status, status) : undefined)
+      .orderBy(desc(dealPatterns.confidence));
+  }
+
+  async getDealPattern(id: string): Promise<DealPatternRecord | undefined> {
+    const [pattern] = await db.select().from(dealPatterns).where(eq(dealPatterns.id, id));
+    return pattern;
+  }
+
+  async getDealPatternsBySourceSite(siteId: number): Promise<DealPatternRecord[]> {
+    return await db.select().from(dealPatterns).where(eq(dealPatterns.sourceSiteId, siteId));
+  }
+
+  async createDealPattern(pattern: InsertDealPatternRecord): Promise<DealPatternRecord> {
+    const [created] = await db.insert(dealPatterns).values(pattern).returning();
+    return created;
+  }
+
+  async updateDealPattern(id: string, updates: Partial<InsertDealPatternRecord>): Promise<DealPatternRecord | undefined> {
+    const [updated] = await db
+      .update(dealPatterns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(dealPatterns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDealPattern(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(dealPatterns)
+      .where(eq(dealPatterns.id, id))
+      .returning({ id: dealPatterns.id });
+    return deleted.length > 0;
+  }
+
+  // Confirmed patterns gain 0.05 (up to 1.0), contradicted ones lose 0.1 (down to 0.5), in one statement
+  // With undo, takes back earlier feedback (a reviewer changed their decision)
+  async recordDealPatternFeedback(id: string, wasCorrect: boolean, undo = false): Promise<DealPatternRecord | undefined> {
+    if (undo) {
+      const [reverted] = await db
+        .update(dealPatterns)
+        .set(wasCorrect
+          ? {
+              confidence: sql`GREATEST(${dealPatterns.confidence} - 0.05, 0)`,
+              confirmedCount: sql`GREATEST(${dealPatterns.confirmedCount} - 1, 0)`,
+              updatedAt: new Date()
+            }
+          : {
+              confidence: sql`LEAST(${dealPatterns.confidence} + 0.1, 1.0)`,
+              rejectedCount: sql`GREATEST(${dealPatterns.rejectedCount} - 1, 0)`,
+              updatedAt: new Date()
+            })
+        .where(eq(dealPatterns.id, id))
+        .returning();
+      return reverted;
+    }
+
+    const [updated] = await db
+      .update(dealPatterns)
+      .set(wasCorrect
+        ? {
+            confidence: sql`LEAST(${dealPatterns.confidence} + 0.05, 1.0)`,
+            confirmedCount: sql`${dealPatterns.confirmedCount} + 1`,
+            lastSeen: new Date(),
+            updatedAt: new Date()
+          }
+        : {
+            confidence: sql`GREATEST(${dealPatterns.confidence} - 0.1, 0.5)`,
+            rejectedCount: sql`${dealPatterns.rejectedCount} + 1`,
+            lastSeen: new Date(),
+            updatedAt: new Date()
+          })
+      .where(eq(dealPatterns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getExtractionRecipes(): Promise<ExtractionRecipe[]> {
+    return await db
+      .select()
+      .from(extractionRecipes)
+      .orderBy(desc(extractionRecipes.priority), asc(extractionRecipes.id));
+  }
+
+  async getExtractionRecipe(id: number): Promise<ExtractionRecipe | undefined> {
+    const [recipe] = await db.select().from(extractionRecipes).where(eq(extractionRecipes.id, id));
+    return recipe;
+  }
+
+  async createExtractionRecipe(recipe: InsertExtractionRecipe): Promise<ExtractionRecipe> {
+    const [created] = await db.insert(extractionRecipes).values(recipe).returning();
+    return created;
+  }
+
+  async updateExtractionRecipe(id: number, updates: Partial<InsertExtractionRecipe>): Promise<ExtractionRecipe | undefined> {
+    const [updated] = await db
+      .update(extractionRecipes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(extractionRecipes.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteExtractionRecipe(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(extractionRecipes)
+      .where(eq(extractionRecipes.id, id))
+      .returning({ id: extractionRecipes.id });
+    return deleted.length > 0;
+  }
+
+  async createHtmlSnapshot(snapshot: InsertHtmlSnapshot): Promise<HtmlSnapshot> {
+    const [created] = await db.insert(htmlSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getHtmlSnapshot(id: number): Promise<HtmlSnapshot | undefined> {
+    const [snapshot] = await db.select().from(htmlSnapshots).where(eq(htmlSnapshots.id, id));
+    return snapshot;
+  }
+
+  // Listing leaves out the HTML itself
+  async getHtmlSnapshots(limit: number): Promise<Omit<HtmlSnapshot, 'html'>[]> {
+    return await db
+      .select({
+        id: htmlSnapshots.id,
+        url: htmlSnapshots.url,
+        capturedBy: htmlSnapshots.capturedBy,
+        capturedAt: htmlSnapshots.capturedAt,
+      })
+      .from(htmlSnapshots)
+      .orderBy(desc(htmlSnapshots.capturedAt))
+      .limit(limit);
+  }
+
+  // Terms are unique, so seeding and social discovery reuse the existing row (paused or not)
+  async findOrCreateSearchTerm(term: InsertSearchTerm): Promise<SearchTerm> {
+    const [created] = await db.insert(searchTerms).values(term).onConflictDoNothing().returning();
+    if (created) {
+      return created;
+    }
+    const [existing] = await db.select().from(searchTerms).where(eq(searchTerms.term, term.term));
+    return existing;
+  }
+
+  async getSearchTerm(id: number): Promise<SearchTerm | undefined> {
+    const [term] = await db.select().from(searchTerms).where(eq(searchTerms.id, id));
+    return term;
+  }
+
+  async updateSearchTerm(id: number, updates: Partial<InsertSearchTerm>): Promise<SearchTerm | undefined> {
+    const [updated] = await db
+      .update(searchTerms)
+      .set(updates)
+      .where(eq(searchTerms.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getSearchTermOutcomes(): Promise<SearchTermOutcome[]> {
+    const hasDealPage = sql`EXISTS (SELECT 1 FROM ${dealPages} WHERE ${dealPages.discoveredSiteId} = ${discoveredSites.id})`;
+    const rows = await db
+      .select({
+        searchTermId: discoveredSites.searchTermId,
+        sitesFound: sql<number>`COUNT(*)::int`,
+        approvedDeals: sql<number>`(COUNT(*) FILTER (WHERE ${discoveredSites.status} = 'approved' OR ${hasDealPage}))::int`,
+        rejectedSites: sql<number>`(COUNT(*) FILTER (WHERE ${discoveredSites.status} = 'rejected' AND NOT ${hasDealPage}))::int`,
+      })
+      .from(discoveredSites)
+      .where(sql`${discoveredSites.searchTermId} IS NOT NULL`)
+      .groupBy(discoveredSites.searchTermId);
+    return rows.map(row => ({ ...row, searchTermId: row.searchTermId! }));
+  }
+
+  async getDealPageTermSources(): Promise<DealPageTermSource[]> {
+    return await db
+      .select({
+        dealPage: dealPages,
+        searchTermId: searchTerms.id,
+        teamId: searchTerms.teamId,
+        restaurantId: searchTerms.restaurantId,
+      })
+      .from(dealPages)
+      .innerJoin(discoveredSites, eq(dealPages.discoveredSiteId, discoveredSites.id))
+      .innerJoin(searchTerms, eq(discoveredSites.searchTermId, searchTerms.id))
+      .orderBy(desc(dealPages.createdAt));
+  }
+
+  async createSearchTermStats(stats: InsertSearchTermStat[]): Promise<void> {
+    if (stats.length > 0) {
+      await db.insert(searchTermStats).values(stats);
+    }
+  }
+
+  async getSearchTermStats(since: Date): Promise<SearchTermStat[]> {
+    return await db
+      .select()
+      .from(searchTermStats)
+      .where(gte(searchTermStats.recordedAt, since))
+      .orderBy(asc(searchTermStats.recordedAt));
+  }
+
   async getDiscoveredSite(id: number): Promise<DiscoveredSite | undefined> {
     const [site] = await db
       .select()
@@ -921,6 +2039,46 @@ export class DatabaseStorage implements IStorage {
       });
   }
 
+  async saveWebPushSubscription(
+    userId: string,
+    subscription: WebPushSubscription,
+    deviceInfo?: { model?: string; osVersion?: string; appVersion?: string }
+  ): Promise<void> {
+    await db.insert(deviceTokens)
+      .values({
+        userId,
+        deviceToken: subscription.endpoint,
+        platform: 'web',
+        deviceInfo,
+        webPushKeys: subscription.keys,
+        isActive: true,
+        lastUsed: new Date(),
+        createdAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: deviceTokens.deviceToken,
+        set: {
+          userId,
+          webPushKeys: subscription.keys,
+          lastUsed: new Date(),
+          isActive: true,
+          deviceInfo: deviceInfo || null
+        }
+      });
+  }
+
+  async getUserWebPushSubscriptions(userId: string): Promise<WebPushSubscription[]> {
+    const rows = await db.select({ endpoint: deviceTokens.deviceToken, keys: deviceTokens.webPushKeys })
+      .from(deviceTokens)
+      .where(and(
+        eq(deviceTokens.userId, userId),
+        eq(deviceTokens.platform, 'web'),
+        eq(deviceTokens.isActive, true)
+      ));
+
+    return rows.filter((row): row is WebPushSubscription => row.keys !== null);
+  }
+
   async getUserDeviceTokens(userId: string, platform?: 'ios' | 'android' | 'web'): Promise<string[]> {
     const whereConditions = [
       eq(deviceTokens.userId, userId),
@@ -944,28 +2102,73 @@ export class DatabaseStorage implements IStorage {
       .where(eq(deviceTokens.deviceToken, deviceToken));
   }
 
-  async getUserNotificationPreferences(userId: string): Promise<{
-    pushNotifications: boolean;
-    email: boolean;
-    sms: boolean;
-    quietHours?: { enabled: boolean; start: string; end: string };
-  }> {
-    // For now, return default preferences
-    // This can be enhanced with a user preferences table
+  async getUserNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await this.getUser(userId);
     const hasDeviceTokens = await this.getUserDeviceTokens(userId, 'ios');
-    
+    const hasWebPushTokens = await this.getUserDeviceTokens(userId, 'web');
+
     return {
       pushNotifications: hasDeviceTokens.length > 0,
+      webPushNotifications: hasWebPushTokens.length > 0,
       email: true, // Always enabled as backup
       sms: false, // Disabled since we're using APNs
+      timezone: resolveTimezone(user?.timezone),
       quietHours: {
-        enabled: true,
-        start: "22:00",
-        end: "08:00"
+        enabled: user?.quietHoursEnabled ?? DEFAULT_QUIET_HOURS.enabled,
+        start: user?.quietHoursStart || DEFAULT_QUIET_HOURS.start,
+        end: user?.quietHoursEnd || DEFAULT_QUIET_HOURS.end
       }
     };
   }
 
+  async updateUserNotificationSettings(userId: string, settings: { timezone?: string; quietHours?: QuietHours }): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({
+        ...(settings.timezone !== undefined && { timezone: settings.timezone }),
+        ...(settings.quietHours && {
+          quietHoursEnabled: settings.quietHours.enabled,
+          quietHoursStart: settings.quietHours.start,
+          quietHoursEnd: settings.quietHours.end
+        }),
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async createQueuedNotification(notification: InsertQueuedNotification): Promise<QueuedNotification> {
+    const [queued] = await db.insert(queuedNotifications).values(notification).returning();
+    return queued;
+  }
+
+  async getDueQueuedNotifications(now: Date, limit: number = 100): Promise<QueuedNotification[]> {
+    return await db
+      .select()
+      .from(queuedNotifications)
+      .where(and(eq(queuedNotifications.status, "queued"), lte(queuedNotifications.releaseAt, now)))
+      .orderBy(asc(queuedNotifications.releaseAt))
+      .limit(limit);
+  }
+
+  async updateQueuedNotification(id: number, updates: Partial<InsertQueuedNotification>): Promise<QueuedNotification> {
+    const [queued] = await db
+      .update(queuedNotifications)
+      .set(updates)
+      .where(eq(queuedNotifications.id, id))
+      .returning();
+    return queued;
+  }
+
+  async countQueuedNotifications(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(queuedNotifications)
+      .where(and(eq(queuedNotifications.userId, userId), eq(queuedNotifications.status, "queued")));
+    return result?.count ?? 0;
+  }
+
   async cleanupExpiredDeviceTokens(daysOld: number = 90): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysOld);
@@ -5,16 +5,41 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   boolean,
   integer,
   decimal,
+  doublePrecision,
   date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+// Compiled trigger condition tree stored in promotions.triggerConditions
+export type TriggerOperator = "equals" | "not_equals" | "gt" | "gte" | "lt" | "lte" | "in";
+
+export type TriggerValue = string | number | boolean | Array<string | number>;
+
+export interface TriggerClause {
+  field: string;
+  operator: TriggerOperator;
+  value: TriggerValue;
+}
+
+export interface TriggerGroup {
+  logic: "AND" | "OR";
+  negate?: boolean;
+  conditions: Array<TriggerClause | TriggerGroup>;
+}
+
+export interface TriggerConditions extends TriggerGroup {
+  type: "team_win" | "team_score" | "team_home_win" | "game_stat";
+  expression?: string; // DSL source the tree was compiled from
+}
+
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
   "sessions",
@@ -37,6 +62,10 @@ export const users = pgTable("users", {
   zipCode: varchar("zip_code", { length: 10 }),
   phoneNumber: varchar("phone_number", { length: 20 }),
   role: varchar("role", { length: 20 }).default("user"), // user, admin
+  timezone: varchar("timezone", { length: 64 }).default("America/Los_Angeles"), // IANA zone for digests and quiet hours
+  quietHoursEnabled: boolean("quiet_hours_enabled").default(true),
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }).default("22:00"), // HH:MM in the user's timezone
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }).default("08:00"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -63,6 +92,7 @@ export const teams = pgTable("teams", {
   sport: varchar("sport", { length: 20 }).notNull(), // MLB, NBA, NFL, NHL
   conference: varchar("conference", { length: 50 }), // AL/NL, Eastern/Western, AFC/NFC
   division: varchar("division", { length: 50 }), // AL West, NFC South, etc.
+  marketId: integer("market_id").references(() => markets.id), // metro area the team's deals are discovered in
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -70,6 +100,7 @@ export const teams = pgTable("teams", {
   index("idx_teams_is_active").on(table.isActive),
   index("idx_teams_league_id").on(table.leagueId),
   index("idx_teams_sport").on(table.sport),
+  index("idx_teams_market_id").on(table.marketId),
 ]);
 
 // Restaurant partners
@@ -139,16 +170,8 @@ export const promotions = pgTable("promotions", {
   sourceUrl: text("source_url"),
   discoveredSiteId: integer("discovered_site_id").references(() => discoveredSites.id),
   
-  // Structured trigger conditions (JSONB)
-  triggerConditions: jsonb("trigger_conditions").$type<{
-    type: "team_win" | "team_score" | "team_home_win";
-    conditions: Array<{
-      field: string;
-      operator: "equals" | "gte" | "lte" | "in";
-      value: string | number | string[];
-    }>;
-    logic: "AND" | "OR";
-  }>(),
+  // Structured trigger conditions (JSONB), compiled from the trigger DSL
+  triggerConditions: jsonb("trigger_conditions").$type<TriggerConditions>(),
   
   // Structured redemption details (JSONB)
   redemptionDetails: jsonb("redemption_details").$type<{
@@ -223,6 +246,22 @@ export const triggeredDeals = pgTable("triggered_deals", {
   index("idx_triggered_deals_active_triggered").on(table.isActive, table.triggeredAt),
 ]);
 
+// Redemptions - one row per user claim on a triggered deal
+export const redemptions = pgTable("redemptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  triggeredDealId: integer("triggered_deal_id").notNull().references(() => triggeredDeals.id),
+  promotionId: integer("promotion_id").references(() => promotions.id), // null for discovered deal pages
+  claimCode: varchar("claim_code", { length: 12 }).notNull().unique(), // shown at checkout
+  // Local calendar day of the claim in the promotion's timezone, for perDay limits
+  redemptionDay: date("redemption_day", { mode: "string" }).notNull(),
+  claimedAt: timestamp("claimed_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_redemptions_user").on(table.userId),
+  index("idx_redemptions_triggered_deal").on(table.triggeredDealId),
+  index("idx_redemptions_user_promotion_day").on(table.userId, table.promotionId, table.redemptionDay),
+]);
+
 // User alert preferences
 export const alertPreferences = pgTable("alert_preferences", {
   id: serial("id").primaryKey(),
@@ -240,11 +279,43 @@ export const alertHistory = pgTable("alert_history", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id),
   triggeredDealId: integer("triggered_deal_id").references(() => triggeredDeals.id),
-  alertType: varchar("alert_type", { length: 20 }).notNull(), // email, sms
+  alertType: varchar("alert_type", { length: 20 }).notNull(), // email, sms, digest_email, digest_push
   sentAt: timestamp("sent_at").defaultNow(),
   status: varchar("status", { length: 20 }).default("sent"), // sent, failed, pending
 });
 
+// Digest deliveries - one row per user per local day; the unique key stops double sends
+export const digestDeliveries = pgTable("digest_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  digestDate: date("digest_date", { mode: "string" }).notNull(), // user's local date
+  dealCount: integer("deal_count").default(0),
+  emailSent: boolean("email_sent").default(false),
+  pushSent: boolean("push_sent").default(false),
+  status: varchar("status", { length: 20 }).default("pending"), // pending, sent, empty, failed
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_digest_deliveries_user_date").on(table.userId, table.digestDate),
+]);
+
+// Notifications held back by quiet hours, released once the user's window ends
+export const queuedNotifications = pgTable("queued_notifications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  kind: varchar("kind", { length: 30 }).notNull(), // pre_game
+  payload: jsonb("payload").notNull(),
+  status: varchar("status", { length: 20 }).default("queued"), // queued, released, expired, failed
+  releaseAt: timestamp("release_at").notNull(),
+  expiresAt: timestamp("expires_at"), // stale after this, e.g. game start for pre-game alerts
+  releasedAt: timestamp("released_at"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_queued_notifications_status_release").on(table.status, table.releaseAt),
+  index("idx_queued_notifications_user").on(table.userId),
+]);
+
 // Discovery Sources - where we search for deals
 export const discoverySources = pgTable("discovery_sources", {
   id: serial("id").primaryKey(),
@@ -273,8 +344,15 @@ export const searchTerms = pgTable("search_terms", {
   successRate: decimal("success_rate", { precision: 3, scale: 2 }).default("0.00"), // 0-1, tracks how often this term finds deals
   usageCount: integer("usage_count").default(0),
   lastUsed: timestamp("last_used"),
+  origin: varchar("origin", { length: 20 }).default("seed"), // seed, manual, candidate (generated from an approved deal), social
+  sourceDealPageId: integer("source_deal_page_id").references((): AnyPgColumn => dealPages.id), // approved deal a candidate came from
+  autoPause: boolean("auto_pause").default(true), // false once an admin keeps the term running by hand
+  pausedAt: timestamp("paused_at"),
+  pauseReason: text("pause_reason"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("idx_search_terms_term").on(table.term),
+]);
 
 // Discovered Sites - results from our searches
 export const discoveredSites = pgTable("discovered_sites", {
@@ -355,6 +433,22 @@ export const triggeredDealsRelations = relations(triggeredDeals, ({ one, many })
     references: [games.id],
   }),
   alertHistory: many(alertHistory),
+  redemptions: many(redemptions),
+}));
+
+export const redemptionsRelations = relations(redemptions, ({ one }) => ({
+  user: one(users, {
+    fields: [redemptions.userId],
+    references: [users.id],
+  }),
+  triggeredDeal: one(triggeredDeals, {
+    fields: [redemptions.triggeredDealId],
+    references: [triggeredDeals.id],
+  }),
+  promotion: one(promotions, {
+    fields: [redemptions.promotionId],
+    references: [promotions.id],
+  }),
 }));
 
 export const alertPreferencesRelations = relations(alertPreferences, ({ one }) => ({
@@ -404,6 +498,11 @@ export const insertTriggeredDealSchema = createInsertSchema(triggeredDeals).omit
   triggeredAt: true,
 });
 
+export const insertRedemptionSchema = createInsertSchema(redemptions).omit({
+  id: true,
+  claimedAt: true,
+});
+
 export const insertAlertPreferenceSchema = createInsertSchema(alertPreferences).omit({
   id: true,
 });
@@ -413,6 +512,16 @@ export const insertAlertHistorySchema = createInsertSchema(alertHistory).omit({
   sentAt: true,
 });
 
+export const insertDigestDeliverySchema = createInsertSchema(digestDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQueuedNotificationSchema = createInsertSchema(queuedNotifications).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDiscoverySourceSchema = createInsertSchema(discoverySources).omit({
   id: true,
   createdAt: true,
@@ -449,10 +558,16 @@ export type Game = typeof games.$inferSelect;
 export type InsertGame = z.infer<typeof insertGameSchema>;
 export type TriggeredDeal = typeof triggeredDeals.$inferSelect;
 export type InsertTriggeredDeal = z.infer<typeof insertTriggeredDealSchema>;
+export type Redemption = typeof redemptions.$inferSelect;
+export type InsertRedemption = z.infer<typeof insertRedemptionSchema>;
 export type AlertPreference = typeof alertPreferences.$inferSelect;
 export type InsertAlertPreference = z.infer<typeof insertAlertPreferenceSchema>;
 export type AlertHistory = typeof alertHistory.$inferSelect;
 export type InsertAlertHistory = z.infer<typeof insertAlertHistorySchema>;
+export type DigestDelivery = typeof digestDeliveries.$inferSelect;
+export type InsertDigestDelivery = z.infer<typeof insertDigestDeliverySchema>;
+export type QueuedNotification = typeof queuedNotifications.$inferSelect;
+export type InsertQueuedNotification = z.infer<typeof insertQueuedNotificationSchema>;
 export type DiscoverySource = typeof discoverySources.$inferSelect;
 export type InsertDiscoverySource = z.infer<typeof insertDiscoverySourceSchema>;
 export type SearchTerm = typeof searchTerms.$inferSelect;
@@ -484,13 +599,17 @@ export const promotionTriggerEvents = pgTable("promotion_trigger_events", {
 export const deviceTokens = pgTable("device_tokens", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  deviceToken: varchar("device_token", { length: 200 }).notNull().unique(),
+  deviceToken: varchar("device_token", { length: 1024 }).notNull().unique(), // web: push service endpoint URL
   platform: varchar("platform", { length: 10 }).notNull(), // 'ios', 'android', 'web'
   deviceInfo: jsonb("device_info").$type<{
     model?: string;
     osVersion?: string;
     appVersion?: string;
   }>(),
+  webPushKeys: jsonb("web_push_keys").$type<{
+    p256dh: string;
+    auth: string;
+  }>(), // web only: subscription keys used to encrypt payloads
   isActive: boolean("is_active").default(true),
   lastUsed: timestamp("last_used").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -508,6 +627,64 @@ export const insertPromotionTriggerEventSchema = createInsertSchema(promotionTri
 export type PromotionTriggerEvent = typeof promotionTriggerEvents.$inferSelect;
 export type InsertPromotionTriggerEvent = z.infer<typeof insertPromotionTriggerEventSchema>;
 
+// Promotion lifecycle states; legal moves between them live in server/services/promotionStateMachine.ts
+export const PROMOTION_STATES = [
+  "draft",
+  "approved",
+  "validating",
+  "validated",
+  "triggered",
+  "expired",
+  "archived",
+] as const;
+export type PromotionState = typeof PROMOTION_STATES[number];
+
+// Promotion State Transitions - append-only audit trail of promotions.state changes
+export const promotionStateTransitions = pgTable("promotion_state_transitions", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").notNull().references(() => promotions.id, { onDelete: "cascade" }),
+  fromState: varchar("from_state", { length: 20 }), // null for the initial state at creation
+  toState: varchar("to_state", { length: 20 }).notNull(),
+  actor: varchar("actor", { length: 100 }).notNull(), // user id or service name
+  reason: text("reason").notNull(),
+  evidenceHash: varchar("evidence_hash", { length: 64 }), // immutable_evidence.evidence_hash backing the move
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_state_transitions_promotion").on(table.promotionId),
+  index("idx_state_transitions_created").on(table.createdAt),
+]);
+
+export const insertPromotionStateTransitionSchema = createInsertSchema(promotionStateTransitions);
+export type PromotionStateTransition = typeof promotionStateTransitions.$inferSelect;
+export type InsertPromotionStateTransition = z.infer<typeof insertPromotionStateTransitionSchema>;
+
+// Expiry Sweep Runs - what each expiry sweeper pass deactivated, expired or archived
+export const expirySweepRuns = pgTable("expiry_sweep_runs", {
+  id: serial("id").primaryKey(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // scheduled, manual
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  triggeredDealsDeactivated: integer("triggered_deals_deactivated").default(0),
+  dealPagesDeactivated: integer("deal_pages_deactivated").default(0),
+  promotionsExpired: integer("promotions_expired").default(0),
+  promotionsArchived: integer("promotions_archived").default(0),
+  details: jsonb("details").$type<{
+    triggeredDealIds: number[];
+    dealPageIds: number[];
+    expiredPromotionIds: number[];
+    archivedPromotionIds: number[];
+  }>(),
+  errors: jsonb("errors").$type<string[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_expiry_sweep_runs_started").on(table.startedAt),
+]);
+
+export const insertExpirySweepRunSchema = createInsertSchema(expirySweepRuns);
+export type ExpirySweepRun = typeof expirySweepRuns.$inferSelect;
+export type InsertExpirySweepRun = z.infer<typeof insertExpirySweepRunSchema>;
+
 // Immutable evidence storage for audit trails
 export const immutableEvidence = pgTable("immutable_evidence", {
   id: serial("id").primaryKey(),
@@ -526,3 +703,373 @@ export const immutableEvidence = pgTable("immutable_evidence", {
 export const insertImmutableEvidenceSchema = createInsertSchema(immutableEvidence);
 export type ImmutableEvidence = typeof immutableEvidence.$inferSelect;
 export type InsertImmutableEvidence = z.infer<typeof insertImmutableEvidenceSchema>;
+
+// Operational alerts from the AlertManager's database channel, one row per alert
+export const opsAlerts = pgTable("ops_alerts", {
+  id: serial("id").primaryKey(),
+  alertId: varchar("alert_id", { length: 200 }).notNull().unique(),
+  ruleId: varchar("rule_id", { length: 100 }).notNull(),
+  ruleName: varchar("rule_name", { length: 200 }).notNull(),
+  type: varchar("type", { length: 50 }).notNull(),
+  severity: varchar("severity", { length: 20 }).notNull(), // info, warning, critical
+  status: varchar("status", { length: 20 }).notNull(), // firing, resolved, suppressed
+  metric: varchar("metric", { length: 100 }).notNull(),
+  currentValue: doublePrecision("current_value"),
+  threshold: doublePrecision("threshold"),
+  description: text("description"),
+  occurrenceCount: integer("occurrence_count").default(1),
+  evidence: jsonb("evidence").$type<string[]>().default([]),
+  deliveries: jsonb("deliveries").$type<Array<{
+    channel: string;
+    status: "delivered" | "failed";
+    attempts: number;
+    lastAttemptAt: string;
+    error?: string;
+  }>>().default([]),
+  firstFiredAt: timestamp("first_fired_at").notNull(),
+  lastFiredAt: timestamp("last_fired_at").notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  resolutionReason: text("resolution_reason"),
+  resolvedBy: varchar("resolved_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by"),
+  snoozedUntil: timestamp("snoozed_until"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_ops_alerts_status").on(table.status),
+  index("idx_ops_alerts_rule").on(table.ruleId),
+  index("idx_ops_alerts_first_fired").on(table.firstFiredAt),
+]);
+
+export const insertOpsAlertSchema = createInsertSchema(opsAlerts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type OpsAlert = typeof opsAlerts.$inferSelect;
+export type InsertOpsAlert = z.infer<typeof insertOpsAlertSchema>;
+
+// Rule-level silences: matching alerts are still recorded but not notified
+export const opsAlertSilences = pgTable("ops_alert_silences", {
+  id: serial("id").primaryKey(),
+  ruleId: varchar("rule_id", { length: 100 }).notNull().unique(),
+  silencedUntil: timestamp("silenced_until").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOpsAlertSilenceSchema = createInsertSchema(opsAlertSilences).omit({
+  id: true,
+  createdAt: true,
+});
+export type OpsAlertSilence = typeof opsAlertSilences.$inferSelect;
+export type InsertOpsAlertSilence = z.infer<typeof insertOpsAlertSilenceSchema>;
+
+// User-defined alert rules; built-in rules live in code and are not stored
+export const opsAlertRules = pgTable("ops_alert_rules", {
+  id: serial("id").primaryKey(),
+  ruleId: varchar("rule_id", { length: 100 }).notNull().unique(),
+  name: varchar("name", { length: 200 }).notNull(),
+  description: text("description"),
+  expression: text("expression").notNull(), // e.g. "validationLatency.p95 > 2000 for 5m"
+  severity: varchar("severity", { length: 20 }).notNull(), // info, warning, critical
+  enabled: boolean("enabled").default(true),
+  channels: jsonb("channels").$type<string[]>().default([]), // channel types; empty uses the defaults
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertOpsAlertRuleSchema = createInsertSchema(opsAlertRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type OpsAlertRule = typeof opsAlertRules.$inferSelect;
+export type InsertOpsAlertRule = z.infer<typeof insertOpsAlertRuleSchema>;
+
+// Audit trail of recovery playbook runs, automatic and manual
+export const recoveryActionLogs = pgTable("recovery_action_logs", {
+  id: serial("id").primaryKey(),
+  actionId: varchar("action_id", { length: 200 }).notNull().unique(),
+  playbookId: varchar("playbook_id", { length: 100 }).notNull(),
+  component: varchar("component", { length: 100 }).notNull(),
+  action: varchar("action", { length: 50 }).notNull(), // restart, reset_circuit_breaker, clear_cache, reset_rate_limiter, custom
+  trigger: varchar("trigger", { length: 20 }).notNull(), // automatic, manual
+  result: varchar("result", { length: 20 }).notNull(), // success, failure
+  requestedBy: varchar("requested_by"),
+  reason: text("reason"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  executedAt: timestamp("executed_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_recovery_action_logs_playbook").on(table.playbookId),
+  index("idx_recovery_action_logs_executed").on(table.executedAt),
+]);
+
+export const insertRecoveryActionLogSchema = createInsertSchema(recoveryActionLogs).omit({
+  id: true,
+  createdAt: true,
+});
+export type RecoveryActionLog = typeof recoveryActionLogs.$inferSelect;
+export type InsertRecoveryActionLog = z.infer<typeof insertRecoveryActionLogSchema>;
+
+// Per-component daily health sample counts behind the public status page's uptime history
+export const statusDailyRollups = pgTable("status_daily_rollups", {
+  id: serial("id").primaryKey(),
+  day: date("day", { mode: "string" }).notNull(), // UTC calendar day
+  component: varchar("component", { length: 50 }).notNull(), // public component id, e.g. sports_data
+  checks: integer("checks").notNull().default(0),
+  degradedChecks: integer("degraded_checks").notNull().default(0),
+  outageChecks: integer("outage_checks").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_status_daily_rollups_day_component").on(table.day, table.component),
+]);
+
+export type StatusDailyRollup = typeof statusDailyRollups.$inferSelect;
+
+// Durable GameMonitor event log; eventIds are derived from game state so re-detections de-duplicate
+export const gameEvents = pgTable("game_events", {
+  id: serial("id").primaryKey(),
+  eventId: varchar("event_id", { length: 200 }).notNull().unique(),
+  gameId: varchar("game_id", { length: 100 }).notNull(),
+  eventType: varchar("event_type", { length: 20 }).notNull(), // game_start, game_end, status_change, score_change, play
+  triggered: boolean("triggered").notNull(),
+  processingStatus: varchar("processing_status", { length: 20 }).notNull().default("pending"), // pending, processing, completed, failed
+  retryCount: integer("retry_count").notNull().default(0),
+  previousState: jsonb("previous_state"),
+  currentState: jsonb("current_state").notNull(),
+  play: jsonb("play"), // parsed play for 'play' events
+  evidenceHash: varchar("evidence_hash", { length: 64 }),
+  error: text("error"),
+  occurredAt: timestamp("occurred_at").notNull(),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_game_events_game").on(table.gameId),
+  index("idx_game_events_processing_status").on(table.processingStatus),
+]);
+
+export const insertGameEventSchema = createInsertSchema(gameEvents).omit({
+  id: true,
+  createdAt: true,
+});
+export type GameEventRecord = typeof gameEvents.$inferSelect;
+export type InsertGameEventRecord = z.infer<typeof insertGameEventSchema>;
+
+export const gameMonitorCheckpoints = pgTable("game_monitor_checkpoints", {
+  id: serial("id").primaryKey(),
+  checkpointId: varchar("checkpoint_id", { length: 100 }).notNull().unique(),
+  lastProcessedEventId: varchar("last_processed_event_id", { length: 200 }),
+  gamesMonitored: jsonb("games_monitored").$type<string[]>().default([]),
+  processingStats: jsonb("processing_stats").$type<{
+    eventsProcessed: number;
+    eventsSkipped: number;
+    eventsFailed: number;
+    averageProcessingTime: number;
+  }>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_game_monitor_checkpoints_created").on(table.createdAt),
+]);
+
+export const insertGameMonitorCheckpointSchema = createInsertSchema(gameMonitorCheckpoints).omit({
+  id: true,
+  createdAt: true,
+});
+export type GameMonitorCheckpointRecord = typeof gameMonitorCheckpoints.$inferSelect;
+export type InsertGameMonitorCheckpointRecord = z.infer<typeof insertGameMonitorCheckpointSchema>;
+
+// Human review queue for consensus decisions the engine could not settle (NEEDS_REVIEW)
+export const reconciliationReviews = pgTable("reconciliation_reviews", {
+  id: serial("id").primaryKey(),
+  gameId: varchar("game_id", { length: 100 }).notNull(), // external game id
+  promotionId: integer("promotion_id").references(() => promotions.id),
+  eventId: varchar("event_id", { length: 200 }), // game event whose workflow is waiting on the review
+  executionId: varchar("execution_id", { length: 200 }),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, resolved
+  consensusStatus: varchar("consensus_status", { length: 20 }).notNull(),
+  confidence: doublePrecision("confidence"),
+  decisionRationale: text("decision_rationale"),
+  sources: jsonb("sources").$type<any[]>().notNull(), // SourceContribution[] as the engine saw them
+  disputedFields: jsonb("disputed_fields").$type<string[]>().notNull().default([]),
+  proposedGameData: jsonb("proposed_game_data").notNull(),
+  consensusEvidenceHash: varchar("consensus_evidence_hash", { length: 64 }),
+  resolution: jsonb("resolution").$type<Record<string, { source: string; value: string | number | boolean }>>(),
+  resolvedGameData: jsonb("resolved_game_data"),
+  decisionEvidenceHash: varchar("decision_evidence_hash", { length: 64 }),
+  reviewNote: text("review_note"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_reconciliation_reviews_status").on(table.status),
+  index("idx_reconciliation_reviews_game").on(table.gameId),
+]);
+
+export const insertReconciliationReviewSchema = createInsertSchema(reconciliationReviews).omit({
+  id: true,
+  createdAt: true,
+});
+export type ReconciliationReview = typeof reconciliationReviews.$inferSelect;
+export type InsertReconciliationReview = z.infer<typeof insertReconciliationReviewSchema>;
+
+// Metro areas deals are discovered in. Teams join a market through
+// teams.marketId; discovery, precision filtering and pattern matching run per
+// market, so onboarding a city is a new row rather than new code.
+export type MarketRestaurant = { name: string; domain: string };
+
+export const markets = pgTable("markets", {
+  id: serial("id").primaryKey(),
+  slug: varchar("slug", { length: 50 }).notNull().unique(), // los-angeles
+  name: varchar("name", { length: 100 }).notNull(), // Los Angeles
+  region: varchar("region", { length: 50 }), // CA
+  restaurants: jsonb("restaurants").$type<MarketRestaurant[]>().notNull().default([]), // chains running local promotions
+  newsDomains: jsonb("news_domains").$type<string[]>().notNull().default([]), // major local news outlets
+  teamSites: jsonb("team_sites").$type<string[]>().notNull().default([]), // official team sites, e.g. dodgers.com
+  trustedSources: jsonb("trusted_sources").$type<string[]>().notNull().default([]), // local papers and fan sites
+  locationKeywords: jsonb("location_keywords").$type<string[]>().notNull().default([]), // places content in this market
+  excludedKeywords: jsonb("excluded_keywords").$type<string[]>().notNull().default([]), // places content in another one
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_markets_is_active").on(table.isActive),
+]);
+
+export const insertMarketSchema = createInsertSchema(markets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type Market = typeof markets.$inferSelect;
+export type InsertMarket = z.infer<typeof insertMarketSchema>;
+
+// Deal pattern library used by DealPatternMatcher. Reviews of discovered deals
+// feed back into each pattern's confidence, and approved deals that no pattern
+// recognised are proposed as new patterns for an admin to accept.
+export const dealPatterns = pgTable("deal_patterns", {
+  id: varchar("id", { length: 100 }).primaryKey(), // e.g. mcdonalds-dodgers-6runs
+  marketId: integer("market_id").references(() => markets.id).notNull(),
+  restaurant: varchar("restaurant", { length: 100 }).notNull(),
+  team: varchar("team", { length: 100 }).notNull(), // team nickname, e.g. Dodgers
+  sport: varchar("sport", { length: 20 }).notNull(),
+  triggerType: varchar("trigger_type", { length: 20 }).notNull(), // win, score, performance, occurrence
+  conditions: jsonb("conditions").$type<{
+    venue?: 'home' | 'away' | 'any';
+    scoreThreshold?: number;
+    margin?: number;
+    occurrenceType?: string;
+  }>().notNull().default({}),
+  reward: jsonb("reward").$type<{ item: string; value: string; promoCode?: string }>().notNull(),
+  phrases: jsonb("phrases").$type<string[]>().notNull().default([]), // phrasings the fuzzy matcher compares against
+  confidence: doublePrecision("confidence").notNull(),
+  seasonalPattern: boolean("seasonal_pattern").default(true),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, proposed, dismissed, disabled
+  sourceSiteId: integer("source_site_id").references(() => discoveredSites.id), // approved deal a proposal came from
+  confirmedCount: integer("confirmed_count").notNull().default(0),
+  rejectedCount: integer("rejected_count").notNull().default(0),
+  lastSeen: timestamp("last_seen"),
+  reviewedBy: varchar("reviewed_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_deal_patterns_status").on(table.status),
+  index("idx_deal_patterns_market").on(table.marketId),
+  index("idx_deal_patterns_source_site").on(table.sourceSiteId),
+]);
+
+export const insertDealPatternSchema = createInsertSchema(dealPatterns).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+export type DealPatternRecord = typeof dealPatterns.$inferSelect;
+export type InsertDealPatternRecord = z.infer<typeof insertDealPatternSchema>;
+
+// Declarative per-site extraction recipes, run by both the fetch-based
+// (SimpleExtractionEngine) and Puppeteer (DealExtractionEngine) engines.
+// Selectors are a CSS subset both engines support (see staticHtmlDocument.ts).
+export const RECIPE_FIELDS = ['title', 'offer', 'trigger', 'value', 'code', 'instructions', 'terms'] as const;
+export type RecipeField = typeof RECIPE_FIELDS[number];
+
+export interface RecipeFieldRule {
+  selectors?: string[]; // tried in order; the first element with text wins
+  pattern?: string; // case-insensitive regex run on the selected text, or the page text when no selector matched
+  template?: string; // built from capture groups, e.g. "{1} Panda Plate" ({0} is the whole match); defaults to group 1, else the whole match
+  fallback?: string; // used when nothing matched; does not count towards confidence
+}
+
+export interface RecipeImageRule {
+  selectors?: string[]; // <img> elements (or elements with the attribute) tried in order
+  attribute?: string; // defaults to src
+  keywords?: string[]; // otherwise the first <img> whose markup mentions one of these
+}
+
+export const extractionRecipes = pgTable("extraction_recipes", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  restaurant: varchar("restaurant", { length: 100 }).notNull(),
+  domain: varchar("domain", { length: 200 }), // e.g. pandaexpress.com, matches subdomains
+  urlPattern: text("url_pattern"), // regex tested against the full URL, for recipes narrower than a domain
+  priority: integer("priority").notNull().default(0), // higher wins when several recipes match a URL
+  fields: jsonb("fields").$type<Partial<Record<RecipeField, RecipeFieldRule>>>().notNull().default({}),
+  image: jsonb("image").$type<RecipeImageRule>(),
+  requiredFields: jsonb("required_fields").$type<RecipeField[]>().notNull().default([]), // no deal unless these matched
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_extraction_recipes_domain").on(table.domain),
+  index("idx_extraction_recipes_is_active").on(table.isActive),
+]);
+
+export const insertExtractionRecipeSchema = createInsertSchema(extractionRecipes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type ExtractionRecipe = typeof extractionRecipes.$inferSelect;
+export type InsertExtractionRecipe = z.infer<typeof insertExtractionRecipeSchema>;
+
+// Saved page HTML, so recipes can be tried against a real page without refetching it
+export const htmlSnapshots = pgTable("html_snapshots", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  html: text("html").notNull(),
+  capturedBy: varchar("captured_by"),
+  capturedAt: timestamp("captured_at").defaultNow(),
+}, (table) => [
+  index("idx_html_snapshots_url").on(table.url),
+]);
+
+export const insertHtmlSnapshotSchema = createInsertSchema(htmlSnapshots).omit({
+  id: true,
+  capturedAt: true,
+});
+export type HtmlSnapshot = typeof htmlSnapshots.$inferSelect;
+export type InsertHtmlSnapshot = z.infer<typeof insertHtmlSnapshotSchema>;
+
+// Periodic effectiveness snapshots per search term, for trend charts
+export const searchTermStats = pgTable("search_term_stats", {
+  id: serial("id").primaryKey(),
+  searchTermId: integer("search_term_id").references(() => searchTerms.id, { onDelete: "cascade" }).notNull(),
+  usageCount: integer("usage_count").notNull().default(0),
+  sitesFound: integer("sites_found").notNull().default(0),
+  approvedDeals: integer("approved_deals").notNull().default(0), // discovered sites that became deal pages
+  rejectedSites: integer("rejected_sites").notNull().default(0),
+  successRate: decimal("success_rate", { precision: 3, scale: 2 }).notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow(),
+}, (table) => [
+  index("idx_search_term_stats_term_recorded").on(table.searchTermId, table.recordedAt),
+]);
+
+export const insertSearchTermStatSchema = createInsertSchema(searchTermStats).omit({
+  id: true,
+  recordedAt: true,
+});
+export type SearchTermStat = typeof searchTermStats.$inferSelect;
+export type InsertSearchTermStat = z.infer<typeof insertSearchTermStatSchema>;
@@ -95,7 +95,7 @@ async function testEnhancedSportsApiService() {
     console.log('Testing circuit breaker status...');
     const healthStatus = await enhancedSportsApi.getSourceHealth();
     logTest('Enhanced Sports API - Circuit breaker health', 
-      healthStatus.espn && healthStatus.mlb && healthStatus.overall,
+      healthStatus.sources.espn && healthStatus.sources.mlb && healthStatus.overall,
       'Missing health status components'
     );
 